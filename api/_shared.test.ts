@@ -0,0 +1,38 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { HttpError, enforceRateLimit, getClientId, rateLimitedClientCount, serverConfig } from './_shared';
+
+const request = (forwardedFor?: string, remoteAddress = '10.0.0.1') =>
+  ({ headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+const response = () => ({ setHeader: () => undefined }) as unknown as ServerResponse;
+
+describe('getClientId', () => {
+  it('uses the address our proxy appended, not one the client made up', () => {
+    expect(getClientId(request('6.6.6.6, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(getClientId(request('203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('falls back to the socket address', () => {
+    expect(getClientId(request())).toBe('10.0.0.1');
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('rejects a client over the per-minute limit', () => {
+    const now = 1_000_000;
+    const req = request('198.51.100.1');
+    for (let i = 0; i < serverConfig.rateLimitPerMinute; i++) enforceRateLimit(req, response(), now);
+    expect(() => enforceRateLimit(req, response(), now)).toThrow(HttpError);
+    // A new window starts afresh
+    expect(() => enforceRateLimit(req, response(), now + 60_000)).not.toThrow();
+  });
+
+  it('forgets clients whose window has ended', () => {
+    const start = 5_000_000;
+    for (let i = 0; i < 50; i++) enforceRateLimit(request(`192.0.2.${i}`), response(), start);
+    expect(rateLimitedClientCount()).toBeGreaterThanOrEqual(50);
+    enforceRateLimit(request('192.0.2.200'), response(), start + 60_000);
+    expect(rateLimitedClientCount()).toBe(1);
+  });
+});
@@ -0,0 +1,172 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import OpenAI from 'openai';
+
+// Files prefixed with "_" are not deployed as routes by Vercel, so this module is shared by the handlers only.
+
+// ==================== CONFIGURATION ====================
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+export const serverConfig = {
+  apiKey: process.env.OPENAI_API_KEY || process.env.LLM_API_KEY,
+  // Point at any OpenAI-compatible server (Ollama, llama.cpp) to run the proxy without OpenAI
+  baseURL: process.env.LLM_BASE_URL || undefined,
+  chatModel: process.env.LLM_CHAT_MODEL || 'gpt-3.5-turbo',
+  embeddingModel: process.env.LLM_EMBEDDING_MODEL || 'text-embedding-ada-002',
+  temperature: parseNumber(process.env.LLM_TEMPERATURE, 0.7),
+  maxTokens: parseNumber(process.env.LLM_MAX_TOKENS, 500),
+  mock: process.env.LLM_PROXY_MOCK === '1' || process.env.LLM_PROXY_MOCK === 'true',
+  maxBodyBytes: parseNumber(process.env.PROXY_MAX_BODY_BYTES, 32 * 1024),
+  rateLimitPerMinute: parseNumber(process.env.PROXY_RATE_LIMIT_PER_MINUTE, 20),
+  // Proxies in front of the handler that append to X-Forwarded-For (Vercel's edge is one); 0 trusts only the socket
+  trustedProxyHops: parseNumber(process.env.PROXY_TRUSTED_HOPS, 1),
+  maxEmbeddingInputs: parseNumber(process.env.PROXY_MAX_EMBEDDING_INPUTS, 100)
+};
+
+let client: OpenAI | null = null;
+
+// Returns null when no upstream is configured; local servers don't need a key
+export const getUpstreamClient = (): OpenAI | null => {
+  if (client) return client;
+  if (!serverConfig.apiKey && !serverConfig.baseURL) return null;
+  client = new OpenAI({
+    apiKey: serverConfig.apiKey || 'not-needed',
+    baseURL: serverConfig.baseURL
+  });
+  return client;
+};
+
+// ==================== ERRORS ====================
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ==================== REQUEST HELPERS ====================
+export const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(payload));
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: error.message });
+    return;
+  }
+  console.error('Proxy error:', error);
+  sendJson(res, 502, { error: 'Upstream model request failed' });
+};
+
+export const requireMethod = (req: IncomingMessage, method: string) => {
+  if (req.method !== method) {
+    throw new HttpError(405, `Method ${req.method} not allowed`);
+  }
+};
+
+export const readJsonBody = (req: IncomingMessage): Promise<Record<string, unknown>> => new Promise((resolve, reject) => {
+  const declaredLength = parseInt(req.headers['content-length'] || '0', 10);
+  if (declaredLength > serverConfig.maxBodyBytes) {
+    reject(new HttpError(413, 'Request body too large'));
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > serverConfig.maxBodyBytes) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      const parsed = chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        reject(new HttpError(400, 'Request body must be a JSON object'));
+        return;
+      }
+      resolve(parsed);
+    } catch {
+      reject(new HttpError(400, 'Request body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// ==================== RATE LIMITING ====================
+// Fixed one-minute window per client. State lives in the function instance, which is enough to
+// stop a runaway tab or script; it is not a substitute for a shared store across instances.
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const rateLimitBuckets = new Map<string, { windowStart: number; count: number }>();
+let lastSweep = 0;
+
+// Each proxy appends the address it saw, so only the entry our own proxy added can be trusted;
+// anything to its left came from the client and would let one client rotate through made-up ids
+export const getClientId = (req: IncomingMessage): string => {
+  const forwarded = [req.headers['x-forwarded-for'] ?? []].flat()
+    .flatMap(header => header.split(','))
+    .map(address => address.trim())
+    .filter(Boolean);
+  const hops = serverConfig.trustedProxyHops;
+  const fromProxy = hops > 0 ? forwarded[Math.max(0, forwarded.length - hops)] : undefined;
+  return fromProxy || req.socket.remoteAddress || 'unknown';
+};
+
+// Drops clients whose window has ended, at most once a window, so the map doesn't grow with every address ever seen
+const sweepExpiredBuckets = (now: number) => {
+  if (now - lastSweep < RATE_LIMIT_WINDOW_MS) return;
+  lastSweep = now;
+  rateLimitBuckets.forEach((bucket, clientId) => {
+    if (now - bucket.windowStart >= RATE_LIMIT_WINDOW_MS) rateLimitBuckets.delete(clientId);
+  });
+};
+
+export const rateLimitedClientCount = (): number => rateLimitBuckets.size;
+
+export const enforceRateLimit = (req: IncomingMessage, res: ServerResponse, now: number = Date.now()) => {
+  sweepExpiredBuckets(now);
+  const clientId = getClientId(req);
+  const bucket = rateLimitBuckets.get(clientId);
+
+  if (!bucket || now - bucket.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    rateLimitBuckets.set(clientId, { windowStart: now, count: 1 });
+    return;
+  }
+
+  bucket.count += 1;
+  if (bucket.count > serverConfig.rateLimitPerMinute) {
+    const retryAfterSeconds = Math.ceil((bucket.windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    throw new HttpError(429, 'Too many requests, please slow down');
+  }
+};
+
+// ==================== MOCK MODE ====================
+// Deterministic responses so the app and tests can run without any model behind the proxy
+const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+export const mockChatReply = (messages: Array<{ role: string; content: string }>): string => {
+  const lastUser = [...messages].reverse().find(m => m.role === 'user');
+  return `Mock answer to: "${lastUser?.content ?? ''}". Please consult your healthcare provider.`;
+};
+
+export const mockEmbedding = (text: string): number[] => {
+  const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  text.toLowerCase().split(/\W+/).filter(Boolean).forEach(word => {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  });
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / magnitude);
+};
@@ -0,0 +1,113 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  HttpError,
+  enforceRateLimit,
+  getUpstreamClient,
+  mockChatReply,
+  readJsonBody,
+  requireMethod,
+  sendError,
+  sendJson,
+  serverConfig
+} from './_shared';
+
+type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+const MAX_MESSAGES = 50;
+const MAX_TOKENS_CEILING = 2000;
+const MAX_TEMPERATURE = 2;
+
+const parseMessages = (value: unknown): ChatMessage[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_MESSAGES) {
+    throw new HttpError(400, `"messages" must be an array of 1-${MAX_MESSAGES} messages`);
+  }
+  return value.map((message, i) => {
+    const { role, content } = (message ?? {}) as Record<string, unknown>;
+    if ((role !== 'system' && role !== 'user' && role !== 'assistant') || typeof content !== 'string') {
+      throw new HttpError(400, `messages[${i}] must have a role and string content`);
+    }
+    return { role, content };
+  });
+};
+
+// Optional numeric settings must be in range; a bad value is the caller's bug, so say so instead of guessing
+const parseOptionalNumber = (value: unknown, name: string, min: number, max: number, fallback: number, integer = false): number => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new HttpError(400, `"${name}" must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+  }
+  return value;
+};
+
+const writeEvent = (res: ServerResponse, data: unknown, event?: string) => {
+  if (event) res.write(`event: ${event}\n`);
+  res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+};
+
+// POST /api/chat { messages, temperature?, maxTokens?, stream? }
+// Returns { content }, or a text/event-stream of { token } events ending in [DONE] when stream is true
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  try {
+    requireMethod(req, 'POST');
+    enforceRateLimit(req, res);
+    const body = await readJsonBody(req);
+    const messages = parseMessages(body.messages);
+    const temperature = parseOptionalNumber(body.temperature, 'temperature', 0, MAX_TEMPERATURE, serverConfig.temperature);
+    const maxTokens = parseOptionalNumber(
+      body.maxTokens, 'maxTokens', 1, MAX_TOKENS_CEILING, Math.min(serverConfig.maxTokens, MAX_TOKENS_CEILING), true
+    );
+    const upstream = serverConfig.mock ? null : getUpstreamClient();
+    if (!serverConfig.mock && !upstream) {
+      throw new HttpError(503, 'Assistant is not configured on the server');
+    }
+
+    if (body.stream !== true) {
+      const content = upstream
+        ? (await upstream.chat.completions.create({
+            model: serverConfig.chatModel,
+            messages,
+            temperature,
+            max_tokens: maxTokens
+          })).choices[0]?.message.content || ''
+        : mockChatReply(messages);
+      sendJson(res, 200, { content });
+      return;
+    }
+
+    // Stop generating upstream as soon as the browser goes away
+    const abortController = new AbortController();
+    req.on('close', () => abortController.abort());
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    try {
+      if (upstream) {
+        const stream = await upstream.chat.completions.create(
+          { model: serverConfig.chatModel, messages, temperature, max_tokens: maxTokens, stream: true },
+          { signal: abortController.signal }
+        );
+        for await (const chunk of stream) {
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) writeEvent(res, { token });
+        }
+      } else {
+        mockChatReply(messages).split(/(?<= )/).forEach(token => writeEvent(res, { token }));
+      }
+      writeEvent(res, '[DONE]');
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error('Proxy stream error:', error);
+        writeEvent(res, { error: 'Upstream model request failed' }, 'error');
+      }
+    }
+    res.end();
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,50 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  HttpError,
+  enforceRateLimit,
+  getUpstreamClient,
+  mockEmbedding,
+  readJsonBody,
+  requireMethod,
+  sendError,
+  sendJson,
+  serverConfig
+} from './_shared';
+
+// POST /api/embeddings { input: string[] } -> { embeddings: number[][] } in input order
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  try {
+    requireMethod(req, 'POST');
+    enforceRateLimit(req, res);
+    const body = await readJsonBody(req);
+    const input = body.input;
+    if (
+      !Array.isArray(input) ||
+      input.length === 0 ||
+      input.length > serverConfig.maxEmbeddingInputs ||
+      !input.every(item => typeof item === 'string')
+    ) {
+      throw new HttpError(400, `"input" must be an array of 1-${serverConfig.maxEmbeddingInputs} strings`);
+    }
+
+    if (serverConfig.mock) {
+      sendJson(res, 200, { embeddings: input.map(mockEmbedding) });
+      return;
+    }
+
+    const upstream = getUpstreamClient();
+    if (!upstream) {
+      throw new HttpError(503, 'Assistant is not configured on the server');
+    }
+
+    const response = await upstream.embeddings.create({
+      model: serverConfig.embeddingModel,
+      input,
+      encoding_format: 'float'
+    });
+    const embeddings = [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    sendJson(res, 200, { embeddings });
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,18 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { getUpstreamClient, requireMethod, sendError, sendJson, serverConfig } from './_shared';
+
+// GET /api/health -> whether the proxy can answer, and with which models. Never exposes the key.
+export default function handler(req: IncomingMessage, res: ServerResponse) {
+  try {
+    requireMethod(req, 'GET');
+    const configured = serverConfig.mock || getUpstreamClient() !== null;
+    sendJson(res, configured ? 200 : 503, {
+      status: configured ? 'ok' : 'unconfigured',
+      mock: serverConfig.mock,
+      chatModel: serverConfig.chatModel,
+      embeddingModel: serverConfig.embeddingModel
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,107 @@
+// Service worker: keeps the app working offline and delivers reminder notifications.
+// Reminder scheduling happens in the page (src/reminders.ts); this shows the notifications and handles their buttons.
+
+// Replaced with a hash of the build by vite.config.js, so each deploy installs a new worker with its own cache
+const BUILD_ID = 'dev';
+const CACHE_NAME = `pregnancy-tracker-${BUILD_ID}`;
+// Always cached; production builds add their hashed scripts and styles through precache-manifest.json
+const SHELL_URLS = ['/', '/index.html', '/knowledgeBase.json', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+
+// ==================== PRECACHE ====================
+const getPrecacheUrls = async () => {
+  try {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    const built = response.ok ? await response.json() : [];
+    return Array.from(new Set([...SHELL_URLS, ...built]));
+  } catch (error) {
+    // The dev server has no build manifest
+    return SHELL_URLS;
+  }
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    // One missing file shouldn't leave the rest uncached
+    await Promise.all((await getPrecacheUrls()).map(url =>
+      cache.add(new Request(url, { cache: 'reload' })).catch(error => console.warn(`Failed to precache ${url}:`, error))
+    ));
+    await self.skipWaiting();
+  })());
+});
+
+// Drop the caches of earlier builds, along with their hashed files
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// ==================== FETCH ====================
+// Hashed build files never change, so the cached copy is always right
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(CACHE_NAME)).put(request, response.clone());
+  return response;
+};
+
+// Pages and the knowledge base stay fresh online and fall back to the last copy offline
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(CACHE_NAME)).put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('/index.html');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The chat and embeddings APIs need the network; the app handles them failing
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate' || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// ==================== NOTIFICATIONS ====================
+// Tell an open app window about the tap, or open one with the action in the URL.
+// "Done" only clears the reminder from open windows: a closed app has no banner left to clear.
+const sendToApp = async message => {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (message.type === 'reminder-done') {
+    windows.forEach(client => client.postMessage(message));
+    return;
+  }
+  const client = windows[0];
+  if (client) {
+    client.postMessage(message);
+    if (message.type === 'reminder-open') await client.focus();
+    return;
+  }
+  const params = new URLSearchParams({ reminder: message.reminderId, action: message.type, tab: message.tab || '' });
+  await self.clients.openWindow(`/?${params}`);
+};
+
+self.addEventListener('notificationclick', event => {
+  const { reminderId, tab } = event.notification.data || {};
+  event.notification.close();
+  if (!reminderId) return;
+  const type = event.action === 'done' ? 'reminder-done' : event.action === 'snooze' ? 'reminder-snooze' : 'reminder-open';
+  event.waitUntil(sendToApp({ type, reminderId, tab }));
+});
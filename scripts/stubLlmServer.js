@@ -0,0 +1,104 @@
+// Minimal OpenAI-compatible server for running the assistant offline.
+// Usage: npm run stub-llm, then start the app with
+//   VITE_LLM_PROVIDER=local VITE_LLM_BASE_URL=http://localhost:8787/v1
+import http from 'node:http';
+
+const PORT = parseInt(process.env.STUB_LLM_PORT || '8787', 10);
+const EMBEDDING_DIMENSIONS = 64;
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+// Deterministic bag-of-words vector so similar texts get similar embeddings
+const embed = (text) => {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  text.toLowerCase().split(/\W+/).filter(Boolean).forEach(word => {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % EMBEDDING_DIMENSIONS] += 1;
+  });
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / magnitude);
+};
+
+const replyFor = (messages) => {
+  const lastUser = [...(messages || [])].reverse().find(m => m.role === 'user');
+  return `Stub answer to: "${lastUser ? lastUser.content : ''}". Please consult your healthcare provider.`;
+};
+
+const sendJson = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+    });
+    res.end();
+    return;
+  }
+
+  try {
+    if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+      const body = await readJson(req);
+      const content = replyFor(body.messages);
+
+      if (body.stream) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Access-Control-Allow-Origin': '*'
+        });
+        content.split(/(?<= )/).forEach(token => {
+          res.write(`data: ${JSON.stringify({
+            id: 'stub', object: 'chat.completion.chunk', model: body.model,
+            choices: [{ index: 0, delta: { content: token }, finish_reason: null }]
+          })}\n\n`);
+        });
+        res.write('data: [DONE]\n\n');
+        res.end();
+        return;
+      }
+
+      sendJson(res, 200, {
+        id: 'stub', object: 'chat.completion', model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+      });
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/v1/embeddings') {
+      const body = await readJson(req);
+      const inputs = Array.isArray(body.input) ? body.input : [body.input];
+      sendJson(res, 200, {
+        object: 'list', model: body.model,
+        data: inputs.map((input, index) => ({ object: 'embedding', index, embedding: embed(String(input)) }))
+      });
+      return;
+    }
+
+    sendJson(res, 404, { error: { message: `Unknown route ${req.method} ${req.url}` } });
+  } catch (error) {
+    sendJson(res, 400, { error: { message: error.message } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Stub LLM server listening on http://localhost:${PORT}/v1`);
+});
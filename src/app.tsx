@@ -1,321 +1,735 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Calendar, Pill, AlertCircle, Apple, MessageCircle, Home, Baby, ChevronRight, Send, X, Search, Heart, Activity, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
-import OpenAI from 'openai';
+import { Calendar, Pill, AlertCircle, Apple, MessageCircle, Home, Baby, ChevronRight, Send, X, Search, Heart, Activity, FileText, AlertTriangle, CheckCircle, Square, RotateCcw, History, Plus, Pencil, Trash2, BookOpen, TrendingUp, TrendingDown, Minus, Download, CalendarCheck, Bell, WifiOff, Globe } from 'lucide-react';
+import {
+  DatingInput,
+  DatingMethod,
+  DATING_METHOD_LABELS,
+  estimateDueDate,
+  getGestationalAge,
+  getTrimester,
+  loadDatingInput,
+  parseLocalDate,
+  saveDatingInput,
+  toDateInputValue,
+  useGestationalAge
+} from './gestationalAge';
+import {
+  FoodVerdict,
+  Medication,
+  MedicationCondition,
+  MorningSicknessManagement,
+  NutrientUpperLimit,
+  PregnancyKnowledgeGraph,
+  Symptom,
+  SymptomCategory,
+  ValidationIssue,
+  WeekInfo,
+  validateKnowledgeBase
+} from './knowledgeBaseSchema';
+import { LLMProvider, createLLMProvider } from './llmProvider';
+import { EmbeddingStore, buildEmbeddingIndex, createEmbeddingStore } from './embeddingIndex';
+import {
+  Bm25Index,
+  DEFAULT_RETRIEVAL_OPTIONS,
+  RetrievalOptions,
+  ScoredId,
+  cosineSimilarity,
+  fuseRankings
+} from './retrieval';
+import {
+  Conversation,
+  Message,
+  WELCOME_MESSAGE,
+  createConversation,
+  createId,
+  loadConversations,
+  saveConversations,
+  searchConversations,
+  selectHistory,
+  summarizeHistory,
+  titleFromMessages,
+  toChatMessages
+} from './conversations';
+import { CITATION_INSTRUCTIONS, parseCitations, stripCitations } from './citations';
+import {
+  LOCALES,
+  Locale,
+  MessageKey,
+  createTranslator,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatTime,
+  languageInstruction,
+  loadLocale,
+  localize,
+  saveLocale
+} from './i18n';
+import { detectRedFlags } from './triage';
+import {
+  TRIAGE_FLOWS,
+  TriageAnswer,
+  TriageAnswers,
+  TriageLogEntry,
+  createTriageLogEntry,
+  describeAnswers,
+  evaluateTriage,
+  loadTriageLog,
+  saveTriageLog,
+  visibleQuestions
+} from './symptomQuestionnaire';
+import {
+  JOURNAL_SEVERITIES,
+  JournalEntry,
+  JournalSeverity,
+  buildHeatmap,
+  createJournalEntry,
+  findEntryRedFlags,
+  formatJournalDate,
+  loadJournal,
+  saveJournal,
+  sortEntries,
+  weekOverWeekTrends
+} from './symptomJournal';
+import {
+  GainBand,
+  WeightTrackerData,
+  WeightUnit,
+  addWeighIn,
+  calculateBmi,
+  expectedGainAt,
+  findGainBand,
+  formatWeight,
+  fromKg,
+  getWeightStatus,
+  loadWeightTracker,
+  saveWeightTracker,
+  toKg
+} from './weightGain';
+import {
+  MedicationFrequency,
+  MedicationKind,
+  MedicationLogEntry,
+  assessMedication,
+  createMedicationLogEntry,
+  getDueDoses,
+  getNextDoseTime,
+  loadMedicationLog,
+  markDoseTaken,
+  saveMedicationLog
+} from './medicationLog';
+import { MedicationLookup, MedicationMatch, MedicationResolver, assessMatch, matchNames } from './medicationLookup';
+import {
+  FoodDiaryEntry,
+  MEALS,
+  Meal,
+  NutrientProgress,
+  buildNutrientProgress,
+  createFoodDiaryEntry,
+  dailyTotals,
+  findUpperLimitWarnings,
+  formatNutrientAmount,
+  loadFoodDiary,
+  prescribedTotals,
+  saveFoodDiary
+} from './foodDiary';
+import { NUTRIENT_FOODS, findNutrientFood, findNutrientFoodByName } from './nutrientDatabase';
+import {
+  COMMON_CONDITIONS,
+  DEFAULT_PROFILE,
+  DIET_LABELS,
+  Diet,
+  PROFILE_STEPS,
+  PregnancyProfile,
+  ProfileStep,
+  babiesLabel,
+  conditionLabel,
+  describeProfile,
+  dietExcludes,
+  dietName,
+  findAllergyMatches,
+  getDietNotes,
+  getProfileNotes,
+  isExcludedByDiet,
+  loadProfile,
+  parseList,
+  saveProfile
+} from './profile';
+import { FOOD_VERDICT_LABELS, FoodLookup, FoodResolver, describeFood, describeFoodAliases, describeFoodLimit } from './foodSafety';
+import {
+  Appointment,
+  AppointmentStatus,
+  ScheduleItem,
+  buildSchedule,
+  describeWhen,
+  describeWindow,
+  getUpcoming,
+  isOverdue,
+  loadAppointments,
+  saveAppointments,
+  saveScheduleItem,
+  setItemStatus,
+  toICalendar
+} from './appointments';
+import {
+  KICK_COUNT_START_WEEK,
+  KICK_TARGET,
+  KickSession,
+  REDUCED_MOVEMENT_SIGN,
+  addKick,
+  assessKickSession,
+  endKickSession,
+  formatDuration,
+  getKickBaseline,
+  isTargetReached,
+  loadKickSessions,
+  saveKickSessions,
+  startKickSession,
+  timeToTarget
+} from './kickCounter';
+import {
+  Contraction,
+  TERM_WEEK,
+  assessContractions,
+  endContraction,
+  getActiveContraction,
+  loadContractions,
+  saveContractions,
+  startContraction,
+  summarizeContractions,
+  timeContractions
+} from './contractionTimer';
+import {
+  DEFAULT_VITAL_THRESHOLDS,
+  GLUCOSE_TIMING_LABELS,
+  GlucoseTiming,
+  GlucoseUnit,
+  SWELLING_AREA_LABELS,
+  SwellingArea,
+  VitalAlert,
+  VitalEntry,
+  VitalKind,
+  VitalReading,
+  VitalsData,
+  assessVital,
+  createVitalEntry,
+  describeVital,
+  findRapidWeightGain,
+  fromMgdl,
+  loadVitals,
+  saveVitals,
+  sortVitals,
+  toMgdl
+} from './vitals';
+import {
+  DueReminder,
+  RecurrenceRule,
+  RemindersData,
+  SNOOZE_OPTIONS,
+  WEEKDAYS,
+  buildReminders,
+  createCustomReminder,
+  describeRule,
+  getDueReminders,
+  getNextOccurrence,
+  loadReminders,
+  saveReminders,
+  showReminderNotification,
+  snoozeReminder,
+  weekdayLabel
+} from './reminders';
+import { isReadyOffline, registerServiceWorker, useInstallPrompt, useOnlineStatus } from './offline';
 
 // ==================== TYPES ====================
-type Nutrient = {
-  nutrient: string;
-  amount: string;
-  unit: string;
-  category: string;
+type WeekRange = {
+  start: number;
+  end: number;
 };
 
-type WeightGainRecommendation = {
-  prePregnancyBMI: string;
-  bmiRange: string;
-  recommendedGain: string;
-  unit: string;
-};
+type Tab = 'home' | 'tracker' | 'medications' | 'symptoms' | 'nutrition' | 'emergency' | 'chat';
+const TABS: Tab[] = ['home', 'tracker', 'medications', 'symptoms', 'nutrition', 'emergency', 'chat'];
 
-type Symptom = {
-  sign: string;
-  urgency: string;
-  action: string;
-  severity: 'low' | 'medium' | 'high';
-  category?: string;
-};
+// Where a section is shown in the UI, so citations can open it
+type SectionLink =
+  | { tab: 'medications'; query: string }
+  | { tab: 'symptoms'; query: string }
+  | { tab: 'nutrition'; anchor: string; query?: string }
+  | { tab: 'tracker'; week: number };
 
-type Medication = {
-  drug: string;
-  brand?: string;
-  safety: string;
-  safetyLevel: string;
-  note?: string;
-  condition?: string;
+type KnowledgeSection = {
+  id: string;
+  title: string;
+  link: SectionLink;
+  content: string;
+  contentHash?: string;
+  embedding?: number[];
 };
 
-type WeekInfo = {
-  trimester: string;
+// Shown at the top of the Emergency tab when a tool crosses a threshold
+type EmergencyAlert = {
   title: string;
-  commonSymptoms: Array<{ symptom: string; status: string }>;
-  exercise?: {
-    name: string;
-    benefits: string;
-    instructions: string[];
-  };
+  message: string;
+  // The knowledge base sign to highlight
+  sign?: string;
 };
 
-type Message = {
-  role: 'user' | 'assistant';
-  content: string;
-  source?: 'knowledge-base' | 'ai-general' | 'error';
-};
+// The kick counter and contraction timer show on the Tracker from this week
+const LATE_PREGNANCY_TOOLS_WEEK = 20;
 
-type Tab = 'home' | 'tracker' | 'medications' | 'symptoms' | 'nutrition' | 'emergency' | 'chat';
+// Section ids must stay within [a-z0-9-] so the model can cite them verbatim
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/≥/g, ' gte ')
+    .replace(/≤/g, ' lte ')
+    .replace(/</g, ' lt ')
+    .replace(/>/g, ' gt ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
 
-type KnowledgeSection = {
-  id: string;
-  content: string;
-  embedding?: number[];
+// Translated names and everyday phrasings, so a question in Hindi or Marathi retrieves the sign
+const describeSymptomNames = (symptom: Symptom): string => {
+  const names = [
+    ...Object.values(symptom.translations || {}).map(translation => translation.sign),
+    ...(symptom.triggers || [])
+  ].filter(Boolean);
+  return names.length ? `. Also described as ${names.join(', ')}` : '';
 };
 
 // ==================== KNOWLEDGE BASE SERVICE ====================
 class KnowledgeBaseService {
-  private knowledgeBase: any = null;
+  private knowledgeBase: PregnancyKnowledgeGraph | null = null;
+  private validationIssues: ValidationIssue[] = [];
   private sections: KnowledgeSection[] = [];
-  private openai: OpenAI | null = null;
+  private llm: LLMProvider;
+  private embeddingStore: EmbeddingStore;
   private embeddingsGenerated = false;
+  // Shared by every caller, so StrictMode's second effect run doesn't load and embed everything twice
+  private loading: Promise<void> | null = null;
+  private lexicalIndex = new Bm25Index([]);
+  private medicationResolver = new MedicationResolver([]);
+  private foodResolver = new FoodResolver([]);
+  private retrievalOptions: RetrievalOptions;
 
-  constructor() {
-    const apiKey = process.env.VITE_OPENAI_API_KEY || import.meta.env.VITE_OPENAI_API_KEY;
-    if (apiKey) {
-      this.openai = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true // Note: In production, use a backend proxy
-      });
-    }
+  constructor(
+    llm: LLMProvider,
+    embeddingStore: EmbeddingStore = createEmbeddingStore(),
+    retrievalOptions: Partial<RetrievalOptions> = {}
+  ) {
+    this.llm = llm;
+    this.embeddingStore = embeddingStore;
+    this.retrievalOptions = { ...DEFAULT_RETRIEVAL_OPTIONS, ...retrievalOptions };
+  }
+
+  initialize(): Promise<void> {
+    if (!this.loading) this.loading = this.load();
+    return this.loading;
   }
 
-  async initialize() {
+  private async load() {
     // Load knowledge base
     try {
       const response = await fetch('./knowledgeBase.json');
       const data = await response.json();
-      this.knowledgeBase = data.pregnancyKnowledgeGraph;
+      const { knowledgeGraph, issues } = validateKnowledgeBase(data);
+      this.knowledgeBase = knowledgeGraph;
+      this.validationIssues = issues;
+      if (issues.length > 0) {
+        console.warn('Knowledge base failed validation:', issues);
+      }
       
       // Convert knowledge base to searchable sections
       this.createSections();
+      this.lexicalIndex = new Bm25Index(this.sections);
+      this.medicationResolver = new MedicationResolver(
+        this.getMedications(),
+        knowledgeGraph.medications.combinationProducts || []
+      );
+      this.foodResolver = new FoodResolver(knowledgeGraph.foodSafety.foods || []);
       
-      // Generate embeddings if OpenAI is available
-      if (this.openai) {
-        await this.generateEmbeddings();
-      }
+      await this.generateEmbeddings();
     } catch (error) {
       console.error('Failed to load knowledge base:', error);
+      this.validationIssues = [{
+        path: '$',
+        message: `Could not load knowledge base: ${error instanceof Error ? error.message : String(error)}`
+      }];
     }
   }
 
   private createSections() {
     // Flatten knowledge base into searchable sections
     const kb = this.knowledgeBase;
+    this.sections = [];
+    if (!kb) return;
     
     // Nutritional requirements
     this.sections.push({
       id: 'nutrition-daily',
-      content: `Daily nutritional requirements during pregnancy: ${kb.nutritionalRequirements.dailyMacros.map((n: Nutrient) => 
-        `${n.nutrient}: ${n.amount} ${n.unit} (${n.category})`).join(', ')}`
+      title: 'Daily nutrition',
+      link: { tab: 'nutrition', anchor: 'nutrition-daily' },
+      content: `Daily nutritional requirements during pregnancy: ${kb.nutritionalRequirements.dailyMacros.map(n => 
+        `${n.nutrient}: ${n.amount} ${n.unit} (${n.category})`).join(', ')}. Daily upper limits: ${
+        (kb.nutritionalRequirements.upperLimits || []).map(l => `${l.nutrient} ${l.amount} ${l.unit}${l.note ? ` (${l.note})` : ''}`).join(', ')
+      }`
     });
 
     // Weight gain recommendations
     this.sections.push({
       id: 'nutrition-weight',
-      content: `Weight gain recommendations: ${kb.nutritionalRequirements.weightGainRecommendations.map((w: WeightGainRecommendation) => 
+      title: 'Weight gain',
+      link: { tab: 'nutrition', anchor: 'nutrition-weight' },
+      content: `Weight gain recommendations: ${kb.nutritionalRequirements.weightGainRecommendations.map(w => 
         `${w.prePregnancyBMI} (BMI ${w.bmiRange}): ${w.recommendedGain} ${w.unit}`).join(', ')}`
     });
 
     // Food safety
     this.sections.push({
       id: 'food-safety',
+      title: 'Food safety',
+      link: { tab: 'nutrition', anchor: 'food-safety' },
       content: `Foods to avoid during pregnancy: Unsafe seafood (${kb.foodSafety.seafoodGuidelines.unsafe.join(', ')}), 
-        ${kb.foodSafety.avoidFoods.map((f: any) => f.item).join(', ')}`
+        ${kb.foodSafety.avoidFoods.map(f => f.item).join(', ')}`
+    });
+
+    // Individual foods, so a question using any regional name retrieves the verdict
+    (kb.foodSafety.foods || []).forEach(food => {
+      this.sections.push({
+        id: `food-${slugify(food.name)}`,
+        title: food.name,
+        link: { tab: 'nutrition', anchor: 'food-safety', query: food.name },
+        content: describeFood(food)
+      });
     });
 
     // Morning sickness
     this.sections.push({
       id: 'morning-sickness',
+      title: 'Morning sickness',
+      link: { tab: 'nutrition', anchor: 'morning-sickness' },
       content: `Morning sickness management: Eat ${kb.morningSicknessManagement.whatToEat.join(', ')}. 
         Avoid ${kb.morningSicknessManagement.avoidFoods.join(', ')}. 
         Tips: ${kb.morningSicknessManagement.eatingTips.join(', ')}`
     });
 
     // Pregnancy timeline
-    Object.entries(kb.pregnancyTimeline).forEach(([key, value]: [string, any]) => {
+    Object.entries(kb.pregnancyTimeline).forEach(([key, value]) => {
+      const range = this.parseWeekRange(key);
       this.sections.push({
-        id: `timeline-${key}`,
+        id: `timeline-${key.toLowerCase()}`,
+        title: range ? `Weeks ${range.start}-${range.end}` : value.title,
+        link: { tab: 'tracker', week: range ? range.start : 1 },
         content: `${value.title} (${value.trimester} trimester): Common symptoms include ${
-          value.commonSymptoms.map((s: any) => `${s.symptom} - ${s.status}`).join(', ')
-        }. Recommended exercise: ${value.exercise?.name} - ${value.exercise?.benefits}`
+          value.commonSymptoms.map(s => `${s.symptom} - ${s.status}`).join(', ')
+        }. Baby development: ${value.babyDevelopment.join(', ')}. Maternal changes: ${
+          value.maternalChanges.join(', ')
+        }. Checklist: ${value.checklist.join(', ')}. Recommended exercise: ${value.exercise?.name} - ${value.exercise?.benefits}`
       });
     });
 
     // Symptoms
-    kb.symptomTroubleshooting.categories.forEach((cat: any) => {
-      cat.symptoms.forEach((symptom: any) => {
+    kb.symptomTroubleshooting.categories.forEach(cat => {
+      cat.symptoms.forEach(symptom => {
         this.sections.push({
-          id: `symptom-${symptom.sign.toLowerCase().replace(/\s+/g, '-')}`,
-          content: `${symptom.sign} (${cat.category}): ${symptom.action}. Urgency: ${symptom.urgency}. Severity: ${symptom.severity}`
+          id: `symptom-${slugify(symptom.sign)}`,
+          title: symptom.sign,
+          link: { tab: 'symptoms', query: symptom.sign },
+          content: `${symptom.sign} (${cat.category}): ${symptom.action}. Urgency: ${symptom.urgency}. Severity: ${symptom.severity}${
+            describeSymptomNames(symptom)
+          }`
         });
       });
     });
 
     // Medications
-    kb.medications.byCondition.forEach((condition: any) => {
-      condition.medications.forEach((med: any) => {
+    kb.medications.byCondition.forEach(condition => {
+      condition.medications.forEach(med => {
         this.sections.push({
-          id: `medication-${med.drug.toLowerCase()}`,
-          content: `${med.drug} (${med.brand || 'Generic'}) for ${condition.condition}: ${med.safetyLevel}. ${med.note || ''}`
+          id: `medication-${slugify(med.drug)}`,
+          title: med.drug,
+          link: { tab: 'medications', query: med.drug },
+          content: `${med.drug} (${med.brand || 'Generic'}) for ${condition.condition}: ${med.safetyLevel}. ${
+            med.aliases?.length ? `Also sold or known as ${med.aliases.join(', ')}. ` : ''
+          }${med.note || ''} ${
+            (med.trimesterRules || []).map(rule => `${rule.trimesters.join('/')} trimester: ${rule.safetyLevel} - ${rule.reason}.`).join(' ')
+          }`
         });
       });
     });
+
+    // Combination products, so "is Combiflam safe?" retrieves its ingredients
+    (kb.medications.combinationProducts || []).forEach(product => {
+      this.sections.push({
+        id: `medication-${slugify(product.name)}`,
+        title: product.name,
+        link: { tab: 'medications', query: product.name },
+        content: `${product.name}${
+          product.aliases?.length ? ` (also ${product.aliases.join(', ')})` : ''
+        } is a combination product containing ${product.ingredients.join(', ')}. Check the rating of each ingredient.`
+      });
+    });
   }
 
   private async generateEmbeddings() {
-    if (!this.openai || this.embeddingsGenerated) return;
+    if (this.embeddingsGenerated) return;
 
     try {
-      // Generate embeddings for all sections
-      const embeddingPromises = this.sections.map(async (section) => {
-        const response = await this.openai!.embeddings.create({
-          model: 'text-embedding-ada-002',
-          input: section.content,
-        });
-        section.embedding = response.data[0].embedding;
-      });
-
-      await Promise.all(embeddingPromises);
-      this.embeddingsGenerated = true;
+      // Reuse cached embeddings and only embed sections whose content changed
+      const result = await buildEmbeddingIndex(this.sections, this.llm, this.embeddingStore);
+      this.embeddingsGenerated = result.reused + result.embedded > 0;
+      if (result.failed > 0) {
+        console.warn(`Embedding index incomplete: ${result.failed} of ${this.sections.length} sections failed`);
+      }
     } catch (error) {
       console.error('Failed to generate embeddings:', error);
     }
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-    const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-    const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-    return dotProduct / (magnitudeA * magnitudeB);
+  private toSections(results: ScoredId[], topK: number): KnowledgeSection[] {
+    return results
+      .slice(0, topK)
+      .map(result => this.sections.find(section => section.id === result.id))
+      .filter((section): section is KnowledgeSection => section !== undefined);
   }
 
-  async findRelevantSections(query: string, topK: number = 3): Promise<KnowledgeSection[]> {
-    if (!this.openai || !this.embeddingsGenerated) {
-      // Fallback to simple keyword search
-      const queryLower = query.toLowerCase();
-      return this.sections
-        .filter(section => section.content.toLowerCase().includes(queryLower))
-        .slice(0, topK);
+  async findRelevantSections(query: string, topK: number = this.retrievalOptions.topK): Promise<KnowledgeSection[]> {
+    // BM25 with synonyms and fuzzy matching works offline and always runs
+    const lexicalResults = this.lexicalIndex.search(query);
+
+    if (!this.embeddingsGenerated) {
+      return this.toSections(lexicalResults, topK);
     }
 
     try {
       // Generate embedding for the query
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: query,
-      });
-      const queryEmbedding = response.data[0].embedding;
+      const [queryEmbedding] = await this.llm.embed([query]);
 
-      // Calculate similarities
-      const sectionsWithScores = this.sections
+      const vectorResults = this.sections
         .filter(section => section.embedding)
         .map(section => ({
-          section,
-          score: this.cosineSimilarity(queryEmbedding, section.embedding!)
+          id: section.id,
+          score: cosineSimilarity(queryEmbedding, section.embedding!)
         }))
+        .filter(result => result.score >= this.retrievalOptions.minCosineSimilarity)
         .sort((a, b) => b.score - a.score);
 
-      // Return top K sections with score > 0.7
-      return sectionsWithScores
-        .filter(item => item.score > 0.7)
-        .slice(0, topK)
-        .map(item => item.section);
+      const fused = fuseRankings([
+        { results: lexicalResults, weight: this.retrievalOptions.lexicalWeight },
+        { results: vectorResults, weight: this.retrievalOptions.vectorWeight }
+      ]);
+      return this.toSections(fused, topK);
     } catch (error) {
       console.error('Failed to find relevant sections:', error);
-      return [];
+      return this.toSections(lexicalResults, topK);
     }
   }
 
-  getKnowledgeBase() {
+  getSection(id: string): KnowledgeSection | undefined {
+    return this.sections.find(section => section.id === id);
+  }
+
+  getKnowledgeBase(): PregnancyKnowledgeGraph | null {
     return this.knowledgeBase;
   }
 
+  getValidationIssues(): ValidationIssue[] {
+    return this.validationIssues;
+  }
+
+  // Timeline keys encode the weeks they cover, e.g. "weeks9to12" or "week40"
+  private parseWeekRange(key: string): WeekRange | null {
+    const match = key.match(/^weeks?(\d+)(?:to(\d+))?$/);
+    if (!match) return null;
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    return { start, end };
+  }
+
   getWeekInfo(week: number): WeekInfo | null {
     if (!this.knowledgeBase) return null;
-    if (week >= 9 && week <= 12) return this.knowledgeBase.pregnancyTimeline.weeks9to12;
-    if (week >= 13 && week <= 16) return this.knowledgeBase.pregnancyTimeline.weeks13to16;
-    return null;
+    const entry = Object.entries(this.knowledgeBase.pregnancyTimeline).find(([key]) => {
+      const range = this.parseWeekRange(key);
+      return range !== null && week >= range.start && week <= range.end;
+    });
+    return entry ? entry[1] : null;
   }
 
-  checkMedicationSafety(medName: string): Medication[] {
+  // Every symptom the timeline calls typical for some week, for suggesting journal entries
+  getCommonSymptoms(locale: Locale): string[] {
     if (!this.knowledgeBase) return [];
-    const results: Medication[] = [];
-    this.knowledgeBase.medications.byCondition.forEach((condition: any) => {
-      condition.medications.forEach((med: any) => {
-        if (med.drug.toLowerCase().includes(medName.toLowerCase()) ||
-            (med.brand && med.brand.toLowerCase().includes(medName.toLowerCase()))) {
-          results.push({ ...med, condition: condition.condition });
-        }
-      });
+    const names = Object.values(this.knowledgeBase.pregnancyTimeline)
+      .flatMap(info => localize(info, locale).commonSymptoms.map(s => s.symptom));
+    return Array.from(new Set(names));
+  }
+
+  getMedications(): Medication[] {
+    if (!this.knowledgeBase) return [];
+    return this.knowledgeBase.medications.byCondition.flatMap(cat =>
+      cat.medications.map(med => this.withCondition(med, cat))
+    );
+  }
+
+  // Copies the condition, and its translations, onto the medication
+  private withCondition(medication: Medication, cat: MedicationCondition): Medication {
+    const translations = { ...medication.translations };
+    Object.entries(cat.translations || {}).forEach(([locale, { condition }]) => {
+      if (condition) translations[locale] = { ...translations[locale], condition };
     });
-    return results;
+    return { ...medication, condition: cat.condition, translations };
+  }
+
+  // Resolves generic, brand, regional and misspelled names, and splits combination products into ingredients
+  checkMedicationSafety(medName: string): MedicationLookup {
+    return this.medicationResolver.lookup(medName);
+  }
+
+  // Exact names only, for rating medications someone has said they take
+  findMedication(medName: string): MedicationMatch | null {
+    return this.medicationResolver.resolve(medName);
+  }
+
+  // Resolves English, regional and scientific food names, or a whole category like "seafood"
+  lookupFood(query: string): FoodLookup {
+    return this.foodResolver.lookup(query);
+  }
+
+  getCombinationProductNames(): string[] {
+    return (this.knowledgeBase?.medications.combinationProducts || []).map(product => product.name);
   }
 
   getSymptomInfo(symptom: string): Symptom[] {
     if (!this.knowledgeBase) return [];
     const results: Symptom[] = [];
-    this.knowledgeBase.symptomTroubleshooting.categories.forEach((cat: any) => {
-      cat.symptoms.forEach((s: any) => {
-        if (s.sign.toLowerCase().includes(symptom.toLowerCase())) {
-          results.push({ ...s, category: cat.category });
+    this.knowledgeBase.symptomTroubleshooting.categories.forEach(cat => {
+      cat.symptoms.forEach(s => {
+        const names = [s.sign, ...Object.values(s.translations || {}).map(translated => translated.sign || '')];
+        if (names.some(name => name.toLowerCase().includes(symptom.toLowerCase()))) {
+          results.push(this.withCategory(s, cat));
         }
       });
     });
     return results;
   }
 
-  getEmergencySymptoms(): Symptom[] {
+  getSymptoms(): Symptom[] {
     if (!this.knowledgeBase) return [];
-    const emergencies: Symptom[] = [];
-    this.knowledgeBase.symptomTroubleshooting.categories.forEach((cat: any) => {
-      cat.symptoms.forEach((s: any) => {
-        if (s.severity === 'high') {
-          emergencies.push({ ...s, category: cat.category });
-        }
-      });
+    return this.knowledgeBase.symptomTroubleshooting.categories.flatMap(cat =>
+      cat.symptoms.map(s => this.withCategory(s, cat))
+    );
+  }
+
+  // Copies the category, and its translations, onto the symptom
+  private withCategory(symptom: Symptom, cat: SymptomCategory): Symptom {
+    const translations = { ...symptom.translations };
+    Object.entries(cat.translations || {}).forEach(([locale, { category }]) => {
+      if (category) translations[locale] = { ...translations[locale], category };
     });
-    return emergencies;
+    return { ...symptom, category: cat.category, translations };
+  }
+
+  getEmergencySymptoms(): Symptom[] {
+    return this.getSymptoms().filter(s => s.severity === 'high');
   }
 
-  getNutritionalRequirements() {
+  getNutritionalRequirements(): PregnancyKnowledgeGraph['nutritionalRequirements'] {
     if (!this.knowledgeBase) return { dailyMacros: [], weightGainRecommendations: [] };
     return this.knowledgeBase.nutritionalRequirements;
   }
+
+  getMorningSicknessManagement(): MorningSicknessManagement {
+    if (!this.knowledgeBase) return { whatToEat: [], avoidFoods: [], eatingTips: [], hydrationTips: [] };
+    return this.knowledgeBase.morningSicknessManagement;
+  }
 }
 
 // ==================== MAIN APP COMPONENT ====================
 const PregnancyTrackerApp: React.FC = () => {
-  const [kb] = useState(() => new KnowledgeBaseService());
+  const [llm] = useState(() => createLLMProvider());
+  const [kb] = useState(() => new KnowledgeBaseService(llm));
   const [isKbLoaded, setIsKbLoaded] = useState(false);
   const [activeTab, setActiveTab] = useState<Tab>('home');
-  const [dueDate, setDueDate] = useState<string>(() => {
-    const saved = localStorage.getItem('pregnancyDueDate');
-    return saved ? saved : '';
-  });
-  const [modalVersion, setModalVersion] = useState<number>(() => {
-    const saved = localStorage.getItem('pregnancyDueDate');
-    return (!saved || saved === '') ? 1 : 0;
-  });
-  const showDueDateModal = modalVersion > 0;
-  const [currentWeek, setCurrentWeek] = useState<number>(() => {
-    const saved = localStorage.getItem('pregnancyDueDate');
-    if (!saved) return 12;
-    const today = new Date();
-    const due = new Date(saved);
-    const diffTime = due.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    const weeksRemaining = Math.floor(diffDays / 7);
-    return Math.max(1, Math.min(40, 40 - weeksRemaining));
-  });
+  const [datingInput, setDatingInput] = useState<DatingInput | null>(() => loadDatingInput());
+  const [datingMethod, setDatingMethod] = useState<DatingMethod>(() => loadDatingInput()?.method || 'dueDate');
+  const [datingError, setDatingError] = useState<string>('');
+  const [pregnancyProfile, setPregnancyProfile] = useState<PregnancyProfile | null>(() => loadProfile());
+  // Onboarding opens on dating for new users, and on the rest of the profile for users who only set a due date
+  const [profileStep, setProfileStep] = useState<ProfileStep | null>(() =>
+    !loadDatingInput() ? 'dating' : !loadProfile() ? 'pregnancy' : null
+  );
+  const gestationalAge = useGestationalAge(datingInput);
+  const currentWeek = gestationalAge ? Math.max(1, Math.min(42, gestationalAge.weeks)) : 12;
+  const dueDate = gestationalAge?.dueDate;
   const [medicationSearch, setMedicationSearch] = useState<string>('');
   const [symptomSearch, setSymptomSearch] = useState<string>('');
-  const [chatMessages, setChatMessages] = useState<Message[]>([
-    { 
-      role: 'assistant', 
-      content: 'Hello! I\'m your pregnancy assistant powered by OpenAI. Ask me about symptoms, medications, nutrition, or anything pregnancy-related!',
-      source: 'knowledge-base'
-    }
-  ]);
+  const [foodSearch, setFoodSearch] = useState<string>('');
+  const [showDietHiddenFoods, setShowDietHiddenFoods] = useState<boolean>(false);
+  const [foodDiary, setFoodDiary] = useState<FoodDiaryEntry[]>(() => loadFoodDiary());
+  const [selectedDiaryDate, setSelectedDiaryDate] = useState<string>(() => toDateInputValue(new Date()));
+  const [foodDiaryError, setFoodDiaryError] = useState<string>('');
+  const [appointments, setAppointments] = useState<Appointment[]>(() => loadAppointments());
+  // The schedule item being edited, or 'new' while adding an appointment of the user's own
+  const [editingAppointmentKey, setEditingAppointmentKey] = useState<string | null>(null);
+  const [showPastAppointments, setShowPastAppointments] = useState<boolean>(false);
+  const [kickSessions, setKickSessions] = useState<KickSession[]>(() => loadKickSessions());
+  const [contractions, setContractions] = useState<Contraction[]>(() => loadContractions());
+  const [emergencyAlert, setEmergencyAlert] = useState<EmergencyAlert | null>(null);
+  const [vitals, setVitals] = useState<VitalsData>(() => loadVitals());
+  // Weight is logged here too but stored with the weight tracker's weigh-ins
+  const [vitalKind, setVitalKind] = useState<VitalKind | 'weight'>('bloodPressure');
+  const [vitalAlerts, setVitalAlerts] = useState<VitalAlert[]>([]);
+  const [isEditingVitalThresholds, setIsEditingVitalThresholds] = useState<boolean>(false);
+  // Ticks every second while a kick count or contraction is being timed
+  const [clock, setClock] = useState<number>(() => Date.now());
+  const [triageFlowId, setTriageFlowId] = useState<string | null>(null);
+  const [triageAnswers, setTriageAnswers] = useState<TriageAnswers>({});
+  // Pending value for the current number or multi-select question
+  const [triageDraft, setTriageDraft] = useState<string>('');
+  const [triageSelection, setTriageSelection] = useState<string[]>([]);
+  const [triageResult, setTriageResult] = useState<TriageLogEntry | null>(null);
+  const [triageLog, setTriageLog] = useState<TriageLogEntry[]>(() => loadTriageLog());
+  const [journal, setJournal] = useState<JournalEntry[]>(() => loadJournal());
+  const [selectedJournalDate, setSelectedJournalDate] = useState<string>(() => toDateInputValue(new Date()));
+  // Emergency guidance for the entry just saved, when it matched a high-severity sign
+  const [journalAlert, setJournalAlert] = useState<Symptom[]>([]);
+  const [weightData, setWeightData] = useState<WeightTrackerData>(() => loadWeightTracker());
+  const [isEditingWeightProfile, setIsEditingWeightProfile] = useState<boolean>(false);
+  const [medicationLog, setMedicationLog] = useState<MedicationLogEntry[]>(() => loadMedicationLog());
+  // Ticks every minute so due doses and reminders stay current
+  const [now, setNow] = useState<Date>(() => new Date());
+  const [reminders, setReminders] = useState<RemindersData>(() => loadReminders());
+  // Reminders that went off while the app was open, until they're snoozed or dismissed
+  const [firedReminders, setFiredReminders] = useState<DueReminder[]>([]);
+  const [customReminderFrequency, setCustomReminderFrequency] = useState<RecurrenceRule['frequency']>('daily');
+  const isOnline = useOnlineStatus();
+  const installPrompt = useInstallPrompt();
+  const [locale, setLocale] = useState<Locale>(() => loadLocale());
+  // Set once the service worker has the knowledge base cached
+  const [isOfflineReady, setIsOfflineReady] = useState<boolean>(false);
+  const [notificationPermission, setNotificationPermission] = useState<string>(() =>
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  const [conversations, setConversations] = useState<Conversation[]>(() => {
+    const saved = loadConversations();
+    return saved.length > 0 ? saved : [createConversation()];
+  });
+  // Reopen the most recent conversation after a reload
+  const [activeConversationId, setActiveConversationId] = useState<string>(
+    () => [...conversations].sort((a, b) => b.updatedAt - a.updatedAt)[0].id
+  );
+  const [chatMessages, setChatMessages] = useState<Message[]>(
+    () => conversations.find(c => c.id === activeConversationId)?.messages || [WELCOME_MESSAGE]
+  );
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [historySearch, setHistorySearch] = useState<string>('');
+  const [renamingConversationId, setRenamingConversationId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  // Set when a citation opens a timeline entry other than the current week
+  const [viewedWeek, setViewedWeek] = useState<number | null>(null);
+  const [pendingAnchor, setPendingAnchor] = useState<string | null>(null);
   const [chatInput, setChatInput] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     // Initialize knowledge base
@@ -325,437 +739,3365 @@ const PregnancyTrackerApp: React.FC = () => {
   }, [kb]);
 
   useEffect(() => {
-    console.log('Modal version changed:', modalVersion, 'showModal:', showDueDateModal);
-  }, [modalVersion, showDueDateModal]);
+    saveLocale(locale);
+    // Lets the browser pick Devanagari fonts and screen readers the right voice
+    document.documentElement.lang = LOCALES[locale].intl || 'en';
+  }, [locale]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
+  // Scroll to a section opened from a citation once its tab has rendered
   useEffect(() => {
-  const savedDate = localStorage.getItem('pregnancyDueDate');
-  if (savedDate) {
-    setDueDate(savedDate);
-  } else {
-    setModalVersion(1);
-  }
-}, []);
+    if (!pendingAnchor) return;
+    document.getElementById(pendingAnchor)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setPendingAnchor(null);
+  }, [pendingAnchor, activeTab]);
+
+  // Don't leave a request streaming after the app unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Copy finished messages into the active conversation; skip while tokens are still streaming
+  useEffect(() => {
+    if (chatMessages.some(msg => msg.streaming)) return;
+    setConversations(prev => prev.map(conversation => {
+      if (conversation.id !== activeConversationId || conversation.messages === chatMessages) return conversation;
+      return {
+        ...conversation,
+        messages: chatMessages,
+        title: conversation.title || titleFromMessages(chatMessages),
+        updatedAt: Date.now()
+      };
+    }));
+  }, [chatMessages, activeConversationId]);
+
+  useEffect(() => {
+    // Conversations without a question yet aren't worth keeping
+    saveConversations(conversations.filter(c => c.messages.some(msg => msg.role === 'user')));
+  }, [conversations]);
+
+  useEffect(() => {
+    saveTriageLog(triageLog);
+  }, [triageLog]);
+
+  useEffect(() => {
+    saveJournal(journal);
+  }, [journal]);
+
+  useEffect(() => {
+    saveWeightTracker(weightData);
+  }, [weightData]);
+
+  useEffect(() => {
+    saveMedicationLog(medicationLog);
+  }, [medicationLog]);
+
+  useEffect(() => {
+    saveFoodDiary(foodDiary);
+  }, [foodDiary]);
+
+  useEffect(() => {
+    saveAppointments(appointments);
+  }, [appointments]);
+
+  useEffect(() => {
+    saveKickSessions(kickSessions);
+  }, [kickSessions]);
+
+  useEffect(() => {
+    saveVitals(vitals);
+  }, [vitals]);
+
+  useEffect(() => {
+    saveContractions(contractions);
+  }, [contractions]);
+
+  useEffect(() => {
+    saveReminders(reminders);
+  }, [reminders]);
+
+  const isTiming = kickSessions.some(session => session.endedAt === undefined) || getActiveContraction(contractions) !== undefined;
+  useEffect(() => {
+    if (!isTiming) return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isTiming]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Deliver whatever came due since the last minute's check; the in-app banner covers browsers without permission
+  useEffect(() => {
+    const at = now.getTime();
+    const { due, snoozes } = getDueReminders(reminderList, reminders, at);
+    due.forEach(item => showReminderNotification(item, reminders.settings.snoozeMinutes, locale));
+    if (due.length > 0) {
+      setFiredReminders(prev => [...prev.filter(item => !due.some(d => d.reminder.id === item.reminder.id)), ...due]);
+    }
+    setReminders(prev => ({ ...prev, snoozes, lastCheckedAt: at }));
+  }, [now]);
 
+  // The service worker caches the app for offline use; notification buttons come back from it,
+  // or in the URL when it had to open a window
+  useEffect(() => {
+    registerServiceWorker().then(registration => {
+      if (registration) isReadyOffline().then(setIsOfflineReady);
+    });
+    const params = new URLSearchParams(window.location.search);
+    const reminderId = params.get('reminder');
+    if (reminderId) {
+      handleReminderAction(params.get('action'), reminderId, params.get('tab'));
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.reminderId) handleReminderAction(event.data.type, event.data.reminderId, event.data.tab);
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
 
   const handleDueDateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const form = e.target as HTMLFormElement;
-    const inputDate = (form.elements.namedItem('dueDate') as HTMLInputElement).value;
-    if (inputDate) {
-      setDueDate(inputDate);
-      localStorage.setItem('pregnancyDueDate', inputDate);
-      setModalVersion(0);
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value;
+
+    let input: DatingInput;
+    switch (datingMethod) {
+      case 'lmp':
+        input = { method: 'lmp', lmpDate: field('lmpDate'), cycleLength: parseInt(field('cycleLength'), 10) || undefined };
+        break;
+      case 'ivf':
+        input = { method: 'ivf', transferDate: field('transferDate'), embryoAge: field('embryoAge') === '3' ? 3 : 5 };
+        break;
+      case 'ultrasound':
+        input = { method: 'ultrasound', scanDate: field('scanDate'), crownRumpLengthMm: parseFloat(field('crownRumpLength')) };
+        break;
+      default:
+        input = { method: 'dueDate', dueDate: field('dueDate') };
+    }
+
+    if (!estimateDueDate(input)) {
+      setDatingError(t('onboarding.dating.invalid'));
+      return;
+    }
+
+    setDatingError('');
+    setDatingInput(input);
+    saveDatingInput(input);
+    setProfileStep('pregnancy');
+  };
+
+  const updateProfile = (changes: Partial<PregnancyProfile>) => {
+    const updated = { ...(pregnancyProfile || DEFAULT_PROFILE), ...changes, updatedAt: Date.now() };
+    setPregnancyProfile(updated);
+    saveProfile(updated);
+  };
+
+  const handlePregnancyStepSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value;
+    updateProfile({
+      babies: parseInt(field('babies'), 10) || 1,
+      parity: Math.max(0, parseInt(field('parity'), 10) || 0)
+    });
+    setProfileStep('health');
+  };
+
+  const handleHealthStepSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement).value;
+    const checkedConditions = COMMON_CONDITIONS.filter(condition =>
+      (form.elements.namedItem(`condition-${condition}`) as HTMLInputElement).checked
+    );
+    updateProfile({
+      diet: field('diet') as Diet,
+      allergies: parseList(field('allergies')),
+      conditions: [...checkedConditions, ...parseList(field('otherConditions'))]
+    });
+
+    // Current medications go into the medication log so they're safety-checked like any other entry
+    const newMedications = parseList(field('medications')).filter(name =>
+      !medicationLog.some(entry => entry.name.toLowerCase() === name.toLowerCase())
+    );
+    if (newMedications.length > 0) {
+      setMedicationLog(prev => [...prev, ...newMedications.map(name => createMedicationLogEntry({
+        name,
+        kind: 'medication',
+        dose: '',
+        frequency: 'asNeeded',
+        times: [],
+        reminders: false,
+        notes: t('onboarding.medications.note')
+      }))]);
     }
+    setProfileStep(null);
   };
 
-  const weekInfo = kb.getWeekInfo(currentWeek);
+  const t = createTranslator(locale);
+  const intlLocale = LOCALES[locale].intl;
+  // Translated for display; the English entries stay what the chat works from
+  const currentWeekEntry = kb.getWeekInfo(currentWeek);
+  const weekInfo = currentWeekEntry && localize(currentWeekEntry, locale);
+  const trackerWeek = viewedWeek ?? currentWeek;
+  const trackerWeekEntry = kb.getWeekInfo(trackerWeek);
+  const trackerWeekInfo = trackerWeekEntry && localize(trackerWeekEntry, locale);
   const emergencySymptoms = kb.getEmergencySymptoms();
+  // Signs are stored in English in logs and alerts; this finds the sign's wording in the chosen language
+  const localizeSign = (sign: string) => {
+    const symptom = kb.getSymptoms().find(s => s.sign === sign);
+    return symptom ? localize(symptom, locale) : null;
+  };
+  const userProfile = pregnancyProfile || DEFAULT_PROFILE;
+  // Personal medications re-rated for the current trimester on every render
+  const medicationAssessments = medicationLog.map(entry => {
+    const match = kb.findMedication(entry.name) || undefined;
+    return {
+      entry,
+      assessment: assessMatch(match, currentWeek, locale),
+      allergies: findAllergyMatches([entry.name, ...matchNames(match)], userProfile.allergies),
+      // Close names the user can confirm, when the one they typed isn't known exactly
+      candidates: match ? [] : kb.checkMedicationSafety(entry.name).matches.slice(0, 3).map(candidate => candidate.matchedName)
+    };
+  });
+  const medicationWarnings = medicationAssessments.filter(({ assessment, allergies }) =>
+    assessment.safety === '🔴' || assessment.safety === '🟡' || assessment.upcoming || allergies.length > 0
+  );
+  const dueDoses = getDueDoses(medicationLog, now);
+  const schedule = buildSchedule(appointments, dueDate, userProfile.babies, now, locale);
+  const upcomingAppointments = getUpcoming(schedule, now);
+  const nowMs = Math.max(clock, now.getTime());
+  const activeKickSession = kickSessions.find(session => session.endedAt === undefined);
+  const latestKickSession = kickSessions[kickSessions.length - 1];
+  // Only today's count can still raise an alert
+  const kickAlert = latestKickSession && toDateInputValue(new Date(latestKickSession.startedAt)) === toDateInputValue(now)
+    ? assessKickSession(latestKickSession, kickSessions, nowMs, locale)
+    : null;
+  const activeContraction = getActiveContraction(contractions);
+  const contractionAlert = assessContractions(contractions, currentWeek, nowMs, locale);
   const nutritionalReqs = kb.getNutritionalRequirements();
+  const validationIssues = kb.getValidationIssues();
+  const reminderList = buildReminders(reminders, {
+    medicationLog,
+    schedule,
+    dueDate,
+    dailyMacros: nutritionalReqs.dailyMacros,
+    getWeekInfo: week => {
+      const entry = kb.getWeekInfo(week);
+      return entry && localize(entry, locale);
+    }
+  }, now.getTime(), locale);
 
-  const handleChatSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatInput.trim() || isLoading) return;
-    
-    const userMessage: Message = { role: 'user', content: chatInput };
-    setChatMessages(prev => [...prev, userMessage]);
-    setChatInput('');
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setChatMessages(prev => prev.map(msg => (msg.id === id ? { ...msg, ...changes } : msg)));
+  };
+
+  // Sends the newest turns verbatim and folds anything older into the conversation's running summary
+  const buildConversationContext = async (priorMessages: Message[]) => {
+    const conversationId = activeConversationId;
+    const conversation = conversations.find(c => c.id === conversationId);
+    const { recent, overflow } = selectHistory(priorMessages);
+    // A shorter overflow than was summarized means turns were removed, so the summary no longer lines up with it
+    const isSummaryStale = overflow.length < (conversation?.summarizedCount || 0);
+    let summary = isSummaryStale ? undefined : conversation?.summary;
+    const summarizedCount = isSummaryStale ? 0 : conversation?.summarizedCount || 0;
+
+    if (isSummaryStale && overflow.length === 0) {
+      setConversations(prev => prev.map(c => (
+        c.id === conversationId ? { ...c, summary: undefined, summarizedCount: 0 } : c
+      )));
+    }
+    if (overflow.length > summarizedCount) {
+      try {
+        summary = await summarizeHistory(llm, summary, overflow.slice(summarizedCount));
+        setConversations(prev => prev.map(c => (
+          c.id === conversationId ? { ...c, summary, summarizedCount: overflow.length } : c
+        )));
+      } catch (error) {
+        console.error('Failed to summarize conversation:', error);
+      }
+    }
+    return { recent, summary };
+  };
+
+  // Without a connection the chat can still point to the knowledge base entries that match
+  const answerOffline = async (question: string) => {
+    const sections = await kb.findRelevantSections(question, 3);
+    setChatMessages(prev => [...prev, sections.length > 0 ? {
+      id: createId(),
+      role: 'assistant',
+      content: `${t('chat.offlineAnswer')}\n\n${
+        sections.map(section => `${section.content} [[${section.id}]]`).join('\n\n')}`,
+      source: 'knowledge-base',
+      citations: sections.map(section => section.id)
+    } : {
+      id: createId(),
+      role: 'assistant',
+      content: t('chat.offlineNoMatch'),
+      source: 'error'
+    }]);
+  };
+
+  // Streams an answer to `question` into a new assistant bubble; Stop aborts it and keeps the partial text
+  const streamAnswer = async (question: string, priorMessages: Message[]) => {
+    if (!isOnline) {
+      await answerOffline(question);
+      return;
+    }
+    const assistantId = createId();
+    setChatMessages(prev => [...prev, { id: assistantId, role: 'assistant', content: '', streaming: true }]);
     setIsLoading(true);
-    
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let responseContent = '';
+
     try {
       // Find relevant knowledge base sections
-      const relevantSections = await kb.findRelevantSections(chatInput, 3);
+      const relevantSections = await kb.findRelevantSections(question, 3);
+      const { recent, summary } = await buildConversationContext(priorMessages);
       
-      let assistantMessage: Message;
-      
-      if (!process.env.VITE_OPENAI_API_KEY || import.meta.env.VITE_OPENAI_API_KEY) {
-        // Fallback if no API key
-        assistantMessage = {
-          role: 'assistant',
-          content: "OpenAI API key not configured. Please set VITE_OPENAI_API_KEY in your environment variables.",
-          source: 'error'
-        };
-      } else {
-        // Prepare context from knowledge base
-        const kbContext = relevantSections.length > 0 
-          ? `Based on our pregnancy knowledge base:\n${relevantSections.map(s => s.content).join('\n\n')}`
-          : '';
-
-        // Call OpenAI
-        const openai = new OpenAI({
-          apiKey: process.env.VITE_OPENAI_API_KEY || import.meta.env.VITE_OPENAI_API_KEY,
-          dangerouslyAllowBrowser: true
-        });
+      // Prepare context from knowledge base
+      const kbContext = relevantSections.length > 0 
+        ? `Based on our pregnancy knowledge base:\n${relevantSections.map(s => `[${s.id}] ${s.content}`).join('\n\n')}`
+        : '';
 
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a helpful pregnancy care assistant. You have access to a medical knowledge base about pregnancy. 
-                When answering questions, clearly indicate whether your response is based on the provided knowledge base or general knowledge.
-                Always recommend consulting healthcare providers for medical decisions.
-                ${kbContext ? `\n\nRelevant information from knowledge base:\n${kbContext}` : ''}`
-            },
-            {
-              role: 'user',
-              content: chatInput
+      const stream = llm.streamChat([
+        {
+          role: 'system',
+          content: `You are a helpful pregnancy care assistant. You have access to a medical knowledge base about pregnancy. 
+            When answering questions, clearly indicate whether your response is based on the provided knowledge base or general knowledge.
+            Always recommend consulting healthcare providers for medical decisions.
+            The user is ${gestationalAge ? `${gestationalAge.weeks} weeks pregnant` : 'pregnant'}.${pregnancyProfile ? ` About them: ${describeProfile(pregnancyProfile)}.` : ''}${
+              medicationLog.length > 0 ? ` They currently take: ${medicationLog.map(entry => entry.name).join(', ')}.` : ''
             }
-          ],
-          temperature: 0.7,
-          max_tokens: 500
-        });
-
-        const responseContent = completion.choices[0].message.content || 'I couldn\'t generate a response.';
-        
-        // Determine if response used knowledge base
-        const usedKnowledgeBase = relevantSections.length > 0 && 
-          relevantSections.some(section => 
-            responseContent.toLowerCase().includes(section.content.toLowerCase().slice(0, 30))
-          );
+            Tailor advice to this: don't suggest foods their diet excludes or they're allergic to, and check suggestions against their conditions and medications.
+            ${languageInstruction(locale)}
+            ${kbContext ? `\n\n${CITATION_INSTRUCTIONS}\n\nRelevant information from knowledge base:\n${kbContext}` : ''}
+            ${summary ? `\n\nSummary of the earlier conversation:\n${summary}` : ''}`
+        },
+        ...toChatMessages(recent),
+        {
+          role: 'user',
+          content: question
+        }
+      ], { signal: controller.signal });
 
-        assistantMessage = {
-          role: 'assistant',
-          content: responseContent,
-          source: usedKnowledgeBase ? 'knowledge-base' : 'ai-general'
-        };
+      for await (const token of stream) {
+        responseContent += token;
+        updateMessage(assistantId, { content: responseContent });
       }
       
-      setChatMessages(prev => [...prev, assistantMessage]);
+      // The answer is grounded only as far as it cites knowledge base sections
+      const { citedIds } = parseCitations(responseContent, id => kb.getSection(id) !== undefined);
+
+      updateMessage(assistantId, {
+        content: responseContent || t('chat.noResponse'),
+        source: citedIds.length > 0 ? 'knowledge-base' : 'ai-general',
+        citations: citedIds,
+        streaming: false
+      });
     } catch (error) {
-      console.error("Chat error:", error);
+      if (controller.signal.aborted) {
+        updateMessage(assistantId, { source: 'ai-general', streaming: false, interrupted: true });
+      } else {
+        console.error("Chat error:", error);
+        updateMessage(assistantId, {
+          content: responseContent || t('chat.error'),
+          source: 'error',
+          streaming: false,
+          interrupted: responseContent.length > 0
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleChatSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!chatInput.trim() || isLoading) return;
+    
+    const question = chatInput;
+    const priorMessages = chatMessages;
+    setChatMessages(prev => [...prev, { id: createId(), role: 'user', content: question }]);
+    setChatInput('');
+
+    // Urgent signs get the knowledge base's emergency guidance right away, without waiting on (or needing) the network
+    const redFlags = detectRedFlags(question, emergencySymptoms);
+    if (redFlags.length > 0) {
       setChatMessages(prev => [...prev, {
+        id: createId(),
         role: 'assistant',
-        content: "Sorry, I'm having trouble responding right now. Please try again later.",
-        source: 'error'
+        content: t('chat.urgent.summary', {
+          signs: redFlags.map(({ symptom }) => {
+            const shown = localize(symptom, locale);
+            return t('chat.urgent.summaryItem', { sign: shown.sign, urgency: shown.urgency.toLowerCase(), action: shown.action });
+          }).join('; ')
+        }),
+        source: 'emergency',
+        redFlags: redFlags.map(({ symptom, matchedText }) => ({
+          sign: symptom.sign,
+          urgency: symptom.urgency,
+          action: symptom.action,
+          matchedText
+        }))
       }]);
-    } finally {
-      setIsLoading(false);
+      return;
     }
+
+    await streamAnswer(question, priorMessages);
   };
 
-  const renderHome = () => (
-    <div className="space-y-6">
-      <div className="bg-gradient-to-r from-pink-100 to-purple-100 p-6 rounded-2xl">
-        <h2 className="text-2xl font-bold mb-2">Welcome to Your Pregnancy Journey</h2>
-        <p className="text-gray-700">Currently tracking: Week {currentWeek}</p>
-        {dueDate && (
-          <p className="text-sm text-gray-600 mt-1">
-            Due Date: {new Date(dueDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
-          </p>
-        )}
-        <div className="mt-4 flex items-center justify-between">
-          <div className="flex items-center space-x-2">
-            <Baby className="w-8 h-8 text-purple-600" />
-            <div>
-              <p className="font-semibold">{weekInfo?.title || 'Your Pregnancy Progress'}</p>
-              <p className="text-sm text-gray-600">{weekInfo?.trimester || 'First'} Trimester</p>
-            </div>
-          </div>
-          <button
-            onClick={() => setModalVersion(prev => prev + 1)}
-            className="px-3 py-1 text-sm text-purple-600 hover:text-purple-800 underline cursor-pointer"
-            type="button"
-          >
-            Update Due Date
-          </button>
-        </div>
-      </div>
+  // Lets the user still get a model answer after an emergency card; the card stays in place above it.
+  // Only offered on the last message, since the answer is appended and would otherwise land below later turns.
+  const handleAskAnyway = async (messageId: string) => {
+    if (isLoading) return;
+    const index = chatMessages.findIndex(msg => msg.id === messageId);
+    const question = chatMessages.slice(0, index).reverse().find(msg => msg.role === 'user');
+    if (index !== chatMessages.length - 1 || !question) return;
 
-      {!isKbLoaded && (
-        <div className="bg-yellow-50 p-4 rounded-xl border border-yellow-200">
-          <p className="text-sm text-yellow-800">Loading pregnancy knowledge base...</p>
-        </div>
-      )}
+    updateMessage(messageId, { askedAnyway: true });
+    await streamAnswer(question.content, chatMessages.slice(0, chatMessages.indexOf(question)));
+  };
 
-      <div className="grid grid-cols-2 gap-4">
-        <button
-          onClick={() => setActiveTab('tracker')}
-          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
-        >
-          <Calendar className="w-8 h-8 text-blue-500 mb-2" />
-          <h3 className="font-semibold">Week Tracker</h3>
-          <p className="text-sm text-gray-600">Track your progress</p>
-        </button>
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
 
-        <button
-          onClick={() => setActiveTab('medications')}
-          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
-        >
-          <Pill className="w-8 h-8 text-green-500 mb-2" />
-          <h3 className="font-semibold">Medications</h3>
-          <p className="text-sm text-gray-600">Check safety</p>
-        </button>
+  // Replaces an assistant answer with a fresh one for the question that preceded it
+  // Only the last answer can be regenerated: the new one is appended, so an earlier one would move below later turns
+  const handleRegenerate = async (messageId: string) => {
+    if (isLoading) return;
+    const index = chatMessages.findIndex(msg => msg.id === messageId);
+    const question = chatMessages.slice(0, index).reverse().find(msg => msg.role === 'user');
+    if (index !== chatMessages.length - 1 || !question) return;
 
-        <button
-          onClick={() => setActiveTab('symptoms')}
-          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
-        >
-          <Activity className="w-8 h-8 text-orange-500 mb-2" />
-          <h3 className="font-semibold">Symptoms</h3>
-          <p className="text-sm text-gray-600">Track & understand</p>
-        </button>
+    setChatMessages(prev => prev.filter(msg => msg.id !== messageId));
+    await streamAnswer(question.content, chatMessages.slice(0, chatMessages.indexOf(question)));
+  };
 
-        <button
-          onClick={() => setActiveTab('nutrition')}
-          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
-        >
-          <Apple className="w-8 h-8 text-red-500 mb-2" />
-          <h3 className="font-semibold">Nutrition</h3>
-          <p className="text-sm text-gray-600">Daily requirements</p>
-        </button>
-      </div>
+  const triageFlow = TRIAGE_FLOWS.find(flow => flow.id === triageFlowId);
 
-      <div className="bg-red-50 p-4 rounded-xl border border-red-200">
-        <h3 className="font-semibold text-red-800 mb-2 flex items-center">
-          <AlertTriangle className="w-5 h-5 mr-2" />
-          Quick Emergency Reference
-        </h3>
-        <p className="text-sm text-red-700 mb-2">Seek immediate help for:</p>
-        <ul className="text-sm space-y-1">
-          {emergencySymptoms.slice(0, 3).map((s, i) => (
-            <li key={i} className="flex items-start">
-              <span className="text-red-500 mr-2">•</span>
-              <span>{s.sign}</span>
-            </li>
-          ))}
-        </ul>
-        <button 
-          onClick={() => setActiveTab('emergency')}
-          className="text-red-600 text-sm mt-2 underline"
-        >
-          View all emergency symptoms →
-        </button>
+  const handleStartTriage = (flowId: string) => {
+    setTriageFlowId(flowId);
+    setTriageAnswers({});
+    setTriageDraft('');
+    setTriageSelection([]);
+    setTriageResult(null);
+  };
+
+  const handleResetTriage = () => {
+    setTriageFlowId(null);
+    setTriageResult(null);
+  };
+
+  // Records an answer, then either moves to the next relevant question or logs the outcome
+  const handleTriageAnswer = (questionId: string, value: TriageAnswer) => {
+    if (!triageFlow) return;
+    const answers = { ...triageAnswers, [questionId]: value };
+    const next = visibleQuestions(triageFlow, answers).find(question => answers[question.id] === undefined);
+    setTriageAnswers(answers);
+    setTriageSelection([]);
+    // The week question starts from the tracker's estimate so most people just confirm it
+    setTriageDraft(next?.id === 'week' ? String(currentWeek) : '');
+
+    if (!next) {
+      const result = evaluateTriage(triageFlow, answers, kb.getSymptoms());
+      const entry = createTriageLogEntry(triageFlow, answers, result, currentWeek);
+      setTriageLog(prev => [...prev, entry]);
+      setTriageResult(entry);
+    }
+  };
+
+  const handleTriageBack = () => {
+    if (!triageFlow) return;
+    const answered = visibleQuestions(triageFlow, triageAnswers).filter(question => triageAnswers[question.id] !== undefined);
+    const last = answered[answered.length - 1];
+    if (!last) {
+      handleResetTriage();
+      return;
+    }
+    const { [last.id]: previous, ...rest } = triageAnswers;
+    setTriageAnswers(rest);
+    setTriageDraft(typeof previous === 'number' ? String(previous) : '');
+    setTriageSelection(Array.isArray(previous) ? previous : []);
+  };
+
+  const handleJournalSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value.trim();
+    const date = field('date');
+    const entryDate = parseLocalDate(date);
+    if (!field('symptom') || !entryDate) return;
+
+    const entry = createJournalEntry({
+      date,
+      time: field('time'),
+      symptom: field('symptom'),
+      severity: field('severity') as JournalSeverity,
+      notes: field('notes'),
+      week: datingInput ? getGestationalAge(datingInput, entryDate)?.weeks ?? null : null
+    });
+    setJournal(prev => [...prev, entry]);
+    setSelectedJournalDate(date);
+    setJournalAlert(findEntryRedFlags(entry, emergencySymptoms));
+    form.reset();
+  };
+
+  const handleDeleteJournalEntry = (entryId: string) => {
+    setJournal(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const handleFoodDiarySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value.trim();
+    const food = findNutrientFoodByName(field('food'));
+    const servings = parseFloat(field('servings'));
+    if (!food) {
+      setFoodDiaryError(t('foodDiary.notFound', { food: field('food') }));
+      return;
+    }
+    if (!(servings > 0)) return;
+
+    setFoodDiary(prev => [...prev, createFoodDiaryEntry({
+      date: selectedDiaryDate,
+      meal: field('meal') as Meal,
+      foodId: food.id,
+      servings
+    })]);
+    setFoodDiaryError('');
+    form.reset();
+  };
+
+  const handleDeleteFoodDiaryEntry = (entryId: string) => {
+    setFoodDiary(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const weightUnit: WeightUnit = weightData.profile?.unit || 'lb';
+
+  const handleWeightProfileSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => parseFloat((form.elements.namedItem(name) as HTMLInputElement).value);
+    const unit = (form.elements.namedItem('unit') as HTMLSelectElement).value as WeightUnit;
+    // Height is entered in inches alongside pounds, centimetres alongside kilograms
+    const heightCm = unit === 'lb' ? field('height') * 2.54 : field('height');
+    const prePregnancyWeightKg = toKg(field('weight'), unit);
+    if (!(heightCm > 0) || !(prePregnancyWeightKg > 0)) return;
+
+    setWeightData(prev => ({ ...prev, profile: { heightCm, prePregnancyWeightKg, unit } }));
+    setIsEditingWeightProfile(false);
+  };
+
+  const handleWeighInSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const date = (form.elements.namedItem('date') as HTMLInputElement).value;
+    const weight = parseFloat((form.elements.namedItem('weight') as HTMLInputElement).value);
+    if (!parseLocalDate(date) || !(weight > 0)) return;
+
+    setWeightData(prev => ({ ...prev, weighIns: addWeighIn(prev.weighIns, date, toKg(weight, weightUnit)) }));
+    form.reset();
+  };
+
+  const handleDeleteWeighIn = (weighInId: string) => {
+    setWeightData(prev => ({ ...prev, weighIns: prev.weighIns.filter(weighIn => weighIn.id !== weighInId) }));
+  };
+
+  const glucoseUnit = vitals.thresholds.glucoseUnit;
+
+  const readVital = (form: HTMLFormElement): VitalReading | null => {
+    const number = (name: string) => parseFloat((form.elements.namedItem(name) as HTMLInputElement).value);
+    const checked = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).checked;
+    switch (vitalKind) {
+      case 'bloodPressure': {
+        const systolic = number('systolic');
+        const diastolic = number('diastolic');
+        return systolic > 0 && diastolic > 0 ? { kind: 'bloodPressure', systolic, diastolic } : null;
+      }
+      case 'glucose': {
+        const value = number('glucose');
+        const timing = (form.elements.namedItem('timing') as HTMLSelectElement).value as GlucoseTiming;
+        return value > 0 ? { kind: 'glucose', mgdl: toMgdl(value, glucoseUnit), timing } : null;
+      }
+      case 'swelling': {
+        const areas = (Object.keys(SWELLING_AREA_LABELS) as SwellingArea[]).filter(area => checked(`area-${area}`));
+        return areas.length > 0 ? { kind: 'swelling', areas, sudden: checked('sudden') } : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const handleVitalSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value.trim();
+    const date = field('date');
+    if (!parseLocalDate(date)) return;
+
+    if (vitalKind === 'weight') {
+      const weight = parseFloat(field('weight'));
+      if (!(weight > 0)) return;
+      const weighIns = addWeighIn(weightData.weighIns, date, toKg(weight, weightUnit));
+      setWeightData(prev => ({ ...prev, weighIns }));
+      const alert = findRapidWeightGain(weighIns, vitals.thresholds, weightUnit, locale);
+      setVitalAlerts(alert ? [alert] : []);
+      form.reset();
+      return;
+    }
+
+    const reading = readVital(form);
+    if (!reading) return;
+    const entry = createVitalEntry({ date, time: field('time'), notes: field('notes') }, reading);
+    setVitals(prev => ({ ...prev, entries: [...prev.entries, entry] }));
+    setVitalAlerts(assessVital(entry, [...vitals.entries, entry], vitals.thresholds, locale));
+    form.reset();
+  };
+
+  const handleDeleteVital = (entryId: string) => {
+    setVitals(prev => ({ ...prev, entries: prev.entries.filter(entry => entry.id !== entryId) }));
+  };
+
+  // Glucose limits are entered in the chosen unit and weight gain in the weight tracker's unit
+  const handleVitalThresholdsSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const number = (name: string) => parseFloat((form.elements.namedItem(name) as HTMLInputElement).value);
+    const unit = (form.elements.namedItem('glucoseUnit') as HTMLSelectElement).value as GlucoseUnit;
+    const thresholds = {
+      systolic: number('systolic'),
+      diastolic: number('diastolic'),
+      severeSystolic: number('severeSystolic'),
+      severeDiastolic: number('severeDiastolic'),
+      fastingGlucose: toMgdl(number('fastingGlucose'), unit),
+      oneHourGlucose: toMgdl(number('oneHourGlucose'), unit),
+      twoHourGlucose: toMgdl(number('twoHourGlucose'), unit),
+      lowGlucose: toMgdl(number('lowGlucose'), unit),
+      weeklyWeightGainKg: toKg(number('weeklyWeightGain'), weightUnit),
+      glucoseUnit: unit
+    };
+    if (Object.values(thresholds).some(value => typeof value === 'number' && !(value > 0))) return;
+
+    setVitals(prev => ({ ...prev, thresholds }));
+    setIsEditingVitalThresholds(false);
+  };
+
+  // Gestational week (with fractions) on a given date, or null without a due date
+  const weekOnDate = (date: string): number | null => {
+    const parsed = parseLocalDate(date);
+    const age = datingInput && parsed ? getGestationalAge(datingInput, parsed) : null;
+    return age ? age.totalDays / 7 : null;
+  };
+
+  const handleMedicationLogSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value.trim();
+    const frequency = field('frequency') as MedicationFrequency;
+    const times = frequency === 'daily' ? [field('time1'), field('time2')].filter(Boolean).sort() : [];
+    const reminders = (form.elements.namedItem('reminders') as HTMLInputElement).checked && times.length > 0;
+    if (!field('name') || (frequency === 'daily' && times.length === 0)) return;
+
+    setMedicationLog(prev => [...prev, createMedicationLogEntry({
+      name: field('name'),
+      kind: field('kind') as MedicationKind,
+      dose: field('dose'),
+      frequency,
+      times,
+      reminders,
+      notes: field('notes')
+    })]);
+    if (reminders && notificationPermission === 'default') handleEnableNotifications();
+    form.reset();
+  };
+
+  // Renames an entry to the knowledge base name the user picked, so it's rated as that drug
+  const handleConfirmMedicationName = (entryId: string, name: string) => {
+    setMedicationLog(prev => prev.map(entry => (entry.id === entryId ? { ...entry, name } : entry)));
+  };
+
+  const handleDeleteMedicationLogEntry = (entryId: string) => {
+    setMedicationLog(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const handleMarkDoseTaken = (entryId: string, key: string) => {
+    setMedicationLog(prev => markDoseTaken(prev, entryId, key));
+  };
+
+  const handleAppointmentSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLTextAreaElement).value.trim();
+    if (!field('title') || !parseLocalDate(field('date'))) return;
+
+    const item = schedule.find(scheduled => scheduled.key === editingAppointmentKey) || null;
+    setAppointments(prev => saveScheduleItem(prev, item, {
+      title: field('title'),
+      date: field('date'),
+      time: field('time'),
+      location: field('location'),
+      notes: field('notes'),
+      result: field('result')
+    }));
+    setEditingAppointmentKey(null);
+  };
+
+  const handleAppointmentStatus = (item: ScheduleItem, status: AppointmentStatus) => {
+    setAppointments(prev => setItemStatus(prev, item, status, now));
+  };
+
+  // Deleting a booked milestone puts it back to its suggested window
+  const handleDeleteAppointment = (appointmentId: string) => {
+    setAppointments(prev => prev.filter(appointment => appointment.id !== appointmentId));
+    setEditingAppointmentKey(null);
+  };
+
+  const handleExportCalendar = () => {
+    const blob = new Blob([toICalendar(schedule, new Date(), locale)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pregnancy-appointments.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const escalateToEmergency = (alert: EmergencyAlert) => {
+    setEmergencyAlert(alert);
+    setActiveTab('emergency');
+  };
+
+  const handleStartKickSession = () => {
+    const at = Date.now();
+    setKickSessions(prev => [...prev.map(session => endKickSession(session, at)), startKickSession(gestationalAge?.weeks ?? null, at)]);
+    setClock(at);
+  };
+
+  // The 10th movement ends the session, and a much slower count than usual goes straight to the Emergency tab
+  const handleKick = () => {
+    if (!activeKickSession) return;
+    const at = Date.now();
+    const counted = addKick(activeKickSession, at);
+    const session = isTargetReached(counted) ? endKickSession(counted, at) : counted;
+    setKickSessions(prev => prev.map(existing => (existing.id === session.id ? session : existing)));
+    setClock(at);
+    const alert = session.endedAt !== undefined ? assessKickSession(session, kickSessions, at, locale) : null;
+    if (alert) escalateToEmergency({ ...alert, sign: REDUCED_MOVEMENT_SIGN });
+  };
+
+  const handleStopKickSession = () => {
+    const at = Date.now();
+    setKickSessions(prev => prev.map(session => endKickSession(session, at)));
+  };
+
+  const handleDeleteKickSession = (sessionId: string) => {
+    setKickSessions(prev => prev.filter(session => session.id !== sessionId));
+  };
+
+  // Escalates the moment a contraction completes a worrying pattern, not on every later one
+  const handleContractionToggle = () => {
+    const at = Date.now();
+    const next = activeContraction
+      ? contractions.map(contraction => endContraction(contraction, at))
+      : [...contractions, startContraction(at)];
+    setContractions(next);
+    setClock(at);
+    const alert = assessContractions(next, currentWeek, at, locale);
+    if (alert && !assessContractions(contractions, currentWeek, at, locale)) escalateToEmergency(alert);
+  };
+
+  const handleDeleteContraction = (contractionId: string) => {
+    setContractions(prev => prev.filter(contraction => contraction.id !== contractionId));
+  };
+
+  const openAppointments = () => {
+    setActiveTab('tracker');
+    setPendingAnchor('appointments');
+  };
+
+  const handleEnableNotifications = () => {
+    if (typeof Notification === 'undefined') return;
+    Notification.requestPermission().then(setNotificationPermission);
+  };
+
+  const dismissReminder = (reminderId: string) => {
+    setFiredReminders(prev => prev.filter(item => item.reminder.id !== reminderId));
+  };
+
+  // Functional updates, since the service worker listener keeps the first render's handlers
+  const handleSnoozeReminder = (reminderId: string) => {
+    setReminders(prev => ({
+      ...prev,
+      snoozes: snoozeReminder(prev.snoozes, reminderId, Date.now(), prev.settings.snoozeMinutes)
+    }));
+    dismissReminder(reminderId);
+  };
+
+  const handleOpenReminder = (reminderId: string, tab: string | null | undefined) => {
+    const target = TABS.find(t => t === tab);
+    if (target) setActiveTab(target);
+    dismissReminder(reminderId);
+  };
+
+  const handleReminderAction = (action: string | null, reminderId: string, tab: string | null) => {
+    if (action === 'reminder-snooze') handleSnoozeReminder(reminderId);
+    if (action === 'reminder-open') handleOpenReminder(reminderId, tab);
+    if (action === 'reminder-done') dismissReminder(reminderId);
+  };
+
+  const handleReminderSettingsSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value;
+    const checked = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).checked;
+    setReminders(prev => ({
+      ...prev,
+      settings: {
+        vitamins: { enabled: checked('vitamins'), time: field('vitaminsTime') || prev.settings.vitamins.time },
+        kickCount: { enabled: checked('kickCount'), time: field('kickCountTime') || prev.settings.kickCount.time },
+        medications: checked('medications'),
+        appointments: checked('appointments'),
+        weeklyDigest: checked('weeklyDigest'),
+        quietHours: checked('quietHours') && field('quietStart') && field('quietEnd')
+          ? { start: field('quietStart'), end: field('quietEnd') }
+          : null,
+        snoozeMinutes: parseInt(field('snoozeMinutes'), 10) || prev.settings.snoozeMinutes
+      }
+    }));
+  };
+
+  const handleCustomReminderSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value.trim();
+    const time = field('time');
+    if (!field('title') || !time) return;
+
+    let rule: RecurrenceRule;
+    if (customReminderFrequency === 'once') {
+      const day = parseLocalDate(field('date'));
+      if (!day) return;
+      const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+      rule = { frequency: 'once', at: new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).getTime() };
+    } else if (customReminderFrequency === 'weekly') {
+      const weekdays = WEEKDAYS.filter(day => (form.elements.namedItem(`weekday-${day}`) as HTMLInputElement).checked);
+      if (weekdays.length === 0) return;
+      rule = { frequency: 'weekly', weekdays, time };
+    } else {
+      rule = { frequency: 'daily', times: [time] };
+    }
+
+    setReminders(prev => ({ ...prev, custom: [...prev.custom, createCustomReminder({ title: field('title'), body: field('body'), rule })] }));
+    if (notificationPermission === 'default') handleEnableNotifications();
+    form.reset();
+  };
+
+  const handleDeleteCustomReminder = (reminderId: string) => {
+    setReminders(prev => ({
+      ...prev,
+      custom: prev.custom.filter(reminder => reminder.id !== reminderId),
+      snoozes: prev.snoozes.filter(snooze => snooze.reminderId !== reminderId)
+    }));
+    dismissReminder(reminderId);
+  };
+
+  const openSection = (link: SectionLink) => {
+    switch (link.tab) {
+      case 'medications':
+        setMedicationSearch(link.query);
+        break;
+      case 'symptoms':
+        setSymptomSearch(link.query);
+        break;
+      case 'nutrition':
+        if (link.query) setFoodSearch(link.query);
+        setPendingAnchor(link.anchor);
+        break;
+      case 'tracker':
+        setViewedWeek(link.week === currentWeek ? null : link.week);
+        break;
+    }
+    setActiveTab(link.tab);
+  };
+
+  const handleNewConversation = () => {
+    if (isLoading) return;
+    const conversation = createConversation();
+    setConversations(prev => [...prev, conversation]);
+    setActiveConversationId(conversation.id);
+    setChatMessages(conversation.messages);
+    setShowHistory(false);
+  };
+
+  const handleOpenConversation = (conversation: Conversation) => {
+    if (isLoading) return;
+    setActiveConversationId(conversation.id);
+    setChatMessages(conversation.messages);
+    setShowHistory(false);
+  };
+
+  const handleRenameConversation = (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = renameValue.trim();
+    if (renamingConversationId && title) {
+      setConversations(prev => prev.map(c => (c.id === renamingConversationId ? { ...c, title } : c)));
+    }
+    setRenamingConversationId(null);
+  };
+
+  const handleDeleteConversation = (conversationId: string) => {
+    if (isLoading) return;
+    const remaining = conversations.filter(c => c.id !== conversationId);
+    if (conversationId === activeConversationId) {
+      const next = remaining.length > 0 ? searchConversations(remaining, '')[0] : createConversation();
+      setActiveConversationId(next.id);
+      setChatMessages(next.messages);
+      setConversations(remaining.length > 0 ? remaining : [next]);
+    } else {
+      setConversations(remaining);
+    }
+  };
+
+  const renderHome = () => (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-pink-100 to-purple-100 p-6 rounded-2xl">
+        <h2 className="text-2xl font-bold mb-2">{t('home.welcome')}</h2>
+        <p className="text-gray-700">
+          {t('home.tracking', { week: currentWeek })}
+          {gestationalAge && ` (${t('home.gestationalAge', { weeks: gestationalAge.weeks, days: gestationalAge.days })})`}
+        </p>
+        {gestationalAge && dueDate && (
+          <p className="text-sm text-gray-600 mt-1">
+            {t('home.dueDate', { date: formatDate(dueDate, locale, { month: 'long', day: 'numeric', year: 'numeric' }) })}
+            {' • '}
+            {gestationalAge.daysRemaining >= 0
+              ? t('home.daysToGo', { days: gestationalAge.daysRemaining })
+              : t('home.daysPastDue', { days: -gestationalAge.daysRemaining })}
+          </p>
+        )}
+        <div className="mt-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Baby className="w-8 h-8 text-purple-600" />
+            <div>
+              <p className="font-semibold">{weekInfo?.title || t('home.progress')}</p>
+              <p className="text-sm text-gray-600">
+                {t('home.trimester', { trimester: t(`trimester.${gestationalAge?.trimester || weekInfo?.trimester || 'First'}` as MessageKey) })}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => setProfileStep('dating')}
+            className="px-3 py-1 text-sm text-purple-600 hover:text-purple-800 underline cursor-pointer"
+            type="button"
+          >
+            {t('home.editProfile')}
+          </button>
+        </div>
       </div>
+
+      {!isKbLoaded && (
+        <div className="bg-yellow-50 p-4 rounded-xl border border-yellow-200">
+          <p className="text-sm text-yellow-800">{t('home.loadingKb')}</p>
+        </div>
+      )}
+
+      {(dueDoses.length > 0 || medicationWarnings.length > 0) && (
+        <button
+          type="button"
+          onClick={() => setActiveTab('medications')}
+          className="w-full text-left bg-white p-4 rounded-xl shadow-md border-l-4 border-purple-500"
+        >
+          <h3 className="font-semibold flex items-center">
+            <Pill className="w-5 h-5 mr-2 text-purple-600" />
+            {t('home.medications')}
+          </h3>
+          {dueDoses.length > 0 && (
+            <p className="text-sm text-gray-700 mt-1">
+              {t('home.dueNow', { doses: dueDoses.map(dose => `${dose.entry.name} (${dose.time})`).join(', ') })}
+            </p>
+          )}
+          {medicationWarnings.map(({ entry, assessment, allergies }) => (
+            <p key={entry.id} className="text-sm text-gray-700 mt-1">
+              {assessment.safety} {entry.name}: {assessment.safetyLevel}
+              {assessment.upcoming && ` - ${t('home.becomes', { level: assessment.upcoming.safetyLevel.toLowerCase(), week: assessment.upcoming.week })}`}
+              {allergies.length > 0 && <span className="text-red-700"> - {t('home.mayContainAllergen', { allergies: allergies.join(', ') })}</span>}
+            </p>
+          ))}
+        </button>
+      )}
+
+      {upcomingAppointments.length > 0 && (
+        <button
+          type="button"
+          onClick={openAppointments}
+          className="w-full text-left bg-white p-4 rounded-xl shadow-md border-l-4 border-blue-500"
+        >
+          <h3 className="font-semibold flex items-center">
+            <CalendarCheck className="w-5 h-5 mr-2 text-blue-600" />
+            {t('home.comingUp')}
+          </h3>
+          {upcomingAppointments.map(item => (
+            <p key={item.key} className="text-sm text-gray-700 mt-1">
+              {item.title}: {describeWhen(item, now, locale)}
+            </p>
+          ))}
+        </button>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          onClick={() => setActiveTab('tracker')}
+          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
+        >
+          <Calendar className="w-8 h-8 text-blue-500 mb-2" />
+          <h3 className="font-semibold">{t('home.card.tracker')}</h3>
+          <p className="text-sm text-gray-600">{t('home.card.trackerHint')}</p>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('medications')}
+          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
+        >
+          <Pill className="w-8 h-8 text-green-500 mb-2" />
+          <h3 className="font-semibold">{t('home.card.medications')}</h3>
+          <p className="text-sm text-gray-600">{t('home.card.medicationsHint')}</p>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('symptoms')}
+          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
+        >
+          <Activity className="w-8 h-8 text-orange-500 mb-2" />
+          <h3 className="font-semibold">{t('home.card.symptoms')}</h3>
+          <p className="text-sm text-gray-600">{t('home.card.symptomsHint')}</p>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('nutrition')}
+          className="bg-white p-4 rounded-xl shadow-md hover:shadow-lg transition-shadow"
+        >
+          <Apple className="w-8 h-8 text-red-500 mb-2" />
+          <h3 className="font-semibold">{t('home.card.nutrition')}</h3>
+          <p className="text-sm text-gray-600">{t('home.card.nutritionHint')}</p>
+        </button>
+      </div>
+
+      <div className="bg-red-50 p-4 rounded-xl border border-red-200">
+        <h3 className="font-semibold text-red-800 mb-2 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          {t('home.emergency.title')}
+        </h3>
+        <p className="text-sm text-red-700 mb-2">{t('home.emergency.seekHelp')}</p>
+        <ul className="text-sm space-y-1">
+          {emergencySymptoms.slice(0, 3).map((s, i) => (
+            <li key={i} className="flex items-start">
+              <span className="text-red-500 mr-2">•</span>
+              <span>{localize(s, locale).sign}</span>
+            </li>
+          ))}
+        </ul>
+        <button 
+          onClick={() => setActiveTab('emergency')}
+          className="text-red-600 text-sm mt-2 underline"
+        >
+          {t('home.emergency.viewAll')}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderAppointmentForm = (item: ScheduleItem | null) => (
+    <form key={item?.key || 'new'} onSubmit={handleAppointmentSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+      <input
+        name="title"
+        defaultValue={item?.title || ''}
+        placeholder={t('appointments.form.title')}
+        required
+        className="md:col-span-2 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      <input
+        name="date"
+        type="date"
+        defaultValue={item?.date || toDateInputValue(now)}
+        required
+        className="px-3 py-2 border rounded-lg"
+        aria-label={t('common.date')}
+      />
+      <input name="time" type="time" defaultValue={item?.time || ''} className="px-3 py-2 border rounded-lg" aria-label={t('appointments.form.time')} />
+      <input
+        name="location"
+        defaultValue={item?.appointment?.location || ''}
+        placeholder={t('appointments.form.location')}
+        className="md:col-span-2 px-3 py-2 border rounded-lg"
+      />
+      <textarea
+        name="notes"
+        rows={2}
+        defaultValue={item?.appointment?.notes || ''}
+        placeholder={t('appointments.form.notes')}
+        className="px-3 py-2 border rounded-lg"
+      />
+      <textarea
+        name="result"
+        rows={2}
+        defaultValue={item?.appointment?.result || ''}
+        placeholder={t('appointments.form.result')}
+        className="px-3 py-2 border rounded-lg"
+      />
+      <div className="md:col-span-2 flex space-x-2">
+        <button type="submit" className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+          {item && !item.appointment ? t('appointments.book') : t('common.save')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditingAppointmentKey(null)}
+          className="px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderScheduleItem = (item: ScheduleItem) => {
+    const overdue = isOverdue(item, now);
+    const appointment = item.appointment;
+    return (
+      <div
+        key={item.key}
+        className={`p-3 rounded-lg border ${
+          item.status === 'done' ? 'bg-green-50 border-green-200' :
+          item.status === 'skipped' ? 'bg-gray-50 border-gray-200 opacity-70' :
+          item.missed || overdue ? 'bg-yellow-50 border-yellow-200' :
+          appointment ? 'bg-purple-50 border-purple-200' :
+          'bg-gray-50 border-gray-200'
+        }`}
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="font-medium">
+              {item.status === 'done' && <CheckCircle className="inline w-4 h-4 text-green-600 mr-1" />}
+              {item.title}
+              {item.milestone && <span className="text-xs text-gray-500"> • {describeWindow(item.milestone, locale)}</span>}
+            </p>
+            <p className="text-sm text-gray-600">
+              {item.missed ? t('appointments.missed') : describeWhen(item, now, locale)}
+              {item.status === 'skipped' && ` • ${t('appointments.skipped')}`}
+            </p>
+            {item.milestone && <p className="text-xs text-gray-600 mt-1">{item.milestone.description}</p>}
+            {appointment?.location && <p className="text-xs text-gray-600 mt-1">{t('appointments.at', { location: appointment.location })}</p>}
+            {appointment?.notes && <p className="text-xs text-gray-500 mt-1">{appointment.notes}</p>}
+            {appointment?.result && <p className="text-sm text-gray-800 mt-1">{t('appointments.result', { result: appointment.result })}</p>}
+            {overdue && <p className="text-xs text-yellow-800 mt-1">{t('appointments.overdue')}</p>}
+          </div>
+          <div className="flex items-center space-x-1 shrink-0">
+            {item.status === 'planned' ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleAppointmentStatus(item, 'done')}
+                  className="px-2 py-1 text-xs text-green-700 hover:bg-green-100 rounded"
+                >
+                  {t('appointments.done')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleAppointmentStatus(item, 'skipped')}
+                  className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+                >
+                  {t('appointments.skip')}
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleAppointmentStatus(item, 'planned')}
+                className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+              >
+                {t('appointments.undo')}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setEditingAppointmentKey(editingAppointmentKey === item.key ? null : item.key)}
+              className="p-1 text-gray-400 hover:text-purple-600"
+              aria-label={appointment ? t('appointments.edit') : t('appointments.bookAppointment')}
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            {appointment && (
+              <button
+                type="button"
+                onClick={() => handleDeleteAppointment(appointment.id)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                aria-label={item.milestone ? t('appointments.removeBooking') : t('appointments.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+        {editingAppointmentKey === item.key && renderAppointmentForm(item)}
+      </div>
+    );
+  };
+
+  const renderAppointments = () => {
+    // Done, skipped and missed items fold away; overdue bookings stay until they're marked
+    const past = schedule.filter(item => item.status !== 'planned' || item.missed);
+    const current = schedule.filter(item => !past.includes(item));
+    return (
+      <div id="appointments" className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-2xl font-bold">{t('appointments.title')}</h2>
+          {schedule.length > 0 && (
+            <button
+              type="button"
+              onClick={handleExportCalendar}
+              className="flex items-center px-3 py-1 text-sm text-purple-600 hover:text-purple-800"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              {t('appointments.export')}
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          {!dueDate
+            ? t('appointments.intro.noDueDate')
+            : userProfile.babies >= 2
+              ? t('appointments.intro.multiples', { babies: babiesLabel(userProfile.babies, locale) })
+              : t('appointments.intro')}
+        </p>
+
+        {past.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowPastAppointments(!showPastAppointments)}
+            className="text-sm text-purple-600 underline mb-2"
+          >
+            {showPastAppointments ? t('appointments.hidePast', { count: past.length }) : t('appointments.showPast', { count: past.length })}
+          </button>
+        )}
+        <div className="space-y-2">
+          {showPastAppointments && past.map(renderScheduleItem)}
+          {current.map(renderScheduleItem)}
+        </div>
+
+        {editingAppointmentKey === 'new' ? (
+          renderAppointmentForm(null)
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditingAppointmentKey('new')}
+            className="mt-4 flex items-center text-sm text-purple-600 hover:text-purple-800"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t('appointments.add')}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const formatReminderTime = (ms: number) =>
+    toDateInputValue(new Date(ms)) === toDateInputValue(now)
+      ? t('reminders.todayAt', { time: formatClockTime(ms) })
+      : formatDateTime(new Date(ms), locale, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  // Shown over every tab while the app is open, whether or not notifications are allowed
+  const renderFiredReminders = () => (
+    <div className="bg-purple-50 p-4 rounded-xl border border-purple-200 mb-6 space-y-3">
+      {firedReminders.map(item => (
+        <div key={item.key} className="flex items-start justify-between">
+          <div>
+            <p className="font-semibold text-purple-900 flex items-center">
+              <Bell className="w-4 h-4 mr-2" />
+              {item.reminder.title}
+            </p>
+            {item.reminder.body && <p className="text-sm text-purple-800">{item.reminder.body}</p>}
+          </div>
+          <div className="flex items-center space-x-2 text-sm flex-shrink-0 ml-2">
+            {item.reminder.tab && (
+              <button type="button" onClick={() => handleOpenReminder(item.reminder.id, item.reminder.tab)} className="text-purple-700 underline">
+                {t('reminders.open')}
+              </button>
+            )}
+            <button type="button" onClick={() => handleSnoozeReminder(item.reminder.id)} className="text-purple-700">
+              {t('reminders.snooze', { minutes: reminders.settings.snoozeMinutes })}
+            </button>
+            <button type="button" onClick={() => dismissReminder(item.reminder.id)} className="p-1 text-gray-400 hover:text-gray-600" aria-label={t('reminders.dismiss')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderReminders = () => {
+    const { settings } = reminders;
+    const upcoming = reminderList
+      .map(reminder => ({ reminder, at: getNextOccurrence(reminder, reminders, now.getTime()) }))
+      .filter((item): item is { reminder: typeof item.reminder; at: number } => item.at !== null)
+      .sort((a, b) => a.at - b.at);
+    const today = toDateInputValue(now);
+    return (
+      <div id="reminders" className="bg-white p-6 rounded-xl shadow-md">
+        <h2 className="text-2xl font-bold mb-1 flex items-center">
+          <Bell className="w-6 h-6 mr-2 text-purple-600" />
+          {t('reminders.title')}
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {notificationPermission === 'granted'
+            ? t('reminders.permission.granted')
+            : notificationPermission === 'denied'
+              ? t('reminders.permission.denied')
+              : notificationPermission === 'unsupported'
+                ? t('reminders.permission.unsupported')
+                : t('reminders.permission.default')}
+        </p>
+        {notificationPermission === 'default' && (
+          <button
+            type="button"
+            onClick={handleEnableNotifications}
+            className="mb-4 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            {t('reminders.enable')}
+          </button>
+        )}
+
+        {upcoming.length > 0 && (
+          <div className="space-y-1 mb-4">
+            <h3 className="font-semibold text-gray-700">{t('reminders.comingUp')}</h3>
+            {upcoming.slice(0, 8).map(({ reminder, at }) => (
+              <div key={reminder.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                <div>
+                  <p className="font-medium">{reminder.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatReminderTime(at)}
+                    {reminders.snoozes.some(snooze => snooze.reminderId === reminder.id) && ` • ${t('reminders.snoozed')}`}
+                    {reminder.rule.frequency !== 'once' && ` • ${describeRule(reminder.rule, locale)}`}
+                  </p>
+                </div>
+                {reminder.id.startsWith('custom:') && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteCustomReminder(reminder.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={t('reminders.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleReminderSettingsSubmit} className="bg-purple-50 p-4 rounded-lg mb-4 space-y-2 text-sm text-gray-700">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center">
+              <input name="vitamins" type="checkbox" defaultChecked={settings.vitamins.enabled} className="mr-2" />
+              {t('reminders.settings.vitamins')}
+            </label>
+            <input name="vitaminsTime" type="time" defaultValue={settings.vitamins.time} className="px-2 py-1 border rounded" aria-label={t('reminders.settings.vitaminsTime')} />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center">
+              <input name="kickCount" type="checkbox" defaultChecked={settings.kickCount.enabled} className="mr-2" />
+              {t('reminders.settings.kickCount', { week: KICK_COUNT_START_WEEK })}
+            </label>
+            <input name="kickCountTime" type="time" defaultValue={settings.kickCount.time} className="px-2 py-1 border rounded" aria-label={t('reminders.settings.kickCountTime')} />
+          </div>
+          <label className="flex items-center">
+            <input name="medications" type="checkbox" defaultChecked={settings.medications} className="mr-2" />
+            {t('reminders.settings.medications')}
+          </label>
+          <label className="flex items-center">
+            <input name="appointments" type="checkbox" defaultChecked={settings.appointments} className="mr-2" />
+            {t('reminders.settings.appointments')}
+          </label>
+          <label className="flex items-center">
+            <input name="weeklyDigest" type="checkbox" defaultChecked={settings.weeklyDigest} className="mr-2" />
+            {t('reminders.settings.weeklyDigest')}
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center">
+              <input name="quietHours" type="checkbox" defaultChecked={settings.quietHours !== null} className="mr-2" />
+              {t('reminders.settings.quietFrom')}
+            </label>
+            <input name="quietStart" type="time" defaultValue={settings.quietHours?.start || '22:00'} className="px-2 py-1 border rounded" aria-label={t('reminders.settings.quietStart')} />
+            <span>{t('reminders.settings.quietTo')}</span>
+            <input name="quietEnd" type="time" defaultValue={settings.quietHours?.end || '07:00'} className="px-2 py-1 border rounded" aria-label={t('reminders.settings.quietEnd')} />
+          </div>
+          <label className="flex items-center">
+            {t('reminders.settings.snoozeFor')}
+            <select name="snoozeMinutes" defaultValue={settings.snoozeMinutes} className="mx-2 px-2 py-1 border rounded">
+              {SNOOZE_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{t('reminders.minutes', { minutes })}</option>)}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">{t('reminders.settings.quietNote')}</p>
+          <button type="submit" className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+            {t('reminders.settings.save')}
+          </button>
+        </form>
+
+        <form key={customReminderFrequency} onSubmit={handleCustomReminderSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input name="title" placeholder={t('reminders.custom.title')} required className="md:col-span-2 px-3 py-2 border rounded-lg" />
+          <select
+            value={customReminderFrequency}
+            onChange={(e) => setCustomReminderFrequency(e.target.value as RecurrenceRule['frequency'])}
+            className="px-3 py-2 border rounded-lg"
+            aria-label={t('reminders.custom.repeat')}
+          >
+            <option value="daily">{t('reminders.custom.daily')}</option>
+            <option value="weekly">{t('reminders.custom.weekly')}</option>
+            <option value="once">{t('reminders.custom.once')}</option>
+          </select>
+          <input name="time" type="time" defaultValue="09:00" required className="px-3 py-2 border rounded-lg" aria-label={t('common.time')} />
+          {customReminderFrequency === 'once' && (
+            <input name="date" type="date" defaultValue={today} min={today} required className="px-3 py-2 border rounded-lg" aria-label={t('common.date')} />
+          )}
+          {customReminderFrequency === 'weekly' && (
+            <div className="md:col-span-2 flex flex-wrap gap-3 text-sm text-gray-700">
+              {WEEKDAYS.map(day => (
+                <label key={day} className="flex items-center">
+                  <input name={`weekday-${day}`} type="checkbox" className="mr-1" />
+                  {weekdayLabel(day, locale)}
+                </label>
+              ))}
+            </div>
+          )}
+          <input name="body" placeholder={t('reminders.custom.body')} className="md:col-span-2 px-3 py-2 border rounded-lg" />
+          <button type="submit" className="md:col-span-2 flex items-center justify-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+            <Plus className="w-4 h-4 mr-1" />
+            {t('reminders.custom.add')}
+          </button>
+        </form>
+      </div>
+    );
+  };
+
+  const formatClockTime = (ms: number) => formatTime(new Date(ms), locale, { hour: '2-digit', minute: '2-digit' });
+
+  // A threshold crossed by the kick counter or contraction timer, with the way into the Emergency tab
+  const renderToolAlert = (alert: EmergencyAlert, urgent: boolean) => (
+    <div className={`p-3 mb-4 rounded-lg border ${urgent ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'}`}>
+      <p className={`font-semibold flex items-center ${urgent ? 'text-red-800' : 'text-orange-900'}`}>
+        <AlertTriangle className="w-5 h-5 mr-2" />
+        {alert.title}
+      </p>
+      <p className={`text-sm mt-1 ${urgent ? 'text-red-700' : 'text-orange-800'}`}>{alert.message}</p>
+      <button
+        type="button"
+        onClick={() => escalateToEmergency(alert)}
+        className={`text-sm underline mt-2 ${urgent ? 'text-red-600' : 'text-orange-700'}`}
+      >
+        {t('tools.openEmergency')}
+      </button>
     </div>
   );
 
+  const renderKickCounter = () => {
+    const baseline = getKickBaseline(kickSessions, activeKickSession?.id);
+    const history = kickSessions.filter(session => session.endedAt !== undefined).slice(-7).reverse();
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <h2 className="text-2xl font-bold mb-1">{t('kicks.title')}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {t('kicks.intro', { target: KICK_TARGET })}
+          {currentWeek < KICK_COUNT_START_WEEK && ` ${t('kicks.startWeek', { week: KICK_COUNT_START_WEEK })}`}
+        </p>
+
+        {kickAlert && renderToolAlert({ ...kickAlert, sign: REDUCED_MOVEMENT_SIGN }, true)}
+
+        {activeKickSession ? (
+          <div className="text-center p-4 bg-purple-50 rounded-lg">
+            <p className="text-4xl font-bold text-purple-600">{activeKickSession.kicks.length} / {KICK_TARGET}</p>
+            <p className="text-sm text-purple-800 mt-1">{t('kicks.soFar', { duration: formatDuration(nowMs - activeKickSession.startedAt, locale) })}</p>
+            <div className="flex justify-center space-x-2 mt-3">
+              <button
+                type="button"
+                onClick={handleKick}
+                className="px-6 py-3 bg-purple-600 text-white text-lg rounded-lg hover:bg-purple-700"
+              >
+                <Baby className="inline w-5 h-5 mr-2" />
+                {t('kicks.felt')}
+              </button>
+              <button type="button" onClick={handleStopKickSession} className="px-4 py-3 border rounded-lg text-gray-700 hover:bg-gray-50">
+                {t('kicks.stop')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={handleStartKickSession}
+            className="w-full px-4 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            {t('kicks.start')}
+          </button>
+        )}
+
+        {baseline !== null && (
+          <p className="text-sm text-gray-600 mt-3">{t('kicks.baseline', { target: KICK_TARGET, duration: formatDuration(baseline, locale) })}</p>
+        )}
+        {history.length > 0 && (
+          <div className="mt-4">
+            <h3 className="font-semibold mb-2">{t('kicks.recent')}</h3>
+            <div className="space-y-1">
+              {history.map(session => {
+                const toTarget = timeToTarget(session);
+                return (
+                  <div key={session.id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                    <span>
+                      {formatDate(new Date(session.startedAt), locale, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      {' '}{formatClockTime(session.startedAt)}
+                      {session.week !== null && <span className="text-gray-500"> • {t('tools.week', { week: session.week })}</span>}
+                    </span>
+                    <span className="flex items-center">
+                      {toTarget !== null
+                        ? t('kicks.reached', { count: KICK_TARGET, duration: formatDuration(toTarget, locale) })
+                        : t('kicks.stopped', { count: session.kicks.length, duration: formatDuration((session.endedAt as number) - session.startedAt, locale) })}
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteKickSession(session.id)}
+                        className="ml-2 p-1 text-gray-400 hover:text-red-600"
+                        aria-label={t('kicks.delete')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderContractionTimer = () => {
+    const summary = summarizeContractions(contractions, nowMs);
+    const timings = timeContractions(contractions).slice(0, 10);
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <h2 className="text-2xl font-bold mb-1">{t('contractions.title')}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {t('contractions.intro')}{' '}
+          {currentWeek < TERM_WEEK ? t('contractions.intro.preterm') : t('contractions.intro.term')}
+        </p>
+
+        {contractionAlert && renderToolAlert(contractionAlert, contractionAlert.level === 'emergency')}
+
+        <button
+          type="button"
+          onClick={handleContractionToggle}
+          className={`w-full py-4 rounded-lg text-lg font-semibold text-white ${
+            activeContraction ? 'bg-red-500 hover:bg-red-600' : 'bg-purple-600 hover:bg-purple-700'
+          }`}
+        >
+          {activeContraction
+            ? t('contractions.ended', { duration: formatDuration(nowMs - activeContraction.start, locale) })
+            : t('contractions.started')}
+        </button>
+
+        {summary.count > 0 && (
+          <p className="text-sm text-gray-700 mt-3">
+            {t(summary.count === 1 ? 'contractions.lastHour.one' : 'contractions.lastHour', { count: summary.count })}
+            {summary.averageDurationMs !== null && ` • ${t('contractions.averageDuration', { duration: formatDuration(summary.averageDurationMs, locale) })}`}
+            {summary.averageIntervalMs !== null && ` • ${t('contractions.averageInterval', { duration: formatDuration(summary.averageIntervalMs, locale) })}`}
+          </p>
+        )}
+        {timings.length > 0 && (
+          <table className="w-full text-sm mt-3">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 font-medium">{t('contractions.column.started')}</th>
+                <th className="py-1 font-medium">{t('contractions.column.lasted')}</th>
+                <th className="py-1 font-medium">{t('contractions.column.since')}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {timings.map(({ contraction, durationMs, intervalMs }) => (
+                <tr key={contraction.id} className="border-t">
+                  <td className="py-1">{formatClockTime(contraction.start)}</td>
+                  <td className="py-1">{durationMs !== null ? formatDuration(durationMs, locale) : t('contractions.ongoing')}</td>
+                  <td className="py-1">{intervalMs !== null ? formatDuration(intervalMs, locale) : '-'}</td>
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteContraction(contraction.id)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={t('contractions.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  };
+
   const renderTracker = () => (
     <div className="space-y-6">
       <div className="bg-white p-6 rounded-xl shadow-md">
-        <h2 className="text-2xl font-bold mb-4">Pregnancy Week Tracker</h2>
+        <h2 className="text-2xl font-bold mb-4">{t('tracker.title')}</h2>
         
         <div className="mb-6">
           <div className="bg-purple-50 p-4 rounded-lg mb-4">
             <p className="text-purple-900 font-medium">
-              Based on your due date: {dueDate ? new Date(dueDate).toLocaleDateString() : 'Not set'}
+              {t('tracker.basedOn', { date: dueDate ? formatDate(dueDate, locale) : t('tracker.notSet') })}
             </p>
             <p className="text-2xl font-bold text-purple-600 mt-1">
-              You are currently in Week {currentWeek}
+              {t('tracker.currentWeek', { week: currentWeek })}
+            </p>
+            {gestationalAge && (
+              <div className="text-sm text-purple-800 mt-2 space-y-1">
+                <p>
+                  {t('tracker.gestationalAge', {
+                    weeks: gestationalAge.weeks,
+                    days: gestationalAge.days,
+                    trimester: t(`trimester.${gestationalAge.trimester}`)
+                  })}
+                </p>
+                {datingInput && <p>{t('tracker.datedBy', { method: t(DATING_METHOD_LABELS[datingInput.method]) })}</p>}
+                <p>
+                  {t('tracker.deliveryWindow', {
+                    from: formatDate(gestationalAge.dueDateWindow.earliest, locale),
+                    to: formatDate(gestationalAge.dueDateWindow.latest, locale)
+                  })}
+                </p>
+              </div>
+            )}
+          </div>
+          {pregnancyProfile && getProfileNotes(pregnancyProfile, trackerWeek, locale).length > 0 && (
+            <div className="bg-pink-50 p-4 rounded-lg mb-4">
+              <h3 className="font-semibold text-pink-900 mb-2 flex items-center">
+                <Heart className="w-5 h-5 mr-2" />
+                {t('tracker.forYou')}
+              </h3>
+              <ul className="text-sm text-pink-900 space-y-1 ml-4">
+                {getProfileNotes(pregnancyProfile, trackerWeek, locale).map((note, i) => (
+                  <li key={i} className="list-disc">{note}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {viewedWeek !== null && (
+            <div className="flex items-center justify-between bg-blue-50 p-3 rounded-lg text-sm text-blue-900">
+              <span>{t('tracker.viewingWeek', { week: viewedWeek })}</span>
+              <button
+                type="button"
+                onClick={() => setViewedWeek(null)}
+                className="text-blue-700 underline"
+              >
+                {t('tracker.backToCurrent')}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {trackerWeekInfo ? (
+          <div className="space-y-4">
+            <div className="bg-purple-50 p-4 rounded-lg">
+              <h3 className="font-semibold text-purple-900">{trackerWeekInfo.title}</h3>
+              <p className="text-purple-700">{t('home.trimester', { trimester: t(`trimester.${trackerWeekInfo.trimester}` as MessageKey) })}</p>
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">{t('tracker.babyDevelopment')}</h4>
+              <ul className="space-y-1">
+                {trackerWeekInfo.babyDevelopment.map((item, i) => (
+                  <li key={i} className="flex items-start text-sm">
+                    <Baby className="w-4 h-4 text-purple-500 mr-2 mt-0.5" />
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">{t('tracker.yourBody')}</h4>
+              <ul className="space-y-1">
+                {trackerWeekInfo.maternalChanges.map((item, i) => (
+                  <li key={i} className="flex items-start text-sm">
+                    <span className="text-pink-500 mr-2">•</span>
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">{t('tracker.commonSymptoms')}</h4>
+              <div className="space-y-2">
+                {trackerWeekInfo.commonSymptoms.map((symptom, i) => (
+                  <div key={i} className="flex items-start bg-gray-50 p-3 rounded-lg">
+                    <Heart className="w-5 h-5 text-pink-500 mr-2 mt-0.5" />
+                    <div>
+                      <p className="font-medium">{symptom.symptom}</p>
+                      <p className="text-sm text-gray-600">{symptom.status}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {trackerWeekInfo.exercise && (
+              <div className="bg-blue-50 p-4 rounded-lg">
+                <h4 className="font-semibold text-blue-900 mb-2">
+                  {t('tracker.exercise', { name: trackerWeekInfo.exercise.name })}
+                </h4>
+                <p className="text-sm text-blue-700 mb-2">{trackerWeekInfo.exercise.benefits}</p>
+                <ul className="text-sm space-y-1">
+                  {trackerWeekInfo.exercise.instructions.map((inst, i) => (
+                    <li key={i} className="flex items-start">
+                      <span className="text-blue-500 mr-2">•</span>
+                      {inst}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="bg-green-50 p-4 rounded-lg">
+              <h4 className="font-semibold text-green-900 mb-2">{t('tracker.checklist')}</h4>
+              <ul className="text-sm space-y-1">
+                {trackerWeekInfo.checklist.map((item, i) => (
+                  <li key={i} className="flex items-start text-green-800">
+                    <CheckCircle className="w-4 h-4 text-green-600 mr-2 mt-0.5" />
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <Baby className="w-16 h-16 mx-auto mb-4 text-gray-300" />
+            <p>{t('tracker.comingSoon', { week: trackerWeek })}</p>
+          </div>
+        )}
+      </div>
+
+      {currentWeek >= LATE_PREGNANCY_TOOLS_WEEK && renderKickCounter()}
+      {currentWeek >= LATE_PREGNANCY_TOOLS_WEEK && renderContractionTimer()}
+      {renderAppointments()}
+      {renderReminders()}
+    </div>
+  );
+
+  const safetyStyles = (safety: string | null) =>
+    safety === '🟢' ? 'bg-green-50 border-green-200' :
+    safety === '🟡' ? 'bg-yellow-50 border-yellow-200' :
+    safety === '🔴' ? 'bg-red-50 border-red-200' :
+    'bg-gray-50 border-gray-200';
+
+  const renderMedicationLog = () => (
+    <div className="bg-white p-6 rounded-xl shadow-md">
+      <h2 className="text-2xl font-bold mb-1">{t('medicationLog.title')}</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {t('medications.checkedAgainst', { week: currentWeek, trimester: t(`trimester.${getTrimester(currentWeek)}`) })}
+      </p>
+
+      {dueDoses.length > 0 && (
+        <div className="p-3 mb-4 bg-purple-50 rounded-lg border border-purple-200">
+          <h3 className="font-semibold text-purple-900 mb-2">{t('medicationLog.dueNow')}</h3>
+          {dueDoses.map(dose => (
+            <div key={dose.key} className="flex items-center justify-between text-sm py-1">
+              <span>{dose.entry.name} {dose.entry.dose && `- ${dose.entry.dose}`} ({dose.time})</span>
+              <button
+                type="button"
+                onClick={() => handleMarkDoseTaken(dose.entry.id, dose.key)}
+                className="px-2 py-1 text-xs bg-purple-600 text-white rounded hover:bg-purple-700"
+              >
+                {t('medicationLog.markTaken')}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {medicationAssessments.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {medicationAssessments.map(({ entry, assessment, allergies, candidates }) => {
+            const nextDose = getNextDoseTime(entry, now);
+            return (
+              <div key={entry.id} className={`p-3 rounded-lg border ${safetyStyles(assessment.safety)}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">
+                      {entry.name}
+                      <span className="text-xs text-gray-500"> • {t(`medicationLog.kind.${entry.kind}`)}</span>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {entry.dose || t('medicationLog.noDose')} •{' '}
+                      {entry.frequency === 'daily' ? t('medicationLog.dailyAt', { times: entry.times.join(', ') }) : t('medicationLog.asNeeded')}
+                      {nextDose && entry.reminders && ` • ${t('medicationLog.reminderAt', { time: nextDose })}`}
+                    </p>
+                    <p className="text-sm mt-1 flex items-center">
+                      {assessment.safety && <span className="text-lg mr-1">{assessment.safety}</span>}
+                      {assessment.safetyLevel}
+                      {assessment.medication && assessment.medication.drug.toLowerCase() !== entry.name.toLowerCase() && (
+                        <span className="text-gray-500"> ({assessment.medication.drug})</span>
+                      )}
+                    </p>
+                    {assessment.reason && <p className="text-xs text-gray-700">{assessment.reason}</p>}
+                    {candidates.length > 0 && (
+                      <p className="text-xs mt-1">
+                        {t('medications.didYouMean')}{' '}
+                        {candidates.map((name, i) => (
+                          <span key={name}>
+                            {i > 0 && ', '}
+                            <button
+                              type="button"
+                              onClick={() => handleConfirmMedicationName(entry.id, name)}
+                              className="text-purple-600 underline"
+                            >
+                              {name}
+                            </button>
+                          </span>
+                        ))}
+                        ?
+                      </p>
+                    )}
+                    {allergies.length > 0 && (
+                      <p className="text-xs text-red-700 font-medium mt-1">
+                        {t('medications.allergyAlert', { allergies: allergies.join(', ') })}
+                      </p>
+                    )}
+                    {assessment.upcoming && (
+                      <p className="text-xs text-yellow-800 mt-1">
+                        {t('medicationLog.fromWeek', {
+                          week: assessment.upcoming.week,
+                          rating: `${assessment.upcoming.safety} ${assessment.upcoming.safetyLevel}`,
+                          reason: assessment.upcoming.reason
+                        })}
+                      </p>
+                    )}
+                    {entry.notes && <p className="text-xs text-gray-500 mt-1">{entry.notes}</p>}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteMedicationLogEntry(entry.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={t('medicationLog.remove')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form onSubmit={handleMedicationLogSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          name="name"
+          list="known-medications"
+          placeholder={t('medicationLog.form.name')}
+          required
+          className="px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <datalist id="known-medications">
+          {kb.getMedications().map(med => <option key={med.drug} value={med.drug}>{med.brand}</option>)}
+          {kb.getCombinationProductNames().map(name => <option key={name} value={name} />)}
+        </datalist>
+        <input name="dose" placeholder={t('medicationLog.form.dose')} className="px-3 py-2 border rounded-lg" />
+        <select name="kind" defaultValue="medication" className="px-3 py-2 border rounded-lg">
+          <option value="medication">{t('medicationLog.kind.medication')}</option>
+          <option value="supplement">{t('medicationLog.kind.supplement')}</option>
+        </select>
+        <select name="frequency" defaultValue="daily" className="px-3 py-2 border rounded-lg">
+          <option value="daily">{t('medicationLog.daily')}</option>
+          <option value="asNeeded">{t('medicationLog.asNeeded')}</option>
+        </select>
+        <div className="flex items-center space-x-2">
+          <input name="time1" type="time" defaultValue="08:00" className="flex-1 px-3 py-2 border rounded-lg" aria-label={t('medicationLog.form.time1')} />
+          <input name="time2" type="time" className="flex-1 px-3 py-2 border rounded-lg" aria-label={t('medicationLog.form.time2')} />
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input name="reminders" type="checkbox" defaultChecked className="mr-2" />
+          {t('medicationLog.form.reminders')}
+        </label>
+        <input name="notes" placeholder={t('medicationLog.form.notes')} className="md:col-span-2 px-3 py-2 border rounded-lg" />
+        <button type="submit" className="md:col-span-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+          {t('medicationLog.form.add')}
+        </button>
+      </form>
+    </div>
+  );
+
+  const renderAllergyAlert = (allergies: string[]) => allergies.length > 0 && (
+    <p className="text-sm mt-2 text-red-700 font-medium flex items-center">
+      <AlertTriangle className="w-4 h-4 mr-1" />
+      {t('medications.allergyAlert', { allergies: allergies.join(', ') })}
+    </p>
+  );
+
+  const renderMedicationMatch = (match: MedicationMatch, i: number) => {
+    const allergies = findAllergyMatches(matchNames(match), userProfile.allergies);
+    if (match.kind === 'combination') {
+      const overall = assessMatch(match, currentWeek, locale);
+      return (
+        <div key={i} className={`p-4 rounded-lg border ${safetyStyles(overall.safety)}`}>
+          <h4 className="font-semibold">{match.product.name}</h4>
+          <p className="text-sm text-gray-600">{t('medications.combination')}</p>
+          <p className="mt-2 font-medium flex items-center">
+            <span className="text-2xl mr-2">{overall.safety || '❔'}</span>
+            {overall.safetyLevel}
+          </p>
+          {overall.reason && <p className="text-sm mt-1 text-gray-700">{overall.reason}</p>}
+          {renderAllergyAlert(allergies)}
+          <div className="mt-3 space-y-1">
+            {match.ingredients.map(({ ingredient, medication }) => {
+              const assessment = assessMedication(medication, currentWeek, locale);
+              return (
+                <div key={ingredient} className="flex items-center justify-between p-2 bg-white bg-opacity-60 rounded text-sm">
+                  <span>{ingredient}</span>
+                  <span className={`flex items-center gap-2 ${medication ? '' : 'text-gray-500'}`}>
+                    {medication ? assessment.safetyLevel : t('medications.notInDatabaseShort')}
+                    <span className="text-lg">{assessment.safety || '❔'}</span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      );
+    }
+
+    const med = match.medication;
+    const shown = localize(med, locale);
+    const assessment = assessMedication(med, currentWeek, locale);
+    return (
+      <div key={i} className={`p-4 rounded-lg border ${safetyStyles(assessment.safety)}`}>
+        <h4 className="font-semibold">{med.drug}</h4>
+        {match.matchedName !== med.drug && match.matchedName !== med.brand && (
+          <p className="text-sm text-gray-600">{t('medications.matched', { name: match.matchedName })}</p>
+        )}
+        <p className="text-sm text-gray-600">{t('medications.brand', { brand: med.brand || t('medications.generic') })}</p>
+        {med.aliases && med.aliases.length > 0 && (
+          <p className="text-sm text-gray-600">{t('medications.aliases', { names: med.aliases.join(', ') })}</p>
+        )}
+        <p className="text-sm text-gray-600">{t('medications.for', { condition: shown.condition || '' })}</p>
+        <p className="mt-2 font-medium flex items-center">
+          <span className="text-2xl mr-2">{assessment.safety}</span>
+          {assessment.safetyLevel}
+        </p>
+        {assessment.reason && <p className="text-sm mt-1 text-gray-700">{assessment.reason}</p>}
+        {shown.note && (
+          <p className="text-sm mt-1 text-gray-700">{t('medications.note', { note: shown.note })}</p>
+        )}
+        {med.trimesterRules?.map(rule => localize(rule, locale)).map((rule, j) => (
+          <p key={j} className={`text-sm mt-1 ${rule.trimesters.includes(getTrimester(currentWeek)) ? 'font-medium' : 'text-gray-600'}`}>
+            {t('medications.trimesterRule', {
+              trimesters: rule.trimesters.map(trimester => t(`trimester.${trimester}`)).join('/'),
+              rating: `${rule.safety} ${rule.safetyLevel}`,
+              reason: rule.reason
+            })}
+          </p>
+        ))}
+        {renderAllergyAlert(allergies)}
+      </div>
+    );
+  };
+
+  const renderMedications = () => {
+    const lookup = medicationSearch.trim() ? kb.checkMedicationSafety(medicationSearch) : null;
+    const knowledgeBase = kb.getKnowledgeBase();
+    
+    return (
+      <div className="space-y-6">
+        {renderMedicationLog()}
+
+        <div className="bg-white p-6 rounded-xl shadow-md">
+          <h2 className="text-2xl font-bold mb-4">{t('medications.title')}</h2>
+          
+          <div className="mb-6">
+            <div className="relative">
+              <Search className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
+              <input
+                type="text"
+                placeholder={t('medications.search')}
+                value={medicationSearch}
+                onChange={(e) => setMedicationSearch(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          </div>
+
+          {lookup && lookup.matches.length > 0 && (
+            <div className="space-y-3">
+              {lookup.matches.every(match => match.fuzzy) && (
+                <p className="text-sm text-gray-600">
+                  {t('medications.fuzzy', { query: lookup.query })}
+                </p>
+              )}
+              {lookup.matches.map(renderMedicationMatch)}
+            </div>
+          )}
+
+          {lookup && lookup.matches.length === 0 && (
+            <div className="p-4 rounded-lg border bg-gray-50 border-gray-200">
+              <h4 className="font-semibold flex items-center">
+                <AlertCircle className="w-5 h-5 mr-2 text-gray-500" />
+                {t('medications.notFound', { query: lookup.query })}
+              </h4>
+              <p className="text-sm mt-2 text-gray-700">{t('medications.notFoundAdvice')}</p>
+              {lookup.suggestions.length > 0 && (
+                <p className="text-sm mt-2">
+                  {t('medications.didYouMean')}{' '}
+                  {lookup.suggestions.map((name, i) => (
+                    <span key={name}>
+                      {i > 0 && ', '}
+                      <button
+                        type="button"
+                        onClick={() => setMedicationSearch(name)}
+                        className="text-purple-600 underline"
+                      >
+                        {name}
+                      </button>
+                    </span>
+                  ))}
+                  ?
+                </p>
+              )}
+            </div>
+          )}
+
+          {knowledgeBase && (
+            <div className="mt-8">
+              <h3 className="font-semibold mb-3">{t('medications.byCategory')}</h3>
+              {knowledgeBase.medications.byCondition.map((cat, i) => (
+                <div key={i} className="mb-4">
+                  <h4 className="font-medium text-gray-700 mb-2">{localize(cat, locale).condition}</h4>
+                  <div className="grid grid-cols-1 gap-2">
+                    {cat.medications.map((med, j) => (
+                      <div key={j} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                        <span className="text-sm">{med.drug}{med.brand ? ` (${med.brand})` : ''}</span>
+                        <span className="text-xl">{assessMedication(med, currentWeek, locale).safety}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const severityStyles = (severity?: Symptom['severity']) =>
+    severity === 'high' ? 'bg-red-50 border-red-200' :
+    severity === 'medium' ? 'bg-yellow-50 border-yellow-200' :
+    'bg-green-50 border-green-200';
+
+  const renderTriage = () => {
+    if (!triageFlow) {
+      return (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {TRIAGE_FLOWS.map(flow => (
+            <button
+              key={flow.id}
+              type="button"
+              onClick={() => handleStartTriage(flow.id)}
+              className="p-3 text-sm text-left bg-purple-50 rounded-lg hover:bg-purple-100 flex items-center justify-between"
+            >
+              {t(flow.label)}
+              <ChevronRight className="w-4 h-4 text-purple-400" />
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    if (triageResult) {
+      const alsoFlagged = kb.getSymptoms().filter(symptom => triageResult.alsoFlagged.includes(symptom.sign));
+      const resolved = triageResult.sign ? localizeSign(triageResult.sign) : null;
+      return (
+        <div className="space-y-3">
+          {triageResult.sign ? (
+            <div className={`p-4 rounded-lg border ${severityStyles(triageResult.severity)}`}>
+              <h4 className="font-semibold">{resolved?.sign || triageResult.sign}</h4>
+              <p className="mt-2">{t('emergency.action', { action: resolved?.action || triageResult.action || '' })}</p>
+              <p className="text-sm">{t('emergency.contactProvider', { urgency: resolved?.urgency || triageResult.urgency || '' })}</p>
+            </div>
+          ) : (
+            <div className="p-4 rounded-lg border bg-gray-50">
+              <p className="text-sm">{t(triageFlow.guidance)}</p>
+            </div>
+          )}
+          {alsoFlagged.map(symptom => {
+            const shown = localize(symptom, locale);
+            return (
+              <div key={symptom.sign} className={`p-4 rounded-lg border ${severityStyles(symptom.severity)}`}>
+                <p className="text-xs text-gray-600">{t('triage.alsoMentioned')}</p>
+                <h4 className="font-semibold">{shown.sign}</h4>
+                <p className="text-sm">{shown.action} • {t('emergency.contactProvider', { urgency: shown.urgency })}</p>
+              </div>
+            );
+          })}
+          {(triageResult.severity === 'high' || alsoFlagged.some(symptom => symptom.severity === 'high')) && (
+            <button
+              type="button"
+              onClick={() => setActiveTab('emergency')}
+              className="text-sm px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+            >
+              {t('symptoms.openEmergencyGuide')}
+            </button>
+          )}
+          <button type="button" onClick={handleResetTriage} className="block text-sm text-purple-600 hover:text-purple-800">
+            {t('triage.checkAnother')}
+          </button>
+        </div>
+      );
+    }
+
+    const question = visibleQuestions(triageFlow, triageAnswers).find(q => triageAnswers[q.id] === undefined);
+    if (!question) return null;
+    const draftValue = parseFloat(triageDraft);
+    const draftValid = !isNaN(draftValue) &&
+      (question.min === undefined || draftValue >= question.min) &&
+      (question.max === undefined || draftValue <= question.max);
+
+    return (
+      <div>
+        <p className="text-sm text-gray-500 mb-1">{t(triageFlow.label)}</p>
+        <p className="font-medium mb-3">{t(question.text)}</p>
+
+        {question.type === 'choice' && (
+          <div className="space-y-2">
+            {question.options?.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleTriageAnswer(question.id, option.value)}
+                className="w-full p-3 text-sm text-left border rounded-lg hover:bg-purple-50 hover:border-purple-300"
+              >
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {question.type === 'multi' && (
+          <div className="space-y-2">
+            {question.options?.map(option => (
+              <label key={option.value} className="flex items-center p-3 text-sm border rounded-lg cursor-pointer hover:bg-purple-50">
+                <input
+                  type="checkbox"
+                  checked={triageSelection.includes(option.value)}
+                  onChange={() => setTriageSelection(prev => (
+                    prev.includes(option.value) ? prev.filter(v => v !== option.value) : [...prev, option.value]
+                  ))}
+                  className="mr-3"
+                />
+                {t(option.label)}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={() => handleTriageAnswer(question.id, triageSelection)}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+            >
+              {triageSelection.length > 0 ? t('common.next') : t('triage.noneOfThese')}
+            </button>
+          </div>
+        )}
+
+        {question.type === 'number' && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (draftValid) handleTriageAnswer(question.id, draftValue);
+            }}
+            className="flex items-center space-x-2"
+          >
+            <input
+              type="number"
+              step="any"
+              min={question.min}
+              max={question.max}
+              value={triageDraft}
+              onChange={(e) => setTriageDraft(e.target.value)}
+              autoFocus
+              className="w-32 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            {question.unit && <span className="text-sm text-gray-600">{t(question.unit)}</span>}
+            <button
+              type="submit"
+              disabled={!draftValid}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              {t('common.next')}
+            </button>
+          </form>
+        )}
+
+        <div className="flex space-x-4 mt-4">
+          <button type="button" onClick={handleTriageBack} className="text-sm text-gray-600 hover:text-gray-800">
+            {t('common.back')}
+          </button>
+          <button type="button" onClick={handleResetTriage} className="text-sm text-gray-600 hover:text-gray-800">
+            {t('common.cancel')}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const heatmapColor = (count: number) =>
+    count === 0 ? 'bg-gray-100' : count === 1 ? 'bg-purple-200' : count <= 3 ? 'bg-purple-400' : 'bg-purple-600';
+
+  const renderJournal = () => {
+    const today = new Date();
+    const heatmap = buildHeatmap(journal, today);
+    const trends = weekOverWeekTrends(journal, today);
+    const dayEntries = sortEntries(journal.filter(entry => entry.date === selectedJournalDate));
+    const now = today.toTimeString().slice(0, 5);
+
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <h3 className="font-semibold mb-3 flex items-center">
+          <FileText className="w-5 h-5 mr-2 text-purple-600" />
+          {t('journal.title')}
+        </h3>
+
+        <form onSubmit={handleJournalSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          <input
+            name="symptom"
+            list="journal-symptoms"
+            placeholder={t('journal.form.symptom')}
+            required
+            className="md:col-span-2 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <datalist id="journal-symptoms">
+            {kb.getSymptoms().map(symptom => <option key={symptom.sign} value={symptom.sign} />)}
+            {kb.getCommonSymptoms(locale).map(name => <option key={name} value={name} />)}
+          </datalist>
+          <select name="severity" defaultValue="mild" className="px-3 py-2 border rounded-lg" aria-label={t('journal.form.severity')}>
+            {JOURNAL_SEVERITIES.map(severity => (
+              <option key={severity} value={severity}>{t(`journal.severity.${severity}`)}</option>
+            ))}
+          </select>
+          <div className="flex space-x-2">
+            <input name="date" type="date" defaultValue={toDateInputValue(today)} max={toDateInputValue(today)} required className="flex-1 px-3 py-2 border rounded-lg" aria-label={t('common.date')} />
+            <input name="time" type="time" defaultValue={now} className="px-3 py-2 border rounded-lg" aria-label={t('common.time')} />
+          </div>
+          <textarea
+            name="notes"
+            placeholder={t('medicationLog.form.notes')}
+            rows={2}
+            className="md:col-span-2 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button type="submit" className="md:col-span-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+            {t('journal.form.add')}
+          </button>
+        </form>
+
+        {journalAlert.length > 0 && (
+          <div className="p-4 mb-4 bg-red-50 rounded-lg border border-red-300">
+            <p className="font-semibold text-red-800 flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              {t('chat.urgent.title')}
             </p>
+            {journalAlert.map(symptom => {
+              const shown = localize(symptom, locale);
+              return (
+                <p key={symptom.sign} className="text-sm text-red-700 mt-1">
+                  {t('symptoms.alertLine', { sign: shown.sign, action: shown.action, urgency: shown.urgency.toLowerCase() })}
+                </p>
+              );
+            })}
+            <div className="flex space-x-4 mt-2">
+              <button type="button" onClick={() => setActiveTab('emergency')} className="text-sm text-red-700 underline">
+                {t('symptoms.openEmergencyGuide')}
+              </button>
+              <button type="button" onClick={() => setJournalAlert([])} className="text-sm text-gray-600">
+                {t('emergency.dismiss')}
+              </button>
+            </div>
           </div>
-        </div>
+        )}
 
-        {weekInfo ? (
-          <div className="space-y-4">
-            <div className="bg-purple-50 p-4 rounded-lg">
-              <h3 className="font-semibold text-purple-900">{weekInfo.title}</h3>
-              <p className="text-purple-700">{weekInfo.trimester} Trimester</p>
+        <h4 className="font-medium text-gray-700 mb-2">{t('journal.last12Weeks')}</h4>
+        <div className="flex space-x-1 overflow-x-auto pb-2">
+          {heatmap.map((week, i) => (
+            <div key={i} className="flex flex-col space-y-1">
+              {week.map(day => (
+                <button
+                  key={day.date}
+                  type="button"
+                  disabled={day.isFuture}
+                  onClick={() => setSelectedJournalDate(day.date)}
+                  title={t(day.count === 1 ? 'journal.dayEntries.one' : 'journal.dayEntries', {
+                    date: formatJournalDate(day.date, intlLocale),
+                    count: day.count
+                  })}
+                  className={`w-4 h-4 rounded-sm ${day.isFuture ? 'bg-transparent' : heatmapColor(day.count)} ${
+                    day.worst === 'severe' ? 'ring-2 ring-red-500' : ''
+                  } ${day.date === selectedJournalDate ? 'outline outline-2 outline-gray-800' : ''}`}
+                />
+              ))}
             </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mb-4">{t('journal.heatmapLegend')}</p>
 
-            <div>
-              <h4 className="font-semibold mb-2">Common Symptoms</h4>
-              <div className="space-y-2">
-                {weekInfo.commonSymptoms.map((symptom, i) => (
-                  <div key={i} className="flex items-start bg-gray-50 p-3 rounded-lg">
-                    <Heart className="w-5 h-5 text-pink-500 mr-2 mt-0.5" />
+        <h4 className="font-medium text-gray-700 mb-2">{formatJournalDate(selectedJournalDate, intlLocale)}</h4>
+        {dayEntries.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">{t('journal.nothingLogged')}</p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {dayEntries.map(entry => {
+              const redFlags = findEntryRedFlags(entry, emergencySymptoms);
+              return (
+                <div key={entry.id} className={`p-3 rounded-lg ${redFlags.length > 0 ? 'bg-red-50 border border-red-200' : 'bg-gray-50'}`}>
+                  <div className="flex justify-between items-start">
                     <div>
-                      <p className="font-medium">{symptom.symptom}</p>
-                      <p className="text-sm text-gray-600">{symptom.status}</p>
+                      <p className="text-sm font-medium">{entry.symptom}</p>
+                      <p className="text-xs text-gray-600">
+                        {entry.time} • {t(`journal.severity.${entry.severity}`)}
+                        {entry.week !== null && ` • ${t('journal.week', { week: entry.week })}`}
+                      </p>
+                      {entry.notes && <p className="text-sm text-gray-700 mt-1">{entry.notes}</p>}
+                      {redFlags.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setActiveTab('emergency')}
+                          className="text-xs text-red-700 underline mt-1"
+                        >
+                          {t('journal.seeEmergency', { signs: redFlags.map(symptom => localize(symptom, locale).sign).join(', ') })}
+                        </button>
+                      )}
                     </div>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteJournalEntry(entry.id)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={t('journal.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
                   </div>
-                ))}
-              </div>
-            </div>
-
-            {weekInfo.exercise && (
-              <div className="bg-blue-50 p-4 rounded-lg">
-                <h4 className="font-semibold text-blue-900 mb-2">
-                  Recommended Exercise: {weekInfo.exercise.name}
-                </h4>
-                <p className="text-sm text-blue-700 mb-2">{weekInfo.exercise.benefits}</p>
-                <ul className="text-sm space-y-1">
-                  {weekInfo.exercise.instructions.map((inst, i) => (
-                    <li key={i} className="flex items-start">
-                      <span className="text-blue-500 mr-2">•</span>
-                      {inst}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            )}
-          </div>
-        ) : (
-          <div className="text-center py-8 text-gray-500">
-            <Baby className="w-16 h-16 mx-auto mb-4 text-gray-300" />
-            <p>Detailed information for week {currentWeek} coming soon!</p>
+                </div>
+              );
+            })}
           </div>
         )}
+
+        {trends.length > 0 && (
+          <>
+            <h4 className="font-medium text-gray-700 mb-2">{t('journal.trends')}</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-4">{t('journal.column.symptom')}</th>
+                  <th className="py-2 pr-4">{t('journal.column.thisWeek')}</th>
+                  <th className="py-2 pr-4">{t('journal.column.lastWeek')}</th>
+                  <th className="py-2">{t('journal.column.trend')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trends.map(trend => (
+                  <tr key={trend.symptom} className="border-t">
+                    <td className="py-2 pr-4 font-medium">{trend.symptom}</td>
+                    <td className="py-2 pr-4">
+                      {trend.thisWeek}
+                      {trend.averageSeverity !== null && (
+                        <span className="text-xs text-gray-500">
+                          {' '}{t('journal.average', { severity: t(`journal.severity.${JOURNAL_SEVERITIES[Math.round(trend.averageSeverity) - 1]}`) })}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{trend.lastWeek}</td>
+                    <td className="py-2">
+                      {trend.thisWeek > trend.lastWeek ? (
+                        <TrendingUp className="w-4 h-4 text-red-500" />
+                      ) : trend.thisWeek < trend.lastWeek ? (
+                        <TrendingDown className="w-4 h-4 text-green-600" />
+                      ) : (
+                        <Minus className="w-4 h-4 text-gray-400" />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
       </div>
-    </div>
-  );
+    );
+  };
 
-  const renderMedications = () => {
-    const searchResults = medicationSearch ? kb.checkMedicationSafety(medicationSearch) : [];
+  const renderSymptoms = () => {
+    const symptomResults = symptomSearch ? kb.getSymptomInfo(symptomSearch) : [];
     const knowledgeBase = kb.getKnowledgeBase();
     
     return (
       <div className="space-y-6">
         <div className="bg-white p-6 rounded-xl shadow-md">
-          <h2 className="text-2xl font-bold mb-4">Medication Safety Checker</h2>
+          <h2 className="text-2xl font-bold mb-4">{t('symptoms.title')}</h2>
+
+          <div className="mb-6">
+            <h3 className="font-semibold mb-3">{t('triage.title')}</h3>
+            {renderTriage()}
+          </div>
           
           <div className="mb-6">
             <div className="relative">
               <Search className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search medication (e.g., Tylenol, Advil)"
-                value={medicationSearch}
-                onChange={(e) => setMedicationSearch(e.target.value)}
+                placeholder={t('symptoms.search')}
+                value={symptomSearch}
+                onChange={(e) => setSymptomSearch(e.target.value)}
                 className="w-full pl-10 pr-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
               />
             </div>
           </div>
 
-          {searchResults.length > 0 && (
-            <div className="space-y-3">
-              {searchResults.map((med, i) => (
-                <div key={i} className={`p-4 rounded-lg border ${
-                  med.safety === '🟢' ? 'bg-green-50 border-green-200' :
-                  med.safety === '🟡' ? 'bg-yellow-50 border-yellow-200' :
-                  'bg-red-50 border-red-200'
-                }`}>
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <h4 className="font-semibold">{med.drug}</h4>
-                      <p className="text-sm text-gray-600">Brand: {med.brand || 'Generic'}</p>
-                      <p className="text-sm text-gray-600">For: {med.condition}</p>
-                      <p className="mt-2 font-medium flex items-center">
-                        <span className="text-2xl mr-2">{med.safety}</span>
-                        {med.safetyLevel}
-                      </p>
-                      {med.note && (
-                        <p className="text-sm mt-1 text-gray-700">Note: {med.note}</p>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))}
+          {symptomResults.length > 0 && (
+            <div className="space-y-3 mb-6">
+              {symptomResults.map((symptom, i) => {
+                const shown = localize(symptom, locale);
+                return (
+                  <div key={i} className={`p-4 rounded-lg border ${severityStyles(symptom.severity)}`}>
+                    <h4 className="font-semibold">{shown.sign}</h4>
+                    <p className="text-sm text-gray-600">{t('emergency.category', { category: shown.category || '' })}</p>
+                    <p className="mt-2">{t('emergency.action', { action: shown.action })}</p>
+                    <p className="text-sm">{t('emergency.contactProvider', { urgency: shown.urgency })}</p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {knowledgeBase && (
+            <div>
+              <h3 className="font-semibold mb-3">{t('symptoms.byCategory')}</h3>
+              {knowledgeBase.symptomTroubleshooting.categories.map((cat, i) => (
+                <div key={i} className="mb-6">
+                  <h4 className="font-medium text-gray-700 mb-2">{localize(cat, locale).category}</h4>
+                  <div className="space-y-2">
+                    {cat.symptoms.map(symptom => localize(symptom, locale)).map((symptom, j) => (
+                      <div key={j} className="flex items-start p-3 bg-gray-50 rounded-lg">
+                        <div className={`w-2 h-2 rounded-full mt-1.5 mr-3 ${
+                          symptom.severity === 'high' ? 'bg-red-500' :
+                          symptom.severity === 'medium' ? 'bg-yellow-500' :
+                          'bg-green-500'
+                        }`} />
+                        <div className="flex-1">
+                          <p className="text-sm font-medium">{symptom.sign}</p>
+                          <p className="text-xs text-gray-600">{symptom.action} • {symptom.urgency}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {renderJournal()}
+        {renderVitals()}
+
+        {triageLog.length > 0 && (
+          <div className="bg-white p-6 rounded-xl shadow-md">
+            <h3 className="font-semibold mb-3">{t('triage.recent')}</h3>
+            <div className="space-y-3">
+              {[...triageLog].reverse().slice(0, 10).map(entry => {
+                const flow = TRIAGE_FLOWS.find(f => f.id === entry.flowId);
+                const resolved = entry.sign ? localizeSign(entry.sign) : null;
+                return (
+                  <div key={entry.id} className={`p-3 rounded-lg border ${entry.sign ? severityStyles(entry.severity) : 'bg-gray-50'}`}>
+                    <div className="flex justify-between items-start">
+                      <p className="text-sm font-medium">{resolved?.sign || entry.sign || (flow ? t(flow.label) : entry.flowId)}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDateTime(new Date(entry.createdAt), locale)} • {t('journal.week', { week: entry.week })}
+                      </p>
+                    </div>
+                    {entry.urgency && (
+                      <p className="text-xs text-gray-600">{resolved?.action || entry.action} • {resolved?.urgency || entry.urgency}</p>
+                    )}
+                    {entry.alsoFlagged.length > 0 && (
+                      <p className="text-xs text-red-700">
+                        {t('triage.also', { signs: entry.alsoFlagged.map(sign => localizeSign(sign)?.sign || sign).join(', ') })}
+                      </p>
+                    )}
+                    {flow && (
+                      <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+                        {describeAnswers(flow, entry.answers, locale).map((line, i) => (
+                          <li key={i}>• {line}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Readings in the order they were taken, with the alert thresholds as dashed lines
+  const renderVitalChart = (
+    label: string,
+    dates: string[],
+    series: Array<{ name: string; points: Array<{ index: number; value: number }>; stroke: string; fill: string }>,
+    limits: Array<{ value: number; label: string }>
+  ) => {
+    const width = 320;
+    const height = 160;
+    const padding = 28;
+    const values = [...series.flatMap(line => line.points.map(p => p.value)), ...limits.map(limit => limit.value)];
+    const minY = Math.floor(Math.min(...values) * 0.9);
+    const maxY = Math.ceil(Math.max(...values) * 1.05);
+    const x = (index: number) => padding + (dates.length > 1 ? index / (dates.length - 1) : 0.5) * (width - padding * 1.5);
+    const y = (value: number) => height - padding - ((value - minY) / (maxY - minY || 1)) * (height - padding * 1.5);
+
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-lg" role="img" aria-label={label}>
+        {limits.map(limit => (
+          <g key={limit.label}>
+            <line x1={padding} y1={y(limit.value)} x2={width - padding / 2} y2={y(limit.value)} className="stroke-red-300" strokeDasharray="4 3" />
+            <text x={padding - 4} y={y(limit.value) + 3} textAnchor="end" className="fill-red-400 text-[9px]">
+              {limit.label}
+            </text>
+          </g>
+        ))}
+        {series.map(line => (
+          <g key={line.name}>
+            {line.points.length > 1 && (
+              <polyline
+                points={line.points.map(p => `${x(p.index)},${y(p.value)}`).join(' ')}
+                className={`fill-none ${line.stroke}`}
+                strokeWidth={2}
+              />
+            )}
+            {line.points.map(p => (
+              <circle key={p.index} cx={x(p.index)} cy={y(p.value)} r={3} className={line.fill} />
+            ))}
+          </g>
+        ))}
+        <text x={padding} y={height - 8} className="fill-gray-500 text-[9px]">{formatJournalDate(dates[0], intlLocale)}</text>
+        {dates.length > 1 && (
+          <text x={width - 4} y={height - 8} textAnchor="end" className="fill-gray-500 text-[9px]">
+            {formatJournalDate(dates[dates.length - 1], intlLocale)}
+          </text>
+        )}
+      </svg>
+    );
+  };
+
+  const renderVitalAlerts = (alerts: VitalAlert[]) => {
+    const symptoms = kb.getSymptoms();
+    const urgent = alerts.find(alert => symptoms.find(symptom => symptom.sign === alert.sign)?.severity === 'high');
+    return (
+      <div className={`p-4 mb-4 rounded-lg border ${urgent ? 'bg-red-50 border-red-300' : 'bg-yellow-50 border-yellow-300'}`}>
+        {alerts.map(alert => {
+          const symptom = symptoms.find(s => s.sign === alert.sign);
+          const shown = symptom && localize(symptom, locale);
+          return (
+            <div key={alert.sign} className="mb-2 last:mb-0">
+              <p className={`font-semibold flex items-center ${urgent ? 'text-red-800' : 'text-yellow-900'}`}>
+                <AlertTriangle className="w-5 h-5 mr-2" />
+                {shown?.sign || alert.sign}
+              </p>
+              <p className="text-sm text-gray-800 mt-1">{alert.message}</p>
+              {shown && (
+                <p className="text-xs text-gray-600 mt-1">
+                  {t('vitals.alertAdvice', { action: shown.action, urgency: shown.urgency.toLowerCase() })}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        <div className="flex space-x-4 mt-2">
+          {urgent && (
+            <button
+              type="button"
+              onClick={() => escalateToEmergency({ title: localizeSign(urgent.sign)?.sign || urgent.sign, message: urgent.message, sign: urgent.sign })}
+              className="text-sm text-red-700 underline"
+            >
+              {t('tools.openEmergency')}
+            </button>
+          )}
+          <button type="button" onClick={() => setVitalAlerts([])} className="text-sm text-gray-600">
+            {t('emergency.dismiss')}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderVitalThresholdsForm = () => {
+    const { thresholds } = vitals;
+    const glucose = (mgdl: number) => (glucoseUnit === 'mmol' ? fromMgdl(mgdl, glucoseUnit).toFixed(1) : String(Math.round(mgdl)));
+    const inputClass = 'w-full px-3 py-2 border rounded-lg';
+    const numberField = (name: string, label: string, defaultValue: string) => (
+      <label className="text-sm text-gray-700">
+        {label}
+        <input name={name} type="number" step="any" min="0" defaultValue={defaultValue} required className={inputClass} />
+      </label>
+    );
+    return (
+      <form onSubmit={handleVitalThresholdsSubmit} className="bg-purple-50 p-4 rounded-lg mb-4">
+        <p className="text-sm text-gray-700 mb-3">{t('vitals.limits.intro')}</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {numberField('systolic', t('vitals.limits.systolic'), String(thresholds.systolic))}
+          {numberField('diastolic', t('vitals.limits.diastolic'), String(thresholds.diastolic))}
+          {numberField('severeSystolic', t('vitals.limits.severeSystolic'), String(thresholds.severeSystolic))}
+          {numberField('severeDiastolic', t('vitals.limits.severeDiastolic'), String(thresholds.severeDiastolic))}
+          <label className="text-sm text-gray-700">
+            {t('vitals.limits.glucoseUnit')}
+            <select name="glucoseUnit" defaultValue={glucoseUnit} className={inputClass}>
+              <option value="mgdl">mg/dL</option>
+              <option value="mmol">mmol/L</option>
+            </select>
+          </label>
+          {numberField('fastingGlucose', t('vitals.limits.fasting'), glucose(thresholds.fastingGlucose))}
+          {numberField('oneHourGlucose', t('vitals.limits.oneHour'), glucose(thresholds.oneHourGlucose))}
+          {numberField('twoHourGlucose', t('vitals.limits.twoHour'), glucose(thresholds.twoHourGlucose))}
+          {numberField('lowGlucose', t('vitals.limits.lowGlucose'), glucose(thresholds.lowGlucose))}
+          {numberField('weeklyWeightGain', t('vitals.limits.weeklyGain', { unit: weightUnit }), fromKg(thresholds.weeklyWeightGainKg, weightUnit).toFixed(1))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">{t('vitals.limits.unitNote')}</p>
+        <div className="flex space-x-2 mt-3">
+          <button type="submit" className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+            {t('common.save')}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setVitals(prev => ({ ...prev, thresholds: { ...DEFAULT_VITAL_THRESHOLDS, glucoseUnit: prev.thresholds.glucoseUnit } }));
+              setIsEditingVitalThresholds(false);
+            }}
+            className="px-4 py-2 text-gray-600"
+          >
+            {t('vitals.limits.reset')}
+          </button>
+          <button type="button" onClick={() => setIsEditingVitalThresholds(false)} className="px-4 py-2 text-gray-600">
+            {t('common.cancel')}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  const renderVitals = () => {
+    const { thresholds } = vitals;
+    const entries = sortVitals(vitals.entries);
+    const bloodPressure = entries.filter((entry): entry is VitalEntry & { kind: 'bloodPressure' } => entry.kind === 'bloodPressure').slice(-20);
+    const glucose = entries.filter((entry): entry is VitalEntry & { kind: 'glucose' } => entry.kind === 'glucose').slice(-30);
+    const weightAlert = findRapidWeightGain(weightData.weighIns, thresholds, weightUnit, locale);
+    const conditions = userProfile.conditions.filter(condition => condition === 'High blood pressure' || condition === 'Diabetes');
+    const today = toDateInputValue(new Date());
+
+    return (
+      <div id="vitals" className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold flex items-center">
+            <Activity className="w-5 h-5 mr-2 text-purple-600" />
+            {t('vitals.title')}
+          </h3>
+          <button
+            type="button"
+            onClick={() => setIsEditingVitalThresholds(!isEditingVitalThresholds)}
+            className="text-sm text-purple-600 underline"
+          >
+            {t('vitals.alertLimits')}
+          </button>
+        </div>
+        {conditions.length > 0 && (
+          <p className="text-sm text-gray-600 mb-3">
+            {t('vitals.conditionNote', { conditions: conditions.map(condition => conditionLabel(condition, locale)).join(t('common.and')).toLowerCase() })}
+          </p>
+        )}
+
+        {isEditingVitalThresholds && renderVitalThresholdsForm()}
+        {vitalAlerts.length > 0 && renderVitalAlerts(vitalAlerts)}
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          {([['bloodPressure', 'vitals.kind.bloodPressure'], ['glucose', 'vitals.kind.glucose'], ['weight', 'vitals.kind.weight'], ['swelling', 'vitals.kind.swelling']] as const).map(([kind, label]) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => setVitalKind(kind)}
+              className={`px-3 py-1 text-sm rounded-full ${vitalKind === kind ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+        <form key={vitalKind} onSubmit={handleVitalSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          {vitalKind === 'bloodPressure' && (
+            <div className="md:col-span-2 flex items-center gap-2">
+              <input name="systolic" type="number" min="40" max="300" placeholder={t('vitals.form.systolic')} required className="flex-1 px-3 py-2 border rounded-lg" />
+              <span className="text-gray-500">/</span>
+              <input name="diastolic" type="number" min="20" max="200" placeholder={t('vitals.form.diastolic')} required className="flex-1 px-3 py-2 border rounded-lg" />
+              <span className="text-sm text-gray-500">mmHg</span>
+            </div>
+          )}
+          {vitalKind === 'glucose' && (
+            <>
+              <input
+                name="glucose"
+                type="number"
+                step="any"
+                min="0"
+                placeholder={t('vitals.form.glucose', { unit: glucoseUnit === 'mmol' ? 'mmol/L' : 'mg/dL' })}
+                required
+                className="px-3 py-2 border rounded-lg"
+              />
+              <select name="timing" defaultValue="fasting" className="px-3 py-2 border rounded-lg">
+                {(Object.keys(GLUCOSE_TIMING_LABELS) as GlucoseTiming[]).map(timing => (
+                  <option key={timing} value={timing}>{t(GLUCOSE_TIMING_LABELS[timing])}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {vitalKind === 'weight' && (
+            <input name="weight" type="number" step="any" min="1" placeholder={t('vitals.form.weight', { unit: weightUnit })} required className="md:col-span-2 px-3 py-2 border rounded-lg" />
+          )}
+          {vitalKind === 'swelling' && (
+            <div className="md:col-span-2 flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-700">
+              {(Object.keys(SWELLING_AREA_LABELS) as SwellingArea[]).map(area => (
+                <label key={area} className="flex items-center">
+                  <input name={`area-${area}`} type="checkbox" className="mr-2" />
+                  {t(SWELLING_AREA_LABELS[area])}
+                </label>
+              ))}
+              <label className="flex items-center font-medium">
+                <input name="sudden" type="checkbox" className="mr-2" />
+                {t('vitals.form.sudden')}
+              </label>
+            </div>
+          )}
+          <input name="date" type="date" defaultValue={today} max={today} required className="px-3 py-2 border rounded-lg" aria-label={t('common.date')} />
+          {vitalKind !== 'weight' && (
+            <input name="time" type="time" defaultValue={new Date().toTimeString().slice(0, 5)} className="px-3 py-2 border rounded-lg" aria-label={t('common.time')} />
+          )}
+          {vitalKind !== 'weight' && (
+            <input name="notes" placeholder={t('medicationLog.form.notes')} className="md:col-span-2 px-3 py-2 border rounded-lg" />
+          )}
+          <button type="submit" className="md:col-span-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+            {t('vitals.form.log')}
+          </button>
+        </form>
+
+        {weightAlert && vitalAlerts.length === 0 && renderVitalAlerts([weightAlert])}
+
+        {bloodPressure.length > 0 && (
+          <div className="mb-4">
+            <h4 className="font-medium text-gray-700 mb-1">{t('vitals.kind.bloodPressure')}</h4>
+            {renderVitalChart(
+              t('vitals.chart.bloodPressure'),
+              bloodPressure.map(entry => entry.date),
+              [
+                { name: 'Systolic', points: bloodPressure.map((entry, index) => ({ index, value: entry.systolic })), stroke: 'stroke-purple-500', fill: 'fill-purple-500' },
+                { name: 'Diastolic', points: bloodPressure.map((entry, index) => ({ index, value: entry.diastolic })), stroke: 'stroke-pink-500', fill: 'fill-pink-500' }
+              ],
+              [
+                { value: thresholds.systolic, label: String(thresholds.systolic) },
+                { value: thresholds.diastolic, label: String(thresholds.diastolic) }
+              ]
+            )}
+          </div>
+        )}
+        {glucose.length > 0 && (
+          <div className="mb-4">
+            <h4 className="font-medium text-gray-700 mb-1">{t('vitals.form.glucose', { unit: glucoseUnit === 'mmol' ? 'mmol/L' : 'mg/dL' })}</h4>
+            {renderVitalChart(
+              t('vitals.chart.glucose'),
+              glucose.map(entry => entry.date),
+              (Object.keys(GLUCOSE_TIMING_LABELS) as GlucoseTiming[]).map((timing, i) => ({
+                name: GLUCOSE_TIMING_LABELS[timing],
+                points: glucose
+                  .map((entry, index) => ({ entry, index }))
+                  .filter(({ entry }) => entry.timing === timing)
+                  .map(({ entry, index }) => ({ index, value: fromMgdl(entry.mgdl, glucoseUnit) })),
+                stroke: ['stroke-blue-500', 'stroke-orange-500', 'stroke-green-500'][i],
+                fill: ['fill-blue-500', 'fill-orange-500', 'fill-green-500'][i]
+              })),
+              [
+                { value: fromMgdl(thresholds.fastingGlucose, glucoseUnit), label: t('vitals.chart.fastingLimit') },
+                { value: fromMgdl(thresholds.oneHourGlucose, glucoseUnit), label: t('vitals.chart.oneHourLimit') }
+              ]
+            )}
+            <p className="text-xs text-gray-500">
+              <span className="text-blue-600">●</span> {t('vitals.legend.fasting')} <span className="text-orange-600">●</span> {t('vitals.legend.oneHour')}
+              {' '}<span className="text-green-600">●</span> {t('vitals.legend.twoHour')}
+            </p>
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="space-y-1">
+            {[...entries].reverse().slice(0, 15).map(entry => {
+              const alerts = assessVital(entry, vitals.entries, thresholds, locale);
+              return (
+                <div key={entry.id} className="flex items-start justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <p>
+                      <span className="text-gray-500">{formatJournalDate(entry.date, intlLocale)} {entry.time}</span>
+                      {' • '}{describeVital(entry, glucoseUnit, locale)}
+                    </p>
+                    {alerts.map(alert => (
+                      <p key={alert.sign} className="text-xs text-red-700">{localizeSign(alert.sign)?.sign || alert.sign}</p>
+                    ))}
+                    {entry.notes && <p className="text-xs text-gray-500">{entry.notes}</p>}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteVital(entry.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={t('vitals.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {weightData.weighIns.length > 0 && (
+          <button type="button" onClick={() => setActiveTab('nutrition')} className="text-sm text-purple-600 underline mt-3">
+            {t('vitals.seeWeightChart')}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Recommended band as a shaded area with the logged gain drawn over it
+  const renderWeightChart = (band: GainBand, points: Array<{ week: number; gainKg: number }>) => {
+    const width = 320;
+    const height = 180;
+    const padding = 28;
+    const maxWeek = 42;
+    const values = [...points.map(p => p.gainKg), band.maxKg, 0];
+    const minY = Math.min(...values) - 1;
+    const maxY = Math.max(...values) + 1;
+    const x = (week: number) => padding + (week / maxWeek) * (width - padding * 1.5);
+    const y = (kg: number) => height - padding - ((kg - minY) / (maxY - minY)) * (height - padding * 1.5);
+    const weeks = Array.from({ length: 41 }, (_, week) => week);
+    const bandPath = [
+      ...weeks.map(week => `${x(week)},${y(expectedGainAt(band, week).maxKg)}`),
+      ...[...weeks].reverse().map(week => `${x(week)},${y(expectedGainAt(band, week).minKg)}`)
+    ].join(' ');
+    const yTicks = [minY, 0, band.minKg, band.maxKg].filter((tick, i, all) => all.indexOf(tick) === i && tick >= minY);
+
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-lg" role="img" aria-label={t('weight.chart')}>
+        <polygon points={bandPath} className="fill-green-100" />
+        <line x1={x(0)} y1={y(0)} x2={x(maxWeek)} y2={y(0)} className="stroke-gray-300" />
+        {[0, 10, 20, 30, 40].map(week => (
+          <text key={week} x={x(week)} y={height - 8} textAnchor="middle" className="fill-gray-500 text-[9px]">
+            {week}
+          </text>
+        ))}
+        {yTicks.map(tick => (
+          <text key={tick} x={padding - 4} y={y(tick) + 3} textAnchor="end" className="fill-gray-500 text-[9px]">
+            {Math.round(fromKg(tick, weightUnit))}
+          </text>
+        ))}
+        <text x={width - 4} y={height - 8} textAnchor="end" className="fill-gray-500 text-[9px]">{t('weight.chart.week')}</text>
+        {points.length > 1 && (
+          <polyline
+            points={points.map(p => `${x(p.week)},${y(p.gainKg)}`).join(' ')}
+            className="fill-none stroke-purple-500"
+            strokeWidth={2}
+          />
+        )}
+        {points.map((p, i) => (
+          <circle key={i} cx={x(p.week)} cy={y(p.gainKg)} r={3} className="fill-purple-600" />
+        ))}
+      </svg>
+    );
+  };
+
+  const renderWeightTracker = () => {
+    const { profile, weighIns } = weightData;
+
+    if (!profile || isEditingWeightProfile) {
+      return (
+        <form onSubmit={handleWeightProfileSubmit} className="bg-purple-50 p-4 rounded-lg mt-4">
+          <p className="text-sm text-gray-700 mb-3">{t('weight.profile.intro')}</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select name="unit" defaultValue={weightUnit} className="px-3 py-2 border rounded-lg" aria-label={t('weight.profile.unit')}>
+              <option value="lb">{t('weight.profile.imperial')}</option>
+              <option value="kg">{t('weight.profile.metric')}</option>
+            </select>
+            <input
+              name="height"
+              type="number"
+              step="any"
+              min="1"
+              placeholder={t('weight.profile.height')}
+              defaultValue={profile ? (profile.unit === 'lb' ? (profile.heightCm / 2.54).toFixed(1) : profile.heightCm.toFixed(0)) : ''}
+              required
+              className="px-3 py-2 border rounded-lg"
+            />
+            <input
+              name="weight"
+              type="number"
+              step="any"
+              min="1"
+              placeholder={t('weight.profile.weight')}
+              defaultValue={profile ? fromKg(profile.prePregnancyWeightKg, profile.unit).toFixed(1) : ''}
+              required
+              className="px-3 py-2 border rounded-lg"
+            />
+          </div>
+          <div className="flex space-x-2 mt-3">
+            <button type="submit" className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+              {t('common.save')}
+            </button>
+            {profile && (
+              <button type="button" onClick={() => setIsEditingWeightProfile(false)} className="px-4 py-2 text-gray-600">
+                {t('common.cancel')}
+              </button>
+            )}
+          </div>
+        </form>
+      );
+    }
+
+    const bmi = calculateBmi(profile);
+    const band = findGainBand(nutritionalReqs.weightGainRecommendations, bmi, userProfile.babies);
+    const points = weighIns
+      .map(weighIn => ({ weighIn, week: weekOnDate(weighIn.date), gainKg: weighIn.weightKg - profile.prePregnancyWeightKg }))
+      .filter((p): p is typeof p & { week: number } => p.week !== null);
+    const latest = points[points.length - 1];
+    const status = band && latest ? getWeightStatus(band, latest.week, latest.gainKg) : null;
+    const expected = band && latest ? expectedGainAt(band, latest.week) : null;
+
+    return (
+      <div className="mt-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm">
+            {t('weight.bmi')} <span className="font-semibold">{formatNumber(bmi, locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}</span>
+            {band && (
+              <>
+                {' • '}<span className="font-semibold">{localize(band.recommendation, locale).prePregnancyBMI}</span>
+                {': '}{t('weight.totalRange', { min: formatWeight(band.minKg, weightUnit, locale), max: formatWeight(band.maxKg, weightUnit, locale) })}
+              </>
+            )}
+            {band && userProfile.babies === 2 && ` ${t('weight.twinRange')}`}
+          </p>
+          <div className="flex items-center space-x-2 text-sm">
+            {(['lb', 'kg'] as WeightUnit[]).map(unit => (
+              <button
+                key={unit}
+                type="button"
+                onClick={() => setWeightData(prev => ({ ...prev, profile: prev.profile && { ...prev.profile, unit } }))}
+                className={`px-2 py-1 rounded ${weightUnit === unit ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                {unit}
+              </button>
+            ))}
+            <button type="button" onClick={() => setIsEditingWeightProfile(true)} className="p-1 text-gray-400 hover:text-purple-600" aria-label={t('weight.profile.edit')}>
+              <Pencil className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {status && latest && expected && (
+          <div className={`p-3 rounded-lg border text-sm ${
+            status === 'within' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}>
+            {t('weight.status', {
+              week: Math.floor(latest.week),
+              gain: formatWeight(latest.gainKg, weightUnit, locale),
+              min: formatWeight(expected.minKg, weightUnit, locale),
+              max: formatWeight(expected.maxKg, weightUnit, locale)
+            })}{' '}
+            {t(`weight.status.${status}`)}
+          </div>
+        )}
+
+        {band && renderWeightChart(band, points)}
+        {!band && userProfile.babies > 1 && (
+          <p className="text-sm text-gray-600">
+            {t('weight.noRange', { babies: babiesLabel(userProfile.babies, locale) })}
+          </p>
+        )}
+        {!datingInput && (
+          <p className="text-xs text-gray-500">{t('weight.setDueDate')}</p>
+        )}
+
+        <form onSubmit={handleWeighInSubmit} className="flex flex-wrap items-center gap-2">
+          <input name="date" type="date" defaultValue={toDateInputValue(new Date())} max={toDateInputValue(new Date())} required className="px-3 py-2 border rounded-lg" aria-label={t('common.date')} />
+          <input name="weight" type="number" step="any" min="1" placeholder={t('vitals.form.weight', { unit: weightUnit })} required className="w-36 px-3 py-2 border rounded-lg" />
+          <button type="submit" className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+            {t('weight.log')}
+          </button>
+        </form>
+
+        {weighIns.length > 0 && (
+          <div className="space-y-1">
+            {[...weighIns].reverse().map(weighIn => (
+              <div key={weighIn.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                <span>{formatJournalDate(weighIn.date, intlLocale)}</span>
+                <span>
+                  {formatWeight(weighIn.weightKg, weightUnit, locale)}
+                  <span className="text-gray-500"> ({weighIn.weightKg >= profile.prePregnancyWeightKg ? '+' : '-'}{formatWeight(Math.abs(weighIn.weightKg - profile.prePregnancyWeightKg), weightUnit, locale)})</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteWeighIn(weighIn.id)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  aria-label={t('weight.delete')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const nutrientBarStyles = (status: NutrientProgress['status']) =>
+    status === 'exceeds' ? 'bg-red-500' :
+    status === 'above' || status === 'prescribed' ? 'bg-yellow-500' :
+    status === 'met' ? 'bg-green-500' :
+    'bg-purple-500';
+
+  const renderFoodDiary = () => {
+    const upperLimits = nutritionalReqs.upperLimits || [];
+    const totals = dailyTotals(foodDiary, selectedDiaryDate);
+    const prescribed = prescribedTotals(foodDiary, selectedDiaryDate);
+    const progress = buildNutrientProgress(nutritionalReqs.dailyMacros, upperLimits, totals, prescribed);
+    const extraWarnings = findUpperLimitWarnings(nutritionalReqs.dailyMacros, upperLimits, totals, prescribed);
+    const overLimit = progress.filter(item => item.status === 'exceeds');
+    const dayEntries = foodDiary.filter(entry => entry.date === selectedDiaryDate);
+    // Progress rows carry the English nutrient name; its knowledge base entry carries the translations
+    const nutrientLabel = (nutrient: string) => {
+      const entry = [...nutritionalReqs.dailyMacros, ...upperLimits].find(n => n.nutrient === nutrient);
+      return entry ? localize(entry, locale).nutrient : nutrient;
+    };
+    const limitNote = (limit: NutrientUpperLimit) => {
+      const { note } = localize(limit, locale);
+      return note ? ` - ${note}` : '';
+    };
+    const today = toDateInputValue(new Date());
+
+    return (
+      <div id="nutrition-diary" className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold">{t('foodDiary.title')}</h3>
+          <input
+            type="date"
+            aria-label={t('common.date')}
+            value={selectedDiaryDate}
+            max={today}
+            onChange={(e) => e.target.value && setSelectedDiaryDate(e.target.value)}
+            className="px-3 py-1 border rounded-lg text-sm"
+          />
+        </div>
+
+        <form onSubmit={handleFoodDiarySubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+          <input
+            name="food"
+            list="nutrient-foods"
+            placeholder={t('foodDiary.form.food')}
+            required
+            className="md:col-span-2 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <datalist id="nutrient-foods">
+            {NUTRIENT_FOODS.filter(food => !isExcludedByDiet(userProfile.diet, food.animalSource)).map(food => localize(food, locale)).map(food => (
+              <option key={food.id} value={food.name}>{food.serving}</option>
+            ))}
+          </datalist>
+          <select name="meal" defaultValue="breakfast" className="px-3 py-2 border rounded-lg" aria-label={t('foodDiary.form.meal')}>
+            {MEALS.map(meal => <option key={meal} value={meal}>{t(`foodDiary.meal.${meal}`)}</option>)}
+          </select>
+          <input
+            name="servings"
+            type="number"
+            min="0.25"
+            step="0.25"
+            defaultValue="1"
+            aria-label={t('foodDiary.form.servings')}
+            className="px-3 py-2 border rounded-lg"
+          />
+          <button type="submit" className="md:col-span-4 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+            {t('foodDiary.form.add')}
+          </button>
+        </form>
+        {foodDiaryError && <p className="text-sm text-red-600 mb-3">{foodDiaryError}</p>}
+
+        {(overLimit.length > 0 || extraWarnings.length > 0) && (
+          <div className="p-4 mb-4 bg-red-50 rounded-lg border border-red-300">
+            <p className="font-semibold text-red-800 flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              {t('foodDiary.overLimit')}
+            </p>
+            <ul className="text-sm text-red-700 mt-2 space-y-1">
+              {overLimit.map(item => item.upperLimit && (
+                <li key={item.nutrient}>
+                  {t('foodDiary.overLimitLine', {
+                    nutrient: nutrientLabel(item.nutrient),
+                    total: `${formatNutrientAmount(item.total, locale)} ${item.unit}`,
+                    limit: `${formatNumber(item.upperLimit.amount, locale)} ${item.upperLimit.unit}`
+                  })}
+                  {limitNote(item.upperLimit)}
+                </li>
+              ))}
+              {extraWarnings.map(({ limit, total }) => (
+                <li key={limit.nutrient}>
+                  {t('foodDiary.overLimitLine', {
+                    nutrient: nutrientLabel(limit.nutrient),
+                    total: `${formatNutrientAmount(total, locale)} ${limit.unit}`,
+                    limit: `${formatNumber(limit.amount, locale)} ${limit.unit}`
+                  })}
+                  {limitNote(limit)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-3 mb-4">
+          {progress.map(item => (
+            <div key={item.nutrient}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium">{nutrientLabel(item.nutrient)}</span>
+                <span className={item.status === 'exceeds' ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                  {formatNutrientAmount(item.total, locale)} / {item.range
+                    ? item.range.max > item.range.min
+                      ? `${formatNumber(item.range.min, locale)}-${formatNumber(item.range.max, locale)}`
+                      : formatNumber(item.range.min, locale)
+                    : '?'} {item.unit}
+                </span>
+              </div>
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div className={`h-full ${nutrientBarStyles(item.status)}`} style={{ width: `${item.percent}%` }} />
+              </div>
+              {item.status === 'above' && (
+                <p className="text-xs text-yellow-700 mt-1">{t('foodDiary.aboveRange')}</p>
+              )}
+              {item.status === 'prescribed' && item.upperLimit && (
+                <p className="text-xs text-yellow-700 mt-1">
+                  {t('foodDiary.prescribed', { limit: `${formatNumber(item.upperLimit.amount, locale)} ${item.upperLimit.unit}` })}
+                </p>
+              )}
             </div>
-          )}
+          ))}
+        </div>
 
-          {knowledgeBase && (
-            <div className="mt-8">
-              <h3 className="font-semibold mb-3">Common Medications by Category</h3>
-              {knowledgeBase.medications.byCondition.map((cat: any, i: number) => (
-                <div key={i} className="mb-4">
-                  <h4 className="font-medium text-gray-700 mb-2">{cat.condition}</h4>
-                  <div className="grid grid-cols-1 gap-2">
-                    {cat.medications.map((med: any, j: number) => (
-                      <div key={j} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                        <span className="text-sm">{med.drug} ({med.brand})</span>
-                        <span className="text-xl">{med.safety}</span>
+        {dayEntries.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('foodDiary.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            {MEALS.filter(meal => dayEntries.some(entry => entry.meal === meal)).map(meal => (
+              <div key={meal}>
+                <h4 className="text-sm font-medium text-gray-700 mb-1">{t(`foodDiary.meal.${meal}`)}</h4>
+                <div className="space-y-1">
+                  {dayEntries.filter(entry => entry.meal === meal).map(entry => {
+                    const food = findNutrientFood(entry.foodId);
+                    const allergies = food ? findAllergyMatches([food.name, ...(food.aliases || [])], userProfile.allergies, food.animalSource) : [];
+                    const shown = food && localize(food, locale);
+                    return (
+                      <div key={entry.id} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+                        <span>
+                          {shown?.name || entry.foodId}
+                          <span className="text-gray-500"> × {entry.servings}{shown && ` (${shown.serving})`}</span>
+                          {allergies.length > 0 && (
+                            <span className="text-red-700"> • {t('foodDiary.mayContain', { allergies: allergies.join(', ') })}</span>
+                          )}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteFoodDiaryEntry(entry.id)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          aria-label={t('journal.delete')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
                       </div>
-                    ))}
-                  </div>
+                    );
+                  })}
                 </div>
-              ))}
-            </div>
-          )}
-        </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     );
   };
 
-  const renderSymptoms = () => {
-    const symptomResults = symptomSearch ? kb.getSymptomInfo(symptomSearch) : [];
-    const knowledgeBase = kb.getKnowledgeBase();
-    
+  const foodVerdictStyles = (verdict: FoodVerdict) =>
+    verdict === 'safe' ? 'bg-green-50 border-green-200' :
+    verdict === 'limit' ? 'bg-yellow-50 border-yellow-200' :
+    'bg-red-50 border-red-200';
+
+  const foodVerdictBadge = (verdict: FoodVerdict) =>
+    verdict === 'safe' ? 'bg-green-100 text-green-800' :
+    verdict === 'limit' ? 'bg-yellow-100 text-yellow-800' :
+    'bg-red-100 text-red-800';
+
+  const renderFoodSafetyChecker = () => {
+    const lookup = foodSearch.trim() ? kb.lookupFood(foodSearch) : null;
+    // Foods the diet excludes are hidden unless asked for, e.g. seafood for vegetarians
+    const hiddenCount = lookup?.matches.filter(match => isExcludedByDiet(userProfile.diet, match.food.animalSource)).length || 0;
+    const matches = (lookup?.matches || []).filter(match => showDietHiddenFoods || !isExcludedByDiet(userProfile.diet, match.food.animalSource));
+
     return (
-      <div className="space-y-6">
-        <div className="bg-white p-6 rounded-xl shadow-md">
-          <h2 className="text-2xl font-bold mb-4">Symptom Tracker</h2>
-          
-          <div className="mb-6">
-            <div className="relative">
-              <Search className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
-              <input
-                type="text"
-                placeholder="Describe your symptom (e.g., bleeding, pain, fever)"
-                value={symptomSearch}
-                onChange={(e) => setSymptomSearch(e.target.value)}
-                className="w-full pl-10 pr-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-              />
-            </div>
-          </div>
+      <div>
+        <div className="relative mb-3">
+          <Search className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder={t('food.search')}
+            value={foodSearch}
+            onChange={(e) => setFoodSearch(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
 
-          {symptomResults.length > 0 && (
-            <div className="space-y-3 mb-6">
-              {symptomResults.map((symptom, i) => (
-                <div key={i} className={`p-4 rounded-lg border ${
-                  symptom.severity === 'high' ? 'bg-red-50 border-red-200' :
-                  symptom.severity === 'medium' ? 'bg-yellow-50 border-yellow-200' :
-                  'bg-green-50 border-green-200'
-                }`}>
-                  <h4 className="font-semibold">{symptom.sign}</h4>
-                  <p className="text-sm text-gray-600">Category: {symptom.category}</p>
-                  <p className="mt-2">
-                    <span className="font-medium">Action:</span> {symptom.action}
-                  </p>
-                  <p className="text-sm">
-                    <span className="font-medium">Contact provider:</span> {symptom.urgency}
-                  </p>
-                </div>
-              ))}
-            </div>
-          )}
+        {lookup?.category && (
+          <p className="text-sm text-gray-600 mb-2">
+            {t('food.category', { category: (lookup.matches[0] ? localize(lookup.matches[0].food, locale).category : lookup.category).toLowerCase() })}
+          </p>
+        )}
+        {lookup && !lookup.category && lookup.matches.length > 0 && lookup.matches.every(match => match.fuzzy) && (
+          <p className="text-sm text-gray-600 mb-2">{t('food.fuzzy', { query: lookup.query })}</p>
+        )}
+        {hiddenCount > 0 && (
+          <p className="text-sm text-gray-600 mb-2">
+            {t(
+              showDietHiddenFoods
+                ? hiddenCount === 1 ? 'food.dietShown.one' : 'food.dietShown'
+                : hiddenCount === 1 ? 'food.dietHidden.one' : 'food.dietHidden',
+              { count: hiddenCount, diet: dietName(userProfile.diet, locale) }
+            )}{' '}
+            <button type="button" onClick={() => setShowDietHiddenFoods(prev => !prev)} className="text-purple-600 underline">
+              {showDietHiddenFoods ? t('food.hideThem') : t('food.showAnyway')}
+            </button>
+          </p>
+        )}
 
-          {knowledgeBase && (
-            <div>
-              <h3 className="font-semibold mb-3">All Symptoms by Category</h3>
-              {knowledgeBase.symptomTroubleshooting.categories.map((cat: any, i: number) => (
-                <div key={i} className="mb-6">
-                  <h4 className="font-medium text-gray-700 mb-2">{cat.category}</h4>
-                  <div className="space-y-2">
-                    {cat.symptoms.map((symptom: any, j: number) => (
-                      <div key={j} className="flex items-start p-3 bg-gray-50 rounded-lg">
-                        <div className={`w-2 h-2 rounded-full mt-1.5 mr-3 ${
-                          symptom.severity === 'high' ? 'bg-red-500' :
-                          symptom.severity === 'medium' ? 'bg-yellow-500' :
-                          'bg-green-500'
-                        }`} />
-                        <div className="flex-1">
-                          <p className="text-sm font-medium">{symptom.sign}</p>
-                          <p className="text-xs text-gray-600">{symptom.action} • {symptom.urgency}</p>
-                        </div>
-                      </div>
-                    ))}
+        {matches.length > 0 && (
+          <div className="space-y-3">
+            {matches.map(({ food, matchedName, language }) => {
+              const shown = localize(food, locale);
+              return (
+                <div key={food.name} className={`p-4 rounded-lg border ${foodVerdictStyles(food.verdict)}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <h4 className="font-semibold">{shown.name}</h4>
+                      {matchedName !== food.name && matchedName !== shown.name && (
+                        <p className="text-sm text-gray-600">{t('medications.matched', { name: language ? `${matchedName} (${language})` : matchedName })}</p>
+                      )}
+                    </div>
+                    <span className={`px-2 py-1 rounded text-xs font-semibold ${foodVerdictBadge(food.verdict)}`}>
+                      {t(FOOD_VERDICT_LABELS[food.verdict])}
+                    </span>
                   </div>
+                  <p className="text-sm mt-2 text-gray-700">{shown.reason}</p>
+                  {renderAllergyAlert(findAllergyMatches([food.name, ...(food.aliases || []).map(alias => alias.name)], userProfile.allergies, food.animalSource))}
+                  {food.limit && (
+                    <p className="text-sm mt-1 font-medium">{describeFoodLimit(food.limit, locale)}</p>
+                  )}
+                  {shown.preparation && shown.preparation.length > 0 && (
+                    <ul className="text-sm mt-1 ml-4 text-gray-700">
+                      {shown.preparation.map((caveat, i) => <li key={i} className="list-disc">{caveat}</li>)}
+                    </ul>
+                  )}
+                  {(food.aliases?.length || food.scientificName) && (
+                    <p className="text-xs mt-2 text-gray-500">
+                      {food.aliases?.length ? t('food.alsoCalled', { names: describeFoodAliases(food) }) : ''}
+                      {food.aliases?.length && food.scientificName ? ' · ' : ''}
+                      {food.scientificName && <i>{food.scientificName}</i>}
+                    </p>
+                  )}
                 </div>
-              ))}
-            </div>
-          )}
-        </div>
+              );
+            })}
+          </div>
+        )}
+
+        {lookup && lookup.matches.length === 0 && (
+          <div className="p-4 rounded-lg border bg-gray-50 border-gray-200">
+            <h4 className="font-semibold">{t('food.notFound', { query: lookup.query })}</h4>
+            <p className="text-sm mt-2 text-gray-700">{t('food.notFoundAdvice')}</p>
+            {lookup.suggestions.length > 0 && (
+              <p className="text-sm mt-2">
+                {t('medications.didYouMean')}{' '}
+                {lookup.suggestions.map((name, i) => (
+                  <span key={name}>
+                    {i > 0 && ', '}
+                    <button type="button" onClick={() => setFoodSearch(name)} className="text-purple-600 underline">
+                      {name}
+                    </button>
+                  </span>
+                ))}
+                ?
+              </p>
+            )}
+          </div>
+        )}
       </div>
     );
   };
 
   const renderNutrition = () => {
     const knowledgeBase = kb.getKnowledgeBase();
+    const userGainBand = weightData.profile
+      ? findGainBand(nutritionalReqs.weightGainRecommendations, calculateBmi(weightData.profile), userProfile.babies)
+      : null;
+    const morningSickness = localize(kb.getMorningSicknessManagement(), locale);
+    // The seafood guideline lists food names, so the foods carry their translations
+    const seafoodName = (name: string) => {
+      const food = knowledgeBase?.foodSafety.foods?.find(f => f.name === name);
+      return food ? localize(food, locale).name : name;
+    };
     
     return (
       <div className="space-y-6">
         <div className="bg-white p-6 rounded-xl shadow-md">
-          <h2 className="text-2xl font-bold mb-4">Nutrition Planner</h2>
+          <h2 className="text-2xl font-bold mb-4">{t('nutrition.title')}</h2>
           
-          <div className="mb-6">
-            <h3 className="font-semibold mb-3">Daily Nutritional Requirements</h3>
+          {getDietNotes(userProfile.diet, locale).length > 0 && (
+            <div className="bg-green-50 p-4 rounded-lg mb-6">
+              <h3 className="font-semibold text-green-900 mb-2">{t('nutrition.forDiet', { diet: dietName(userProfile.diet, locale) })}</h3>
+              <ul className="text-sm text-green-800 space-y-1 ml-4">
+                {getDietNotes(userProfile.diet, locale).map((note, i) => <li key={i} className="list-disc">{note}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div id="nutrition-daily" className="mb-6">
+            <h3 className="font-semibold mb-3">{t('nutrition.daily')}</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {nutritionalReqs.dailyMacros.map((nutrient, i) => (
+              {nutritionalReqs.dailyMacros.map(nutrient => localize(nutrient, locale)).map((nutrient, i) => (
                 <div key={i} className="bg-gradient-to-r from-purple-50 to-pink-50 p-4 rounded-lg">
                   <div className="flex justify-between items-center">
                     <div>
@@ -772,23 +4114,62 @@ const PregnancyTrackerApp: React.FC = () => {
             </div>
           </div>
 
+          {renderFoodDiary()}
+
+          <div id="nutrition-weight" className="mb-6">
+            <h3 className="font-semibold mb-3">{t('nutrition.weightGain')}</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    <th className="py-2 pr-4">{t('weight.bmi')}</th>
+                    <th className="py-2 pr-4">{t('nutrition.bmiRange')}</th>
+                    <th className="py-2">{userProfile.babies === 2 ? t('nutrition.totalGainTwins') : t('nutrition.totalGain')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {nutritionalReqs.weightGainRecommendations.map((rec, i) => {
+                    const shown = localize(rec, locale);
+                    return (
+                      <tr key={i} className={`border-t ${userGainBand?.recommendation === rec ? 'bg-purple-50' : ''}`}>
+                        <td className="py-2 pr-4 font-medium">{shown.prePregnancyBMI}</td>
+                        <td className="py-2 pr-4">{rec.bmiRange}</td>
+                        <td className="py-2">
+                          {userProfile.babies === 2 ? (rec.twinGain ? `${rec.twinGain} ${shown.unit}` : t('nutrition.noGuideline')) : `${rec.recommendedGain} ${shown.unit}`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {renderWeightTracker()}
+          </div>
+
           {knowledgeBase && (
             <>
+              <div id="food-safety" className="mb-6">
+                <h3 className="font-semibold mb-3">{t('food.title')}</h3>
+                {renderFoodSafetyChecker()}
+              </div>
+
               <div className="bg-red-50 p-4 rounded-lg mb-6">
-                <h3 className="font-semibold text-red-900 mb-2">Foods to Avoid</h3>
+                <h3 className="font-semibold text-red-900 mb-2">{t('nutrition.avoid')}</h3>
                 <div className="space-y-3">
-                  <div>
-                    <h4 className="font-medium text-red-800 mb-1">Unsafe Seafood (High Mercury)</h4>
-                    <p className="text-sm text-red-700">
-                      {knowledgeBase.foodSafety.seafoodGuidelines.unsafe.join(', ')}
-                    </p>
-                  </div>
+                  {!dietExcludes(userProfile.diet, 'fish') && (
+                    <div>
+                      <h4 className="font-medium text-red-800 mb-1">{t('nutrition.unsafeSeafood')}</h4>
+                      <p className="text-sm text-red-700">
+                        {knowledgeBase.foodSafety.seafoodGuidelines.unsafe.map(seafoodName).join(', ')}
+                      </p>
+                    </div>
+                  )}
                   <div className="space-y-2">
-                    {knowledgeBase.foodSafety.avoidFoods.map((food: any, i: number) => (
+                    {knowledgeBase.foodSafety.avoidFoods.map(food => localize(food, locale)).map((food, i) => (
                       <div key={i} className="text-sm">
                         <span className="font-medium text-red-800">{food.item}</span>
                         {food.includes && (
-                          <span className="text-red-700"> - includes {food.includes.join(', ')}</span>
+                          <span className="text-red-700"> - {t('nutrition.includes', { items: food.includes.join(', ') })}</span>
                         )}
                       </div>
                     ))}
@@ -796,21 +4177,21 @@ const PregnancyTrackerApp: React.FC = () => {
                 </div>
               </div>
 
-              <div className="bg-green-50 p-4 rounded-lg">
-                <h3 className="font-semibold text-green-900 mb-2">Morning Sickness Tips</h3>
+              <div id="morning-sickness" className="bg-green-50 p-4 rounded-lg">
+                <h3 className="font-semibold text-green-900 mb-2">{t('nutrition.morningSickness')}</h3>
                 <div className="space-y-2 text-sm">
                   <div>
-                    <p className="font-medium text-green-800">What to Eat:</p>
-                    <p className="text-green-700">{knowledgeBase.morningSicknessManagement.whatToEat.join(', ')}</p>
+                    <p className="font-medium text-green-800">{t('nutrition.whatToEat')}</p>
+                    <p className="text-green-700">{morningSickness.whatToEat.join(', ')}</p>
                   </div>
                   <div>
-                    <p className="font-medium text-green-800">Foods to Avoid:</p>
-                    <p className="text-green-700">{knowledgeBase.morningSicknessManagement.avoidFoods.join(', ')}</p>
+                    <p className="font-medium text-green-800">{t('nutrition.foodsToAvoid')}</p>
+                    <p className="text-green-700">{morningSickness.avoidFoods.join(', ')}</p>
                   </div>
                   <div>
-                    <p className="font-medium text-green-800">Eating Tips:</p>
+                    <p className="font-medium text-green-800">{t('nutrition.eatingTips')}</p>
                     <ul className="text-green-700 ml-4">
-                      {knowledgeBase.morningSicknessManagement.eatingTips.map((tip: string, i: number) => (
+                      {morningSickness.eatingTips.map((tip, i) => (
                         <li key={i} className="list-disc">{tip}</li>
                       ))}
                     </ul>
@@ -826,94 +4207,337 @@ const PregnancyTrackerApp: React.FC = () => {
 
   const renderEmergency = () => (
     <div className="space-y-6">
+      {emergencyAlert && (
+        <div className="bg-red-600 text-white p-4 rounded-xl shadow-md">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="font-bold text-lg flex items-center">
+                <AlertTriangle className="w-6 h-6 mr-2" />
+                {emergencyAlert.title}
+              </h3>
+              <p className="text-sm mt-1">{emergencyAlert.message}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setEmergencyAlert(null)}
+              className="p-1 text-red-100 hover:text-white"
+              aria-label={t('emergency.dismiss')}
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="bg-white p-6 rounded-xl shadow-md">
         <h2 className="text-2xl font-bold mb-4 text-red-600 flex items-center">
           <AlertTriangle className="w-8 h-8 mr-2" />
-          Emergency Symptoms Guide
+          {t('emergency.title')}
         </h2>
+        {isOfflineReady && (
+          <p className="text-sm text-gray-600 -mt-2 mb-4">{t('emergency.offlineReady')}</p>
+        )}
         
         <div className="bg-red-50 p-4 rounded-lg mb-6 border border-red-200">
           <p className="text-red-800 font-semibold mb-2">
-            Seek immediate medical attention for any of these symptoms:
+            {t('emergency.seekAttention')}
           </p>
         </div>
 
         <div className="space-y-3">
-          {emergencySymptoms.map((symptom, i) => (
-            <div key={i} className="p-4 bg-red-50 rounded-lg border border-red-200">
-              <div className="flex items-start">
-                <AlertCircle className="w-6 h-6 text-red-600 mr-3 mt-0.5" />
-                <div className="flex-1">
-                  <h4 className="font-semibold text-red-900">{symptom.sign}</h4>
-                  <p className="text-sm text-red-700 mt-1">Category: {symptom.category}</p>
-                  <p className="text-sm text-red-700">Action: {symptom.action}</p>
-                  <p className="font-medium text-red-800 mt-2">
-                    Contact provider: {symptom.urgency}
-                  </p>
+          {emergencySymptoms.map((symptom, i) => {
+            const shown = localize(symptom, locale);
+            return (
+              <div
+                key={i}
+                className={`p-4 bg-red-50 rounded-lg border border-red-200 ${symptom.sign === emergencyAlert?.sign ? 'ring-2 ring-red-500' : ''}`}
+              >
+                <div className="flex items-start">
+                  <AlertCircle className="w-6 h-6 text-red-600 mr-3 mt-0.5" />
+                  <div className="flex-1">
+                    <h4 className="font-semibold text-red-900">{shown.sign}</h4>
+                    <p className="text-sm text-red-700 mt-1">{t('emergency.category', { category: shown.category || '' })}</p>
+                    <p className="text-sm text-red-700">{t('emergency.action', { action: shown.action })}</p>
+                    <p className="font-medium text-red-800 mt-2">
+                      {t('emergency.contactProvider', { urgency: shown.urgency })}
+                    </p>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
 
         <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-          <h3 className="font-semibold text-blue-900 mb-2">Emergency Contacts</h3>
-          <p className="text-sm text-blue-800">Keep these numbers handy:</p>
+          <h3 className="font-semibold text-blue-900 mb-2">{t('emergency.contacts')}</h3>
+          <p className="text-sm text-blue-800">{t('emergency.keepHandy')}</p>
           <ul className="mt-2 space-y-1 text-sm">
-            <li>• Your OB/GYN: _______________</li>
-            <li>• Hospital L&D: _______________</li>
-            <li>• Emergency: 911</li>
+            <li>• {t('emergency.obgyn')}</li>
+            <li>• {t('emergency.hospital')}</li>
+            <li>• {t('emergency.number')}</li>
           </ul>
         </div>
       </div>
     </div>
   );
 
+  // Sentences without a citation are highlighted so grounded facts stand apart from model guesses
+  const renderMessageContent = (msg: Message) => {
+    if (msg.role === 'user') {
+      return <p className="whitespace-pre-wrap">{msg.content}</p>;
+    }
+    if (msg.source === 'emergency' && msg.redFlags) {
+      return (
+        <div>
+          <p className="font-semibold text-red-800 flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2" />
+            {t('chat.urgent.title')}
+          </p>
+          <div className="space-y-2 mt-2">
+            {msg.redFlags.map(flag => {
+              const shown = localizeSign(flag.sign) || flag;
+              return (
+                <div key={flag.sign} className="p-3 bg-white rounded-lg border border-red-200">
+                  <h4 className="font-semibold text-red-900">{shown.sign}</h4>
+                  <p className="text-sm text-red-700">{t('emergency.action', { action: shown.action })}</p>
+                  <p className="text-sm font-medium text-red-800">{t('emergency.contactProvider', { urgency: shown.urgency })}</p>
+                  <p className="text-xs text-gray-500 mt-1">{t('chat.urgent.because', { text: flag.matchedText })}</p>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-sm text-red-800 mt-2">
+            {t('chat.urgent.callNow')}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-3">
+            <button
+              type="button"
+              onClick={() => setActiveTab('emergency')}
+              className="text-sm px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700"
+            >
+              {t('chat.urgent.guide')}
+            </button>
+            {!msg.askedAnyway && msg.id === chatMessages[chatMessages.length - 1]?.id && (
+              <button
+                type="button"
+                onClick={() => handleAskAnyway(msg.id)}
+                disabled={isLoading}
+                className="text-sm px-3 py-1 border border-red-300 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50"
+              >
+                {t('chat.urgent.askAnyway')}
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    }
+    // The welcome message is saved with each conversation, so it's shown in whatever language is chosen now
+    if (msg.id === WELCOME_MESSAGE.id) {
+      return <p className="whitespace-pre-wrap">{t('chat.welcome')}</p>;
+    }
+    if (msg.source === 'error' || msg.streaming) {
+      return <p className="whitespace-pre-wrap">{stripCitations(msg.content)}</p>;
+    }
+
+    const { segments } = parseCitations(msg.content, id => kb.getSection(id) !== undefined);
+    const hasUncited = segments.some(segment => segment.citations.length === 0);
+    return (
+      <>
+        <p className="whitespace-pre-wrap">
+          {segments.map((segment, i) => segment.citations.length > 0 ? (
+            <span key={i}>{segment.text}</span>
+          ) : (
+            <span
+              key={i}
+              className="bg-yellow-50 border-b border-dashed border-yellow-500"
+              title={t('chat.uncitedTitle')}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </p>
+        {hasUncited && (
+          <p className="text-xs mt-1 text-gray-500">
+            <span className="bg-yellow-50 border-b border-dashed border-yellow-500">{t('chat.uncitedHighlighted')}</span>{' '}
+            {t('chat.uncitedNote')}
+          </p>
+        )}
+      </>
+    );
+  };
+
   const renderChat = () => (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-md">
-      <div className="p-4 border-b">
-        <h2 className="text-xl font-bold flex items-center">
-          <MessageCircle className="w-6 h-6 mr-2" />
-          Pregnancy Assistant
-        </h2>
-        <p className="text-xs text-gray-500 mt-1">Powered by OpenAI GPT-3.5</p>
+      <div className="p-4 border-b flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-bold flex items-center">
+            <MessageCircle className="w-6 h-6 mr-2" />
+            {t('chat.title')}
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">
+            {t('chat.poweredBy', {
+              provider: llm.config.kind === 'local' ? `${llm.config.label} (${llm.config.chatModel})` : llm.config.label
+            })}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={handleNewConversation}
+            disabled={isLoading}
+            className="p-2 text-gray-500 hover:text-purple-600 disabled:opacity-50"
+            aria-label={t('chat.newConversation')}
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowHistory(prev => !prev)}
+            disabled={isLoading}
+            className={`p-2 hover:text-purple-600 disabled:opacity-50 ${showHistory ? 'text-purple-600' : 'text-gray-500'}`}
+            aria-label={t('chat.history')}
+          >
+            <History className="w-5 h-5" />
+          </button>
+        </div>
       </div>
+
+      {showHistory && (
+        <div className="flex-1 overflow-y-auto p-4">
+          <div className="relative mb-3">
+            <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder={t('chat.searchConversations')}
+              value={historySearch}
+              onChange={(e) => setHistorySearch(e.target.value)}
+              className="w-full pl-9 pr-4 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <div className="space-y-2">
+            {searchConversations(conversations, historySearch).map(conversation => (
+              <div
+                key={conversation.id}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  conversation.id === activeConversationId ? 'bg-purple-50' : 'bg-gray-50'
+                }`}
+              >
+                {renamingConversationId === conversation.id ? (
+                  <form onSubmit={handleRenameConversation} className="flex-1 mr-2">
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={handleRenameConversation}
+                      autoFocus
+                      className="w-full px-2 py-1 border rounded text-sm"
+                    />
+                  </form>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleOpenConversation(conversation)}
+                    className="flex-1 text-left"
+                  >
+                    <p className="text-sm font-medium">{conversation.title || t('chat.newConversation')}</p>
+                    <p className="text-xs text-gray-500">{formatDateTime(new Date(conversation.updatedAt), locale)}</p>
+                  </button>
+                )}
+                <div className="flex space-x-1">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setRenamingConversationId(conversation.id);
+                      setRenameValue(conversation.title);
+                    }}
+                    className="p-1 text-gray-400 hover:text-purple-600"
+                    aria-label={t('chat.renameConversation')}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteConversation(conversation.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={t('chat.deleteConversation')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            {searchConversations(conversations, historySearch).length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">{t('chat.noConversations')}</p>
+            )}
+          </div>
+        </div>
+      )}
       
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div className={`flex-1 overflow-y-auto p-4 space-y-4 ${showHistory ? 'hidden' : ''}`}>
         {chatMessages.map((msg, i) => (
-          <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-[70%] p-3 rounded-lg ${
               msg.role === 'user' 
                 ? 'bg-purple-500 text-white' 
-                : 'bg-gray-100 text-gray-800'
+                : msg.source === 'emergency'
+                  ? 'bg-red-50 border border-red-300 text-gray-800'
+                  : 'bg-gray-100 text-gray-800'
             }`}>
-              <p className="whitespace-pre-wrap">{msg.content}</p>
+              {msg.streaming && !msg.content ? (
+                <div className="flex space-x-2">
+                  <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce"></div>
+                  <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                  <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: '0.4s' }}></div>
+                </div>
+              ) : (
+                renderMessageContent(msg)
+              )}
+              {msg.citations && msg.citations.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {msg.citations.map(id => kb.getSection(id)).map(section => section && (
+                    <button
+                      key={section.id}
+                      type="button"
+                      onClick={() => openSection(section.link)}
+                      className="text-xs px-2 py-1 rounded-full bg-white border border-green-300 text-green-700 hover:bg-green-50 flex items-center"
+                    >
+                      <BookOpen className="w-3 h-3 mr-1" />
+                      {section.title}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {msg.interrupted && (
+                <p className="text-xs mt-2 text-gray-500 italic">
+                  {msg.content ? t('chat.interrupted') : t('chat.stopped')}
+                </p>
+              )}
               {msg.source === 'knowledge-base' && (
                 <p className="text-xs mt-2 text-green-600 flex items-center">
                   <CheckCircle className="w-3 h-3 mr-1" />
-                  Based on verified medical information
+                  {t('chat.kbBased')}
                 </p>
               )}
               {msg.source === 'ai-general' && (
                 <p className="text-xs mt-2 text-yellow-600 flex items-center">
                   <AlertCircle className="w-3 h-3 mr-1" />
-                  General advice - consult your doctor
+                  {t('chat.general')}
                 </p>
               )}
+              {msg.role === 'assistant' && msg.id !== 'welcome' && msg.source !== 'emergency' && !msg.streaming && !isLoading &&
+                i === chatMessages.length - 1 && (
+                <button
+                  type="button"
+                  onClick={() => handleRegenerate(msg.id)}
+                  className="text-xs mt-2 text-purple-600 hover:text-purple-800 flex items-center"
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  {msg.source === 'error' ? t('chat.retry') : t('chat.regenerate')}
+                </button>
+              )}
             </div>
           </div>
         ))}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="max-w-[70%] p-3 rounded-lg bg-gray-100 text-gray-800">
-              <div className="flex space-x-2">
-                <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce"></div>
-                <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: '0.4s' }}></div>
-              </div>
-            </div>
-          </div>
-        )}
         <div ref={chatEndRef} />
       </div>
       
@@ -923,20 +4547,31 @@ const PregnancyTrackerApp: React.FC = () => {
             type="text"
             value={chatInput}
             onChange={(e) => setChatInput(e.target.value)}
-            placeholder="Ask about symptoms, medications, or pregnancy..."
+            placeholder={t('chat.placeholder')}
             className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50"
-            disabled={isLoading || !chatInput.trim()}
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStopGenerating}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              aria-label={t('chat.stop')}
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50"
+              disabled={!chatInput.trim()}
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </div>
         <p className="text-xs text-gray-500 mt-2">
-          AI responses use your pregnancy knowledge base when relevant. Always consult your healthcare provider.
+          {isOnline ? t('chat.footer') : t('chat.footerOffline')}
         </p>
       </form>
     </div>
@@ -946,14 +4581,77 @@ const PregnancyTrackerApp: React.FC = () => {
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-4xl mx-auto p-4">
         {/* Header */}
-        <header className="mb-6">
-          <h1 className="text-3xl font-bold text-gray-800 flex items-center">
-            <Baby className="w-8 h-8 mr-2 text-purple-600" />
-            Pregnancy Care Companion
-          </h1>
-          <p className="text-gray-600 mt-1">Your complete pregnancy tracking and health guide</p>
+        <header className="mb-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 flex items-center">
+              <Baby className="w-8 h-8 mr-2 text-purple-600" />
+              {t('app.title')}
+            </h1>
+            <p className="text-gray-600 mt-1">{t('app.tagline')}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="flex items-center text-sm text-gray-600">
+              <Globe className="w-4 h-4 mr-1" aria-hidden="true" />
+              <span className="sr-only">{t('app.language')}</span>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="px-2 py-1 border rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {(Object.keys(LOCALES) as Locale[]).map(code => (
+                  <option key={code} value={code}>{LOCALES[code].nativeName}</option>
+                ))}
+              </select>
+            </label>
+            {installPrompt.canInstall && (
+              <button
+                type="button"
+                onClick={installPrompt.install}
+                className="flex items-center px-3 py-1 text-sm text-purple-600 border border-purple-200 rounded-lg hover:bg-purple-50"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                {t('app.install')}
+              </button>
+            )}
+          </div>
         </header>
 
+        {/* Offline Banner */}
+        {!isOnline && (
+          <div className="bg-gray-800 text-white p-4 rounded-xl mb-6">
+            <h3 className="font-semibold flex items-center">
+              <WifiOff className="w-5 h-5 mr-2" />
+              {t('offline.title')}
+            </h3>
+            <p className="text-sm text-gray-200 mt-1">
+              {isOfflineReady ? t('offline.ready') : t('offline.notReady')}
+            </p>
+          </div>
+        )}
+
+        {/* Degraded Mode Banner */}
+        {isKbLoaded && validationIssues.length > 0 && (
+          <div className="bg-yellow-50 p-4 rounded-xl border border-yellow-200 mb-6">
+            <h3 className="font-semibold text-yellow-900 flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              {t('app.kbDegraded.title')}
+            </h3>
+            <p className="text-sm text-yellow-800 mt-1">
+              {t('app.kbDegraded.body')}
+            </p>
+            <ul className="text-xs text-yellow-800 mt-2 space-y-1 font-mono">
+              {validationIssues.slice(0, 5).map((issue, i) => (
+                <li key={i}>{issue.path}: {issue.message}</li>
+              ))}
+            </ul>
+            {validationIssues.length > 5 && (
+              <p className="text-xs text-yellow-700 mt-1">{t('app.kbDegraded.more', { count: validationIssues.length - 5 })}</p>
+            )}
+          </div>
+        )}
+
+        {firedReminders.length > 0 && renderFiredReminders()}
+
         {/* Main Content */}
         <div className="pb-20">
           {activeTab === 'home' && renderHome()}
@@ -969,39 +4667,274 @@ const PregnancyTrackerApp: React.FC = () => {
           )}
         </div>
 
-        {/* Due Date Modal */}
-        {showDueDateModal && (
+        {/* Profile Onboarding Modal */}
+        {profileStep && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white p-6 rounded-xl max-w-md w-full">
-              <div className="flex justify-between items-center mb-4">
-                <h3 className="text-xl font-bold">Update Due Date</h3>
+            <div className="bg-white p-6 rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex justify-between items-center mb-1">
+                <h3 className="text-xl font-bold">
+                  {t(`onboarding.title.${profileStep}`)}
+                </h3>
                 <button 
-                  onClick={() => setModalVersion(0)}
+                  onClick={() => setProfileStep(null)}
                   className="text-gray-500 hover:text-gray-700"
+                  aria-label={t('onboarding.close')}
                 >
                   <X className="w-6 h-6" />
                 </button>
               </div>
-              <form onSubmit={handleDueDateSubmit}>
-                <div className="mb-4">
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Enter your due date:
-                  </label>
-                  <input
-                    type="date"
-                    name="dueDate"
-                    required
-                    className="w-full p-2 border rounded-lg"
-                    min={new Date().toISOString().split('T')[0]}
-                  />
-                </div>
-                <button
-                  type="submit"
-                  className="w-full bg-purple-600 text-white py-2 rounded-lg hover:bg-purple-700"
-                >
-                  Save Due Date
-                </button>
-              </form>
+              <p className="text-sm text-gray-500 mb-4">
+                {t('onboarding.step', { step: PROFILE_STEPS.indexOf(profileStep) + 1, total: PROFILE_STEPS.length })}
+              </p>
+
+              {profileStep === 'dating' && (
+                <form onSubmit={handleDueDateSubmit}>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('onboarding.dating.method')}
+                    </label>
+                    <select
+                      value={datingMethod}
+                      onChange={(e) => setDatingMethod(e.target.value as DatingMethod)}
+                      className="w-full p-2 border rounded-lg"
+                    >
+                      {(Object.keys(DATING_METHOD_LABELS) as DatingMethod[]).map(method => (
+                        <option key={method} value={method}>{t(DATING_METHOD_LABELS[method])}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {datingMethod === 'dueDate' && (
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {t('onboarding.dating.dueDate')}
+                      </label>
+                      <input
+                        type="date"
+                        name="dueDate"
+                        required
+                        className="w-full p-2 border rounded-lg"
+                        min={toDateInputValue(new Date())}
+                      />
+                    </div>
+                  )}
+
+                  {datingMethod === 'lmp' && (
+                    <>
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {t('onboarding.dating.lmp')}
+                        </label>
+                        <input
+                          type="date"
+                          name="lmpDate"
+                          required
+                          className="w-full p-2 border rounded-lg"
+                          max={toDateInputValue(new Date())}
+                        />
+                      </div>
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {t('onboarding.dating.cycleLength')}
+                        </label>
+                        <input
+                          type="number"
+                          name="cycleLength"
+                          min={20}
+                          max={45}
+                          defaultValue={28}
+                          className="w-full p-2 border rounded-lg"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {datingMethod === 'ivf' && (
+                    <>
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {t('onboarding.dating.transferDate')}
+                        </label>
+                        <input
+                          type="date"
+                          name="transferDate"
+                          required
+                          className="w-full p-2 border rounded-lg"
+                          max={toDateInputValue(new Date())}
+                        />
+                      </div>
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {t('onboarding.dating.embryoAge')}
+                        </label>
+                        <select name="embryoAge" defaultValue="5" className="w-full p-2 border rounded-lg">
+                          <option value="3">{t('onboarding.dating.day3')}</option>
+                          <option value="5">{t('onboarding.dating.day5')}</option>
+                        </select>
+                      </div>
+                    </>
+                  )}
+
+                  {datingMethod === 'ultrasound' && (
+                    <>
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {t('onboarding.dating.scanDate')}
+                        </label>
+                        <input
+                          type="date"
+                          name="scanDate"
+                          required
+                          className="w-full p-2 border rounded-lg"
+                          max={toDateInputValue(new Date())}
+                        />
+                      </div>
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {t('onboarding.dating.crownRumpLength')}
+                        </label>
+                        <input
+                          type="number"
+                          name="crownRumpLength"
+                          required
+                          min={2}
+                          max={84}
+                          step="0.1"
+                          className="w-full p-2 border rounded-lg"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {datingError && (
+                    <p className="text-sm text-red-600 mb-4">{datingError}</p>
+                  )}
+                  <button
+                    type="submit"
+                    className="w-full bg-purple-600 text-white py-2 rounded-lg hover:bg-purple-700"
+                  >
+                    {t('common.next')}
+                  </button>
+                </form>
+              )}
+
+              {profileStep === 'pregnancy' && (
+                <form onSubmit={handlePregnancyStepSubmit}>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('onboarding.babies')}
+                    </label>
+                    <select name="babies" defaultValue={String(userProfile.babies)} className="w-full p-2 border rounded-lg">
+                      <option value="1">{t('onboarding.babies.one')}</option>
+                      <option value="2">{t('onboarding.babies.twins')}</option>
+                      <option value="3">{t('onboarding.babies.triplets')}</option>
+                    </select>
+                  </div>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('onboarding.parity')}
+                    </label>
+                    <input
+                      type="number"
+                      name="parity"
+                      min={0}
+                      max={15}
+                      defaultValue={userProfile.parity}
+                      className="w-full p-2 border rounded-lg"
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setProfileStep('dating')}
+                      className="flex-1 py-2 rounded-lg border text-gray-700 hover:bg-gray-50"
+                    >
+                      {t('common.back')}
+                    </button>
+                    <button type="submit" className="flex-1 bg-purple-600 text-white py-2 rounded-lg hover:bg-purple-700">
+                      {t('common.next')}
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {profileStep === 'health' && (
+                <form onSubmit={handleHealthStepSubmit}>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('onboarding.diet')}
+                    </label>
+                    <select name="diet" defaultValue={userProfile.diet} className="w-full p-2 border rounded-lg">
+                      {(Object.keys(DIET_LABELS) as Diet[]).map(diet => (
+                        <option key={diet} value={diet}>{t(DIET_LABELS[diet])}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('onboarding.allergies')}
+                    </label>
+                    <input
+                      type="text"
+                      name="allergies"
+                      defaultValue={userProfile.allergies.join(', ')}
+                      placeholder={t('onboarding.allergies.placeholder')}
+                      className="w-full p-2 border rounded-lg"
+                    />
+                  </div>
+                  <div className="mb-4">
+                    <p className="block text-sm font-medium text-gray-700 mb-1">{t('onboarding.conditions')}</p>
+                    <div className="grid grid-cols-2 gap-1">
+                      {COMMON_CONDITIONS.map(condition => (
+                        <label key={condition} className="flex items-center text-sm">
+                          <input
+                            type="checkbox"
+                            name={`condition-${condition}`}
+                            defaultChecked={userProfile.conditions.includes(condition)}
+                            className="mr-2"
+                          />
+                          {conditionLabel(condition, locale)}
+                        </label>
+                      ))}
+                    </div>
+                    <input
+                      type="text"
+                      name="otherConditions"
+                      defaultValue={userProfile.conditions.filter(condition => !COMMON_CONDITIONS.includes(condition)).join(', ')}
+                      placeholder={t('onboarding.conditions.other')}
+                      className="w-full p-2 border rounded-lg mt-2"
+                    />
+                  </div>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('onboarding.medications')}
+                    </label>
+                    <input
+                      type="text"
+                      name="medications"
+                      placeholder={t('onboarding.medications.placeholder')}
+                      className="w-full p-2 border rounded-lg"
+                    />
+                    {medicationLog.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {t('onboarding.medications.existing', { names: medicationLog.map(entry => entry.name).join(', ') })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setProfileStep('pregnancy')}
+                      className="flex-1 py-2 rounded-lg border text-gray-700 hover:bg-gray-50"
+                    >
+                      {t('common.back')}
+                    </button>
+                    <button type="submit" className="flex-1 bg-purple-600 text-white py-2 rounded-lg hover:bg-purple-700">
+                      {t('onboarding.save')}
+                    </button>
+                  </div>
+                </form>
+              )}
             </div>
           </div>
         )}
@@ -1017,7 +4950,7 @@ const PregnancyTrackerApp: React.FC = () => {
                 }`}
               >
                 <Home className="w-6 h-6" />
-                <span className="text-xs mt-1">Home</span>
+                <span className="text-xs mt-1">{t('nav.home')}</span>
               </button>
               
               <button
@@ -1027,7 +4960,7 @@ const PregnancyTrackerApp: React.FC = () => {
                 }`}
               >
                 <Calendar className="w-6 h-6" />
-                <span className="text-xs mt-1">Tracker</span>
+                <span className="text-xs mt-1">{t('nav.tracker')}</span>
               </button>
               
               <button
@@ -1037,7 +4970,7 @@ const PregnancyTrackerApp: React.FC = () => {
                 }`}
               >
                 <Pill className="w-6 h-6" />
-                <span className="text-xs mt-1">Meds</span>
+                <span className="text-xs mt-1">{t('nav.medications')}</span>
               </button>
               
               <button
@@ -1047,7 +4980,7 @@ const PregnancyTrackerApp: React.FC = () => {
                 }`}
               >
                 <AlertCircle className="w-6 h-6" />
-                <span className="text-xs mt-1">Emergency</span>
+                <span className="text-xs mt-1">{t('nav.emergency')}</span>
               </button>
               
               <button
@@ -1057,7 +4990,7 @@ const PregnancyTrackerApp: React.FC = () => {
                 }`}
               >
                 <MessageCircle className="w-6 h-6" />
-                <span className="text-xs mt-1">Chat</span>
+                <span className="text-xs mt-1">{t('nav.chat')}</span>
               </button>
             </div>
           </div>
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Appointment, buildSchedule, escapeIcsText, toICalendar } from './appointments';
+
+const DUE_DATE = new Date(2027, 0, 1);
+const TODAY = new Date(2026, 4, 1);
+
+const appointment = (fields: Partial<Appointment>): Appointment => ({
+  id: 'a1',
+  title: 'Check-up',
+  date: '2026-06-15',
+  time: '',
+  location: '',
+  notes: '',
+  result: '',
+  status: 'planned',
+  createdAt: 0,
+  ...fields
+});
+
+const itemFor = (id: string, dueDate: Date = DUE_DATE, babies: number = 1, today: Date = TODAY) =>
+  buildSchedule([], dueDate, babies, today, 'en').find(item => item.milestone?.id === id);
+
+// Undoes RFC 5545 folding: a line break followed by a space continues the previous line
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('buildSchedule', () => {
+  it('dates milestone windows from the due date', () => {
+    expect(itemFor('nt-scan')?.window).toEqual({ start: '2026-06-12', end: '2026-07-02' });
+    expect(itemFor('nt-scan', new Date(2027, 0, 8))?.window).toEqual({ start: '2026-06-19', end: '2026-07-09' });
+  });
+
+  it('adds growth scans only when expecting more than one baby', () => {
+    expect(itemFor('growth-scan-24')).toBeUndefined();
+    expect(itemFor('growth-scan-24', DUE_DATE, 2)?.window).toEqual({ start: '2026-09-11', end: '2026-09-17' });
+  });
+
+  it('counts an open window from today and marks a closed one as missed', () => {
+    expect(itemFor('nt-scan', DUE_DATE, 1, new Date(2026, 5, 20))).toMatchObject({ date: '2026-06-20', missed: false });
+    expect(itemFor('nt-scan', DUE_DATE, 1, new Date(2026, 6, 3))?.missed).toBe(true);
+  });
+
+  it('lists no milestones without a due date', () => {
+    const own = appointment({});
+    expect(buildSchedule([own], undefined, 1, TODAY, 'en').map(item => item.key)).toEqual(['a1']);
+  });
+});
+
+describe('escapeIcsText', () => {
+  it('escapes commas, semicolons, backslashes and newlines', () => {
+    expect(escapeIcsText('Dr. Rao, Clinic; Room 2\\B\nBring reports')).toBe('Dr. Rao\\, Clinic\\; Room 2\\\\B\\nBring reports');
+  });
+});
+
+describe('toICalendar', () => {
+  const icsFor = (fields: Partial<Appointment>) => {
+    const items = buildSchedule([appointment(fields)], undefined, 1, TODAY, 'en');
+    return toICalendar(items, new Date(Date.UTC(2026, 4, 1, 8, 30)), 'en');
+  };
+
+  it('writes all-day events as dates and timed events as local times', () => {
+    const allDay = icsFor({});
+    expect(allDay).toContain('DTSTART;VALUE=DATE:20260615\r\n');
+    expect(allDay).toContain('DTEND;VALUE=DATE:20260616\r\n');
+    expect(allDay).toContain('DTSTAMP:20260501T083000Z\r\n');
+
+    const timed = icsFor({ time: '09:30' });
+    expect(timed).toContain('DTSTART:20260615T093000\r\n');
+    expect(timed).toContain('DTEND:20260615T103000\r\n');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const notes = 'डॉक्टर से पूछें कि आयरन की गोली कब लेनी है, और पिछली रिपोर्ट साथ ले जाएँ। '.repeat(3);
+    const ics = icsFor({ notes, location: 'City Hospital, Ward 3; Gate B' });
+    const encoder = new TextEncoder();
+    expect(ics).toContain('\r\n ');
+    ics.split('\r\n').forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(unfold(ics)).toContain(`DESCRIPTION:${escapeIcsText(`Notes: ${notes}`)}\r\n`);
+    expect(unfold(ics)).toContain('LOCATION:City Hospital\\, Ward 3\\; Gate B\r\n');
+  });
+});
@@ -0,0 +1,434 @@
+import { addDays, daysBetween, getPregnancyStart, parseLocalDate, toDateInputValue } from './gestationalAge';
+import { createId } from './conversations';
+import { Locale, formatDate, localize, translate } from './i18n';
+import { Translations } from './knowledgeBaseSchema';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type AppointmentStatus = 'planned' | 'done' | 'skipped';
+
+export type Appointment = {
+  id: string;
+  // The standard milestone this appointment books; unset for the user's own appointments
+  milestoneId?: string;
+  title: string;
+  // Local calendar date (YYYY-MM-DD) and time (HH:MM, empty for all day)
+  date: string;
+  time: string;
+  location: string;
+  notes: string;
+  result: string;
+  status: AppointmentStatus;
+  createdAt: number;
+};
+
+export type Milestone = {
+  id: string;
+  title: string;
+  description: string;
+  // Completed weeks, inclusive: 11-13 runs from 11w0d to 13w6d
+  fromWeek: number;
+  toWeek: number;
+  // Only offered when expecting twins or more
+  multiplesOnly?: boolean;
+  translations?: Translations<Pick<Milestone, 'title' | 'description'>>;
+};
+
+export type ScheduleItem = {
+  // The appointment id, or `milestone:<id>` for a milestone that hasn't been booked yet
+  key: string;
+  title: string;
+  milestone?: Milestone;
+  appointment?: Appointment;
+  // The booked date, or for an unbooked milestone the start of its window (today once it has opened)
+  date: string;
+  time: string;
+  window?: { start: string; end: string };
+  status: AppointmentStatus;
+  // An unbooked milestone whose window has already closed
+  missed: boolean;
+};
+
+// ==================== MILESTONES ====================
+// Routine visits every 4 weeks to 28, every 2 weeks to 36, then weekly (ACOG)
+const ROUTINE_VISIT_WEEKS = [16, 20, 24, 28, 30, 32, 34, 36, 37, 38, 39, 40];
+// Extra growth scans for twins and triplets (NICE)
+const MULTIPLES_GROWTH_SCAN_WEEKS = [24, 28, 32];
+
+export const PRENATAL_MILESTONES: Milestone[] = [
+  {
+    id: 'dating-scan',
+    title: 'Dating scan',
+    description: 'Confirms the heartbeat, how many babies there are and your due date.',
+    fromWeek: 7,
+    toWeek: 10,
+    translations: {
+      hi: { title: 'डेटिंग स्कैन', description: 'धड़कन, शिशुओं की संख्या और आपकी नियत तिथि की पुष्टि करता है।' },
+      mr: { title: 'डेटिंग स्कॅन', description: 'हृदयाचे ठोके, बाळांची संख्या आणि तुमची अपेक्षित तारीख निश्चित करते.' }
+    }
+  },
+  {
+    id: 'booking-visit',
+    title: 'Booking visit and blood tests',
+    description: 'Full check-up with blood group, blood count, infection screening, urine test and blood pressure.',
+    fromWeek: 8,
+    toWeek: 10,
+    translations: {
+      hi: {
+        title: 'पहली जाँच और खून की जाँचें',
+        description: 'ब्लड ग्रुप, खून की गिनती, संक्रमण की जाँच, पेशाब की जाँच और ब्लड प्रेशर के साथ पूरी जाँच।'
+      },
+      mr: {
+        title: 'पहिली तपासणी आणि रक्ततपासण्या',
+        description: 'रक्तगट, रक्तपेशींची संख्या, संसर्ग तपासणी, लघवी तपासणी आणि रक्तदाबासह संपूर्ण तपासणी.'
+      }
+    }
+  },
+  {
+    id: 'nt-scan',
+    title: 'NT scan and first-trimester screening',
+    description: 'Nuchal translucency measurement with a blood test to screen for Down syndrome - only possible in this window.',
+    fromWeek: 11,
+    toWeek: 13,
+    translations: {
+      hi: {
+        title: 'NT स्कैन और पहली तिमाही की स्क्रीनिंग',
+        description: 'डाउन सिंड्रोम की जाँच के लिए खून की जाँच के साथ न्यूकल ट्रांसलूसेंसी माप - केवल इसी अवधि में संभव।'
+      },
+      mr: {
+        title: 'NT स्कॅन आणि पहिल्या तिमाहीची तपासणी',
+        description: 'डाउन सिंड्रोमच्या तपासणीसाठी रक्ततपासणीसह न्यूकल ट्रान्सलुसन्सी मापन - फक्त याच कालावधीत शक्य.'
+      }
+    }
+  },
+  {
+    id: 'anomaly-scan',
+    title: 'Anomaly scan',
+    description: "Detailed scan of the baby's organs, growth and the placenta.",
+    fromWeek: 18,
+    toWeek: 22,
+    translations: {
+      hi: { title: 'एनॉमली स्कैन', description: 'शिशु के अंगों, विकास और प्लेसेंटा (आँवल) का विस्तृत स्कैन।' },
+      mr: { title: 'अ‍ॅनोमली स्कॅन', description: 'बाळाचे अवयव, वाढ आणि वार (प्लेसेंटा) यांचे सविस्तर स्कॅन.' }
+    }
+  },
+  {
+    id: 'glucose-tolerance-test',
+    title: 'Glucose tolerance test',
+    description: 'Screens for gestational diabetes; you may need to fast beforehand, so ask when booking.',
+    fromWeek: 24,
+    toWeek: 28,
+    translations: {
+      hi: {
+        title: 'ग्लूकोज़ टॉलरेंस टेस्ट',
+        description: 'गर्भावस्था के मधुमेह की जाँच; पहले से खाली पेट रहना पड़ सकता है, इसलिए बुकिंग के समय पूछें।'
+      },
+      mr: {
+        title: 'ग्लुकोज टॉलरन्स टेस्ट',
+        description: 'गर्भावस्थेतील मधुमेहाची तपासणी; आधी उपाशी राहावे लागू शकते, म्हणून वेळ ठरवताना विचारा.'
+      }
+    }
+  },
+  {
+    id: 'gbs-swab',
+    title: 'GBS swab',
+    description: 'Vaginal and rectal swab for group B strep, so antibiotics can be given in labour if needed.',
+    fromWeek: 36,
+    toWeek: 37,
+    translations: {
+      hi: {
+        title: 'GBS स्वैब',
+        description: 'ग्रुप B स्ट्रेप के लिए योनि और मलद्वार का स्वैब, ताकि ज़रूरत हो तो प्रसव के दौरान एंटीबायोटिक दी जा सके।'
+      },
+      mr: {
+        title: 'GBS स्वॅब',
+        description: 'ग्रुप B स्ट्रेपसाठी योनी आणि गुदद्वाराचा स्वॅब, जेणेकरून गरज पडल्यास प्रसूतीदरम्यान अँटिबायोटिक देता येईल.'
+      }
+    }
+  },
+  ...MULTIPLES_GROWTH_SCAN_WEEKS.map(week => ({
+    id: `growth-scan-${week}`,
+    title: 'Growth scan',
+    description: "Checks each baby's growth and fluid levels.",
+    fromWeek: week,
+    toWeek: week,
+    multiplesOnly: true,
+    translations: {
+      hi: { title: 'ग्रोथ स्कैन', description: 'हर शिशु के विकास और पानी (एम्नियोटिक द्रव) के स्तर की जाँच।' },
+      mr: { title: 'ग्रोथ स्कॅन', description: 'प्रत्येक बाळाची वाढ आणि गर्भजलाची पातळी तपासते.' }
+    }
+  })),
+  ...ROUTINE_VISIT_WEEKS.map(week => ({
+    id: `routine-visit-${week}`,
+    title: 'Routine check-up',
+    description: week >= 36
+      ? "Blood pressure, urine, baby's heartbeat, growth and position."
+      : "Blood pressure, urine, baby's heartbeat and growth.",
+    fromWeek: week,
+    toWeek: week,
+    translations: {
+      hi: {
+        title: 'नियमित जाँच',
+        description: week >= 36
+          ? 'ब्लड प्रेशर, पेशाब, शिशु की धड़कन, विकास और स्थिति।'
+          : 'ब्लड प्रेशर, पेशाब, शिशु की धड़कन और विकास।'
+      },
+      mr: {
+        title: 'नियमित तपासणी',
+        description: week >= 36
+          ? 'रक्तदाब, लघवी, बाळाचे ठोके, वाढ आणि स्थिती.'
+          : 'रक्तदाब, लघवी, बाळाचे ठोके आणि वाढ.'
+      }
+    }
+  }))
+];
+
+export const getMilestones = (babies: number): Milestone[] =>
+  PRENATAL_MILESTONES.filter(milestone => !milestone.multiplesOnly || babies >= 2);
+
+// "weeks 11-13", or "week 28" for a single week
+export const describeWindow = (milestone: Milestone, locale: Locale): string =>
+  milestone.fromWeek === milestone.toWeek
+    ? translate(locale, 'appointments.window.week', { week: milestone.fromWeek })
+    : translate(locale, 'appointments.window.weeks', { from: milestone.fromWeek, to: milestone.toWeek });
+
+// ==================== SCHEDULE ====================
+const milestoneKey = (milestone: Milestone) => `milestone:${milestone.id}`;
+
+const byDate = (a: ScheduleItem, b: ScheduleItem) =>
+  a.date.localeCompare(b.date) || (a.time || '99:99').localeCompare(b.time || '99:99');
+
+// Standard milestones dated from the due date, merged with the user's own appointments.
+// Milestones are worded in the chosen language; bookings keep the title they were saved with.
+export const buildSchedule = (
+  appointments: Appointment[],
+  dueDate: Date | undefined,
+  babies: number,
+  today: Date,
+  locale: Locale
+): ScheduleItem[] => {
+  const todayValue = toDateInputValue(today);
+  const fromAppointment = (appointment: Appointment, milestone?: Milestone): ScheduleItem => ({
+    key: appointment.id,
+    title: appointment.title,
+    milestone,
+    appointment,
+    date: appointment.date,
+    time: appointment.time,
+    status: appointment.status,
+    missed: false
+  });
+
+  const milestones = dueDate ? getMilestones(babies).map(milestone => localize(milestone, locale)) : [];
+  const start = dueDate ? getPregnancyStart(dueDate) : null;
+  const milestoneItems = milestones.map(milestone => {
+    const window = start
+      ? { start: toDateInputValue(addDays(start, milestone.fromWeek * 7)), end: toDateInputValue(addDays(start, milestone.toWeek * 7 + 6)) }
+      : undefined;
+    const booked = appointments.find(appointment => appointment.milestoneId === milestone.id);
+    if (booked) return { ...fromAppointment(booked, milestone), window };
+    return {
+      key: milestoneKey(milestone),
+      title: milestone.title,
+      milestone,
+      // An open window counts from today, so it sorts alongside what's coming up
+      date: window && window.start < todayValue && window.end >= todayValue ? todayValue : window?.start || todayValue,
+      time: '',
+      window,
+      status: 'planned' as AppointmentStatus,
+      missed: window !== undefined && window.end < todayValue
+    };
+  });
+
+  // Bookings for milestones this profile no longer includes still show, as the user's own
+  const ownItems = appointments
+    .filter(appointment => !milestones.some(milestone => milestone.id === appointment.milestoneId))
+    .map(appointment => fromAppointment(appointment));
+
+  return [...milestoneItems, ...ownItems].sort(byDate);
+};
+
+// Planned items still ahead: booked ones from today on, unbooked milestones until their window closes
+export const getUpcoming = (items: ScheduleItem[], today: Date, limit: number = 3): ScheduleItem[] => {
+  const todayValue = toDateInputValue(today);
+  return items
+    .filter(item => item.status === 'planned' && (item.appointment ? item.date >= todayValue : !item.missed))
+    .slice(0, limit);
+};
+
+const formatDay = (value: string, locale: Locale, options: Intl.DateTimeFormatOptions) => {
+  const day = parseLocalDate(value);
+  return day ? formatDate(day, locale, options) : value;
+};
+
+// "Tue, Nov 4 at 09:30 - in 16 days" for bookings, "Book by Nov 23" for an open milestone window
+export const describeWhen = (item: ScheduleItem, today: Date, locale: Locale): string => {
+  if (!item.appointment && item.window) {
+    const end = formatDay(item.window.end, locale, { month: 'short', day: 'numeric' });
+    return item.window.start <= toDateInputValue(today)
+      ? translate(locale, 'appointments.bookBy', { date: end })
+      : translate(locale, 'appointments.bookBetween', { from: formatDay(item.window.start, locale, { month: 'short', day: 'numeric' }), to: end });
+  }
+  const date = formatDay(item.date, locale, { weekday: 'short', month: 'short', day: 'numeric' });
+  const when = item.time ? translate(locale, 'appointments.dateAtTime', { date, time: item.time }) : date;
+  const day = parseLocalDate(item.date);
+  const days = day ? daysBetween(today, day) : NaN;
+  if (item.status !== 'planned' || !(days >= 0)) return when;
+  const relative = days === 0
+    ? translate(locale, 'appointments.today')
+    : days === 1 ? translate(locale, 'appointments.tomorrow') : translate(locale, 'appointments.inDays', { days });
+  return `${when} - ${relative}`;
+};
+
+// Planned bookings in the past that still need a done or skipped
+export const isOverdue = (item: ScheduleItem, today: Date): boolean =>
+  item.status === 'planned' && item.appointment !== undefined && item.date < toDateInputValue(today);
+
+// ==================== EDITING ====================
+export type AppointmentFields = Pick<Appointment, 'title' | 'date' | 'time' | 'location' | 'notes' | 'result'>;
+
+export const createAppointment = (fields: AppointmentFields & { milestoneId?: string }): Appointment => ({
+  ...fields,
+  id: createId(),
+  status: 'planned',
+  createdAt: Date.now()
+});
+
+// Updates the item's appointment, or books its milestone when it has none yet
+export const saveScheduleItem = (appointments: Appointment[], item: ScheduleItem | null, fields: AppointmentFields): Appointment[] => {
+  if (item?.appointment) {
+    const id = item.appointment.id;
+    return appointments.map(appointment => (appointment.id === id ? { ...appointment, ...fields } : appointment));
+  }
+  return [...appointments, createAppointment({ ...fields, milestoneId: item?.milestone?.id })];
+};
+
+// Marking an unbooked milestone books it on the last day of its window, or today if that's sooner
+export const setItemStatus = (
+  appointments: Appointment[],
+  item: ScheduleItem,
+  status: AppointmentStatus,
+  today: Date
+): Appointment[] => {
+  if (item.appointment) {
+    const id = item.appointment.id;
+    return appointments.map(appointment => (appointment.id === id ? { ...appointment, status } : appointment));
+  }
+  const todayValue = toDateInputValue(today);
+  const date = item.window && item.window.end < todayValue ? item.window.end : todayValue;
+  const booked = createAppointment({
+    milestoneId: item.milestone?.id,
+    title: item.title,
+    date,
+    time: '',
+    location: '',
+    notes: '',
+    result: ''
+  });
+  return [...appointments, { ...booked, status }];
+};
+
+// ==================== ICALENDAR ====================
+const ICS_PRODUCT_ID = '-//Pregnancy Tracker//Appointments//EN';
+const ICS_UID_DOMAIN = 'pregnancy-tracker';
+// RFC 5545 lines are at most 75 octets before folding
+const ICS_MAX_LINE_OCTETS = 75;
+
+export const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Folds on whole characters so multi-byte text (e.g. Devanagari notes) is never split mid-character
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? ICS_MAX_LINE_OCTETS : ICS_MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (value: string) => value.replace(/-/g, '');
+
+const icsUtcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Timed events use floating local time and last an hour; the rest are all-day events
+const icsTimes = (date: string, time: string): string[] => {
+  const day = parseLocalDate(date);
+  if (!day) return [];
+  if (!time) {
+    return [`DTSTART;VALUE=DATE:${icsDate(date)}`, `DTEND;VALUE=DATE:${icsDate(toDateInputValue(addDays(day, 1)))}`];
+  }
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  const end = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours + 1, minutes);
+  const endTime = `${String(end.getHours()).padStart(2, '0')}${String(end.getMinutes()).padStart(2, '0')}00`;
+  return [
+    `DTSTART:${icsDate(date)}T${time.replace(':', '')}00`,
+    `DTEND:${icsDate(toDateInputValue(end))}T${endTime}`
+  ];
+};
+
+const icsEvent = (item: ScheduleItem, stamp: string, locale: Locale): string[] => {
+  const times = icsTimes(item.date, item.time);
+  if (times.length === 0) return [];
+  const appointment = item.appointment;
+  const description = [
+    item.milestone?.description,
+    !appointment && item.milestone && item.window
+      ? translate(locale, 'appointments.ics.bookFor', {
+        window: describeWindow(item.milestone, locale),
+        from: item.window.start,
+        to: item.window.end
+      })
+      : '',
+    appointment?.notes ? translate(locale, 'appointments.ics.notes', { notes: appointment.notes }) : '',
+    appointment?.result ? translate(locale, 'appointments.result', { result: appointment.result }) : ''
+  ].filter(Boolean).join('\n');
+  return [
+    'BEGIN:VEVENT',
+    `UID:${item.key.replace(':', '-')}@${ICS_UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    ...times,
+    `SUMMARY:${escapeIcsText(appointment ? item.title : translate(locale, 'appointments.ics.book', { title: item.title }))}`,
+    ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+    ...(appointment?.location ? [`LOCATION:${escapeIcsText(appointment.location)}`] : []),
+    // Unbooked milestones are reminders to book, not appointments yet
+    `STATUS:${appointment ? 'CONFIRMED' : 'TENTATIVE'}`,
+    'END:VEVENT'
+  ];
+};
+
+// Everything except skipped items and milestones whose window has passed
+export const toICalendar = (items: ScheduleItem[], now: Date, locale: Locale): string => {
+  const stamp = icsUtcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...items.filter(item => item.status !== 'skipped' && !item.missed).flatMap(item => icsEvent(item, stamp, locale)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// ==================== PERSISTENCE ====================
+const APPOINTMENTS_STORAGE_KEY = 'pregnancyAppointments';
+
+const isAppointment = (value: unknown): value is Appointment =>
+  hasFields(value, { id: 'string', title: 'string', date: 'string', time: 'string', status: 'string', createdAt: 'number' });
+
+export const loadAppointments = (): Appointment[] => loadJson(APPOINTMENTS_STORAGE_KEY, [], listOf(isAppointment));
+
+export const saveAppointments = (appointments: Appointment[]) => saveJson(APPOINTMENTS_STORAGE_KEY, appointments);
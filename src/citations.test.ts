@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseCitations, stripCitations } from './citations';
+
+const known = new Set(['medication-folic-acid', 'medication-ibuprofen']);
+const isKnownId = (id: string) => known.has(id);
+
+describe('parseCitations', () => {
+  it('attaches each citation to the sentence before it', () => {
+    const { segments, citedIds } = parseCitations(
+      'Folic acid is recommended. [[medication-folic-acid]] Rest helps too.',
+      isKnownId
+    );
+    expect(segments.map(segment => segment.citations)).toEqual([['medication-folic-acid'], []]);
+    expect(segments[0].text).toBe('Folic acid is recommended. ');
+    expect(citedIds).toEqual(['medication-folic-acid']);
+  });
+
+  it('keeps decimals inside one sentence', () => {
+    const { segments } = parseCitations(
+      'Take 2.5 mg at night, or 0.4 mg of folic acid daily. [[medication-folic-acid]] Ask first.',
+      isKnownId
+    );
+    expect(segments).toHaveLength(2);
+    expect(segments[0].text).toBe('Take 2.5 mg at night, or 0.4 mg of folic acid daily. ');
+    expect(segments[0].citations).toEqual(['medication-folic-acid']);
+  });
+
+  it('splits on a citation written straight after the period', () => {
+    const { segments } = parseCitations('Avoid it after 20 weeks.[[medication-ibuprofen]] Paracetamol is fine.', isKnownId);
+    expect(segments.map(segment => segment.citations)).toEqual([['medication-ibuprofen'], []]);
+  });
+
+  it('splits on line breaks and keeps a last sentence without a period', () => {
+    const { segments } = parseCitations('First point\nSecond point', isKnownId);
+    expect(segments.map(segment => segment.text.trim())).toEqual(['First point', 'Second point']);
+  });
+
+  it('splits Hindi sentences on the danda', () => {
+    const { segments } = parseCitations(
+      'फोलिक एसिड रोज़ लें। [[medication-folic-acid]] आराम भी ज़रूरी है। पानी खूब पिएं॥',
+      isKnownId
+    );
+    expect(segments.map(segment => segment.citations)).toEqual([['medication-folic-acid'], [], []]);
+    expect(segments[1].text).toBe('आराम भी ज़रूरी है। ');
+  });
+
+  it('drops ids that are not in the knowledge base', () => {
+    const { segments, citedIds } = parseCitations('Made up. [[medication-unicorn]]', isKnownId);
+    expect(segments[0].citations).toEqual([]);
+    expect(citedIds).toEqual([]);
+  });
+});
+
+describe('stripCitations', () => {
+  it('removes markers and the space left before punctuation', () => {
+    expect(stripCitations('Safe [[medication-folic-acid]].')).toBe('Safe.');
+  });
+});
@@ -0,0 +1,49 @@
+// ==================== TYPES ====================
+export type AnswerSegment = {
+  text: string;
+  // Knowledge base section ids this sentence relies on; empty means the model didn't ground it
+  citations: string[];
+};
+
+export type ParsedAnswer = {
+  segments: AnswerSegment[];
+  citedIds: string[];
+};
+
+// ==================== PARSING ====================
+// The model is asked to cite with markers like [[medication-ibuprofen]] after each grounded sentence
+const CITATION_PATTERN = /\[\[([a-z0-9-]+)\]\]/g;
+
+// A sentence ends at . ! ? (or the Devanagari danda । ॥) only when whitespace, a citation or the end of the text follows, so "2.5 mg" stays whole.
+// A trailing citation stays with the sentence before it: "…safe. [[id]] Next…"
+const SENTENCE_PATTERN = /(?:[^.!?।॥\n]|[.!?।॥](?![.!?।॥\s]|\[\[|$))+(?:[.!?।॥]+|\n|$)(?:\s*\[\[[a-z0-9-]+\]\])*\s*/g;
+
+export const CITATION_INSTRUCTIONS =
+  'Each knowledge base entry below starts with its id in square brackets. After every sentence that relies on an entry, ' +
+  'cite it by writing the id in double square brackets, for example [[medication-ibuprofen]]. ' +
+  'Never cite an id for statements from general knowledge, and never invent ids.';
+
+export const stripCitations = (text: string): string =>
+  text.replace(CITATION_PATTERN, '').replace(/[ \t]+([.,!?;:।॥])/g, '$1').replace(/[ \t]{2,}/g, ' ');
+
+// Splits an answer into sentences and attaches the citations found in each.
+// Citations to unknown ids are dropped so a hallucinated id can't pass as grounded.
+export const parseCitations = (content: string, isKnownId: (id: string) => boolean): ParsedAnswer => {
+  const citedIds = new Set<string>();
+  const segments: AnswerSegment[] = [];
+
+  const sentences = content.match(SENTENCE_PATTERN) || [];
+  sentences.forEach(sentence => {
+    const citations = Array.from(sentence.matchAll(CITATION_PATTERN), match => match[1])
+      .filter((id, i, all) => isKnownId(id) && all.indexOf(id) === i);
+    citations.forEach(id => citedIds.add(id));
+    const text = stripCitations(sentence);
+    if (text.trim()) {
+      segments.push({ text, citations });
+    } else if (text && segments.length > 0) {
+      segments[segments.length - 1].text += text;
+    }
+  });
+
+  return { segments, citedIds: Array.from(citedIds) };
+};
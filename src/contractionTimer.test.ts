@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Contraction,
+  assessContractions,
+  endContraction,
+  getActiveContraction,
+  isFiveOneOne,
+  isPretermPattern,
+  startContraction,
+  summarizeContractions
+} from './contractionTimer';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2026, 5, 1, 8, 0);
+
+// Contractions every `everyMin` minutes from T0 for `forMin` minutes, each lasting `lastingSec`
+const series = (everyMin: number, forMin: number, lastingSec: number, from: number = T0): Contraction[] =>
+  Array.from({ length: Math.floor(forMin / everyMin) + 1 }, (_, i) => {
+    const start = from + i * everyMin * MINUTE;
+    return { id: `c${i}`, start, end: start + lastingSec * 1000 };
+  });
+
+const endOf = (contractions: Contraction[]) => contractions[contractions.length - 1].end as number;
+
+describe('isFiveOneOne', () => {
+  it('matches 5 minutes apart, a minute long, for an hour', () => {
+    const contractions = series(5, 60, 65);
+    expect(isFiveOneOne(contractions, endOf(contractions))).toBe(true);
+  });
+
+  it.each([
+    ['not yet an hour', series(5, 40, 65)],
+    ['too far apart', series(7, 63, 65)],
+    ['too short', series(5, 60, 40)]
+  ])('does not match when %s', (_, contractions) => {
+    expect(isFiveOneOne(contractions, endOf(contractions))).toBe(false);
+  });
+
+  it('ignores contractions from before a long break', () => {
+    const earlier = series(5, 30, 65, T0 - 3 * 60 * MINUTE);
+    const recent = series(5, 30, 65);
+    const all = [...earlier, ...recent].map((contraction, i) => ({ ...contraction, id: `c${i}` }));
+    expect(isFiveOneOne(all, endOf(recent))).toBe(false);
+  });
+});
+
+describe('isPretermPattern', () => {
+  it('flags 4 contractions within 20 minutes', () => {
+    const contractions = series(6, 18, 45);
+    expect(isPretermPattern(contractions, endOf(contractions))).toBe(true);
+  });
+
+  it('flags 8 within an hour', () => {
+    const contractions = series(8, 56, 45);
+    expect(isPretermPattern(contractions, endOf(contractions))).toBe(true);
+  });
+
+  it('leaves a few scattered contractions alone', () => {
+    const contractions = series(15, 30, 45);
+    expect(isPretermPattern(contractions, endOf(contractions))).toBe(false);
+  });
+});
+
+describe('assessContractions', () => {
+  it('treats a regular pattern before 37 weeks as an emergency', () => {
+    const contractions = series(6, 18, 45);
+    expect(assessContractions(contractions, 32, endOf(contractions), 'en')?.level).toBe('emergency');
+  });
+
+  it('only says to go in at term once 5-1-1 is met', () => {
+    const early = series(6, 18, 45);
+    expect(assessContractions(early, 38, endOf(early), 'en')).toBeNull();
+    const active = series(5, 60, 65);
+    expect(assessContractions(active, 38, endOf(active), 'en')?.level).toBe('labor');
+  });
+});
+
+describe('timing', () => {
+  it('tracks the running contraction and summarizes the last hour', () => {
+    const running = startContraction(T0);
+    expect(getActiveContraction([running])).toBe(running);
+    const ended = endContraction(running, T0 + 50 * 1000);
+    expect(getActiveContraction([ended])).toBeUndefined();
+    expect(endContraction(ended, T0 + 99 * 1000)).toBe(ended);
+
+    const contractions = series(5, 20, 60);
+    const summary = summarizeContractions(contractions, endOf(contractions));
+    expect(summary).toEqual({ count: 5, averageDurationMs: 60 * 1000, averageIntervalMs: 5 * MINUTE });
+  });
+});
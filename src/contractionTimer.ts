@@ -0,0 +1,150 @@
+import { createId } from './conversations';
+import { Locale, translate } from './i18n';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type Contraction = {
+  id: string;
+  start: number;
+  // Unset while the contraction is still going
+  end?: number;
+};
+
+export type ContractionTiming = {
+  contraction: Contraction;
+  durationMs: number | null;
+  // Start to start, from the previous contraction
+  intervalMs: number | null;
+};
+
+export type ContractionSummary = {
+  count: number;
+  averageDurationMs: number | null;
+  averageIntervalMs: number | null;
+};
+
+export type ContractionAlert = {
+  level: 'labor' | 'emergency';
+  title: string;
+  message: string;
+  // The knowledge base sign the Emergency tab should highlight
+  sign?: string;
+};
+
+// ==================== CONSTANTS ====================
+const MINUTE_MS = 60 * 1000;
+// The summary covers the last hour
+const SUMMARY_WINDOW_MS = 60 * MINUTE_MS;
+// A gap this long starts a new episode; older contractions don't count towards a pattern
+const EPISODE_GAP_MS = 60 * MINUTE_MS;
+// 5-1-1: contractions 5 minutes apart, lasting 1 minute, for 1 hour
+const FIVE_ONE_ONE = { intervalMs: 5 * MINUTE_MS, durationMs: MINUTE_MS, spanMs: 60 * MINUTE_MS };
+// Possible preterm labor: 4 contractions in 20 minutes or 8 in an hour (ACOG)
+const PRETERM_PATTERNS = [
+  { count: 4, windowMs: 20 * MINUTE_MS },
+  { count: 8, windowMs: 60 * MINUTE_MS }
+];
+export const TERM_WEEK = 37;
+
+export const PRETERM_CONTRACTIONS_SIGN = 'Regular contractions before 37 weeks';
+
+// ==================== TIMING ====================
+export const startContraction = (at: number): Contraction => ({ id: createId(), start: at });
+
+export const endContraction = (contraction: Contraction, at: number): Contraction =>
+  contraction.end !== undefined ? contraction : { ...contraction, end: at };
+
+export const getActiveContraction = (contractions: Contraction[]): Contraction | undefined =>
+  contractions.find(contraction => contraction.end === undefined);
+
+// Newest first, each with its duration and the interval since the one before
+export const timeContractions = (contractions: Contraction[]): ContractionTiming[] => {
+  const sorted = [...contractions].sort((a, b) => a.start - b.start);
+  return sorted
+    .map((contraction, i) => ({
+      contraction,
+      durationMs: contraction.end !== undefined ? contraction.end - contraction.start : null,
+      intervalMs: i > 0 ? contraction.start - sorted[i - 1].start : null
+    }))
+    .reverse();
+};
+
+// The latest run of contractions with no gap longer than EPISODE_GAP_MS, oldest first
+const currentEpisode = (contractions: Contraction[], now: number): Contraction[] => {
+  const sorted = [...contractions].sort((a, b) => a.start - b.start);
+  const episode: Contraction[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const next = episode[0];
+    const gapFrom = next ? next.start : now;
+    if (gapFrom - sorted[i].start > EPISODE_GAP_MS) break;
+    episode.unshift(sorted[i]);
+  }
+  return episode;
+};
+
+const average = (values: number[]): number | null =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export const summarizeContractions = (contractions: Contraction[], now: number): ContractionSummary => {
+  const timings = timeContractions(contractions).filter(timing => now - timing.contraction.start <= SUMMARY_WINDOW_MS);
+  return {
+    count: timings.length,
+    averageDurationMs: average(timings.map(timing => timing.durationMs).filter((ms): ms is number => ms !== null)),
+    // The oldest contraction's interval reaches back outside the window
+    averageIntervalMs: average(timings.slice(0, -1).map(timing => timing.intervalMs).filter((ms): ms is number => ms !== null))
+  };
+};
+
+// ==================== PATTERNS ====================
+// Every interval over the last hour at most 5 minutes, and contractions averaging a minute or more
+export const isFiveOneOne = (contractions: Contraction[], now: number): boolean => {
+  const finished = currentEpisode(contractions, now).filter(contraction => contraction.end !== undefined);
+  const last = finished[finished.length - 1];
+  if (!last) return false;
+  const window = finished.filter(contraction => last.start - contraction.start <= FIVE_ONE_ONE.spanMs);
+  if (window.length < 2 || last.start - window[0].start < FIVE_ONE_ONE.spanMs - FIVE_ONE_ONE.intervalMs) return false;
+
+  const intervals = window.slice(1).map((contraction, i) => contraction.start - window[i].start);
+  const durations = window.map(contraction => (contraction.end as number) - contraction.start);
+  return intervals.every(interval => interval <= FIVE_ONE_ONE.intervalMs) &&
+    (average(durations) ?? 0) >= FIVE_ONE_ONE.durationMs;
+};
+
+// 4 starts within any 20 minutes, or 8 within any hour
+export const isPretermPattern = (contractions: Contraction[], now: number): boolean => {
+  const starts = currentEpisode(contractions, now).map(contraction => contraction.start);
+  return PRETERM_PATTERNS.some(({ count, windowMs }) =>
+    starts.some((start, i) => i + count - 1 < starts.length && starts[i + count - 1] - start <= windowMs)
+  );
+};
+
+// Before 37 weeks any regular pattern is an emergency; from 37 weeks 5-1-1 means it's time to go in
+export const assessContractions = (contractions: Contraction[], week: number, now: number, locale: Locale): ContractionAlert | null => {
+  if (week < TERM_WEEK) {
+    if (!isPretermPattern(contractions, now)) return null;
+    return {
+      level: 'emergency',
+      title: translate(locale, 'contractions.alert.preterm.title'),
+      message: translate(locale, 'contractions.alert.preterm.message'),
+      sign: PRETERM_CONTRACTIONS_SIGN
+    };
+  }
+  if (!isFiveOneOne(contractions, now)) return null;
+  return {
+    level: 'labor',
+    title: translate(locale, 'contractions.alert.labor.title'),
+    message: translate(locale, 'contractions.alert.labor.message')
+  };
+};
+
+// ==================== PERSISTENCE ====================
+const CONTRACTIONS_STORAGE_KEY = 'pregnancyContractions';
+// Enough for a long early labor
+const MAX_CONTRACTIONS = 300;
+
+const isContraction = (value: unknown): value is Contraction => hasFields(value, { id: 'string', start: 'number' });
+
+export const loadContractions = (): Contraction[] => loadJson(CONTRACTIONS_STORAGE_KEY, [], listOf(isContraction));
+
+export const saveContractions = (contractions: Contraction[]) =>
+  saveJson(CONTRACTIONS_STORAGE_KEY, contractions.slice(-MAX_CONTRACTIONS));
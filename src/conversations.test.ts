@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  Conversation,
+  Message,
+  WELCOME_MESSAGE,
+  createConversation,
+  loadConversations,
+  saveConversations,
+  selectHistory,
+  titleFromMessages,
+  toChatMessages
+} from './conversations';
+import { serverConfig } from '../api/_shared';
+
+const message = (id: string, role: Message['role'], content: string): Message => ({ id, role, content });
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+describe('selectHistory', () => {
+  // 40 characters, about 10 tokens each
+  const turn = (id: string, role: Message['role']) => message(id, role, 'x'.repeat(40));
+
+  it('keeps the most recent turns that fit and overflows the rest', () => {
+    const history = ['a', 'b', 'c', 'd', 'e'].map((id, i) => turn(id, i % 2 === 0 ? 'user' : 'assistant'));
+    const { recent, overflow } = selectHistory(history, 30);
+    expect(recent.map(msg => msg.id)).toEqual(['c', 'd', 'e']);
+    expect(overflow.map(msg => msg.id)).toEqual(['a', 'b']);
+  });
+
+  it('leaves out the welcome message, errors and answers still streaming', () => {
+    const history = [
+      WELCOME_MESSAGE,
+      turn('question', 'user'),
+      { ...turn('failed', 'assistant'), source: 'error' as const },
+      { ...turn('partial', 'assistant'), streaming: true }
+    ];
+    expect(selectHistory(history).recent.map(msg => msg.id)).toEqual(['question']);
+  });
+
+  it('keeps a long Devanagari history well under the proxy body limit', () => {
+    const sentence = 'मुझे सुबह बहुत मतली होती है और खाना खाने का मन नहीं करता। ';
+    const history = Array.from({ length: 40 }, (_, i) =>
+      message(`m${i}`, i % 2 === 0 ? 'user' : 'assistant', sentence.repeat(10)));
+    const { recent, overflow } = selectHistory(history);
+
+    expect(overflow.length).toBeGreaterThan(0);
+    // Leaves most of the body for the system prompt, knowledge base context and the question
+    expect(byteLength(JSON.stringify(toChatMessages(recent)))).toBeLessThan(serverConfig.maxBodyBytes / 4);
+  });
+});
+
+describe('titleFromMessages', () => {
+  it('uses the first question', () => {
+    const messages = [WELCOME_MESSAGE, message('1', 'user', ' Is paracetamol safe? '), message('2', 'user', 'And ibuprofen?')];
+    expect(titleFromMessages(messages)).toBe('Is paracetamol safe?');
+  });
+
+  it('shortens long questions and stays empty without one', () => {
+    const title = titleFromMessages([message('1', 'user', 'How much folic acid should I take in the first trimester?')]);
+    expect(title).toHaveLength(40);
+    expect(title.endsWith('…')).toBe(true);
+    expect(titleFromMessages([WELCOME_MESSAGE])).toBe('');
+  });
+});
+
+describe('persistence', () => {
+  const store = new Map<string, string>();
+
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const conversation = (id: string, updatedAt: number): Conversation => ({ ...createConversation(), id, updatedAt });
+
+  it('saves the newest 50 conversations, newest first', () => {
+    saveConversations(Array.from({ length: 55 }, (_, i) => conversation(`c${i}`, i)));
+    const loaded = loadConversations();
+    expect(loaded).toHaveLength(50);
+    expect(loaded[0].id).toBe('c54');
+    expect(loaded[49].id).toBe('c5');
+  });
+
+  it('drops damaged entries and keeps the rest', () => {
+    store.set('pregnancyConversations', JSON.stringify([conversation('good', 1), { id: 'bad', title: 'No messages' }]));
+    expect(loadConversations().map(c => c.id)).toEqual(['good']);
+  });
+});
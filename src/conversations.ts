@@ -0,0 +1,130 @@
+import { ChatMessage, LLMProvider } from './llmProvider';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type Message = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  source?: 'knowledge-base' | 'ai-general' | 'error' | 'emergency';
+  // Knowledge base section ids the answer cites
+  citations?: string[];
+  // True while tokens are still arriving
+  streaming?: boolean;
+  // Set when the answer was stopped or failed part-way, so the content is incomplete
+  interrupted?: boolean;
+  // Emergency signs spotted in the question; the reply was answered locally instead of by the model
+  redFlags?: Array<{ sign: string; urgency: string; action: string; matchedText: string }>;
+  // Set once the user chose to ask the model despite the emergency warning
+  askedAnyway?: boolean;
+};
+
+export type Conversation = {
+  id: string;
+  // Empty until the first question; shown as "New conversation" in the chosen language
+  title: string;
+  messages: Message[];
+  // Rolling summary of turns too old to send verbatim
+  summary?: string;
+  // How many history messages (oldest first) the summary already covers
+  summarizedCount?: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// ==================== CONSTANTS ====================
+const CONVERSATIONS_STORAGE_KEY = 'pregnancyConversations';
+const MAX_STORED_CONVERSATIONS = 50;
+const TITLE_MAX_LENGTH = 40;
+// Budget for prior turns; leaves room for the system prompt, knowledge base context and the answer
+export const HISTORY_TOKEN_BUDGET = 1500;
+
+export const WELCOME_MESSAGE: Message = {
+  id: 'welcome',
+  role: 'assistant',
+  content: 'Hello! I\'m your pregnancy assistant powered by OpenAI. Ask me about symptoms, medications, nutrition, or anything pregnancy-related!',
+  source: 'knowledge-base'
+};
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// ==================== PERSISTENCE ====================
+const isConversation = (value: unknown): value is Conversation =>
+  hasFields(value, { id: 'string', title: 'string', messages: 'array', createdAt: 'number', updatedAt: 'number' });
+
+export const loadConversations = (): Conversation[] => loadJson(CONVERSATIONS_STORAGE_KEY, [], listOf(isConversation));
+
+export const saveConversations = (conversations: Conversation[]) => {
+  const newestFirst = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_STORED_CONVERSATIONS);
+  saveJson(CONVERSATIONS_STORAGE_KEY, newestFirst);
+};
+
+export const createConversation = (): Conversation => {
+  const now = Date.now();
+  return { id: createId(), title: '', messages: [WELCOME_MESSAGE], createdAt: now, updatedAt: now };
+};
+
+export const titleFromMessages = (messages: Message[]): string => {
+  const firstQuestion = messages.find(msg => msg.role === 'user')?.content.trim();
+  if (!firstQuestion) return '';
+  return firstQuestion.length > TITLE_MAX_LENGTH ? `${firstQuestion.slice(0, TITLE_MAX_LENGTH - 1)}…` : firstQuestion;
+};
+
+export const searchConversations = (conversations: Conversation[], query: string): Conversation[] => {
+  const needle = query.trim().toLowerCase();
+  const sorted = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt);
+  if (!needle) return sorted;
+  return sorted.filter(conversation =>
+    conversation.title.toLowerCase().includes(needle) ||
+    conversation.messages.some(msg => msg.content.toLowerCase().includes(needle))
+  );
+};
+
+// ==================== HISTORY ====================
+// Rough count from the UTF-8 size, about four bytes per token for English. Devanagari takes three bytes a
+// character, so Hindi and Marathi turns cost more here, as they do against the proxy's request size limit.
+export const estimateTokens = (text: string): number => Math.ceil(new TextEncoder().encode(text).length / 4);
+
+// Only completed user/assistant turns are worth sending back to the model
+const isHistoryMessage = (msg: Message) =>
+  msg.id !== WELCOME_MESSAGE.id && msg.source !== 'error' && !msg.streaming && msg.content.trim().length > 0;
+
+// Splits prior messages into the newest turns that fit the budget and the older overflow
+export const selectHistory = (
+  messages: Message[],
+  tokenBudget: number = HISTORY_TOKEN_BUDGET
+): { recent: Message[]; overflow: Message[] } => {
+  const eligible = messages.filter(isHistoryMessage);
+  let used = 0;
+  let start = eligible.length;
+  while (start > 0) {
+    const cost = estimateTokens(eligible[start - 1].content);
+    if (used + cost > tokenBudget) break;
+    used += cost;
+    start--;
+  }
+  return { recent: eligible.slice(start), overflow: eligible.slice(0, start) };
+};
+
+export const toChatMessages = (messages: Message[]): ChatMessage[] =>
+  messages.map(msg => ({ role: msg.role, content: msg.content }));
+
+// Folds older turns into the running summary so follow-ups keep their context
+export const summarizeHistory = async (
+  llm: LLMProvider,
+  previousSummary: string | undefined,
+  messages: Message[]
+): Promise<string> => {
+  const transcript = messages.map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`).join('\n');
+  return llm.chat([
+    {
+      role: 'system',
+      content: 'Summarize this pregnancy-care conversation in at most 5 short bullet points. Keep facts about the user ' +
+        '(gestational week, symptoms, medications, concerns) and any advice given. Do not add new advice.'
+    },
+    {
+      role: 'user',
+      content: `${previousSummary ? `Earlier summary:\n${previousSummary}\n\n` : ''}Conversation:\n${transcript}`
+    }
+  ], { temperature: 0, maxTokens: 200 });
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { IndexableSection, MemoryEmbeddingStore, buildEmbeddingIndex } from './embeddingIndex';
+import { LLMProvider, PROVIDER_PRESETS } from './llmProvider';
+
+// Embeds each text as its length, and records what it was asked to embed
+const fakeEmbedder = () => {
+  const calls: string[][] = [];
+  const llm: LLMProvider = {
+    config: PROVIDER_PRESETS.proxy,
+    chat: async () => '',
+    streamChat: async function* () {},
+    embed: async inputs => {
+      calls.push(inputs);
+      return inputs.map(input => [input.length]);
+    }
+  };
+  return { llm, calls };
+};
+
+const sections = (contents: Record<string, string>): IndexableSection[] =>
+  Object.entries(contents).map(([id, content]) => ({ id, content }));
+
+describe('buildEmbeddingIndex', () => {
+  it('reuses stored vectors, re-embeds changed sections and prunes removed ones', async () => {
+    const store = new MemoryEmbeddingStore();
+    const { llm, calls } = fakeEmbedder();
+
+    const first = await buildEmbeddingIndex(sections({ a: 'Folic acid', b: 'Iron', c: 'Calcium' }), llm, store);
+    expect(first).toEqual({ reused: 0, embedded: 3, failed: 0 });
+    expect(calls).toHaveLength(1);
+
+    const rebuilt = sections({ a: 'Folic acid', b: 'Iron and vitamin C' });
+    const second = await buildEmbeddingIndex(rebuilt, llm, store);
+    expect(second).toEqual({ reused: 1, embedded: 1, failed: 0 });
+    expect(calls).toHaveLength(2);
+    expect(calls[1]).toEqual(['Iron and vitamin C']);
+    expect(rebuilt.map(section => section.embedding)).toEqual([[10], [18]]);
+
+    // Only the current sections' vectors are left
+    expect((await store.getAll(llm.config.embeddingModel)).size).toBe(2);
+  });
+});
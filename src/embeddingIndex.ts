@@ -0,0 +1,188 @@
+import { LLMProvider } from './llmProvider';
+
+// ==================== TYPES ====================
+export type IndexableSection = {
+  id: string;
+  content: string;
+  contentHash?: string;
+  embedding?: number[];
+};
+
+type StoredEmbedding = {
+  key: string;
+  model: string;
+  contentHash: string;
+  embedding: number[];
+  updatedAt: number;
+};
+
+export interface EmbeddingStore {
+  getAll(model: string): Promise<Map<string, number[]>>;
+  putMany(model: string, entries: Array<{ contentHash: string; embedding: number[] }>): Promise<void>;
+  prune(model: string, keepHashes: Set<string>): Promise<void>;
+}
+
+export type IndexBuildResult = {
+  reused: number;
+  embedded: number;
+  failed: number;
+};
+
+// ==================== HASHING ====================
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// ==================== STORES ====================
+const DB_NAME = 'pregnancy-tracker';
+const DB_VERSION = 1;
+const STORE_NAME = 'embeddings';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export class IndexedDbEmbeddingStore implements EmbeddingStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('model', 'model');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  async getAll(model: string): Promise<Map<string, number[]>> {
+    const db = await this.open();
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('model');
+    const rows = await requestToPromise(index.getAll(model)) as StoredEmbedding[];
+    return new Map(rows.map(row => [row.contentHash, row.embedding]));
+  }
+
+  async putMany(model: string, entries: Array<{ contentHash: string; embedding: number[] }>): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    entries.forEach(({ contentHash, embedding }) => {
+      const row: StoredEmbedding = { key: `${model}:${contentHash}`, model, contentHash, embedding, updatedAt: Date.now() };
+      store.put(row);
+    });
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async prune(model: string, keepHashes: Set<string>): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const rows = await requestToPromise(store.index('model').getAll(model)) as StoredEmbedding[];
+    rows.filter(row => !keepHashes.has(row.contentHash)).forEach(row => store.delete(row.key));
+  }
+}
+
+// Used when IndexedDB is unavailable (private browsing in some browsers); lasts for the session only
+export class MemoryEmbeddingStore implements EmbeddingStore {
+  private entries = new Map<string, Map<string, number[]>>();
+
+  async getAll(model: string): Promise<Map<string, number[]>> {
+    return new Map(this.entries.get(model) || []);
+  }
+
+  async putMany(model: string, entries: Array<{ contentHash: string; embedding: number[] }>): Promise<void> {
+    const forModel = this.entries.get(model) || new Map<string, number[]>();
+    entries.forEach(({ contentHash, embedding }) => forModel.set(contentHash, embedding));
+    this.entries.set(model, forModel);
+  }
+
+  async prune(model: string, keepHashes: Set<string>): Promise<void> {
+    const forModel = this.entries.get(model);
+    forModel?.forEach((_, hash) => {
+      if (!keepHashes.has(hash)) forModel.delete(hash);
+    });
+  }
+}
+
+export const createEmbeddingStore = (): EmbeddingStore =>
+  typeof indexedDB !== 'undefined' ? new IndexedDbEmbeddingStore() : new MemoryEmbeddingStore();
+
+// ==================== EMBEDDING ====================
+const EMBED_BATCH_SIZE = 16;
+const EMBED_MAX_ATTEMPTS = 3;
+const EMBED_RETRY_BASE_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const embedWithRetry = async (llm: LLMProvider, inputs: string[]): Promise<number[][]> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await llm.embed(inputs);
+    } catch (error) {
+      if (attempt >= EMBED_MAX_ATTEMPTS) throw error;
+      // Exponential backoff: 0.5s, 1s, ...
+      await sleep(EMBED_RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+};
+
+// Attaches embeddings to sections, reusing stored ones and only embedding sections whose content changed.
+// A failed batch leaves just its own sections unembedded; the rest of the index stays usable.
+export const buildEmbeddingIndex = async (
+  sections: IndexableSection[],
+  llm: LLMProvider,
+  store: EmbeddingStore
+): Promise<IndexBuildResult> => {
+  const model = llm.config.embeddingModel;
+  await Promise.all(sections.map(async section => {
+    section.contentHash = await hashContent(section.content);
+  }));
+
+  const cached = await store.getAll(model).catch(error => {
+    console.error('Failed to read embedding cache:', error);
+    return new Map<string, number[]>();
+  });
+
+  const missing: IndexableSection[] = [];
+  sections.forEach(section => {
+    const embedding = cached.get(section.contentHash!);
+    if (embedding) {
+      section.embedding = embedding;
+    } else {
+      missing.push(section);
+    }
+  });
+
+  let embedded = 0;
+  let failed = 0;
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    try {
+      const embeddings = await embedWithRetry(llm, batch.map(section => section.content));
+      batch.forEach((section, j) => {
+        section.embedding = embeddings[j];
+      });
+      await store.putMany(model, batch.map(section => ({ contentHash: section.contentHash!, embedding: section.embedding! })))
+        .catch(error => console.error('Failed to write embedding cache:', error));
+      embedded += batch.length;
+    } catch (error) {
+      console.error('Failed to embed batch:', error);
+      failed += batch.length;
+    }
+  }
+
+  // Drop embeddings for sections that no longer exist so the cache doesn't grow forever
+  await store.prune(model, new Set(sections.map(section => section.contentHash!)))
+    .catch(error => console.error('Failed to prune embedding cache:', error));
+
+  return { reused: sections.length - missing.length, embedded, failed };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { FoodDiaryEntry, buildNutrientProgress, dailyTotals, findUpperLimitWarnings, formatNutrientAmount, parseNutrientAmount, prescribedTotals } from './foodDiary';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+const { dailyMacros, upperLimits = [] } = loadTestKnowledgeBase().nutritionalRequirements;
+const DATE = '2026-03-01';
+
+const entry = (foodId: string, servings: number = 1, date: string = DATE): FoodDiaryEntry =>
+  ({ id: `${foodId}-${servings}`, date, meal: 'breakfast', foodId, servings, createdAt: 0 });
+
+const statusOf = (entries: FoodDiaryEntry[], nutrient: string) =>
+  buildNutrientProgress(dailyMacros, upperLimits, dailyTotals(entries, DATE), prescribedTotals(entries, DATE))
+    .find(item => item.nutrient === nutrient)?.status;
+
+describe('parseNutrientAmount', () => {
+  it.each([
+    ['600-800', { min: 600, max: 800 }],
+    ['88', { min: 88, max: 88 }],
+    ['1,000', { min: 1000, max: 1000 }],
+    ['≥ 600', { min: 600, max: 600 }],
+    ['none', null]
+  ])('parses "%s"', (amount, expected) => {
+    expect(parseNutrientAmount(amount)).toEqual(expected);
+  });
+});
+
+describe('formatNutrientAmount', () => {
+  it('drops trailing zeros and rounds large amounts', () => {
+    expect(formatNutrientAmount(88, 'en')).toBe('88');
+    expect(formatNutrientAmount(27.25, 'en')).toBe('27.3');
+    expect(formatNutrientAmount(1234.4, 'mr')).toBe('१,२३४');
+  });
+});
+
+describe('dailyTotals', () => {
+  it('adds servings for the chosen day only', () => {
+    const totals = dailyTotals([entry('dal', 2), entry('dal', 1, '2026-03-02')], DATE);
+    expect(totals.Protein).toBe(36);
+  });
+});
+
+describe('upper limits', () => {
+  it("doesn't call the prescribed IFA tablet an overdose", () => {
+    expect(statusOf([entry('ifa')], 'Iron')).toBe('prescribed');
+    expect(statusOf([entry('ifa'), entry('spinach'), entry('dal')], 'Iron')).toBe('prescribed');
+  });
+
+  it('still warns when the rest of the day is over the limit on its own', () => {
+    expect(statusOf([entry('ifa'), entry('chicken-liver', 4)], 'Iron')).toBe('exceeds');
+  });
+
+  it('warns about non-prescribed supplements over the limit', () => {
+    expect(statusOf([entry('prenatal', 2)], 'Iron')).toBe('exceeds');
+  });
+
+  it('warns about limits with no daily target, like preformed vitamin A', () => {
+    const entries = [entry('chicken-liver')];
+    const warnings = findUpperLimitWarnings(dailyMacros, upperLimits, dailyTotals(entries, DATE), prescribedTotals(entries, DATE));
+    expect(warnings.map(warning => warning.limit.nutrient)).toEqual(['Preformed vitamin A']);
+  });
+});
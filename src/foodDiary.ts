@@ -0,0 +1,142 @@
+import { Nutrient, NutrientUpperLimit } from './knowledgeBaseSchema';
+import { NutrientAmounts, NutrientFood, findNutrientFood } from './nutrientDatabase';
+import { createId } from './conversations';
+import { Locale, formatNumber } from './i18n';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type Meal = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export type FoodDiaryEntry = {
+  id: string;
+  // Local calendar date (YYYY-MM-DD)
+  date: string;
+  meal: Meal;
+  // Id of a food in the local nutrient database
+  foodId: string;
+  servings: number;
+  createdAt: number;
+};
+
+export type NutrientRange = {
+  min: number;
+  max: number;
+};
+
+// below the target, within the recommended range, above the range, over the upper limit,
+// or over it only because of a prescribed supplement
+export type NutrientStatus = 'below' | 'met' | 'above' | 'exceeds' | 'prescribed';
+
+export type NutrientProgress = {
+  nutrient: string;
+  unit: string;
+  total: number;
+  range: NutrientRange | null;
+  // Share of the target (the range minimum) reached, capped at 100 for the bar
+  percent: number;
+  status: NutrientStatus;
+  upperLimit?: NutrientUpperLimit;
+};
+
+export const MEALS: Meal[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// ==================== TARGETS ====================
+// "600-800" -> 600-800, "88" -> 88-88; also copes with "1,000", "≥ 600" and en dashes
+export const parseNutrientAmount = (amount: string): NutrientRange | null => {
+  const numbers = amount.replace(/,/g, '').match(/\d+(?:\.\d+)?/g)?.map(parseFloat);
+  if (!numbers || numbers.length === 0) return null;
+  return { min: numbers[0], max: numbers[numbers.length - 1] };
+};
+
+const sameNutrient = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// ==================== TOTALS ====================
+export const dailyTotals = (
+  entries: FoodDiaryEntry[],
+  date: string,
+  include: (food: NutrientFood) => boolean = () => true
+): NutrientAmounts => {
+  const totals: NutrientAmounts = {};
+  entries
+    .filter(entry => entry.date === date)
+    .forEach(entry => {
+      const food = findNutrientFood(entry.foodId);
+      if (!food || !include(food)) return;
+      Object.entries(food.nutrients).forEach(([nutrient, amount]) => {
+        totals[nutrient] = (totals[nutrient] || 0) + amount * entry.servings;
+      });
+    });
+  return totals;
+};
+
+// The part of a day's totals that comes from prescribed supplements
+export const prescribedTotals = (entries: FoodDiaryEntry[], date: string): NutrientAmounts =>
+  dailyTotals(entries, date, food => Boolean(food.prescribed));
+
+const totalFor = (totals: NutrientAmounts, nutrient: string): number =>
+  Object.entries(totals).find(([name]) => sameNutrient(name, nutrient))?.[1] || 0;
+
+// The upper limit is for everyday intake; a prescribed dose on top of it is the provider's call, not an overdose
+const overLimit = (limit: NutrientUpperLimit | undefined, total: number, prescribed: number): NutrientStatus | null =>
+  !limit || total <= limit.amount ? null :
+  total - prescribed > limit.amount ? 'exceeds' :
+  'prescribed';
+
+export const buildNutrientProgress = (
+  dailyMacros: Nutrient[],
+  upperLimits: NutrientUpperLimit[],
+  totals: NutrientAmounts,
+  prescribed: NutrientAmounts = {}
+): NutrientProgress[] =>
+  dailyMacros.map(target => {
+    const total = totalFor(totals, target.nutrient);
+    const range = parseNutrientAmount(target.amount);
+    const upperLimit = upperLimits.find(limit => sameNutrient(limit.nutrient, target.nutrient));
+    const status: NutrientStatus =
+      overLimit(upperLimit, total, totalFor(prescribed, target.nutrient)) ?? (
+        range && total < range.min ? 'below' :
+        range && range.max > range.min && total > range.max ? 'above' :
+        'met'
+      );
+    return {
+      nutrient: target.nutrient,
+      unit: target.unit,
+      total,
+      range,
+      percent: range && range.min > 0 ? Math.min(100, (total / range.min) * 100) : 0,
+      status,
+      upperLimit
+    };
+  });
+
+// Upper limits with no daily target of their own, like preformed vitamin A, still need a warning
+export const findUpperLimitWarnings = (
+  dailyMacros: Nutrient[],
+  upperLimits: NutrientUpperLimit[],
+  totals: NutrientAmounts,
+  prescribed: NutrientAmounts = {}
+): Array<{ limit: NutrientUpperLimit; total: number }> =>
+  upperLimits
+    .filter(limit => !dailyMacros.some(target => sameNutrient(target.nutrient, limit.nutrient)))
+    .map(limit => ({ limit, total: totalFor(totals, limit.nutrient) }))
+    .filter(({ limit, total }) => overLimit(limit, total, totalFor(prescribed, limit.nutrient)) === 'exceeds');
+
+// Drops trailing zeros so 88.0 gm reads as 88 gm
+export const formatNutrientAmount = (value: number, locale: Locale): string =>
+  formatNumber(value, locale, { maximumFractionDigits: value >= 100 ? 0 : 1 });
+
+// ==================== PERSISTENCE ====================
+const FOOD_DIARY_STORAGE_KEY = 'pregnancyFoodDiary';
+
+const isFoodDiaryEntry = (value: unknown): value is FoodDiaryEntry =>
+  hasFields(value, { id: 'string', date: 'string', meal: 'string', foodId: 'string', servings: 'number', createdAt: 'number' });
+
+export const loadFoodDiary = (): FoodDiaryEntry[] => loadJson(FOOD_DIARY_STORAGE_KEY, [], listOf(isFoodDiaryEntry));
+
+export const saveFoodDiary = (entries: FoodDiaryEntry[]) => saveJson(FOOD_DIARY_STORAGE_KEY, entries);
+
+export const createFoodDiaryEntry = (fields: Omit<FoodDiaryEntry, 'id' | 'createdAt'>): FoodDiaryEntry => ({
+  ...fields,
+  id: createId(),
+  createdAt: Date.now()
+});
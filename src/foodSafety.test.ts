@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { FoodResolver, describeFoodLimit, normalizeFoodName } from './foodSafety';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+const resolver = new FoodResolver(loadTestKnowledgeBase().foodSafety.foods || []);
+
+const topMatch = (query: string) => resolver.lookup(query).matches[0];
+
+describe('FoodResolver.lookup', () => {
+  it.each([
+    ['Dahi', 'Curd', 'safe'],
+    ['curd', 'Curd', 'safe'],
+    ['home-made yogurt', 'Curd', 'safe'],
+    ['curd set from raw milk', 'Curd set from raw milk', 'avoid'],
+    ['kachche doodh ka dahi', 'Curd set from raw milk', 'avoid'],
+    ['Surmai', 'Surmai', 'avoid'],
+    ['सुरमई', 'Surmai', 'avoid'],
+    ['pomfret', 'Pamplet', 'avoid'],
+    ['झींगा', 'Shrimp', 'safe'],
+    ['कच्ची पपई', 'Unripe papaya', 'avoid']
+  ])('rates "%s" as %s (%s)', (query, name, verdict) => {
+    const match = topMatch(query);
+    expect(match.food.name).toBe(name);
+    expect(match.food.verdict).toBe(verdict);
+    expect(match.fuzzy).toBe(false);
+  });
+
+  it('keeps the raw-milk caveat on curd', () => {
+    expect(topMatch('dahi').food.preparation?.join(' ').toLowerCase()).toContain('raw milk');
+  });
+
+  it('finds a misspelled name inside a question', () => {
+    const match = topMatch('is surmae safe');
+    expect(match.food.name).toBe('Surmai');
+    expect(match.fuzzy).toBe(true);
+  });
+
+  it('lists a whole category, riskiest first', () => {
+    const lookup = resolver.lookup('fish');
+    expect(lookup.category).toBe('Seafood');
+    expect(lookup.matches[0].food.verdict).toBe('avoid');
+    expect(lookup.matches[lookup.matches.length - 1].food.verdict).toBe('safe');
+  });
+
+  it('lists a category by its translated name', () => {
+    expect(resolver.lookup('डेयरी').category).toBe('Dairy');
+  });
+
+  it('suggests names only when nothing matched', () => {
+    expect(resolver.lookup('zzzz').matches).toEqual([]);
+    expect(resolver.lookup('').suggestions).toEqual([]);
+  });
+});
+
+describe('describeFoodLimit', () => {
+  it('words the limit in the chosen language', () => {
+    const { limit } = topMatch('coffee').food;
+    expect(limit && describeFoodLimit(limit, 'en')).toMatch(/^Up to 200 mg caffeine per day/);
+    expect(limit && describeFoodLimit(limit, 'hi')).toMatch(/^हर दिन 200 mg कैफ़ीन तक/);
+  });
+});
+
+describe('normalizeFoodName', () => {
+  it('keeps Devanagari letters and vowel signs', () => {
+    expect(normalizeFoodName('सुरमई!')).toBe('सुरमई');
+    expect(normalizeFoodName('Home-made  Yogurt')).toBe('home made yogurt');
+  });
+});
@@ -0,0 +1,139 @@
+import { FoodItem, FoodLimit, FoodVerdict } from './knowledgeBaseSchema';
+import { Locale, MessageKey, localize, translate } from './i18n';
+import { NameResolver } from './nameResolver';
+
+// ==================== TYPES ====================
+export type FoodMatch = {
+  food: FoodItem;
+  // The name or alias that matched, with its language when it came from an alias
+  matchedName: string;
+  language?: string;
+  fuzzy: boolean;
+};
+
+export type FoodLookup = {
+  query: string;
+  matches: FoodMatch[];
+  // Set when the query named a whole category, e.g. "seafood" or "dairy"
+  category?: string;
+  suggestions: string[];
+};
+
+type FoodTarget = {
+  food: FoodItem;
+  language?: string;
+};
+
+export const FOOD_VERDICT_LABELS: Record<FoodVerdict, MessageKey> = {
+  safe: 'food.verdict.safe',
+  limit: 'food.verdict.limit',
+  avoid: 'food.verdict.avoid'
+};
+
+const VERDICT_ORDER: Record<FoodVerdict, number> = { avoid: 0, limit: 1, safe: 2 };
+
+const LIMIT_PERIODS: Record<FoodLimit['per'], MessageKey> = {
+  day: 'food.per.day',
+  week: 'food.per.week'
+};
+
+// ==================== NORMALIZING ====================
+// Keeps letters and vowel signs from any script so Devanagari aliases like "सुरमई" match too
+export const normalizeFoodName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean)
+    .join(' ');
+
+// Words people use for a category that aren't its name
+const CATEGORY_SYNONYMS: Record<string, string> = {
+  fish: 'Seafood',
+  'sea food': 'Seafood',
+  milk: 'Dairy',
+  cheese: 'Dairy',
+  meat: 'Meat and eggs',
+  fruit: 'Fruit and vegetables',
+  vegetables: 'Fruit and vegetables'
+};
+
+const translatedNames = (food: FoodItem, field: 'name' | 'category'): string[] =>
+  Object.values(food.translations || {}).flatMap(translated => translated[field] || []);
+
+// ==================== RESOLVER ====================
+export class FoodResolver {
+  // Keyed by food, so "Surmai" and "King mackerel" don't list the same fish twice
+  private names = new NameResolver<FoodTarget>(normalizeFoodName, target => target.food);
+  private foods: FoodItem[];
+
+  constructor(foods: FoodItem[]) {
+    this.foods = foods;
+    foods.forEach(food => {
+      [
+        { name: food.name },
+        ...translatedNames(food, 'name').map(name => ({ name })),
+        ...(food.aliases || []),
+        ...(food.scientificName ? [{ name: food.scientificName }] : [])
+      ].forEach(({ name, language }: { name: string; language?: string }) => this.names.add(name, { food, language }));
+    });
+  }
+
+  getCategories(): string[] {
+    return Array.from(new Set(this.foods.map(food => food.category)));
+  }
+
+  // Matches the English category or any translation of it, e.g. "डेयरी" for Dairy
+  private findCategory(query: string): string | undefined {
+    const synonym = CATEGORY_SYNONYMS[query];
+    if (synonym) return synonym;
+    return this.foods.find(food =>
+      [food.category, ...translatedNames(food, 'category')].some(category => normalizeFoodName(category) === query)
+    )?.category;
+  }
+
+  lookup(query: string, limit: number = 8): FoodLookup {
+    const normalized = normalizeFoodName(query);
+    if (!normalized) return { query, matches: [], suggestions: [] };
+
+    // "seafood" lists the whole category, riskiest first
+    const category = this.findCategory(normalized);
+    if (category) {
+      const matches = this.foods
+        .filter(food => food.category === category)
+        .sort((a, b) => VERDICT_ORDER[a.verdict] - VERDICT_ORDER[b.verdict])
+        .map(food => ({ food, matchedName: food.name, fuzzy: false }));
+      return { query, matches, category, suggestions: [] };
+    }
+
+    const matches = this.names.find(query, limit).map(({ entry, fuzzy }) => ({
+      food: entry.target.food,
+      matchedName: entry.name,
+      language: entry.target.language,
+      fuzzy
+    }));
+    return { query, matches, suggestions: matches.length > 0 ? [] : this.names.suggest(query) };
+  }
+}
+
+// ==================== DESCRIBING ====================
+export const describeFoodLimit = (limit: FoodLimit, locale: Locale): string => {
+  const shown = localize(limit, locale);
+  const per = translate(locale, LIMIT_PERIODS[limit.per]);
+  return `${translate(locale, 'food.limit', { amount: limit.amount, unit: shown.unit, per })}${shown.note ? ` (${shown.note})` : ''}`;
+};
+
+// "Surmai (Marathi), King mackerel (English)"
+export const describeFoodAliases = (food: FoodItem): string =>
+  (food.aliases || []).map(alias => `${alias.name} (${alias.language})`).join(', ');
+
+// One line per food for the chat index, carrying every name so a question in any language retrieves it
+export const describeFood = (food: FoodItem): string =>
+  [
+    `${food.name}${food.aliases?.length ? ` (also called ${describeFoodAliases(food)})` : ''}${
+      food.scientificName ? `, ${food.scientificName}` : ''
+    }: ${translate('en', FOOD_VERDICT_LABELS[food.verdict])} during pregnancy - ${food.reason}.`,
+    food.limit ? `${describeFoodLimit(food.limit, 'en')}.` : '',
+    food.preparation?.length ? `Preparation: ${food.preparation.join('; ')}.` : ''
+  ].filter(Boolean).join(' ');
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  daysBetween,
+  estimateDueDate,
+  gestationalDaysFromCrl,
+  getGestationalAge,
+  getTrimester,
+  parseLocalDate,
+  toDateInputValue
+} from './gestationalAge';
+
+const dueDateOf = (input: Parameters<typeof estimateDueDate>[0]) => {
+  const dueDate = estimateDueDate(input);
+  return dueDate && toDateInputValue(dueDate);
+};
+
+describe('parseLocalDate', () => {
+  it('reads YYYY-MM-DD as a local calendar date', () => {
+    const date = parseLocalDate('2026-03-01');
+    expect(date && [date.getFullYear(), date.getMonth(), date.getDate()]).toEqual([2026, 2, 1]);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseLocalDate('01/03/2026')).toBeNull();
+    expect(parseLocalDate('')).toBeNull();
+  });
+});
+
+describe('estimateDueDate', () => {
+  it('adds 280 days to the LMP for a 28-day cycle', () => {
+    expect(dueDateOf({ method: 'lmp', lmpDate: '2026-01-01' })).toBe('2026-10-08');
+  });
+
+  it('shifts the LMP due date by the cycle length', () => {
+    expect(dueDateOf({ method: 'lmp', lmpDate: '2026-01-01', cycleLength: 35 })).toBe('2026-10-15');
+    expect(dueDateOf({ method: 'lmp', lmpDate: '2026-01-01', cycleLength: 50 })).toBeNull();
+  });
+
+  it('counts a day-5 IVF transfer as gestational day 19', () => {
+    expect(dueDateOf({ method: 'ivf', transferDate: '2026-01-20', embryoAge: 5 })).toBe('2026-10-08');
+    expect(dueDateOf({ method: 'ivf', transferDate: '2026-01-20', embryoAge: 3 })).toBe('2026-10-10');
+  });
+
+  it('dates an ultrasound from the crown-rump length', () => {
+    // 45 mm is about 11w2d
+    expect(gestationalDaysFromCrl(45)).toBe(78);
+    expect(dueDateOf({ method: 'ultrasound', scanDate: '2026-03-20', crownRumpLengthMm: 45 })).toBe('2026-10-08');
+  });
+
+  it('refuses a crown-rump length the formula does not cover', () => {
+    expect(dueDateOf({ method: 'ultrasound', scanDate: '2026-03-20', crownRumpLengthMm: 1 })).toBeNull();
+    expect(dueDateOf({ method: 'ultrasound', scanDate: '2026-03-20', crownRumpLengthMm: 90 })).toBeNull();
+  });
+});
+
+describe('getGestationalAge', () => {
+  const input = { method: 'dueDate', dueDate: '2026-10-08' } as const;
+
+  it('counts weeks and days from the pregnancy start', () => {
+    const age = getGestationalAge(input, new Date(2026, 4, 15));
+    expect(age && [age.weeks, age.days, age.trimester, age.daysRemaining]).toEqual([19, 1, 'Second', 146]);
+  });
+
+  it('gives the 37 to 42 week delivery window', () => {
+    const age = getGestationalAge(input, new Date(2026, 4, 15));
+    expect(age && toDateInputValue(age.dueDateWindow.earliest)).toBe('2026-09-17');
+    expect(age && toDateInputValue(age.dueDateWindow.latest)).toBe('2026-10-22');
+  });
+
+  it('is null before the pregnancy started', () => {
+    expect(getGestationalAge(input, new Date(2025, 11, 1))).toBeNull();
+  });
+
+  it('ignores daylight-saving shifts', () => {
+    expect(daysBetween(new Date(2026, 2, 28), new Date(2026, 2, 30))).toBe(2);
+    expect(daysBetween(new Date(2026, 9, 24), new Date(2026, 9, 26))).toBe(2);
+  });
+});
+
+describe('getTrimester', () => {
+  it('starts the second trimester at 13 weeks and the third at 28', () => {
+    expect([12, 13, 27, 28].map(getTrimester)).toEqual(['First', 'Second', 'Second', 'Third']);
+  });
+});
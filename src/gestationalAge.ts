@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { hasFields, loadJson, saveJson } from './storage';
+import { MessageKey } from './i18n';
+
+// ==================== TYPES ====================
+export type DatingInput =
+  | { method: 'lmp'; lmpDate: string; cycleLength?: number }
+  | { method: 'dueDate'; dueDate: string }
+  | { method: 'ivf'; transferDate: string; embryoAge: 3 | 5 }
+  | { method: 'ultrasound'; scanDate: string; crownRumpLengthMm: number };
+
+export type DatingMethod = DatingInput['method'];
+
+export type Trimester = 'First' | 'Second' | 'Third';
+
+export type GestationalAge = {
+  weeks: number;
+  days: number;
+  totalDays: number;
+  trimester: Trimester;
+  dueDate: Date;
+  daysRemaining: number;
+  dueDateWindow: { earliest: Date; latest: Date };
+};
+
+// ==================== CONSTANTS ====================
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const PREGNANCY_LENGTH_DAYS = 280;
+const DEFAULT_CYCLE_LENGTH = 28;
+// Term starts at 37w0d; induction is usually offered by 42w0d
+const TERM_START_DAYS = 37 * 7;
+const POST_TERM_DAYS = 42 * 7;
+// Robinson & Fleming's formula is only reliable for CRL between 2 and 84 mm
+const MIN_CRL_MM = 2;
+const MAX_CRL_MM = 84;
+
+export const DATING_METHOD_LABELS: Record<DatingMethod, MessageKey> = {
+  lmp: 'dating.method.lmp',
+  dueDate: 'dating.method.dueDate',
+  ivf: 'dating.method.ivf',
+  ultrasound: 'dating.method.ultrasound'
+};
+
+// ==================== DATE HELPERS ====================
+// Parse "YYYY-MM-DD" as a local calendar date; new Date(string) would treat it as UTC midnight
+export const parseLocalDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const toDateInputValue = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Whole calendar days between two dates, unaffected by daylight-saving shifts
+export const daysBetween = (from: Date, to: Date): number => {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+};
+
+// Day 0 of the pregnancy (the first day of the LMP, or its equivalent) for a due date
+export const getPregnancyStart = (dueDate: Date): Date => addDays(dueDate, -PREGNANCY_LENGTH_DAYS);
+
+// ==================== DATING ====================
+// Gestational age in days from the crown-rump length (Robinson & Fleming, 1975)
+export const gestationalDaysFromCrl = (crownRumpLengthMm: number): number =>
+  Math.round(8.052 * Math.sqrt(crownRumpLengthMm) + 23.73);
+
+export const estimateDueDate = (input: DatingInput): Date | null => {
+  switch (input.method) {
+    case 'lmp': {
+      const lmp = parseLocalDate(input.lmpDate);
+      if (!lmp) return null;
+      const cycleLength = input.cycleLength ?? DEFAULT_CYCLE_LENGTH;
+      if (cycleLength < 20 || cycleLength > 45) return null;
+      // Naegele's rule, shifted by how far ovulation is from day 14
+      return addDays(lmp, PREGNANCY_LENGTH_DAYS + (cycleLength - DEFAULT_CYCLE_LENGTH));
+    }
+    case 'dueDate':
+      return parseLocalDate(input.dueDate);
+    case 'ivf': {
+      const transfer = parseLocalDate(input.transferDate);
+      if (!transfer) return null;
+      // Transfer of a day-N embryo corresponds to gestational day 14 + N
+      return addDays(transfer, PREGNANCY_LENGTH_DAYS - 14 - input.embryoAge);
+    }
+    case 'ultrasound': {
+      const scan = parseLocalDate(input.scanDate);
+      if (!scan) return null;
+      if (input.crownRumpLengthMm < MIN_CRL_MM || input.crownRumpLengthMm > MAX_CRL_MM) return null;
+      return addDays(scan, PREGNANCY_LENGTH_DAYS - gestationalDaysFromCrl(input.crownRumpLengthMm));
+    }
+    default:
+      return null;
+  }
+};
+
+// Trimester boundaries follow the knowledge base timeline, which starts the second trimester at week 13
+export const getTrimester = (weeks: number): Trimester => {
+  if (weeks < 13) return 'First';
+  if (weeks < 28) return 'Second';
+  return 'Third';
+};
+
+export const getGestationalAge = (input: DatingInput, today: Date = new Date()): GestationalAge | null => {
+  const dueDate = estimateDueDate(input);
+  if (!dueDate) return null;
+
+  const startDate = getPregnancyStart(dueDate);
+  const totalDays = daysBetween(startDate, today);
+  if (totalDays < 0) return null;
+
+  const weeks = Math.floor(totalDays / 7);
+  return {
+    weeks,
+    days: totalDays % 7,
+    totalDays,
+    trimester: getTrimester(weeks),
+    dueDate,
+    daysRemaining: daysBetween(today, dueDate),
+    dueDateWindow: {
+      earliest: addDays(startDate, TERM_START_DAYS),
+      latest: addDays(startDate, POST_TERM_DAYS)
+    }
+  };
+};
+
+// ==================== PERSISTENCE ====================
+const DATING_STORAGE_KEY = 'pregnancyDating';
+const LEGACY_DUE_DATE_KEY = 'pregnancyDueDate';
+
+// The date field each dating method can't do without
+const DATING_DATE_FIELDS: Record<DatingMethod, string> = { lmp: 'lmpDate', dueDate: 'dueDate', ivf: 'transferDate', ultrasound: 'scanDate' };
+
+const validateDatingInput = (value: unknown): DatingInput | null => {
+  if (!hasFields(value, { method: 'string' })) return null;
+  const dateField = DATING_DATE_FIELDS[value.method as DatingMethod];
+  return dateField && typeof value[dateField] === 'string' ? (value as DatingInput) : null;
+};
+
+export const loadDatingInput = (): DatingInput | null => {
+  const saved = loadJson<DatingInput | null>(DATING_STORAGE_KEY, null, validateDatingInput);
+  if (saved) return saved;
+  // Older versions only stored a due date string
+  const legacyDueDate = localStorage.getItem(LEGACY_DUE_DATE_KEY);
+  return legacyDueDate ? { method: 'dueDate', dueDate: legacyDueDate } : null;
+};
+
+export const saveDatingInput = (input: DatingInput) => {
+  saveJson(DATING_STORAGE_KEY, input);
+  localStorage.removeItem(LEGACY_DUE_DATE_KEY);
+};
+
+// ==================== HOOK ====================
+const msUntilNextMidnight = (now: Date): number =>
+  addDays(now, 1).getTime() - now.getTime();
+
+// Recomputes whenever the input changes and again each midnight
+export const useGestationalAge = (input: DatingInput | null): GestationalAge | null => {
+  const [today, setToday] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setToday(new Date()), msUntilNextMidnight(today) + 1000);
+    return () => clearTimeout(timer);
+  }, [today]);
+
+  return input ? getGestationalAge(input, today) : null;
+};
@@ -0,0 +1,98 @@
+import { en, MessageKey, Messages } from './locales/en';
+import { hi } from './locales/hi';
+import { mr } from './locales/mr';
+
+export type { MessageKey } from './locales/en';
+
+// ==================== TYPES ====================
+export type Locale = 'en' | 'hi' | 'mr';
+
+export type LocaleInfo = {
+  // English name, used in the chat system prompt
+  name: string;
+  // What the language picker shows
+  nativeName: string;
+  // BCP 47 tag for Intl; undefined keeps the browser's own formatting for English
+  intl: string | undefined;
+};
+
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+// ==================== CONSTANTS ====================
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', nativeName: 'English', intl: undefined },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी', intl: 'hi-IN' },
+  mr: { name: 'Marathi', nativeName: 'मराठी', intl: 'mr-IN' }
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const MESSAGES: Record<Locale, Messages> = { en, hi, mr };
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+// ==================== FORMATTING ====================
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions): string =>
+  value.toLocaleString(LOCALES[locale].intl, options);
+
+export const formatDate = (date: Date, locale: Locale, options?: Intl.DateTimeFormatOptions): string =>
+  date.toLocaleDateString(LOCALES[locale].intl, options);
+
+export const formatDateTime = (date: Date, locale: Locale, options?: Intl.DateTimeFormatOptions): string =>
+  date.toLocaleString(LOCALES[locale].intl, options);
+
+export const formatTime = (date: Date, locale: Locale, options?: Intl.DateTimeFormatOptions): string =>
+  date.toLocaleTimeString(LOCALES[locale].intl, options ?? { hour: 'numeric', minute: '2-digit' });
+
+// ==================== TRANSLATION ====================
+// Missing keys fall back to English; numbers in params are formatted for the locale
+export const translate = (locale: Locale, key: MessageKey, params?: TranslateParams): string => {
+  const template = MESSAGES[locale][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+};
+
+export const createTranslator = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
+
+// The entry with its translated fields swapped in. For display only: other code matches on the English fields.
+export const localize = <T extends { translations?: Record<string, object> }>(entry: T, locale: Locale): T => {
+  const translated = entry.translations?.[locale];
+  return translated ? { ...entry, ...translated } : entry;
+};
+
+// ==================== CHAT ====================
+// Appended to the chat system prompt so answers come back in the chosen language
+export const languageInstruction = (locale: Locale): string => {
+  if (locale === 'en') return '';
+  const { name } = LOCALES[locale];
+  return `Always reply in ${name}, written in Devanagari script, whatever language the question is in. ` +
+    `Keep medicine names, test names and numbers with units as they are usually written, and add the ${name} word in brackets where it helps. ` +
+    'Use simple everyday words rather than formal or literary ones.';
+};
+
+// ==================== PERSISTENCE ====================
+const LOCALE_STORAGE_KEY = 'pregnancyLocale';
+
+// First visit follows the browser's language
+const detectLocale = (): Locale => {
+  const language = (navigator.language || '').toLowerCase().split('-')[0];
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+};
+
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(saved) ? saved : detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (error) {
+    console.error('Failed to save language:', error);
+  }
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { KICK_TARGET, KickSession, assessKickSession, getKickBaseline } from './kickCounter';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const T0 = Date.UTC(2026, 5, 1, 19, 0);
+
+// A finished session on day `day` whose 10th movement came after `minutes`
+const session = (day: number, minutes: number): KickSession => {
+  const startedAt = T0 + day * DAY;
+  const kicks = Array.from({ length: KICK_TARGET }, (_, i) => startedAt + ((i + 1) / KICK_TARGET) * minutes * MINUTE);
+  return { id: `s${day}`, startedAt, kicks, endedAt: kicks[kicks.length - 1], week: 30 };
+};
+
+// A session still running on day `day`, with a few movements so far
+const running = (day: number): KickSession => {
+  const startedAt = T0 + day * DAY;
+  return { id: `s${day}`, startedAt, kicks: [startedAt + MINUTE, startedAt + 2 * MINUTE], week: 30 };
+};
+
+const reasonFor = (current: KickSession, history: KickSession[], now: number = current.endedAt ?? current.startedAt) =>
+  assessKickSession(current, [...history, current], now, 'en')?.reason ?? null;
+
+describe('getKickBaseline', () => {
+  it('needs at least three finished sessions', () => {
+    expect(getKickBaseline([session(0, 10), session(1, 20)])).toBeNull();
+    expect(getKickBaseline([session(0, 10), session(1, 20), running(2)])).toBeNull();
+  });
+
+  it('takes the median time to 10', () => {
+    expect(getKickBaseline([session(0, 30), session(1, 10), session(2, 20)])).toBe(20 * MINUTE);
+    expect(getKickBaseline([session(0, 10), session(1, 20), session(2, 30), session(3, 40)])).toBe(25 * MINUTE);
+  });
+
+  it('uses only the latest seven sessions and skips the one being assessed', () => {
+    const older = [0, 1, 2].map(day => session(day, 90));
+    const recent = [3, 4, 5, 6, 7, 8, 9].map(day => session(day, 15));
+    expect(getKickBaseline([...older, ...recent])).toBe(15 * MINUTE);
+    expect(getKickBaseline([session(0, 10), session(1, 20), session(2, 30)], 's1')).toBeNull();
+  });
+
+  it('ignores sessions that stopped short of 10', () => {
+    const short = { ...session(3, 5), kicks: session(3, 5).kicks.slice(0, 4) };
+    expect(getKickBaseline([session(0, 10), session(1, 20), short])).toBeNull();
+  });
+});
+
+describe('assessKickSession', () => {
+  // Usual time is 20 minutes, so slower than usual starts past max(2 x 20, 20 + 30) = 50 minutes
+  const history = [session(0, 15), session(1, 20), session(2, 25)];
+
+  it('flags a session over twice the usual time and at least half an hour more', () => {
+    expect(reasonFor(session(3, 50), history)).toBeNull();
+    expect(reasonFor(session(3, 51), history)).toBe('slowerThanUsual');
+  });
+
+  it('flags a running session once it has gone past the usual time', () => {
+    const current = running(3);
+    expect(reasonFor(current, history, current.startedAt + 45 * MINUTE)).toBeNull();
+    expect(reasonFor(current, history, current.startedAt + 55 * MINUTE)).toBe('slowerThanUsual');
+  });
+
+  it('says nothing about usual times without enough history', () => {
+    expect(reasonFor(session(3, 90), history.slice(0, 2))).toBeNull();
+  });
+
+  it('always flags 2 hours without reaching 10', () => {
+    const current = running(3);
+    expect(reasonFor(current, [], current.startedAt + 2 * 60 * MINUTE)).toBe('noTarget');
+  });
+});
@@ -0,0 +1,125 @@
+import { createId } from './conversations';
+import { Locale, formatNumber, translate } from './i18n';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type KickSession = {
+  id: string;
+  startedAt: number;
+  // Timestamp of each movement felt
+  kicks: number[];
+  // Unset while the session is running
+  endedAt?: number;
+  week: number | null;
+};
+
+export type KickAlert = {
+  reason: 'noTarget' | 'slowerThanUsual';
+  title: string;
+  message: string;
+};
+
+// ==================== CONSTANTS ====================
+export const KICK_TARGET = 10;
+// Most babies reach 10 movements well within 2 hours (ACOG)
+export const KICK_SESSION_LIMIT_MS = 2 * 60 * 60 * 1000;
+// Daily counts are usually started from 28 weeks
+export const KICK_COUNT_START_WEEK = 28;
+// A baseline needs a few completed sessions before "slower than usual" means anything
+const BASELINE_MIN_SESSIONS = 3;
+const BASELINE_SESSIONS = 7;
+// Twice the usual time, and at least half an hour more, counts as slower than usual
+const SLOWER_FACTOR = 2;
+const SLOWER_MIN_EXTRA_MS = 30 * 60 * 1000;
+
+// The sign the Emergency tab shows for reduced movements
+export const REDUCED_MOVEMENT_SIGN = 'Baby moving less than usual';
+
+// ==================== SESSIONS ====================
+export const startKickSession = (week: number | null, at: number): KickSession => ({
+  id: createId(),
+  startedAt: at,
+  kicks: [],
+  week
+});
+
+export const addKick = (session: KickSession, at: number): KickSession =>
+  session.endedAt !== undefined ? session : { ...session, kicks: [...session.kicks, at] };
+
+// Reaching the target ends the session; stopping early keeps what was counted
+export const endKickSession = (session: KickSession, at: number): KickSession =>
+  session.endedAt !== undefined ? session : { ...session, endedAt: at };
+
+export const isTargetReached = (session: KickSession): boolean => session.kicks.length >= KICK_TARGET;
+
+// Milliseconds from the start to the 10th movement, or null if it wasn't reached
+export const timeToTarget = (session: KickSession): number | null =>
+  isTargetReached(session) ? session.kicks[KICK_TARGET - 1] - session.startedAt : null;
+
+// Median time to 10 over the latest completed sessions, or null until there are enough
+export const getKickBaseline = (sessions: KickSession[], excludeId?: string): number | null => {
+  const times = sessions
+    .filter(session => session.id !== excludeId && session.endedAt !== undefined)
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .map(timeToTarget)
+    .filter((time): time is number => time !== null)
+    .slice(0, BASELINE_SESSIONS)
+    .sort((a, b) => a - b);
+  if (times.length < BASELINE_MIN_SESSIONS) return null;
+  const middle = Math.floor(times.length / 2);
+  return times.length % 2 ? times[middle] : (times[middle - 1] + times[middle]) / 2;
+};
+
+const slowerThan = (baseline: number) => Math.max(baseline * SLOWER_FACTOR, baseline + SLOWER_MIN_EXTRA_MS);
+
+// ==================== ALERTS ====================
+// Flags a session (running or finished) that falls short of 10 in 2 hours or is much slower than this baby's usual
+export const assessKickSession = (session: KickSession, sessions: KickSession[], now: number, locale: Locale): KickAlert | null => {
+  const elapsed = (session.endedAt ?? now) - session.startedAt;
+  const toTarget = timeToTarget(session);
+  if (toTarget === null && elapsed >= KICK_SESSION_LIMIT_MS) {
+    return {
+      reason: 'noTarget',
+      title: translate(locale, 'kicks.alert.noTarget.title', { target: KICK_TARGET }),
+      message: translate(locale, 'kicks.alert.noTarget.message')
+    };
+  }
+
+  const baseline = getKickBaseline(sessions, session.id);
+  if (baseline === null) return null;
+  const taken = toTarget ?? elapsed;
+  if (taken > slowerThan(baseline)) {
+    return {
+      reason: 'slowerThanUsual',
+      title: translate(locale, 'kicks.alert.slower.title'),
+      message: translate(locale, 'kicks.alert.slower.message', { target: KICK_TARGET, usual: formatDuration(baseline, locale) })
+    };
+  }
+  return null;
+};
+
+// ==================== FORMATTING ====================
+// "1h 05m", "12m 30s" or "45s"
+export const formatDuration = (ms: number, locale: Locale): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const padded = (value: number) => formatNumber(value, locale, { minimumIntegerDigits: 2 });
+  if (hours > 0) return translate(locale, 'duration.hoursMinutes', { hours, minutes: padded(minutes) });
+  if (minutes > 0) return translate(locale, 'duration.minutesSeconds', { minutes, seconds: padded(seconds) });
+  return translate(locale, 'duration.seconds', { seconds });
+};
+
+// ==================== PERSISTENCE ====================
+const KICK_SESSIONS_STORAGE_KEY = 'pregnancyKickSessions';
+// A few months of daily counts
+const MAX_KICK_SESSIONS = 120;
+
+const isKickSession = (value: unknown): value is KickSession =>
+  hasFields(value, { id: 'string', startedAt: 'number', kicks: 'array' });
+
+export const loadKickSessions = (): KickSession[] => loadJson(KICK_SESSIONS_STORAGE_KEY, [], listOf(isKickSession));
+
+export const saveKickSessions = (sessions: KickSession[]) =>
+  saveJson(KICK_SESSIONS_STORAGE_KEY, sessions.slice(-MAX_KICK_SESSIONS));
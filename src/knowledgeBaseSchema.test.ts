@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_KNOWLEDGE_GRAPH, validateKnowledgeBase } from './knowledgeBaseSchema';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+const ROOT = '$.pregnancyKnowledgeGraph';
+
+const medication = (drug: string, overrides: Record<string, unknown> = {}) =>
+  ({ drug, safety: '🟢', safetyLevel: 'Safe', ...overrides });
+
+const knowledgeBase = (medications: unknown[], combinationProducts: unknown[] = []) => ({
+  pregnancyKnowledgeGraph: {
+    ...EMPTY_KNOWLEDGE_GRAPH,
+    medications: { byCondition: [{ condition: 'Pain', medications }], combinationProducts }
+  }
+});
+
+const issuesFor = (data: unknown) => validateKnowledgeBase(data).issues;
+
+describe('validateKnowledgeBase', () => {
+  it('accepts the shipped knowledge base', () => {
+    expect(() => loadTestKnowledgeBase()).not.toThrow();
+    expect(issuesFor(knowledgeBase([medication('Paracetamol')]))).toEqual([]);
+  });
+
+  it('reports a missing name and drops that entry', () => {
+    const { knowledgeGraph, issues } = validateKnowledgeBase(
+      knowledgeBase([medication('Paracetamol'), { safety: '🟢', safetyLevel: 'Safe' }])
+    );
+    expect(issues).toEqual([
+      { path: `${ROOT}.medications.byCondition[0].medications[1].drug`, message: 'Missing required field' }
+    ]);
+    expect(knowledgeGraph.medications.byCondition[0].medications.map(med => med.drug)).toEqual(['Paracetamol']);
+  });
+
+  it('reports a name used twice, across conditions and combination products', () => {
+    const issues = issuesFor(knowledgeBase(
+      [medication('Paracetamol'), medication('paracetamol ')],
+      [{ name: 'Paracetamol', ingredients: ['Paracetamol'] }]
+    ));
+    expect(issues).toEqual([
+      {
+        path: `${ROOT}.medications.byCondition[0].medications[1].drug`,
+        message: `Duplicate name "paracetamol ", already used at ${ROOT}.medications.byCondition[0].medications[0].drug`
+      },
+      {
+        path: `${ROOT}.medications.combinationProducts[0].name`,
+        message: `Duplicate name "Paracetamol", already used at ${ROOT}.medications.byCondition[0].medications[0].drug`
+      }
+    ]);
+  });
+
+  it('reports wrong field types with their path', () => {
+    const issues = issuesFor(knowledgeBase([medication('Paracetamol', { safety: 'green', aliases: 'Crocin' })]));
+    expect(issues).toEqual([
+      { path: `${ROOT}.medications.byCondition[0].medications[0].aliases`, message: 'Expected array, got string' },
+      { path: `${ROOT}.medications.byCondition[0].medications[0].safety`, message: 'Expected one of "🟢", "🟡", "🔴", got "green"' }
+    ]);
+  });
+
+  it('reports unknown fields, missing sections and a missing root', () => {
+    const data = knowledgeBase([medication('Paracetamol', { dose: '500 mg' })]);
+    const { pregnancyTimeline, ...withoutTimeline } = data.pregnancyKnowledgeGraph;
+    expect(issuesFor({ pregnancyKnowledgeGraph: withoutTimeline })).toEqual([
+      { path: `${ROOT}.pregnancyTimeline`, message: 'Missing required section' },
+      { path: `${ROOT}.medications.byCondition[0].medications[0].dose`, message: 'Unknown field' }
+    ]);
+    expect(issuesFor([])).toEqual([{ path: ROOT, message: 'Expected object, got undefined' }]);
+  });
+});
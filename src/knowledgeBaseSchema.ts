@@ -0,0 +1,604 @@
+// ==================== TYPES ====================
+export type Nutrient = {
+  nutrient: string;
+  amount: string;
+  unit: string;
+  category: string;
+  translations?: Translations<Pick<Nutrient, 'nutrient' | 'category'>>;
+};
+
+// Tolerable upper intake per day, e.g. Calcium above 2500 mg; may name a nutrient with no daily target
+export type NutrientUpperLimit = {
+  nutrient: string;
+  amount: number;
+  unit: string;
+  note?: string;
+  translations?: Translations<Pick<NutrientUpperLimit, 'nutrient' | 'note'>>;
+};
+
+export type WeightGainRecommendation = {
+  prePregnancyBMI: string;
+  bmiRange: string;
+  recommendedGain: string;
+  unit: string;
+  // Total gain for a twin pregnancy, in the same unit; absent where there's no guideline
+  twinGain?: string;
+  translations?: Translations<Pick<WeightGainRecommendation, 'prePregnancyBMI' | 'unit'>>;
+};
+
+export type AvoidFood = {
+  item: string;
+  includes?: string[];
+  details?: string;
+  translations?: Translations<Pick<AvoidFood, 'item' | 'includes' | 'details'>>;
+};
+
+export type FoodVerdict = 'safe' | 'limit' | 'avoid';
+
+// A name the food is known by in one language, e.g. { name: 'Surmai', language: 'Marathi' }
+export type FoodAlias = {
+  name: string;
+  language: string;
+};
+
+// How much is fine, e.g. caffeine is { amount: 200, unit: 'mg caffeine', per: 'day' }
+export type FoodLimit = {
+  amount: number;
+  unit: string;
+  per: 'day' | 'week';
+  note?: string;
+  translations?: Translations<Pick<FoodLimit, 'unit' | 'note'>>;
+};
+
+// What a food is made from, so diets can hide what they exclude
+export type AnimalSource = 'meat' | 'fish' | 'egg' | 'dairy';
+
+export type FoodItem = {
+  name: string;
+  aliases?: FoodAlias[];
+  scientificName?: string;
+  category: string;
+  animalSource?: AnimalSource;
+  verdict: FoodVerdict;
+  reason: string;
+  limit?: FoodLimit;
+  // Caveats that change the verdict, e.g. "Fine when cooked until steaming hot"
+  preparation?: string[];
+  translations?: Translations<Pick<FoodItem, 'name' | 'category' | 'reason' | 'preparation'>>;
+};
+
+// A numeric bound encoded in a sign, e.g. "Fever ≥ 102°F" is { measure: 'temperature', min: 102 }.
+// min is inclusive and max is exclusive, matching the "≥" / "<" wording of the signs.
+export type SymptomThreshold = {
+  measure: 'temperature' | 'duration' | 'gestationalWeek';
+  min?: number;
+  max?: number;
+  unit: '°F' | 'days' | 'weeks';
+};
+
+// Translated text fields keyed by locale ("hi", "mr"). The English fields stay canonical: they're what code matches on.
+export type Translations<T> = Record<string, Partial<T>>;
+
+export type Symptom = {
+  sign: string;
+  urgency: string;
+  action: string;
+  severity: 'low' | 'medium' | 'high';
+  // Everyday phrasings used to spot this sign in free text
+  triggers?: string[];
+  threshold?: SymptomThreshold;
+  category?: string;
+  translations?: Translations<Pick<Symptom, 'sign' | 'urgency' | 'action' | 'category'>>;
+};
+
+export type SymptomCategory = {
+  category: string;
+  symptoms: Symptom[];
+  translations?: Translations<Pick<SymptomCategory, 'category'>>;
+};
+
+export type SafetyRating = '🟢' | '🟡' | '🔴';
+
+// Overrides a medication's default rating during the listed trimesters
+export type MedicationTrimesterRule = {
+  trimesters: Array<'First' | 'Second' | 'Third'>;
+  safety: SafetyRating;
+  safetyLevel: string;
+  reason: string;
+  translations?: Translations<Pick<MedicationTrimesterRule, 'safetyLevel' | 'reason'>>;
+};
+
+export type Medication = {
+  drug: string;
+  brand?: string;
+  // Other brand, generic and regional names, e.g. Paracetamol, Crocin and Dolo for Acetaminophen
+  aliases?: string[];
+  safety: string;
+  safetyLevel: string;
+  note?: string;
+  trimesterRules?: MedicationTrimesterRule[];
+  condition?: string;
+  translations?: Translations<Pick<Medication, 'safetyLevel' | 'note' | 'condition'>>;
+};
+
+export type MedicationCondition = {
+  condition: string;
+  medications: Medication[];
+  translations?: Translations<Pick<MedicationCondition, 'condition'>>;
+};
+
+// A branded mix of several drugs; each ingredient names a Medication by drug name or alias
+export type CombinationProduct = {
+  name: string;
+  aliases?: string[];
+  ingredients: string[];
+};
+
+export type Exercise = {
+  name: string;
+  benefits: string;
+  instructions: string[];
+};
+
+export type WeekInfo = {
+  trimester: string;
+  title: string;
+  commonSymptoms: Array<{ symptom: string; status: string }>;
+  exercise?: Exercise;
+  babyDevelopment: string[];
+  maternalChanges: string[];
+  checklist: string[];
+  translations?: Translations<
+    Pick<WeekInfo, 'title' | 'commonSymptoms' | 'exercise' | 'babyDevelopment' | 'maternalChanges' | 'checklist'>
+  >;
+};
+
+export type MorningSicknessManagement = {
+  whatToEat: string[];
+  avoidFoods: string[];
+  eatingTips: string[];
+  hydrationTips: string[];
+  translations?: Translations<Omit<MorningSicknessManagement, 'translations'>>;
+};
+
+export type PregnancyKnowledgeGraph = {
+  nutritionalRequirements: {
+    dailyMacros: Nutrient[];
+    weightGainRecommendations: WeightGainRecommendation[];
+    upperLimits?: NutrientUpperLimit[];
+  };
+  foodSafety: {
+    seafoodGuidelines: { safe: string[]; unsafe: string[] };
+    avoidFoods: AvoidFood[];
+    foods?: FoodItem[];
+  };
+  morningSicknessManagement: MorningSicknessManagement;
+  pregnancyTimeline: Record<string, WeekInfo>;
+  symptomTroubleshooting: { categories: SymptomCategory[] };
+  medications: { byCondition: MedicationCondition[]; combinationProducts?: CombinationProduct[] };
+};
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+// ==================== VALIDATORS ====================
+// A validator returns the parsed value, or undefined after recording why it was rejected.
+// Arrays drop invalid items and keep the rest so one bad entry doesn't blank a whole tab.
+type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str: Validator<string> = (value, path, issues) => {
+  if (typeof value === 'string') return value;
+  issues.push({ path, message: `Expected string, got ${describe(value)}` });
+  return undefined;
+};
+
+const num: Validator<number> = (value, path, issues) => {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  issues.push({ path, message: `Expected number, got ${describe(value)}` });
+  return undefined;
+};
+
+const oneOf = <T extends string>(...allowed: T[]): Validator<T> => (value, path, issues) => {
+  if (typeof value === 'string' && (allowed as string[]).includes(value)) return value as T;
+  issues.push({ path, message: `Expected one of ${allowed.map(a => `"${a}"`).join(', ')}, got ${JSON.stringify(value)}` });
+  return undefined;
+};
+
+const arrayOf = <T>(item: Validator<T>): Validator<T[]> => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `Expected array, got ${describe(value)}` });
+    return undefined;
+  }
+  const result: T[] = [];
+  value.forEach((entry, i) => {
+    const parsed = item(entry, `${path}[${i}]`, issues);
+    if (parsed !== undefined) result.push(parsed);
+  });
+  return result;
+};
+
+const recordOf = <T>(item: Validator<T>): Validator<Record<string, T>> => (value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `Expected object, got ${describe(value)}` });
+    return undefined;
+  }
+  const result: Record<string, T> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    const parsed = item(entry, `${path}.${key}`, issues);
+    if (parsed !== undefined) result[key] = parsed;
+  });
+  return result;
+};
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path, issues) =>
+  value === undefined ? undefined : validator(value, path, issues);
+
+const objectOf = <T>(shape: Shape<T>, optionalKeys: Array<keyof T> = []): Validator<T> => (value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `Expected object, got ${describe(value)}` });
+    return undefined;
+  }
+
+  // Unknown keys are usually typos of optional fields, which would otherwise vanish silently
+  Object.keys(value).forEach(key => {
+    if (!(key in shape)) issues.push({ path: `${path}.${key}`, message: 'Unknown field' });
+  });
+
+  const result: Partial<T> = {};
+  let valid = true;
+  (Object.keys(shape) as Array<keyof T>).forEach(key => {
+    const fieldPath = `${path}.${String(key)}`;
+    const raw = value[key as string];
+    if (raw === undefined && !optionalKeys.includes(key)) {
+      issues.push({ path: fieldPath, message: 'Missing required field' });
+      valid = false;
+      return;
+    }
+    const parsed = shape[key](raw, fieldPath, issues);
+    if (parsed === undefined && raw !== undefined) valid = false;
+    if (parsed !== undefined) result[key] = parsed;
+  });
+  return valid ? (result as T) : undefined;
+};
+
+// Every field is optional, so a locale can translate some fields and fall back to English for the rest
+const translationsOf = <T>(shape: Shape<Partial<T>>): Validator<Translations<T>> =>
+  recordOf(objectOf<Partial<T>>(shape, Object.keys(shape) as Array<keyof T>));
+
+// ==================== SCHEMA ====================
+const nutrientSchema = objectOf<Nutrient>(
+  {
+    nutrient: str,
+    amount: str,
+    unit: str,
+    category: str,
+    translations: optional(translationsOf<Pick<Nutrient, 'nutrient' | 'category'>>({
+      nutrient: optional(str),
+      category: optional(str)
+    }))
+  },
+  ['translations']
+);
+
+const upperLimitSchema = objectOf<NutrientUpperLimit>(
+  {
+    nutrient: str,
+    amount: num,
+    unit: str,
+    note: optional(str),
+    translations: optional(translationsOf<Pick<NutrientUpperLimit, 'nutrient' | 'note'>>({
+      nutrient: optional(str),
+      note: optional(str)
+    }))
+  },
+  ['note', 'translations']
+);
+
+const weightGainSchema = objectOf<WeightGainRecommendation>(
+  {
+    prePregnancyBMI: str,
+    bmiRange: str,
+    recommendedGain: str,
+    unit: str,
+    twinGain: optional(str),
+    translations: optional(translationsOf<Pick<WeightGainRecommendation, 'prePregnancyBMI' | 'unit'>>({
+      prePregnancyBMI: optional(str),
+      unit: optional(str)
+    }))
+  },
+  ['twinGain', 'translations']
+);
+
+const avoidFoodSchema = objectOf<AvoidFood>(
+  {
+    item: str,
+    includes: optional(arrayOf(str)),
+    details: optional(str),
+    translations: optional(translationsOf<Pick<AvoidFood, 'item' | 'includes' | 'details'>>({
+      item: optional(str),
+      includes: optional(arrayOf(str)),
+      details: optional(str)
+    }))
+  },
+  ['includes', 'details', 'translations']
+);
+
+const foodLimitSchema = objectOf<FoodLimit>(
+  {
+    amount: num,
+    unit: str,
+    per: oneOf('day', 'week'),
+    note: optional(str),
+    translations: optional(translationsOf<Pick<FoodLimit, 'unit' | 'note'>>({ unit: optional(str), note: optional(str) }))
+  },
+  ['note', 'translations']
+);
+
+const foodItemSchema = objectOf<FoodItem>(
+  {
+    name: str,
+    aliases: optional(arrayOf(objectOf<FoodAlias>({ name: str, language: str }))),
+    scientificName: optional(str),
+    category: str,
+    animalSource: optional(oneOf('meat', 'fish', 'egg', 'dairy')),
+    verdict: oneOf('safe', 'limit', 'avoid'),
+    reason: str,
+    limit: optional(foodLimitSchema),
+    preparation: optional(arrayOf(str)),
+    translations: optional(translationsOf<Pick<FoodItem, 'name' | 'category' | 'reason' | 'preparation'>>({
+      name: optional(str),
+      category: optional(str),
+      reason: optional(str),
+      preparation: optional(arrayOf(str))
+    }))
+  },
+  ['aliases', 'scientificName', 'animalSource', 'limit', 'preparation', 'translations']
+);
+
+const thresholdSchema = objectOf<SymptomThreshold>(
+  {
+    measure: oneOf('temperature', 'duration', 'gestationalWeek'),
+    min: optional(num),
+    max: optional(num),
+    unit: oneOf('°F', 'days', 'weeks')
+  },
+  ['min', 'max']
+);
+
+const symptomSchema = objectOf<Symptom>(
+  {
+    sign: str,
+    urgency: str,
+    action: str,
+    severity: oneOf('low', 'medium', 'high'),
+    triggers: optional(arrayOf(str)),
+    threshold: optional(thresholdSchema),
+    category: optional(str),
+    translations: optional(translationsOf<Pick<Symptom, 'sign' | 'urgency' | 'action' | 'category'>>({
+      sign: optional(str),
+      urgency: optional(str),
+      action: optional(str),
+      category: optional(str)
+    }))
+  },
+  ['triggers', 'threshold', 'category', 'translations']
+);
+
+const trimesterRuleSchema = objectOf<MedicationTrimesterRule>(
+  {
+    trimesters: arrayOf(oneOf('First', 'Second', 'Third')),
+    safety: oneOf('🟢', '🟡', '🔴'),
+    safetyLevel: str,
+    reason: str,
+    translations: optional(translationsOf<Pick<MedicationTrimesterRule, 'safetyLevel' | 'reason'>>({
+      safetyLevel: optional(str),
+      reason: optional(str)
+    }))
+  },
+  ['translations']
+);
+
+const medicationSchema = objectOf<Medication>(
+  {
+    drug: str,
+    brand: optional(str),
+    aliases: optional(arrayOf(str)),
+    safety: oneOf('🟢', '🟡', '🔴'),
+    safetyLevel: str,
+    note: optional(str),
+    trimesterRules: optional(arrayOf(trimesterRuleSchema)),
+    condition: optional(str),
+    translations: optional(translationsOf<Pick<Medication, 'safetyLevel' | 'note' | 'condition'>>({
+      safetyLevel: optional(str),
+      note: optional(str),
+      condition: optional(str)
+    }))
+  },
+  ['brand', 'aliases', 'note', 'trimesterRules', 'condition', 'translations']
+);
+
+const combinationProductSchema = objectOf<CombinationProduct>(
+  { name: str, aliases: optional(arrayOf(str)), ingredients: arrayOf(str) },
+  ['aliases']
+);
+
+const commonSymptomsSchema = arrayOf(objectOf<{ symptom: string; status: string }>({ symptom: str, status: str }));
+
+const exerciseSchema = objectOf<Exercise>({ name: str, benefits: str, instructions: arrayOf(str) });
+
+const weekInfoSchema = objectOf<WeekInfo>(
+  {
+    trimester: oneOf('First', 'Second', 'Third'),
+    title: str,
+    commonSymptoms: commonSymptomsSchema,
+    exercise: optional(exerciseSchema),
+    babyDevelopment: arrayOf(str),
+    maternalChanges: arrayOf(str),
+    checklist: arrayOf(str),
+    translations: optional(translationsOf<
+      Pick<WeekInfo, 'title' | 'commonSymptoms' | 'exercise' | 'babyDevelopment' | 'maternalChanges' | 'checklist'>
+    >({
+      title: optional(str),
+      commonSymptoms: optional(commonSymptomsSchema),
+      exercise: optional(exerciseSchema),
+      babyDevelopment: optional(arrayOf(str)),
+      maternalChanges: optional(arrayOf(str)),
+      checklist: optional(arrayOf(str))
+    }))
+  },
+  ['exercise', 'translations']
+);
+
+const sectionSchemas: Shape<PregnancyKnowledgeGraph> = {
+  nutritionalRequirements: objectOf<PregnancyKnowledgeGraph['nutritionalRequirements']>(
+    {
+      dailyMacros: arrayOf(nutrientSchema),
+      weightGainRecommendations: arrayOf(weightGainSchema),
+      upperLimits: optional(arrayOf(upperLimitSchema))
+    },
+    ['upperLimits']
+  ),
+  foodSafety: objectOf<PregnancyKnowledgeGraph['foodSafety']>(
+    {
+      seafoodGuidelines: objectOf({ safe: arrayOf(str), unsafe: arrayOf(str) }),
+      avoidFoods: arrayOf(avoidFoodSchema),
+      foods: optional(arrayOf(foodItemSchema))
+    },
+    ['foods']
+  ),
+  morningSicknessManagement: objectOf<MorningSicknessManagement>(
+    {
+      whatToEat: arrayOf(str),
+      avoidFoods: arrayOf(str),
+      eatingTips: arrayOf(str),
+      hydrationTips: arrayOf(str),
+      translations: optional(translationsOf<Omit<MorningSicknessManagement, 'translations'>>({
+        whatToEat: optional(arrayOf(str)),
+        avoidFoods: optional(arrayOf(str)),
+        eatingTips: optional(arrayOf(str)),
+        hydrationTips: optional(arrayOf(str))
+      }))
+    },
+    ['translations']
+  ),
+  pregnancyTimeline: recordOf(weekInfoSchema),
+  symptomTroubleshooting: objectOf({
+    categories: arrayOf(objectOf<SymptomCategory>(
+      {
+        category: str,
+        symptoms: arrayOf(symptomSchema),
+        translations: optional(translationsOf<Pick<SymptomCategory, 'category'>>({ category: optional(str) }))
+      },
+      ['translations']
+    ))
+  }),
+  medications: objectOf<PregnancyKnowledgeGraph['medications']>(
+    {
+      byCondition: arrayOf(objectOf<MedicationCondition>(
+        {
+          condition: str,
+          medications: arrayOf(medicationSchema),
+          translations: optional(translationsOf<Pick<MedicationCondition, 'condition'>>({ condition: optional(str) }))
+        },
+        ['translations']
+      )),
+      combinationProducts: optional(arrayOf(combinationProductSchema))
+    },
+    ['combinationProducts']
+  )
+};
+
+// Used in place of any section that fails validation so the rest of the app keeps working
+export const EMPTY_KNOWLEDGE_GRAPH: PregnancyKnowledgeGraph = {
+  nutritionalRequirements: { dailyMacros: [], weightGainRecommendations: [] },
+  foodSafety: { seafoodGuidelines: { safe: [], unsafe: [] }, avoidFoods: [] },
+  morningSicknessManagement: { whatToEat: [], avoidFoods: [], eatingTips: [], hydrationTips: [] },
+  pregnancyTimeline: {},
+  symptomTroubleshooting: { categories: [] },
+  medications: { byCondition: [] }
+};
+
+// ==================== UNIQUE NAMES ====================
+// Retrieval section ids and name lookups are built from these names, so two entries sharing one would collide
+type NamedEntry = { name: string; path: string };
+
+const namesIn = (items: unknown, path: string, key: string): NamedEntry[] =>
+  Array.isArray(items)
+    ? items.flatMap((item, i) => (isPlainObject(item) && typeof item[key] === 'string'
+      ? [{ name: item[key] as string, path: `${path}[${i}].${key}` }]
+      : []))
+    : [];
+
+const childrenOf = (value: unknown, key: string): unknown => (isPlainObject(value) ? value[key] : undefined);
+
+const reportDuplicates = (entries: NamedEntry[], issues: ValidationIssue[]) => {
+  const seen = new Map<string, string>();
+  entries.forEach(({ name, path }) => {
+    const normalized = name.trim().toLowerCase();
+    const first = seen.get(normalized);
+    if (first) {
+      issues.push({ path, message: `Duplicate name "${name}", already used at ${first}` });
+    } else {
+      seen.set(normalized, path);
+    }
+  });
+};
+
+const checkUniqueNames = (root: Record<string, unknown>, rootPath: string, issues: ValidationIssue[]) => {
+  const foodsPath = `${rootPath}.foodSafety.foods`;
+  reportDuplicates(namesIn(childrenOf(root.foodSafety, 'foods'), foodsPath, 'name'), issues);
+
+  const categoriesPath = `${rootPath}.symptomTroubleshooting.categories`;
+  const categories = childrenOf(root.symptomTroubleshooting, 'categories');
+  reportDuplicates((Array.isArray(categories) ? categories : []).flatMap((category, i) =>
+    namesIn(childrenOf(category, 'symptoms'), `${categoriesPath}[${i}].symptoms`, 'sign')), issues);
+
+  // Medications and combination products share the "medication-" section ids
+  const medicationsPath = `${rootPath}.medications`;
+  const conditions = childrenOf(root.medications, 'byCondition');
+  reportDuplicates([
+    ...(Array.isArray(conditions) ? conditions : []).flatMap((condition, i) =>
+      namesIn(childrenOf(condition, 'medications'), `${medicationsPath}.byCondition[${i}].medications`, 'drug')),
+    ...namesIn(childrenOf(root.medications, 'combinationProducts'), `${medicationsPath}.combinationProducts`, 'name')
+  ], issues);
+};
+
+export const validateKnowledgeBase = (data: unknown): { knowledgeGraph: PregnancyKnowledgeGraph; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const rootPath = '$.pregnancyKnowledgeGraph';
+  const root = isPlainObject(data) ? data.pregnancyKnowledgeGraph : undefined;
+
+  if (!isPlainObject(root)) {
+    issues.push({ path: rootPath, message: `Expected object, got ${describe(root)}` });
+    return { knowledgeGraph: EMPTY_KNOWLEDGE_GRAPH, issues };
+  }
+
+  const knowledgeGraph = { ...EMPTY_KNOWLEDGE_GRAPH };
+  (Object.keys(sectionSchemas) as Array<keyof PregnancyKnowledgeGraph>).forEach(key => {
+    const sectionPath = `${rootPath}.${key}`;
+    if (root[key] === undefined) {
+      issues.push({ path: sectionPath, message: 'Missing required section' });
+      return;
+    }
+    const parsed = sectionSchemas[key](root[key], sectionPath, issues);
+    if (parsed !== undefined) {
+      (knowledgeGraph as Record<string, unknown>)[key] = parsed;
+    }
+  });
+  checkUniqueNames(root, rootPath, issues);
+
+  return { knowledgeGraph, issues };
+};
@@ -0,0 +1,225 @@
+import type OpenAI from 'openai';
+
+// ==================== TYPES ====================
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type ChatOptions = {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+};
+
+export type ProviderKind = 'proxy' | 'local';
+
+export type LLMProviderConfig = {
+  kind: ProviderKind;
+  label: string;
+  baseURL?: string;
+  chatModel: string;
+  embeddingModel: string;
+  temperature: number;
+  maxTokens: number;
+};
+
+export interface LLMProvider {
+  readonly config: LLMProviderConfig;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  streamChat(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<string>;
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+// ==================== PRESETS ====================
+// The proxy preset talks to our own /api routes, which hold the OpenAI key server-side.
+// Local presets target OpenAI-compatible servers such as Ollama (port 11434) or llama.cpp's server (port 8080).
+export const PROVIDER_PRESETS: Record<ProviderKind, LLMProviderConfig> = {
+  proxy: {
+    kind: 'proxy',
+    label: 'OpenAI',
+    baseURL: '/api',
+    chatModel: 'gpt-3.5-turbo',
+    embeddingModel: 'text-embedding-ada-002',
+    temperature: 0.7,
+    maxTokens: 500
+  },
+  local: {
+    kind: 'local',
+    label: 'Local model',
+    baseURL: 'http://localhost:11434/v1',
+    chatModel: 'llama3',
+    embeddingModel: 'nomic-embed-text',
+    temperature: 0.7,
+    maxTokens: 500
+  }
+};
+
+// ==================== OPENAI-COMPATIBLE PROVIDER ====================
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly config: LLMProviderConfig;
+  // Loaded on first use so the SDK stays out of the bundle for the default proxy setup
+  private client: Promise<OpenAI> | null = null;
+
+  constructor(config: LLMProviderConfig) {
+    this.config = config;
+  }
+
+  private getClient(): Promise<OpenAI> {
+    if (!this.client) {
+      this.client = import('openai').then(({ default: OpenAI }) => new OpenAI({
+        // Local servers ignore the key, but the SDK refuses to start without one
+        apiKey: 'not-needed',
+        baseURL: this.config.baseURL,
+        dangerouslyAllowBrowser: true // Only used for local servers; hosted models go through ProxyProvider
+      })).catch(error => {
+        // Let the next request retry if the chunk failed to download
+        this.client = null;
+        throw error;
+      });
+    }
+    return this.client;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const client = await this.getClient();
+    const completion = await client.chat.completions.create(
+      {
+        model: this.config.chatModel,
+        messages,
+        temperature: options.temperature ?? this.config.temperature,
+        max_tokens: options.maxTokens ?? this.config.maxTokens
+      },
+      { signal: options.signal }
+    );
+    return completion.choices[0]?.message.content || '';
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const client = await this.getClient();
+    const stream = await client.chat.completions.create(
+      {
+        model: this.config.chatModel,
+        messages,
+        temperature: options.temperature ?? this.config.temperature,
+        max_tokens: options.maxTokens ?? this.config.maxTokens,
+        stream: true
+      },
+      { signal: options.signal }
+    );
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) return [];
+    const client = await this.getClient();
+    const response = await client.embeddings.create({
+      model: this.config.embeddingModel,
+      input: inputs,
+      // Local servers don't implement the SDK's default base64 encoding
+      encoding_format: 'float'
+    });
+    // Results are not guaranteed to come back in request order
+    return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
+
+// ==================== BACKEND PROXY PROVIDER ====================
+export class ProxyProvider implements LLMProvider {
+  readonly config: LLMProviderConfig;
+
+  constructor(config: LLMProviderConfig) {
+    this.config = config;
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.config.baseURL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.error || `Request to ${path} failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await this.post('/chat', {
+      messages,
+      temperature: options.temperature ?? this.config.temperature,
+      maxTokens: options.maxTokens ?? this.config.maxTokens
+    }, options.signal);
+    const payload = await response.json();
+    return payload.content || '';
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const response = await this.post('/chat', {
+      messages,
+      temperature: options.temperature ?? this.config.temperature,
+      maxTokens: options.maxTokens ?? this.config.maxTokens,
+      stream: true
+    }, options.signal);
+    if (!response.body) throw new Error('Streaming is not supported by this browser');
+
+    // Server-sent events: "data: {token}" lines separated by blank lines, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const event of events) {
+        const isError = event.startsWith('event: error');
+        const data = event.split('\n').find(line => line.startsWith('data: '))?.slice(6);
+        if (!data) continue;
+        if (data === '[DONE]') return;
+        const payload = JSON.parse(data);
+        if (isError) throw new Error(payload.error || 'Streaming failed');
+        if (payload.token) yield payload.token;
+      }
+    }
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) return [];
+    const response = await this.post('/embeddings', { input: inputs });
+    const payload = await response.json();
+    return payload.embeddings;
+  }
+}
+
+// ==================== CONFIGURATION ====================
+const env = import.meta.env;
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+// Reads VITE_LLM_* overrides on top of the chosen preset. None of these are secrets:
+// anything prefixed VITE_ is compiled into the browser bundle.
+export const getProviderConfig = (): LLMProviderConfig => {
+  const kind: ProviderKind = env.VITE_LLM_PROVIDER === 'local' ? 'local' : 'proxy';
+  const preset = PROVIDER_PRESETS[kind];
+  return {
+    ...preset,
+    baseURL: env.VITE_LLM_BASE_URL || preset.baseURL,
+    chatModel: env.VITE_LLM_CHAT_MODEL || preset.chatModel,
+    embeddingModel: env.VITE_LLM_EMBEDDING_MODEL || preset.embeddingModel,
+    temperature: parseNumber(env.VITE_LLM_TEMPERATURE, preset.temperature),
+    maxTokens: parseNumber(env.VITE_LLM_MAX_TOKENS, preset.maxTokens)
+  };
+};
+
+export const createLLMProvider = (config: LLMProviderConfig = getProviderConfig()): LLMProvider =>
+  config.kind === 'proxy' ? new ProxyProvider(config) : new OpenAICompatibleProvider(config);
@@ -0,0 +1,583 @@
+// English is the source locale: every key lives here, and other locales fall back to it key by key
+export const en = {
+  'app.title': 'Pregnancy Care Companion',
+  'app.tagline': 'Your complete pregnancy tracking and health guide',
+  'app.install': 'Install app',
+  'app.language': 'Language',
+  'app.kbDegraded.title': 'Some pregnancy information could not be loaded',
+  'app.kbDegraded.body': 'The app is running in limited mode. Sections with errors are hidden until the knowledge base is fixed.',
+  'app.kbDegraded.more': '…and {count} more',
+
+  'offline.title': "You're offline",
+  'offline.ready': 'Your saved data, the tracker and the Emergency tab still work. Chat answers come from the saved knowledge base until you reconnect.',
+  'offline.notReady': "This device hasn't finished saving the app for offline use, so some information may be missing until you reconnect.",
+
+  'nav.home': 'Home',
+  'nav.tracker': 'Tracker',
+  'nav.medications': 'Meds',
+  'nav.emergency': 'Emergency',
+  'nav.chat': 'Chat',
+
+  'trimester.First': 'First',
+  'trimester.Second': 'Second',
+  'trimester.Third': 'Third',
+
+  'home.welcome': 'Welcome to Your Pregnancy Journey',
+  'home.tracking': 'Currently tracking: Week {week}',
+  'home.gestationalAge': '{weeks}w {days}d',
+  'home.dueDate': 'Due Date: {date}',
+  'home.daysToGo': '{days} days to go',
+  'home.daysPastDue': '{days} days past due',
+  'home.progress': 'Your Pregnancy Progress',
+  'home.trimester': '{trimester} Trimester',
+  'home.editProfile': 'Edit Profile',
+  'home.loadingKb': 'Loading pregnancy knowledge base...',
+  'home.medications': 'Your Medications',
+  'home.dueNow': 'Due now: {doses}',
+  'home.becomes': 'becomes {level} at week {week}',
+  'home.mayContainAllergen': 'may contain your allergen ({allergies})',
+  'home.comingUp': 'Coming Up',
+  'home.card.tracker': 'Week Tracker',
+  'home.card.trackerHint': 'Track your progress',
+  'home.card.medications': 'Medications',
+  'home.card.medicationsHint': 'Check safety',
+  'home.card.symptoms': 'Symptoms',
+  'home.card.symptomsHint': 'Track & understand',
+  'home.card.nutrition': 'Nutrition',
+  'home.card.nutritionHint': 'Daily requirements',
+  'home.emergency.title': 'Quick Emergency Reference',
+  'home.emergency.seekHelp': 'Seek immediate help for:',
+  'home.emergency.viewAll': 'View all emergency symptoms →',
+
+  'medications.checkedAgainst': 'Checked against week {week} ({trimester} trimester) and re-checked as your pregnancy progresses.',
+  'medications.title': 'Medication Safety Checker',
+  'medications.search': 'Search medication (e.g., Tylenol, Crocin, Combiflam)',
+  'medications.fuzzy': 'No exact match for "{query}" - showing the closest names. Check the spelling on the pack.',
+  'medications.notFound': '"{query}" is not in our database',
+  'medications.notFoundAdvice': "That doesn't mean it's safe or unsafe - ask your doctor, midwife or pharmacist before taking it, and bring the pack so they can check every active ingredient.",
+  'medications.didYouMean': 'Did you mean',
+  'medications.byCategory': 'Common Medications by Category',
+  'medications.combination': 'Combination product - rated by its riskiest ingredient',
+  'medications.matched': 'Matched "{name}"',
+  'medications.brand': 'Brand: {brand}',
+  'medications.generic': 'Generic',
+  'medications.aliases': 'Also known as: {names}',
+  'medications.for': 'For: {condition}',
+  'medications.note': 'Note: {note}',
+  'medications.trimesterRule': '{trimesters} trimester: {rating} - {reason}',
+  'medications.allergyAlert': 'Allergy alert: may contain {allergies} from your profile',
+  'medications.notInDatabase': 'Not in our database - ask your provider before taking it',
+  'medications.notInDatabaseShort': 'Not in our database',
+  'medications.unknownIngredients': "Contains {ingredients}, which isn't in our database - ask your provider",
+  'medications.becauseContains': 'Because it contains {ingredient}',
+  'medications.becauseContainsReason': 'Because it contains {ingredient}: {reason}',
+  'medicationLog.title': 'My Medications & Supplements',
+  'medicationLog.dueNow': 'Due now',
+  'medicationLog.markTaken': 'Mark taken',
+  'medicationLog.kind.medication': 'Medication',
+  'medicationLog.kind.supplement': 'Supplement',
+  'medicationLog.noDose': 'No dose set',
+  'medicationLog.daily': 'Daily',
+  'medicationLog.dailyAt': 'Daily at {times}',
+  'medicationLog.asNeeded': 'As needed',
+  'medicationLog.reminderAt': 'Reminder at {time}',
+  'medicationLog.fromWeek': 'From week {week}: {rating} - {reason}',
+  'medicationLog.remove': 'Remove medication',
+  'medicationLog.form.name': 'Name (e.g., Tylenol, Prenatal vitamin)',
+  'medicationLog.form.dose': 'Dose (e.g., 500 mg)',
+  'medicationLog.form.time1': 'First dose time',
+  'medicationLog.form.time2': 'Second dose time (optional)',
+  'medicationLog.form.reminders': 'Remind me at these times',
+  'medicationLog.form.notes': 'Notes (optional)',
+  'medicationLog.form.add': 'Add to my list',
+
+  'emergency.title': 'Emergency Symptoms Guide',
+  'emergency.offlineReady': 'Saved on this device, so this guide works without a connection.',
+  'emergency.seekAttention': 'Seek immediate medical attention for any of these symptoms:',
+  'emergency.category': 'Category: {category}',
+  'emergency.action': 'Action: {action}',
+  'emergency.contactProvider': 'Contact provider: {urgency}',
+  'emergency.dismiss': 'Dismiss alert',
+  'emergency.contacts': 'Emergency Contacts',
+  'emergency.keepHandy': 'Keep these numbers handy:',
+  'emergency.obgyn': 'Your OB/GYN: _______________',
+  'emergency.hospital': 'Hospital L&D: _______________',
+  'emergency.number': 'Emergency: 911',
+
+  'chat.title': 'Pregnancy Assistant',
+  'chat.poweredBy': 'Powered by {provider}',
+  'chat.welcome': "Hello! I'm your pregnancy assistant powered by OpenAI. Ask me about symptoms, medications, nutrition, or anything pregnancy-related!",
+  'chat.newConversation': 'New conversation',
+  'chat.history': 'Past conversations',
+  'chat.searchConversations': 'Search conversations',
+  'chat.noConversations': 'No conversations found',
+  'chat.renameConversation': 'Rename conversation',
+  'chat.deleteConversation': 'Delete conversation',
+  'chat.placeholder': 'Ask about symptoms, medications, or pregnancy...',
+  'chat.stop': 'Stop generating',
+  'chat.footer': 'AI responses use your pregnancy knowledge base when relevant. Always consult your healthcare provider.',
+  'chat.footerOffline': "You're offline: answers come from the saved knowledge base only, and urgent symptoms are still flagged.",
+  'chat.offlineAnswer': "You're offline, so I can't write a full answer. These saved entries match your question:",
+  'chat.offlineNoMatch': "You're offline and nothing saved matches your question. Try again once you're connected, or check the Emergency tab if you're worried.",
+  'chat.urgent.title': 'This may need urgent care',
+  'chat.urgent.because': 'Because you mentioned "{text}"',
+  'chat.urgent.callNow': 'If you feel unwell or unsure, call your provider or emergency services (911) now.',
+  'chat.urgent.guide': 'Emergency guide',
+  'chat.urgent.askAnyway': 'Ask the assistant anyway',
+  'chat.urgent.summary': 'This may need urgent care: {signs}.',
+  'chat.urgent.summaryItem': '{sign} - contact your provider {urgency} ({action})',
+  'chat.kbBased': 'Based on verified medical information',
+  'chat.general': 'General advice - consult your doctor',
+  'chat.uncitedTitle': 'Not backed by the knowledge base - check with your provider',
+  'chat.uncitedHighlighted': 'Highlighted',
+  'chat.uncitedNote': "sentences aren't cited from the knowledge base",
+  'chat.interrupted': 'Answer interrupted - it may be incomplete',
+  'chat.stopped': 'Stopped before an answer was generated',
+  'chat.noResponse': "I couldn't generate a response.",
+  'chat.error': "Sorry, I'm having trouble responding right now. Please try again later.",
+  'chat.retry': 'Retry',
+  'chat.regenerate': 'Regenerate',
+
+  'common.save': 'Save',
+  'common.next': 'Next',
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.date': 'Date',
+  'common.time': 'Time',
+  'common.and': ' and ',
+  'duration.hoursMinutes': '{hours}h {minutes}m',
+  'duration.minutesSeconds': '{minutes}m {seconds}s',
+  'duration.seconds': '{seconds}s',
+
+  'tracker.title': 'Pregnancy Week Tracker',
+  'tracker.basedOn': 'Based on your due date: {date}',
+  'tracker.notSet': 'Not set',
+  'tracker.currentWeek': 'You are currently in Week {week}',
+  'tracker.gestationalAge': 'Gestational age: {weeks} weeks, {days} days ({trimester} trimester)',
+  'tracker.datedBy': 'Dated by: {method}',
+  'tracker.deliveryWindow': 'Likely delivery window: {from} – {to}',
+  'tracker.forYou': 'For you',
+  'tracker.viewingWeek': 'Viewing week {week}',
+  'tracker.backToCurrent': 'Back to current week',
+  'tracker.babyDevelopment': "Baby's Development",
+  'tracker.yourBody': 'Your Body',
+  'tracker.commonSymptoms': 'Common Symptoms',
+  'tracker.exercise': 'Recommended Exercise: {name}',
+  'tracker.checklist': "This Week's Checklist",
+  'tracker.comingSoon': 'Detailed information for week {week} coming soon!',
+  'dating.method.lmp': 'Last menstrual period',
+  'dating.method.dueDate': 'Due date',
+  'dating.method.ivf': 'IVF transfer date',
+  'dating.method.ultrasound': 'Ultrasound (crown-rump length)',
+  'profile.babies.one': 'one baby',
+  'profile.babies.twins': 'twins',
+  'profile.babies.triplets': 'triplets or more',
+  'profile.note.multiples': "Expecting {babies}: you'll usually be offered extra growth scans, and birth before 37 weeks is common.",
+  'profile.note.pretermSigns': 'Learn the signs of preterm labour now - regular tightening, lower back pain or fluid leaking mean calling your provider.',
+  'profile.note.firstBaby': 'First baby: antenatal classes usually start around weeks 28-32, so book a place soon.',
+  'profile.note.previousBirth': 'Labour is often quicker after a previous birth - plan your route to the hospital early.',
+  'profile.conditionNote.diabetes': 'Keep checking your blood sugar as advised; tighter targets and extra growth scans are common in pregnancy.',
+  'profile.conditionNote.highBloodPressure': 'Keep monitoring your blood pressure and report headaches, vision changes or sudden swelling - they can be signs of preeclampsia.',
+  'profile.conditionNote.thyroid': 'Thyroid medication doses often need to rise in pregnancy; ask for thyroid tests each trimester.',
+  'profile.conditionNote.asthma': 'Keep using your preventer inhaler - uncontrolled asthma is riskier for the baby than the medication.',
+  'profile.conditionNote.pcos': 'PCOS raises the chance of gestational diabetes, so an early glucose test may be offered.',
+  'profile.conditionNote.epilepsy': "Don't stop anti-seizure medication on your own; a higher folic acid dose is often recommended.",
+  'profile.conditionNote.anaemia': 'Take iron as prescribed and pair iron-rich meals with vitamin C rather than tea.',
+  'profile.conditionNote.heartDisease': 'Your care team should include a cardiologist; report breathlessness, chest pain or palpitations promptly.',
+  'profile.condition.diabetes': 'Diabetes',
+  'profile.condition.highBloodPressure': 'High blood pressure',
+  'profile.condition.thyroid': 'Thyroid disorder',
+  'profile.condition.asthma': 'Asthma',
+  'profile.condition.pcos': 'PCOS',
+  'profile.condition.epilepsy': 'Epilepsy',
+  'profile.condition.anaemia': 'Anaemia',
+  'profile.condition.heartDisease': 'Heart disease',
+
+  'appointments.title': 'Appointments & Tests',
+  'appointments.export': 'Export to calendar',
+  'appointments.intro': 'Standard scans and check-ups are dated from your due date. Book each within its window and add your results after.',
+  'appointments.intro.multiples': 'Standard scans and check-ups are dated from your due date, with extra growth scans for {babies}. Book each within its window and add your results after.',
+  'appointments.intro.noDueDate': 'Set your due date to see when each standard scan and test is due.',
+  'appointments.showPast': 'Show past and completed ({count})',
+  'appointments.hidePast': 'Hide past and completed ({count})',
+  'appointments.add': 'Add your own appointment',
+  'appointments.form.title': 'Title (e.g., Dental check-up)',
+  'appointments.form.time': 'Time (optional)',
+  'appointments.form.location': 'Clinic or hospital (optional)',
+  'appointments.form.notes': 'Notes - questions to ask, what to bring',
+  'appointments.form.result': 'Results (e.g., NT 1.6 mm, low risk)',
+  'appointments.book': 'Book',
+  'appointments.bookAppointment': 'Book appointment',
+  'appointments.edit': 'Edit appointment, notes and results',
+  'appointments.removeBooking': 'Remove booking',
+  'appointments.delete': 'Delete appointment',
+  'appointments.done': 'Done',
+  'appointments.skip': 'Skip',
+  'appointments.undo': 'Undo',
+  'appointments.skipped': 'Skipped',
+  'appointments.missed': 'Window has passed - mark it done if you had it',
+  'appointments.overdue': 'Did this happen? Mark it done or skipped and add any results.',
+  'appointments.at': 'At: {location}',
+  'appointments.result': 'Result: {result}',
+  'appointments.window.week': 'week {week}',
+  'appointments.window.weeks': 'weeks {from}-{to}',
+  'appointments.bookBy': 'Book by {date}',
+  'appointments.bookBetween': 'Book between {from} and {to}',
+  'appointments.dateAtTime': '{date} at {time}',
+  'appointments.today': 'today',
+  'appointments.tomorrow': 'tomorrow',
+  'appointments.inDays': 'in {days} days',
+  'appointments.ics.bookFor': 'Book for {window} ({from} to {to}).',
+  'appointments.ics.notes': 'Notes: {notes}',
+  'appointments.ics.book': 'Book: {title}',
+
+  'reminders.title': 'Reminders',
+  'reminders.permission.granted': "Notifications are on. Reminders only go off while the app is open, even in a background tab; nothing arrives once it's closed.",
+  'reminders.permission.denied': 'Notifications are blocked for this site - allow them in your browser settings. Until then, reminders show here while the app is open.',
+  'reminders.permission.unsupported': "This browser can't show notifications, so reminders show here while the app is open.",
+  'reminders.permission.default': 'Turn on notifications to be reminded even when this tab is in the background.',
+  'reminders.enable': 'Turn on notifications',
+  'reminders.comingUp': 'Coming up',
+  'reminders.todayAt': 'Today {time}',
+  'reminders.snoozed': 'snoozed',
+  'reminders.delete': 'Delete reminder',
+  'reminders.open': 'Open',
+  'reminders.dismiss': 'Dismiss reminder',
+  'reminders.snooze': 'Snooze {minutes} min',
+  'reminders.done': 'Done',
+  'reminders.minutes': '{minutes} min',
+  'reminders.settings.vitamins': 'Prenatal vitamin (folic acid and iron)',
+  'reminders.settings.vitaminsTime': 'Vitamin reminder time',
+  'reminders.settings.kickCount': 'Daily kick count (from week {week})',
+  'reminders.settings.kickCountTime': 'Kick count reminder time',
+  'reminders.settings.medications': 'Medication doses with reminders on',
+  'reminders.settings.appointments': 'Appointments the evening before, and when a test is due to be booked',
+  'reminders.settings.weeklyDigest': 'Weekly "you\'re now in week N" update',
+  'reminders.settings.quietFrom': 'Quiet hours from',
+  'reminders.settings.quietTo': 'to',
+  'reminders.settings.quietStart': 'Quiet hours start',
+  'reminders.settings.quietEnd': 'Quiet hours end',
+  'reminders.settings.snoozeFor': 'Snooze for',
+  'reminders.settings.quietNote': 'Reminders due during quiet hours wait until they end.',
+  'reminders.settings.save': 'Save reminder settings',
+  'reminders.custom.title': 'Remind me to... (e.g., Drink water)',
+  'reminders.custom.repeat': 'Repeat',
+  'reminders.custom.daily': 'Every day',
+  'reminders.custom.weekly': 'Some days of the week',
+  'reminders.custom.once': 'Once',
+  'reminders.custom.body': 'Details (optional)',
+  'reminders.custom.add': 'Add reminder',
+  'reminders.rule.daily': 'Daily at {times}',
+  'reminders.rule.weekly': '{days} at {time}',
+  'reminders.vitamins.title': 'Time for your prenatal vitamin',
+  'reminders.vitamins.aimFor': 'Aim for {amounts} a day.',
+  'reminders.vitamins.body': 'Take your prenatal vitamin with food.',
+  'reminders.medication.title': 'Time for {name}',
+  'reminders.medication.bodyWithDose': '{dose} - mark it taken in the app',
+  'reminders.medication.body': 'Mark it taken in the app',
+  'reminders.kickCount.title': 'Time to count kicks',
+  'reminders.kickCount.body': 'Lie on your side and count until you feel 10 movements.',
+  'reminders.appointment.title': 'Tomorrow: {title}',
+  'reminders.appointment.at': 'at {time}',
+  'reminders.appointment.body': 'Check the time with your clinic.',
+  'reminders.booking.title': 'Time to book: {title}',
+  'reminders.booking.body': 'Book it with your provider.',
+  'reminders.weeklyDigest.title': "You're now in week {week}",
+  'reminders.weeklyDigest.thisWeek': 'This week: {item}',
+  'reminders.weeklyDigest.body': 'See what is new this week in the tracker.',
+
+  'tools.openEmergency': 'Open emergency guidance →',
+  'tools.week': 'week {week}',
+  'kicks.title': 'Kick Counter',
+  'kicks.intro': 'Once a day, when your baby is usually active, time how long it takes to feel {target} movements - kicks, rolls, swishes and flutters all count.',
+  'kicks.startWeek': 'Daily counts usually start at week {week}.',
+  'kicks.soFar': '{duration} so far',
+  'kicks.felt': 'Felt a movement',
+  'kicks.stop': 'Stop',
+  'kicks.start': 'Start counting',
+  'kicks.baseline': 'Your baby usually reaches {target} in about {duration}.',
+  'kicks.recent': 'Recent counts',
+  'kicks.reached': '{count} in {duration}',
+  'kicks.stopped': '{count} in {duration}, stopped',
+  'kicks.delete': 'Delete count',
+  'kicks.alert.noTarget.title': 'Fewer than {target} movements in 2 hours',
+  'kicks.alert.noTarget.message': "Contact your maternity unit now for monitoring - don't wait until tomorrow.",
+  'kicks.alert.slower.title': 'Your baby is moving less than usual',
+  'kicks.alert.slower.message': '{target} movements usually take about {usual}. Contact your maternity unit today for a check, even if movements pick up.',
+  'contractions.title': 'Contraction Timer',
+  'contractions.intro': 'Tap when a contraction starts and again when it ends.',
+  'contractions.intro.preterm': 'Before 37 weeks, call your provider if you have 4 or more in 20 minutes.',
+  'contractions.intro.term': 'From 37 weeks, head in at 5-1-1: every 5 minutes, lasting 1 minute, for 1 hour.',
+  'contractions.started': 'Contraction started',
+  'contractions.ended': 'Contraction ended ({duration})',
+  'contractions.lastHour': 'Last hour: {count} contractions',
+  'contractions.lastHour.one': 'Last hour: {count} contraction',
+  'contractions.averageDuration': 'lasting {duration} on average',
+  'contractions.averageInterval': 'every {duration}',
+  'contractions.column.started': 'Started',
+  'contractions.column.lasted': 'Lasted',
+  'contractions.column.since': 'Since previous',
+  'contractions.ongoing': 'Ongoing',
+  'contractions.delete': 'Delete contraction',
+  'contractions.alert.preterm.title': 'Regular contractions before 37 weeks',
+  'contractions.alert.preterm.message': 'This could be preterm labor. Call labor and delivery now, or go in if you have bleeding, fluid leaking or strong pain.',
+  'contractions.alert.labor.title': 'Your contractions match 5-1-1',
+  'contractions.alert.labor.message': 'Contractions 5 minutes apart, lasting a minute, for an hour usually mean active labor. Call labor and delivery and head in.',
+
+  'triage.yes': 'Yes',
+  'triage.no': 'No',
+  'triage.none': 'None',
+  'triage.unit.days': 'days',
+  'triage.unit.weeks': 'weeks',
+  'triage.unit.fahrenheit': '°F',
+  'triage.unit.celsius': '°C',
+  'triage.accompanying': 'Do you also have any of these?',
+  'triage.accompanying.heavyBleeding': 'Heavy bleeding or clots',
+  'triage.accompanying.severePain': 'Severe belly pain',
+  'triage.accompanying.vision': 'Blurry vision, spots or flashing lights',
+  'triage.accompanying.legSwelling': 'Pain and swelling in one leg',
+  'triage.accompanying.faceSwelling': 'Sudden swelling of the face or hands',
+  'triage.bleeding': 'Bleeding or spotting',
+  'triage.bleeding.amount': 'How much are you bleeding?',
+  'triage.bleeding.amount.spotting': 'Spotting - a few drops, pink or brown',
+  'triage.bleeding.amount.heavy': 'Heavy - soaking a pad within an hour or passing clots',
+  'triage.bleeding.duration': 'How long has the spotting lasted?',
+  'triage.bleeding.guidance': 'Keep a note of the amount and colour and mention it to your provider.',
+  'triage.discharge': 'Vaginal discharge',
+  'triage.discharge.color': 'What does the discharge look like?',
+  'triage.discharge.color.clear': 'Clear or milky white, mild smell',
+  'triage.discharge.color.colored': 'Green or yellow, or a strong smell',
+  'triage.discharge.color.watery': 'Watery fluid leaking or a sudden gush',
+  'triage.discharge.guidance': 'Thin, milky discharge is common in pregnancy. If watery fluid keeps leaking or comes in a gush, your waters may have broken - call your provider or labor and delivery.',
+  'triage.abdominalPain': 'Belly pain or cramping',
+  'triage.abdominalPain.intensity': 'How bad is the pain?',
+  'triage.abdominalPain.intensity.mild': 'Mild - like period cramps, eases with rest',
+  'triage.abdominalPain.intensity.severe': 'Severe or sharp - hard to walk or talk through',
+  'triage.abdominalPain.pattern': 'Does it come and go in a regular pattern, like tightening every 10 minutes or less?',
+  'triage.abdominalPain.week': 'Which week of pregnancy are you in?',
+  'triage.abdominalPain.guidance': 'Regular contractions from 37 weeks may be labor. Call your provider or labor and delivery when they come every 5 minutes, last 1 minute each, for at least 1 hour - or sooner if your waters break.',
+  'triage.headache': 'Headache',
+  'triage.headache.intensity': 'How bad is the headache?',
+  'triage.headache.intensity.mild': 'Mild to moderate, eases with rest or water',
+  'triage.headache.intensity.severe': "Severe or the worst you've had, not easing",
+  'triage.headache.vision': 'Is your vision blurry, or are you seeing spots or flashing lights?',
+  'triage.headache.guidance': "A mild headache is common. Rest, drink water and check the Medications tab for pain relief that is safe in pregnancy. Call your provider if it gets worse or doesn't go away.",
+  'triage.fever': 'Fever',
+  'triage.fever.temperature': 'What is your temperature?',
+  'triage.fever.unit': 'Was that in °F or °C?',
+  'triage.fever.guidance': 'That temperature is not a fever. Rest, drink fluids and measure again if you feel unwell.',
+  'triage.swelling': 'Swelling',
+  'triage.swelling.location': 'Where is the swelling?',
+  'triage.swelling.location.feet': 'Feet and ankles',
+  'triage.swelling.location.faceHands': 'Face or hands',
+  'triage.swelling.location.oneLeg': 'One leg more than the other',
+  'triage.swelling.onset': 'Did it come on suddenly (over hours or a day)?',
+  'triage.swelling.legPain': 'Is that leg painful, warm or red?',
+  'triage.swelling.guidance': 'Gradual swelling of the feet and ankles is common later in pregnancy. Put your feet up and keep drinking water, and call your provider if it comes on suddenly or affects your face or hands.',
+  'triage.title': 'Guided Symptom Check',
+  'triage.alsoMentioned': 'You also mentioned',
+  'triage.checkAnother': 'Check another symptom',
+  'triage.noneOfThese': 'None of these',
+  'triage.recent': 'Recent Symptom Checks',
+  'triage.also': 'Also: {signs}',
+
+  'symptoms.title': 'Symptom Tracker',
+  'symptoms.search': 'Describe your symptom (e.g., bleeding, pain, fever)',
+  'symptoms.byCategory': 'All Symptoms by Category',
+  'symptoms.openEmergencyGuide': 'Open the emergency guide',
+  'symptoms.alertLine': '{sign}: {action} - contact your provider {urgency}',
+  'journal.title': 'Symptom Journal',
+  'journal.form.symptom': 'Symptom (e.g., Nausea, Mild cramping)',
+  'journal.form.severity': 'Severity',
+  'journal.form.add': 'Add to journal',
+  'journal.severity.mild': 'Mild',
+  'journal.severity.moderate': 'Moderate',
+  'journal.severity.severe': 'Severe',
+  'journal.last12Weeks': 'Last 12 weeks',
+  'journal.dayEntries.one': '{date}: {count} entry',
+  'journal.dayEntries': '{date}: {count} entries',
+  'journal.heatmapLegend': 'Darker days have more entries; a red ring marks a severe entry.',
+  'journal.nothingLogged': 'Nothing logged this day',
+  'journal.week': 'Week {week}',
+  'journal.seeEmergency': '{signs} - see emergency guidance',
+  'journal.delete': 'Delete entry',
+  'journal.trends': 'This week vs last week',
+  'journal.column.symptom': 'Symptom',
+  'journal.column.thisWeek': 'Last 7 days',
+  'journal.column.lastWeek': '7 days before',
+  'journal.column.trend': 'Trend',
+  'journal.average': '(avg {severity})',
+
+  'vitals.title': 'Blood Pressure, Glucose & Swelling',
+  'vitals.alertLimits': 'Alert limits',
+  'vitals.conditionNote': 'With {conditions} in your profile, log readings as often as your provider asks and bring this record to visits.',
+  'vitals.kind.bloodPressure': 'Blood pressure',
+  'vitals.kind.glucose': 'Glucose',
+  'vitals.kind.weight': 'Weight',
+  'vitals.kind.swelling': 'Swelling',
+  'vitals.form.systolic': 'Systolic (top)',
+  'vitals.form.diastolic': 'Diastolic (bottom)',
+  'vitals.form.glucose': 'Glucose ({unit})',
+  'vitals.form.weight': 'Weight ({unit})',
+  'vitals.form.sudden': 'Came on suddenly',
+  'vitals.form.log': 'Log reading',
+  'vitals.timing.fasting': 'Fasting',
+  'vitals.timing.oneHour': '1 hour after a meal',
+  'vitals.timing.twoHour': '2 hours after a meal',
+  'vitals.area.feet': 'Feet and ankles',
+  'vitals.area.hands': 'Hands',
+  'vitals.area.face': 'Face',
+  'vitals.area.oneLeg': 'One leg more than the other',
+  'vitals.sudden': '{areas} (sudden)',
+  'vitals.alert.severeBloodPressure': '{reading} is at or above {limit}. Get care now, especially with a headache, vision changes or upper belly pain.',
+  'vitals.alert.highBloodPressure': "{reading} is at or above {limit}. Rest for 15 minutes and measure again; if it's still high, call your provider today.",
+  'vitals.alert.lowGlucose': '{value} is low. Have 15 g of fast-acting sugar, such as half a glass of juice, and check again in 15 minutes.',
+  'vitals.alert.repeatedHighGlucose': '{value} is above your {timing} target of {target}, with {count} high readings this week. Call your provider about your treatment.',
+  'vitals.alert.highGlucose': '{value} is above your {timing} target of {target}. Note what you ate and mention it at your next visit.',
+  'vitals.alert.faceHandSwelling': 'Sudden swelling of the face or hands can be a sign of preeclampsia. Check your blood pressure and call your provider today.',
+  'vitals.alert.legSwelling': 'Swelling in one leg, especially if it is painful, warm or red, can be a blood clot. Get seen today.',
+  'vitals.alert.weightGain': "You've gained {gain} in a week. Sudden gain can come from fluid retention in preeclampsia - check your blood pressure and call your provider.",
+  'vitals.alertAdvice': '{action} • contact your provider {urgency}',
+  'vitals.limits.intro': 'Alerts use these limits. Your provider may give you different targets.',
+  'vitals.limits.systolic': 'High systolic',
+  'vitals.limits.diastolic': 'High diastolic',
+  'vitals.limits.severeSystolic': 'Severe systolic',
+  'vitals.limits.severeDiastolic': 'Severe diastolic',
+  'vitals.limits.glucoseUnit': 'Glucose unit',
+  'vitals.limits.fasting': 'Fasting target',
+  'vitals.limits.oneHour': '1 hour target',
+  'vitals.limits.twoHour': '2 hour target',
+  'vitals.limits.lowGlucose': 'Low glucose',
+  'vitals.limits.weeklyGain': 'Weekly gain ({unit})',
+  'vitals.limits.unitNote': 'Glucose limits are read in the unit selected above.',
+  'vitals.limits.reset': 'Reset to defaults',
+  'vitals.chart.bloodPressure': 'Blood pressure readings over time',
+  'vitals.chart.glucose': 'Glucose readings over time',
+  'vitals.chart.fastingLimit': 'fast',
+  'vitals.chart.oneHourLimit': '1h',
+  'vitals.legend.fasting': 'fasting',
+  'vitals.legend.oneHour': '1 hour after',
+  'vitals.legend.twoHour': '2 hours after',
+  'vitals.delete': 'Delete reading',
+  'vitals.seeWeightChart': 'See your weight chart on the Nutrition tab →',
+
+  'diet.nonVegetarian': 'Non-vegetarian',
+  'diet.pescatarian': 'Pescatarian (fish, no meat)',
+  'diet.eggetarian': 'Eggetarian (vegetarian plus eggs)',
+  'diet.vegetarian': 'Vegetarian (no meat, fish or eggs)',
+  'diet.jain': 'Jain',
+  'diet.vegan': 'Vegan',
+  'diet.note.veganB12': 'Vegan diets need a B12 supplement, and calcium and vitamin D from fortified plant milks or tablets.',
+  'diet.note.veganDha': 'Get omega-3 DHA from an algae-based supplement, and iron from dal, chana and greens eaten with vitamin C.',
+  'diet.note.vegetarianB12': 'Vegetarian diets need reliable B12 from dairy, eggs or a supplement.',
+  'diet.note.vegetarianIron': 'Pair iron-rich dal, rajma and greens with vitamin C, and ask about an algae-based DHA supplement.',
+
+  'nutrition.title': 'Nutrition Planner',
+  'nutrition.forDiet': 'For your {diet} diet',
+  'nutrition.daily': 'Daily Nutritional Requirements',
+  'nutrition.weightGain': 'Recommended Weight Gain',
+  'nutrition.bmiRange': 'BMI range',
+  'nutrition.totalGain': 'Total gain',
+  'nutrition.totalGainTwins': 'Total gain (twins)',
+  'nutrition.noGuideline': 'No guideline',
+  'nutrition.avoid': 'Foods to Avoid',
+  'nutrition.unsafeSeafood': 'Unsafe Seafood (High Mercury)',
+  'nutrition.includes': 'includes {items}',
+  'nutrition.morningSickness': 'Morning Sickness Tips',
+  'nutrition.whatToEat': 'What to Eat:',
+  'nutrition.foodsToAvoid': 'Foods to Avoid:',
+  'nutrition.eatingTips': 'Eating Tips:',
+
+  'foodDiary.title': 'Food Diary',
+  'foodDiary.form.food': 'Food (e.g., Dal, Paneer, Prenatal vitamin)',
+  'foodDiary.form.meal': 'Meal',
+  'foodDiary.form.servings': 'Servings',
+  'foodDiary.form.add': 'Add to diary',
+  'foodDiary.meal.breakfast': 'Breakfast',
+  'foodDiary.meal.lunch': 'Lunch',
+  'foodDiary.meal.dinner': 'Dinner',
+  'foodDiary.meal.snack': 'Snack',
+  'foodDiary.notFound': '"{food}" isn\'t in the nutrient database yet - pick a food from the list.',
+  'foodDiary.overLimit': 'Above the safe upper limit',
+  'foodDiary.overLimitLine': '{nutrient}: {total} (limit {limit})',
+  'foodDiary.aboveRange': 'Above the recommended range',
+  'foodDiary.prescribed': "Above the everyday limit of {limit} because of a prescribed supplement. Take it as prescribed, and check with your provider if you're unsure of the dose.",
+  'foodDiary.empty': 'Nothing logged for this day yet.',
+  'foodDiary.mayContain': 'may contain {allergies}',
+
+  'food.title': 'Food Safety Checker',
+  'food.search': 'Search a food in any language (e.g., Surmai, paneer, chai, seafood)',
+  'food.verdict.safe': 'Safe',
+  'food.verdict.limit': 'Limit',
+  'food.verdict.avoid': 'Avoid',
+  'food.limit': 'Up to {amount} {unit} per {per}',
+  'food.per.day': 'day',
+  'food.per.week': 'week',
+  'food.category': 'All {category} in our guide, foods to avoid first',
+  'food.fuzzy': 'No exact match for "{query}" - showing the closest names.',
+  'food.dietHidden.one': '{count} result hidden for your {diet} diet.',
+  'food.dietHidden': '{count} results hidden for your {diet} diet.',
+  'food.dietShown.one': 'Including {count} food your {diet} diet excludes.',
+  'food.dietShown': 'Including {count} foods your {diet} diet excludes.',
+  'food.hideThem': 'Hide them',
+  'food.showAnyway': 'Show anyway',
+  'food.alsoCalled': 'Also called {names}',
+  'food.notFound': '"{query}" is not in our food guide',
+  'food.notFoundAdvice': "As a rule: cook meat, fish and eggs through, choose pasteurized dairy, wash produce, and ask your provider about anything you're unsure of.",
+
+  'weight.chart': 'Weight gain compared with the recommended range',
+  'weight.chart.week': 'week',
+  'weight.profile.intro': 'Enter your height and pre-pregnancy weight to track your gain against the recommended range.',
+  'weight.profile.unit': 'Units',
+  'weight.profile.imperial': 'Pounds / inches',
+  'weight.profile.metric': 'Kilograms / centimetres',
+  'weight.profile.height': 'Height',
+  'weight.profile.weight': 'Pre-pregnancy weight',
+  'weight.profile.edit': 'Edit height and weight',
+  'weight.bmi': 'Pre-pregnancy BMI',
+  'weight.totalRange': 'gain {min} - {max} in total',
+  'weight.twinRange': '(twin range)',
+  'weight.status': "At week {week} you've gained {gain}; the recommended range for now is {min} - {max}.",
+  'weight.status.within': "You're on track.",
+  'weight.status.above': "That's above the range - mention it at your next visit.",
+  'weight.status.below': "That's below the range - mention it at your next visit.",
+  'weight.noRange': "There's no standard weight gain range for {babies} at your BMI - ask your provider for a personal target.",
+  'weight.setDueDate': 'Set your due date to place weigh-ins on the chart.',
+  'weight.log': 'Log weigh-in',
+  'weight.delete': 'Delete weigh-in',
+
+  'onboarding.title.dating': 'Your Due Date',
+  'onboarding.title.pregnancy': 'Your Pregnancy',
+  'onboarding.title.health': 'Your Health',
+  'onboarding.close': 'Close',
+  'onboarding.step': 'Step {step} of {total} - this personalizes every tab and stays on this device',
+  'onboarding.dating.method': 'Date my pregnancy by:',
+  'onboarding.dating.dueDate': 'Enter your due date:',
+  'onboarding.dating.lmp': 'First day of your last period:',
+  'onboarding.dating.cycleLength': 'Average cycle length (days):',
+  'onboarding.dating.transferDate': 'Embryo transfer date:',
+  'onboarding.dating.embryoAge': 'Embryo age at transfer:',
+  'onboarding.dating.day3': 'Day 3',
+  'onboarding.dating.day5': 'Day 5 (blastocyst)',
+  'onboarding.dating.scanDate': 'Scan date:',
+  'onboarding.dating.crownRumpLength': 'Crown-rump length (mm):',
+  'onboarding.dating.invalid': "These details don't give a valid due date. Please check the values and try again.",
+  'onboarding.babies': 'How many babies are you expecting?',
+  'onboarding.babies.one': 'One',
+  'onboarding.babies.twins': 'Twins',
+  'onboarding.babies.triplets': 'Triplets or more',
+  'onboarding.parity': 'How many times have you given birth before?',
+  'onboarding.diet': 'Diet:',
+  'onboarding.allergies': 'Allergies (foods or medicines, comma separated):',
+  'onboarding.allergies.placeholder': 'e.g., peanuts, penicillin',
+  'onboarding.conditions': 'Conditions you had before pregnancy:',
+  'onboarding.conditions.other': 'Other conditions',
+  'onboarding.medications': 'Medicines or supplements you take now:',
+  'onboarding.medications.placeholder': 'e.g., Thyronorm, prenatal vitamin',
+  'onboarding.medications.existing': 'Already in your list: {names}',
+  'onboarding.medications.note': 'Added from your profile - set a dose and schedule to get reminders',
+  'onboarding.save': 'Save Profile'
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Partial<Record<MessageKey, string>>;
@@ -0,0 +1,581 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'app.title': 'गर्भावस्था देखभाल साथी',
+  'app.tagline': 'गर्भावस्था ट्रैकिंग और स्वास्थ्य के लिए आपकी पूरी गाइड',
+  'app.install': 'ऐप इंस्टॉल करें',
+  'app.language': 'भाषा',
+  'app.kbDegraded.title': 'गर्भावस्था की कुछ जानकारी लोड नहीं हो सकी',
+  'app.kbDegraded.body': 'ऐप सीमित मोड में चल रहा है। ज्ञान आधार ठीक होने तक त्रुटि वाले भाग छिपे रहेंगे।',
+  'app.kbDegraded.more': '…और {count}',
+
+  'offline.title': 'आप ऑफ़लाइन हैं',
+  'offline.ready': 'आपका सहेजा गया डेटा, ट्रैकर और आपातकालीन टैब अब भी काम करते हैं। दोबारा कनेक्ट होने तक चैट के जवाब सहेजे गए ज्ञान आधार से आएंगे।',
+  'offline.notReady': 'यह डिवाइस अभी ऑफ़लाइन उपयोग के लिए ऐप पूरी तरह सहेज नहीं पाया है, इसलिए दोबारा कनेक्ट होने तक कुछ जानकारी नहीं दिख सकती।',
+
+  'nav.home': 'होम',
+  'nav.tracker': 'ट्रैकर',
+  'nav.medications': 'दवाइयाँ',
+  'nav.emergency': 'आपातकाल',
+  'nav.chat': 'चैट',
+
+  'trimester.First': 'पहली',
+  'trimester.Second': 'दूसरी',
+  'trimester.Third': 'तीसरी',
+
+  'home.welcome': 'आपकी गर्भावस्था यात्रा में स्वागत है',
+  'home.tracking': 'अभी का सप्ताह: {week}',
+  'home.gestationalAge': '{weeks} सप्ताह {days} दिन',
+  'home.dueDate': 'नियत तिथि: {date}',
+  'home.daysToGo': '{days} दिन बाकी',
+  'home.daysPastDue': 'नियत तिथि से {days} दिन ऊपर',
+  'home.progress': 'आपकी गर्भावस्था की प्रगति',
+  'home.trimester': '{trimester} तिमाही',
+  'home.editProfile': 'प्रोफ़ाइल बदलें',
+  'home.loadingKb': 'गर्भावस्था ज्ञान आधार लोड हो रहा है...',
+  'home.medications': 'आपकी दवाइयाँ',
+  'home.dueNow': 'अभी लेनी है: {doses}',
+  'home.becomes': 'सप्ताह {week} से {level}',
+  'home.mayContainAllergen': 'इसमें आपकी एलर्जी वाली चीज़ हो सकती है ({allergies})',
+  'home.comingUp': 'आगे क्या है',
+  'home.card.tracker': 'सप्ताह ट्रैकर',
+  'home.card.trackerHint': 'अपनी प्रगति देखें',
+  'home.card.medications': 'दवाइयाँ',
+  'home.card.medicationsHint': 'सुरक्षा जाँचें',
+  'home.card.symptoms': 'लक्षण',
+  'home.card.symptomsHint': 'दर्ज करें और समझें',
+  'home.card.nutrition': 'पोषण',
+  'home.card.nutritionHint': 'रोज़ की ज़रूरतें',
+  'home.emergency.title': 'आपातकाल की त्वरित जानकारी',
+  'home.emergency.seekHelp': 'इनके लिए तुरंत मदद लें:',
+  'home.emergency.viewAll': 'सभी आपातकालीन लक्षण देखें →',
+
+  'medications.checkedAgainst': 'सप्ताह {week} ({trimester} तिमाही) के अनुसार जाँचा गया, और गर्भावस्था आगे बढ़ने पर फिर से जाँचा जाएगा।',
+  'medications.title': 'दवा सुरक्षा जाँच',
+  'medications.search': 'दवा खोजें (जैसे, Tylenol, Crocin, Combiflam)',
+  'medications.fuzzy': '"{query}" से सटीक मेल नहीं मिला - सबसे मिलते-जुलते नाम दिखाए जा रहे हैं। पैक पर स्पेलिंग जाँचें।',
+  'medications.notFound': '"{query}" हमारे डेटाबेस में नहीं है',
+  'medications.notFoundAdvice': 'इसका मतलब यह नहीं कि यह सुरक्षित या असुरक्षित है - लेने से पहले अपने डॉक्टर, मिडवाइफ़ या फ़ार्मासिस्ट से पूछें, और पैक साथ ले जाएँ ताकि वे हर सक्रिय घटक जाँच सकें।',
+  'medications.didYouMean': 'क्या आपका मतलब था',
+  'medications.byCategory': 'श्रेणी के अनुसार आम दवाएँ',
+  'medications.combination': 'मिश्रित दवा - सबसे जोखिम भरे घटक के आधार पर रेटिंग',
+  'medications.matched': '"{name}" से मेल',
+  'medications.brand': 'ब्रांड: {brand}',
+  'medications.generic': 'जेनेरिक',
+  'medications.aliases': 'इन नामों से भी जानी जाती है: {names}',
+  'medications.for': 'किसके लिए: {condition}',
+  'medications.note': 'नोट: {note}',
+  'medications.trimesterRule': '{trimesters} तिमाही: {rating} - {reason}',
+  'medications.allergyAlert': 'एलर्जी चेतावनी: इसमें आपकी प्रोफ़ाइल की {allergies} हो सकती है',
+  'medications.notInDatabase': 'हमारे डेटाबेस में नहीं है - लेने से पहले अपने डॉक्टर से पूछें',
+  'medications.notInDatabaseShort': 'हमारे डेटाबेस में नहीं',
+  'medications.unknownIngredients': 'इसमें {ingredients} है, जो हमारे डेटाबेस में नहीं है - अपने डॉक्टर से पूछें',
+  'medications.becauseContains': 'क्योंकि इसमें {ingredient} है',
+  'medications.becauseContainsReason': 'क्योंकि इसमें {ingredient} है: {reason}',
+  'medicationLog.title': 'मेरी दवाएँ और सप्लीमेंट',
+  'medicationLog.dueNow': 'अभी लेनी है',
+  'medicationLog.markTaken': 'ली गई चिह्नित करें',
+  'medicationLog.kind.medication': 'दवा',
+  'medicationLog.kind.supplement': 'सप्लीमेंट',
+  'medicationLog.noDose': 'खुराक तय नहीं',
+  'medicationLog.daily': 'रोज़',
+  'medicationLog.dailyAt': 'रोज़ {times} बजे',
+  'medicationLog.asNeeded': 'ज़रूरत पड़ने पर',
+  'medicationLog.reminderAt': '{time} बजे रिमाइंडर',
+  'medicationLog.fromWeek': 'सप्ताह {week} से: {rating} - {reason}',
+  'medicationLog.remove': 'दवा हटाएँ',
+  'medicationLog.form.name': 'नाम (जैसे, Tylenol, प्रसव-पूर्व विटामिन)',
+  'medicationLog.form.dose': 'खुराक (जैसे, 500 mg)',
+  'medicationLog.form.time1': 'पहली खुराक का समय',
+  'medicationLog.form.time2': 'दूसरी खुराक का समय (वैकल्पिक)',
+  'medicationLog.form.reminders': 'इन समयों पर मुझे याद दिलाएँ',
+  'medicationLog.form.notes': 'नोट्स (वैकल्पिक)',
+  'medicationLog.form.add': 'मेरी सूची में जोड़ें',
+
+  'emergency.title': 'आपातकालीन लक्षण गाइड',
+  'emergency.offlineReady': 'यह गाइड इस डिवाइस पर सहेजी गई है, इसलिए इंटरनेट के बिना भी काम करती है।',
+  'emergency.seekAttention': 'इनमें से कोई भी लक्षण हो तो तुरंत डॉक्टरी मदद लें:',
+  'emergency.category': 'श्रेणी: {category}',
+  'emergency.action': 'क्या करें: {action}',
+  'emergency.contactProvider': 'डॉक्टर से संपर्क: {urgency}',
+  'emergency.dismiss': 'सूचना हटाएँ',
+  'emergency.contacts': 'आपातकालीन संपर्क',
+  'emergency.keepHandy': 'ये नंबर पास रखें:',
+  'emergency.obgyn': 'आपकी स्त्री रोग विशेषज्ञ: _______________',
+  'emergency.hospital': 'अस्पताल का प्रसव कक्ष: _______________',
+  'emergency.number': 'आपातकाल: 112 • एम्बुलेंस: 108',
+
+  'chat.title': 'गर्भावस्था सहायक',
+  'chat.poweredBy': '{provider} द्वारा संचालित',
+  'chat.welcome': 'नमस्ते! मैं आपका गर्भावस्था सहायक हूँ। लक्षण, दवाइयाँ, पोषण या गर्भावस्था से जुड़ा कुछ भी पूछें!',
+  'chat.newConversation': 'नई बातचीत',
+  'chat.history': 'पिछली बातचीत',
+  'chat.searchConversations': 'बातचीत खोजें',
+  'chat.noConversations': 'कोई बातचीत नहीं मिली',
+  'chat.renameConversation': 'बातचीत का नाम बदलें',
+  'chat.deleteConversation': 'बातचीत हटाएँ',
+  'chat.placeholder': 'लक्षण, दवाइयों या गर्भावस्था के बारे में पूछें...',
+  'chat.stop': 'जवाब रोकें',
+  'chat.footer': 'AI के जवाब ज़रूरत होने पर आपके गर्भावस्था ज्ञान आधार का उपयोग करते हैं। हमेशा अपने डॉक्टर से सलाह लें।',
+  'chat.footerOffline': 'आप ऑफ़लाइन हैं: जवाब केवल सहेजे गए ज्ञान आधार से आएंगे, और गंभीर लक्षणों की चेतावनी फिर भी मिलेगी।',
+  'chat.offlineAnswer': 'आप ऑफ़लाइन हैं, इसलिए पूरा जवाब नहीं लिखा जा सकता। सहेजी गई यह जानकारी आपके सवाल से मेल खाती है:',
+  'chat.offlineNoMatch': 'आप ऑफ़लाइन हैं और सहेजी गई कोई जानकारी आपके सवाल से मेल नहीं खाती। कनेक्ट होने पर फिर से पूछें, या चिंता हो तो आपातकालीन टैब देखें।',
+  'chat.urgent.title': 'इसमें तुरंत देखभाल की ज़रूरत हो सकती है',
+  'chat.urgent.because': 'क्योंकि आपने "{text}" लिखा',
+  'chat.urgent.callNow': 'अगर तबीयत ठीक न लगे या संदेह हो, तो अभी अपने डॉक्टर को या आपातकालीन सेवा (112, एम्बुलेंस 108) को फ़ोन करें।',
+  'chat.urgent.guide': 'आपातकालीन गाइड',
+  'chat.urgent.askAnyway': 'फिर भी सहायक से पूछें',
+  'chat.urgent.summary': 'इसमें तुरंत देखभाल की ज़रूरत हो सकती है: {signs}।',
+  'chat.urgent.summaryItem': '{sign} - {urgency} अपने डॉक्टर से संपर्क करें ({action})',
+  'chat.kbBased': 'सत्यापित चिकित्सा जानकारी पर आधारित',
+  'chat.general': 'सामान्य सलाह - अपने डॉक्टर से पूछें',
+  'chat.uncitedTitle': 'ज्ञान आधार से पुष्टि नहीं - अपने डॉक्टर से पूछें',
+  'chat.uncitedHighlighted': 'हाइलाइट किए गए',
+  'chat.uncitedNote': 'वाक्यों का ज्ञान आधार में स्रोत नहीं है',
+  'chat.interrupted': 'जवाब बीच में रुक गया - यह अधूरा हो सकता है',
+  'chat.stopped': 'जवाब बनने से पहले रोक दिया गया',
+  'chat.noResponse': 'मैं जवाब नहीं बना सका।',
+  'chat.error': 'माफ़ कीजिए, अभी जवाब देने में दिक्कत हो रही है। कृपया थोड़ी देर बाद फिर कोशिश करें।',
+  'chat.retry': 'फिर कोशिश करें',
+  'chat.regenerate': 'नया जवाब',
+
+  'common.save': 'सहेजें',
+  'common.next': 'आगे',
+  'common.back': 'पीछे',
+  'common.cancel': 'रद्द करें',
+  'common.date': 'तारीख',
+  'common.time': 'समय',
+  'common.and': ' और ',
+  'duration.hoursMinutes': '{hours} घं {minutes} मि',
+  'duration.minutesSeconds': '{minutes} मि {seconds} से',
+  'duration.seconds': '{seconds} से',
+
+  'tracker.title': 'गर्भावस्था सप्ताह ट्रैकर',
+  'tracker.basedOn': 'आपकी ड्यू डेट के आधार पर: {date}',
+  'tracker.notSet': 'तय नहीं',
+  'tracker.currentWeek': 'आप अभी सप्ताह {week} में हैं',
+  'tracker.gestationalAge': 'गर्भकालीन आयु: {weeks} सप्ताह, {days} दिन ({trimester} तिमाही)',
+  'tracker.datedBy': 'गणना का आधार: {method}',
+  'tracker.deliveryWindow': 'संभावित प्रसव अवधि: {from} – {to}',
+  'tracker.forYou': 'आपके लिए',
+  'tracker.viewingWeek': 'सप्ताह {week} देख रही हैं',
+  'tracker.backToCurrent': 'मौजूदा सप्ताह पर लौटें',
+  'tracker.babyDevelopment': 'शिशु का विकास',
+  'tracker.yourBody': 'आपका शरीर',
+  'tracker.commonSymptoms': 'आम लक्षण',
+  'tracker.exercise': 'सुझाया गया व्यायाम: {name}',
+  'tracker.checklist': 'इस सप्ताह की चेकलिस्ट',
+  'tracker.comingSoon': 'सप्ताह {week} की विस्तृत जानकारी जल्द आ रही है!',
+  'dating.method.lmp': 'आखिरी माहवारी',
+  'dating.method.dueDate': 'ड्यू डेट',
+  'dating.method.ivf': 'IVF ट्रांसफ़र की तारीख',
+  'dating.method.ultrasound': 'अल्ट्रासाउंड (क्राउन-रंप लंबाई)',
+  'profile.babies.one': 'एक शिशु',
+  'profile.babies.twins': 'जुड़वाँ',
+  'profile.babies.triplets': 'तीन या अधिक शिशु',
+  'profile.note.multiples': '{babies} की उम्मीद: आमतौर पर अतिरिक्त ग्रोथ स्कैन कराए जाते हैं, और 37 सप्ताह से पहले जन्म होना आम है।',
+  'profile.note.pretermSigns': 'समय से पहले प्रसव के लक्षण अभी जान लें - नियमित कसाव, कमर के निचले हिस्से में दर्द या पानी रिसना हो तो डॉक्टर को फ़ोन करें।',
+  'profile.note.firstBaby': 'पहला शिशु: प्रसव-पूर्व कक्षाएँ आमतौर पर सप्ताह 28-32 के आसपास शुरू होती हैं, इसलिए जल्द जगह बुक करें।',
+  'profile.note.previousBirth': 'पहले प्रसव के बाद प्रसव अक्सर जल्दी होता है - अस्पताल जाने का रास्ता पहले से तय कर लें।',
+  'profile.conditionNote.diabetes': 'सलाह के अनुसार ब्लड शुगर जाँचती रहें; गर्भावस्था में सख्त लक्ष्य और अतिरिक्त ग्रोथ स्कैन आम हैं।',
+  'profile.conditionNote.highBloodPressure': 'ब्लड प्रेशर पर नज़र रखें और सिरदर्द, नज़र में बदलाव या अचानक सूजन की जानकारी दें - ये प्रीएक्लेम्पसिया के लक्षण हो सकते हैं।',
+  'profile.conditionNote.thyroid': 'गर्भावस्था में थायरॉइड की दवा की खुराक अक्सर बढ़ानी पड़ती है; हर तिमाही में थायरॉइड जाँच कराएँ।',
+  'profile.conditionNote.asthma': 'प्रिवेंटर इनहेलर लेती रहें - बेकाबू अस्थमा शिशु के लिए दवा से ज़्यादा जोखिम भरा है।',
+  'profile.conditionNote.pcos': 'PCOS से गर्भकालीन मधुमेह की संभावना बढ़ती है, इसलिए जल्दी ग्लूकोज़ जाँच कराई जा सकती है।',
+  'profile.conditionNote.epilepsy': 'दौरे की दवा अपने आप बंद न करें; अक्सर फ़ोलिक एसिड की ज़्यादा खुराक की सलाह दी जाती है।',
+  'profile.conditionNote.anaemia': 'आयरन डॉक्टर के बताए अनुसार लें और आयरन वाले भोजन के साथ चाय की बजाय विटामिन C लें।',
+  'profile.conditionNote.heartDisease': 'आपकी देखभाल टीम में हृदय रोग विशेषज्ञ होना चाहिए; साँस फूलना, सीने में दर्द या धड़कन तेज़ होने की तुरंत जानकारी दें।',
+  'profile.condition.diabetes': 'डायबिटीज़',
+  'profile.condition.highBloodPressure': 'हाई ब्लड प्रेशर',
+  'profile.condition.thyroid': 'थायरॉइड की समस्या',
+  'profile.condition.asthma': 'अस्थमा',
+  'profile.condition.pcos': 'पीसीओएस',
+  'profile.condition.epilepsy': 'मिर्गी',
+  'profile.condition.anaemia': 'ख़ून की कमी (एनीमिया)',
+  'profile.condition.heartDisease': 'दिल की बीमारी',
+
+  'appointments.title': 'अपॉइंटमेंट और जाँचें',
+  'appointments.export': 'कैलेंडर में एक्सपोर्ट करें',
+  'appointments.intro': 'मानक स्कैन और जाँचों की तारीख आपकी ड्यू डेट से तय होती है। हर एक को उसकी अवधि में बुक करें और बाद में नतीजे जोड़ें।',
+  'appointments.intro.multiples': 'मानक स्कैन और जाँचों की तारीख आपकी ड्यू डेट से तय होती है, और {babies} के लिए अतिरिक्त ग्रोथ स्कैन होते हैं। हर एक को उसकी अवधि में बुक करें और बाद में नतीजे जोड़ें।',
+  'appointments.intro.noDueDate': 'हर मानक स्कैन और जाँच कब होनी है, यह देखने के लिए अपनी ड्यू डेट सेट करें।',
+  'appointments.showPast': 'पिछली और पूरी हुई दिखाएँ ({count})',
+  'appointments.hidePast': 'पिछली और पूरी हुई छिपाएँ ({count})',
+  'appointments.add': 'अपना अपॉइंटमेंट जोड़ें',
+  'appointments.form.title': 'शीर्षक (जैसे, दाँतों की जाँच)',
+  'appointments.form.time': 'समय (वैकल्पिक)',
+  'appointments.form.location': 'क्लिनिक या अस्पताल (वैकल्पिक)',
+  'appointments.form.notes': 'नोट्स - पूछने के सवाल, क्या साथ ले जाना है',
+  'appointments.form.result': 'नतीजे (जैसे, NT 1.6 mm, कम जोखिम)',
+  'appointments.book': 'बुक करें',
+  'appointments.bookAppointment': 'अपॉइंटमेंट बुक करें',
+  'appointments.edit': 'अपॉइंटमेंट, नोट्स और नतीजे बदलें',
+  'appointments.removeBooking': 'बुकिंग हटाएँ',
+  'appointments.delete': 'अपॉइंटमेंट हटाएँ',
+  'appointments.done': 'हो गया',
+  'appointments.skip': 'छोड़ें',
+  'appointments.undo': 'पहले जैसा करें',
+  'appointments.skipped': 'छोड़ा गया',
+  'appointments.missed': 'अवधि निकल गई - अगर हो गया हो तो पूरा चिह्नित करें',
+  'appointments.overdue': 'क्या यह हुआ? इसे पूरा या छोड़ा हुआ चिह्नित करें और नतीजे जोड़ें।',
+  'appointments.at': 'स्थान: {location}',
+  'appointments.result': 'नतीजा: {result}',
+  'appointments.window.week': 'सप्ताह {week}',
+  'appointments.window.weeks': 'सप्ताह {from}-{to}',
+  'appointments.bookBy': '{date} तक बुक करें',
+  'appointments.bookBetween': '{from} और {to} के बीच बुक करें',
+  'appointments.dateAtTime': '{date}, {time} बजे',
+  'appointments.today': 'आज',
+  'appointments.tomorrow': 'कल',
+  'appointments.inDays': '{days} दिन में',
+  'appointments.ics.bookFor': '{window} के लिए बुक करें ({from} से {to})।',
+  'appointments.ics.notes': 'नोट्स: {notes}',
+  'appointments.ics.book': 'बुक करें: {title}',
+
+  'reminders.title': 'रिमाइंडर',
+  'reminders.permission.granted': 'सूचनाएँ चालू हैं। रिमाइंडर तभी आते हैं जब ऐप खुला हो, चाहे टैब पीछे हो; ऐप बंद होने पर कुछ नहीं आता।',
+  'reminders.permission.denied': 'इस साइट के लिए सूचनाएँ बंद हैं - ब्राउज़र सेटिंग में इन्हें चालू करें। तब तक, ऐप खुला होने पर रिमाइंडर यहाँ दिखेंगे।',
+  'reminders.permission.unsupported': 'यह ब्राउज़र सूचनाएँ नहीं दिखा सकता, इसलिए ऐप खुला होने पर रिमाइंडर यहाँ दिखते हैं।',
+  'reminders.permission.default': 'यह टैब पीछे होने पर भी याद दिलाने के लिए सूचनाएँ चालू करें।',
+  'reminders.enable': 'सूचनाएँ चालू करें',
+  'reminders.comingUp': 'आने वाले',
+  'reminders.todayAt': 'आज {time}',
+  'reminders.snoozed': 'टाला गया',
+  'reminders.delete': 'रिमाइंडर हटाएँ',
+  'reminders.open': 'खोलें',
+  'reminders.dismiss': 'रिमाइंडर हटाएँ',
+  'reminders.snooze': '{minutes} मिनट टालें',
+  'reminders.done': 'हो गया',
+  'reminders.minutes': '{minutes} मिनट',
+  'reminders.settings.vitamins': 'प्रसव-पूर्व विटामिन (फ़ोलिक एसिड और आयरन)',
+  'reminders.settings.vitaminsTime': 'विटामिन रिमाइंडर का समय',
+  'reminders.settings.kickCount': 'रोज़ की किक गिनती (सप्ताह {week} से)',
+  'reminders.settings.kickCountTime': 'किक गिनती रिमाइंडर का समय',
+  'reminders.settings.medications': 'जिन दवाओं के रिमाइंडर चालू हैं उनकी खुराक',
+  'reminders.settings.appointments': 'अपॉइंटमेंट से पहले की शाम, और जब किसी जाँच को बुक करने का समय हो',
+  'reminders.settings.weeklyDigest': 'साप्ताहिक "अब आप सप्ताह N में हैं" अपडेट',
+  'reminders.settings.quietFrom': 'शांत समय',
+  'reminders.settings.quietTo': 'से',
+  'reminders.settings.quietStart': 'शांत समय शुरू',
+  'reminders.settings.quietEnd': 'शांत समय खत्म',
+  'reminders.settings.snoozeFor': 'टालने का समय',
+  'reminders.settings.quietNote': 'शांत समय में आने वाले रिमाइंडर उसके खत्म होने तक रुकते हैं।',
+  'reminders.settings.save': 'रिमाइंडर सेटिंग सहेजें',
+  'reminders.custom.title': 'मुझे याद दिलाएँ... (जैसे, पानी पीना)',
+  'reminders.custom.repeat': 'दोहराएँ',
+  'reminders.custom.daily': 'हर दिन',
+  'reminders.custom.weekly': 'सप्ताह के कुछ दिन',
+  'reminders.custom.once': 'एक बार',
+  'reminders.custom.body': 'विवरण (वैकल्पिक)',
+  'reminders.custom.add': 'रिमाइंडर जोड़ें',
+  'reminders.rule.daily': 'रोज़ {times} बजे',
+  'reminders.rule.weekly': '{days}, {time} बजे',
+  'reminders.vitamins.title': 'प्रसव-पूर्व विटामिन का समय',
+  'reminders.vitamins.aimFor': 'रोज़ {amounts} का लक्ष्य रखें।',
+  'reminders.vitamins.body': 'प्रसव-पूर्व विटामिन भोजन के साथ लें।',
+  'reminders.medication.title': '{name} का समय',
+  'reminders.medication.bodyWithDose': '{dose} - ऐप में ली गई चिह्नित करें',
+  'reminders.medication.body': 'ऐप में ली गई चिह्नित करें',
+  'reminders.kickCount.title': 'किक गिनने का समय',
+  'reminders.kickCount.body': 'करवट लेकर लेटें और 10 हलचल महसूस होने तक गिनें।',
+  'reminders.appointment.title': 'कल: {title}',
+  'reminders.appointment.at': '{time} बजे',
+  'reminders.appointment.body': 'समय अपने क्लिनिक से पक्का कर लें।',
+  'reminders.booking.title': 'बुक करने का समय: {title}',
+  'reminders.booking.body': 'अपने डॉक्टर के पास बुक करें।',
+  'reminders.weeklyDigest.title': 'अब आप सप्ताह {week} में हैं',
+  'reminders.weeklyDigest.thisWeek': 'इस सप्ताह: {item}',
+  'reminders.weeklyDigest.body': 'ट्रैकर में देखें कि इस सप्ताह क्या नया है।',
+
+  'tools.openEmergency': 'आपातकालीन मार्गदर्शन खोलें →',
+  'tools.week': 'सप्ताह {week}',
+  'kicks.title': 'किक काउंटर',
+  'kicks.intro': 'दिन में एक बार, जब शिशु आमतौर पर सक्रिय हो, देखें कि {target} हलचल महसूस होने में कितना समय लगता है - किक, करवट, सरसराहट और फड़फड़ाहट सब गिनी जाती हैं।',
+  'kicks.startWeek': 'रोज़ की गिनती आमतौर पर सप्ताह {week} से शुरू होती है।',
+  'kicks.soFar': 'अब तक {duration}',
+  'kicks.felt': 'हलचल महसूस हुई',
+  'kicks.stop': 'रोकें',
+  'kicks.start': 'गिनती शुरू करें',
+  'kicks.baseline': 'आपका शिशु आमतौर पर लगभग {duration} में {target} तक पहुँचता है।',
+  'kicks.recent': 'हाल की गिनतियाँ',
+  'kicks.reached': '{duration} में {count}',
+  'kicks.stopped': '{duration} में {count}, रोकी गई',
+  'kicks.delete': 'गिनती हटाएँ',
+  'kicks.alert.noTarget.title': '2 घंटे में {target} से कम हलचल',
+  'kicks.alert.noTarget.message': 'जाँच के लिए अभी अपने प्रसूति विभाग से संपर्क करें - कल तक इंतज़ार न करें।',
+  'kicks.alert.slower.title': 'आपका शिशु सामान्य से कम हिल रहा है',
+  'kicks.alert.slower.message': '{target} हलचल में आमतौर पर लगभग {usual} लगते हैं। आज ही जाँच के लिए अपने प्रसूति विभाग से संपर्क करें, भले ही हलचल बढ़ जाए।',
+  'contractions.title': 'संकुचन टाइमर',
+  'contractions.intro': 'संकुचन शुरू होने पर टैप करें और खत्म होने पर फिर से।',
+  'contractions.intro.preterm': '37 सप्ताह से पहले, 20 मिनट में 4 या अधिक हों तो डॉक्टर को फ़ोन करें।',
+  'contractions.intro.term': '37 सप्ताह से, 5-1-1 पर अस्पताल जाएँ: हर 5 मिनट पर, 1 मिनट तक, 1 घंटे तक।',
+  'contractions.started': 'संकुचन शुरू हुआ',
+  'contractions.ended': 'संकुचन खत्म हुआ ({duration})',
+  'contractions.lastHour': 'पिछला घंटा: {count} संकुचन',
+  'contractions.lastHour.one': 'पिछला घंटा: {count} संकुचन',
+  'contractions.averageDuration': 'औसतन {duration} तक',
+  'contractions.averageInterval': 'हर {duration} पर',
+  'contractions.column.started': 'शुरू',
+  'contractions.column.lasted': 'अवधि',
+  'contractions.column.since': 'पिछले से अंतर',
+  'contractions.ongoing': 'जारी',
+  'contractions.delete': 'संकुचन हटाएँ',
+  'contractions.alert.preterm.title': '37 सप्ताह से पहले नियमित संकुचन',
+  'contractions.alert.preterm.message': 'यह समय से पहले प्रसव हो सकता है। अभी प्रसव विभाग को फ़ोन करें, या खून आना, पानी रिसना या तेज़ दर्द हो तो अस्पताल जाएँ।',
+  'contractions.alert.labor.title': 'आपके संकुचन 5-1-1 से मेल खाते हैं',
+  'contractions.alert.labor.message': 'एक घंटे तक हर 5 मिनट पर एक मिनट चलने वाले संकुचन का मतलब आमतौर पर सक्रिय प्रसव होता है। प्रसव विभाग को फ़ोन करें और अस्पताल जाएँ।',
+
+  'triage.yes': 'हाँ',
+  'triage.no': 'नहीं',
+  'triage.none': 'कोई नहीं',
+  'triage.unit.days': 'दिन',
+  'triage.unit.weeks': 'सप्ताह',
+  'triage.unit.fahrenheit': '°F',
+  'triage.unit.celsius': '°C',
+  'triage.accompanying': 'क्या इनमें से कुछ और भी है?',
+  'triage.accompanying.heavyBleeding': 'बहुत खून आना या थक्के',
+  'triage.accompanying.severePain': 'पेट में तेज़ दर्द',
+  'triage.accompanying.vision': 'धुंधला दिखना, धब्बे या चमकती रोशनी',
+  'triage.accompanying.legSwelling': 'एक पैर में दर्द और सूजन',
+  'triage.accompanying.faceSwelling': 'चेहरे या हाथों में अचानक सूजन',
+  'triage.bleeding': 'खून आना या धब्बे',
+  'triage.bleeding.amount': 'कितना खून आ रहा है?',
+  'triage.bleeding.amount.spotting': 'धब्बे - कुछ बूँदें, गुलाबी या भूरी',
+  'triage.bleeding.amount.heavy': 'ज़्यादा - एक घंटे में पैड भीग जाना या थक्के निकलना',
+  'triage.bleeding.duration': 'धब्बे कितने समय से आ रहे हैं?',
+  'triage.bleeding.guidance': 'मात्रा और रंग नोट करें और अपने डॉक्टर को बताएँ।',
+  'triage.discharge': 'योनि स्राव',
+  'triage.discharge.color': 'स्राव कैसा दिखता है?',
+  'triage.discharge.color.clear': 'साफ़ या दूधिया सफ़ेद, हल्की गंध',
+  'triage.discharge.color.colored': 'हरा या पीला, या तेज़ गंध',
+  'triage.discharge.color.watery': 'पानी जैसा तरल रिसना या अचानक बहना',
+  'triage.discharge.guidance': 'गर्भावस्था में पतला, दूधिया स्राव आम है। अगर पानी जैसा तरल रिसता रहे या अचानक बहे, तो पानी की थैली फट सकती है - अपने डॉक्टर या प्रसव विभाग को फ़ोन करें।',
+  'triage.abdominalPain': 'पेट दर्द या ऐंठन',
+  'triage.abdominalPain.intensity': 'दर्द कितना तेज़ है?',
+  'triage.abdominalPain.intensity.mild': 'हल्का - माहवारी की ऐंठन जैसा, आराम से कम होता है',
+  'triage.abdominalPain.intensity.severe': 'तेज़ या चुभने वाला - चलना या बात करना मुश्किल',
+  'triage.abdominalPain.pattern': 'क्या यह नियमित रूप से आता-जाता है, जैसे हर 10 मिनट या उससे कम में कसाव?',
+  'triage.abdominalPain.week': 'आप गर्भावस्था के किस सप्ताह में हैं?',
+  'triage.abdominalPain.guidance': '37 सप्ताह से नियमित संकुचन प्रसव हो सकते हैं। जब वे कम से कम 1 घंटे तक हर 5 मिनट पर आएँ और हर बार 1 मिनट चलें, तब अपने डॉक्टर या प्रसव विभाग को फ़ोन करें - या पानी की थैली फटे तो उससे पहले।',
+  'triage.headache': 'सिरदर्द',
+  'triage.headache.intensity': 'सिरदर्द कितना तेज़ है?',
+  'triage.headache.intensity.mild': 'हल्का से मध्यम, आराम या पानी से कम होता है',
+  'triage.headache.intensity.severe': 'बहुत तेज़ या अब तक का सबसे बुरा, कम नहीं हो रहा',
+  'triage.headache.vision': 'क्या धुंधला दिख रहा है, या धब्बे या चमकती रोशनी दिख रही है?',
+  'triage.headache.guidance': 'हल्का सिरदर्द आम है। आराम करें, पानी पिएँ और गर्भावस्था में सुरक्षित दर्द निवारक के लिए दवाएँ टैब देखें। अगर यह बढ़े या ठीक न हो तो डॉक्टर को फ़ोन करें।',
+  'triage.fever': 'बुखार',
+  'triage.fever.temperature': 'आपका तापमान कितना है?',
+  'triage.fever.unit': 'यह °F में था या °C में?',
+  'triage.fever.guidance': 'यह तापमान बुखार नहीं है। आराम करें, तरल पिएँ और तबीयत ठीक न लगे तो फिर से नापें।',
+  'triage.swelling': 'सूजन',
+  'triage.swelling.location': 'सूजन कहाँ है?',
+  'triage.swelling.location.feet': 'पैर और टखने',
+  'triage.swelling.location.faceHands': 'चेहरा या हाथ',
+  'triage.swelling.location.oneLeg': 'एक पैर दूसरे से ज़्यादा',
+  'triage.swelling.onset': 'क्या यह अचानक आई (कुछ घंटों या एक दिन में)?',
+  'triage.swelling.legPain': 'क्या उस पैर में दर्द, गर्माहट या लाली है?',
+  'triage.swelling.guidance': 'गर्भावस्था के बाद के महीनों में पैरों और टखनों में धीरे-धीरे सूजन आम है। पैर ऊपर रखें और पानी पीती रहें, और अगर यह अचानक आए या चेहरे या हाथों पर हो तो डॉक्टर को फ़ोन करें।',
+  'triage.title': 'निर्देशित लक्षण जाँच',
+  'triage.alsoMentioned': 'आपने यह भी बताया',
+  'triage.checkAnother': 'दूसरा लक्षण जाँचें',
+  'triage.noneOfThese': 'इनमें से कोई नहीं',
+  'triage.recent': 'हाल की लक्षण जाँच',
+  'triage.also': 'साथ में: {signs}',
+
+  'symptoms.title': 'लक्षण ट्रैकर',
+  'symptoms.search': 'अपना लक्षण बताएँ (जैसे, खून आना, दर्द, बुखार)',
+  'symptoms.byCategory': 'श्रेणी के अनुसार सभी लक्षण',
+  'symptoms.openEmergencyGuide': 'आपातकालीन गाइड खोलें',
+  'symptoms.alertLine': '{sign}: {action} - अपने डॉक्टर से संपर्क करें: {urgency}',
+  'journal.title': 'लक्षण डायरी',
+  'journal.form.symptom': 'लक्षण (जैसे, मतली, हल्की ऐंठन)',
+  'journal.form.severity': 'गंभीरता',
+  'journal.form.add': 'डायरी में जोड़ें',
+  'journal.severity.mild': 'हल्का',
+  'journal.severity.moderate': 'मध्यम',
+  'journal.severity.severe': 'गंभीर',
+  'journal.last12Weeks': 'पिछले 12 सप्ताह',
+  'journal.dayEntries.one': '{date}: {count} प्रविष्टि',
+  'journal.dayEntries': '{date}: {count} प्रविष्टियाँ',
+  'journal.heatmapLegend': 'गहरे रंग वाले दिनों में ज़्यादा प्रविष्टियाँ हैं; लाल घेरा गंभीर प्रविष्टि दिखाता है।',
+  'journal.nothingLogged': 'इस दिन कुछ दर्ज नहीं किया गया',
+  'journal.week': 'सप्ताह {week}',
+  'journal.seeEmergency': '{signs} - आपातकालीन मार्गदर्शन देखें',
+  'journal.delete': 'प्रविष्टि हटाएँ',
+  'journal.trends': 'यह सप्ताह बनाम पिछला सप्ताह',
+  'journal.column.symptom': 'लक्षण',
+  'journal.column.thisWeek': 'पिछले 7 दिन',
+  'journal.column.lastWeek': 'उससे पहले के 7 दिन',
+  'journal.column.trend': 'रुझान',
+  'journal.average': '(औसत {severity})',
+
+  'vitals.title': 'ब्लड प्रेशर, शुगर और सूजन',
+  'vitals.alertLimits': 'चेतावनी सीमाएँ',
+  'vitals.conditionNote': 'आपकी प्रोफ़ाइल में {conditions} है, इसलिए जितनी बार डॉक्टर कहें उतनी बार रीडिंग दर्ज करें और यह रिकॉर्ड जाँच के समय साथ लाएँ।',
+  'vitals.kind.bloodPressure': 'ब्लड प्रेशर',
+  'vitals.kind.glucose': 'शुगर',
+  'vitals.kind.weight': 'वज़न',
+  'vitals.kind.swelling': 'सूजन',
+  'vitals.form.systolic': 'सिस्टोलिक (ऊपर वाला)',
+  'vitals.form.diastolic': 'डायस्टोलिक (नीचे वाला)',
+  'vitals.form.glucose': 'शुगर ({unit})',
+  'vitals.form.weight': 'वज़न ({unit})',
+  'vitals.form.sudden': 'अचानक हुई',
+  'vitals.form.log': 'रीडिंग दर्ज करें',
+  'vitals.timing.fasting': 'खाली पेट',
+  'vitals.timing.oneHour': 'खाने के 1 घंटे बाद',
+  'vitals.timing.twoHour': 'खाने के 2 घंटे बाद',
+  'vitals.area.feet': 'पैर और टखने',
+  'vitals.area.hands': 'हाथ',
+  'vitals.area.face': 'चेहरा',
+  'vitals.area.oneLeg': 'एक पैर दूसरे से ज़्यादा',
+  'vitals.sudden': '{areas} (अचानक)',
+  'vitals.alert.severeBloodPressure': '{reading} {limit} या उससे ज़्यादा है। अभी इलाज लें, ख़ासकर अगर सिरदर्द, दिखने में बदलाव या ऊपरी पेट में दर्द हो।',
+  'vitals.alert.highBloodPressure': '{reading} {limit} या उससे ज़्यादा है। 15 मिनट आराम करके फिर से नापें; अगर अब भी ज़्यादा है, तो आज ही डॉक्टर को फ़ोन करें।',
+  'vitals.alert.lowGlucose': '{value} कम है। 15 ग्राम जल्दी असर करने वाली चीनी लें, जैसे आधा गिलास जूस, और 15 मिनट में फिर से जाँचें।',
+  'vitals.alert.repeatedHighGlucose': '{value} आपके {timing} लक्ष्य {target} से ज़्यादा है, और इस सप्ताह {count} रीडिंग ज़्यादा रहीं। अपने इलाज के बारे में डॉक्टर को फ़ोन करें।',
+  'vitals.alert.highGlucose': '{value} आपके {timing} लक्ष्य {target} से ज़्यादा है। आपने क्या खाया, यह लिख लें और अगली जाँच में बताएँ।',
+  'vitals.alert.faceHandSwelling': 'चेहरे या हाथों में अचानक सूजन प्रीएक्लेम्पसिया का संकेत हो सकती है। अपना ब्लड प्रेशर जाँचें और आज ही डॉक्टर को फ़ोन करें।',
+  'vitals.alert.legSwelling': 'एक पैर में सूजन, ख़ासकर अगर उसमें दर्द हो, वह गर्म या लाल हो, तो खून का थक्का हो सकता है। आज ही दिखाएँ।',
+  'vitals.alert.weightGain': 'एक सप्ताह में आपका वज़न {gain} बढ़ा है। अचानक वज़न बढ़ना प्रीएक्लेम्पसिया में शरीर में पानी रुकने से हो सकता है - अपना ब्लड प्रेशर जाँचें और डॉक्टर को फ़ोन करें।',
+  'vitals.alertAdvice': '{action} • अपने डॉक्टर से संपर्क करें: {urgency}',
+  'vitals.limits.intro': 'चेतावनियाँ इन सीमाओं का उपयोग करती हैं। आपके डॉक्टर आपको अलग लक्ष्य दे सकते हैं।',
+  'vitals.limits.systolic': 'ज़्यादा सिस्टोलिक',
+  'vitals.limits.diastolic': 'ज़्यादा डायस्टोलिक',
+  'vitals.limits.severeSystolic': 'गंभीर सिस्टोलिक',
+  'vitals.limits.severeDiastolic': 'गंभीर डायस्टोलिक',
+  'vitals.limits.glucoseUnit': 'शुगर की इकाई',
+  'vitals.limits.fasting': 'खाली पेट लक्ष्य',
+  'vitals.limits.oneHour': '1 घंटे का लक्ष्य',
+  'vitals.limits.twoHour': '2 घंटे का लक्ष्य',
+  'vitals.limits.lowGlucose': 'कम शुगर',
+  'vitals.limits.weeklyGain': 'साप्ताहिक बढ़त ({unit})',
+  'vitals.limits.unitNote': 'शुगर की सीमाएँ ऊपर चुनी गई इकाई में पढ़ी जाती हैं।',
+  'vitals.limits.reset': 'डिफ़ॉल्ट पर लौटाएँ',
+  'vitals.chart.bloodPressure': 'समय के साथ ब्लड प्रेशर रीडिंग',
+  'vitals.chart.glucose': 'समय के साथ शुगर रीडिंग',
+  'vitals.chart.fastingLimit': 'खाली',
+  'vitals.chart.oneHourLimit': '1 घं',
+  'vitals.legend.fasting': 'खाली पेट',
+  'vitals.legend.oneHour': '1 घंटे बाद',
+  'vitals.legend.twoHour': '2 घंटे बाद',
+  'vitals.delete': 'रीडिंग हटाएँ',
+  'vitals.seeWeightChart': 'पोषण टैब पर अपना वज़न चार्ट देखें →',
+
+  'diet.nonVegetarian': 'मांसाहारी',
+  'diet.pescatarian': 'पेस्केटेरियन (मछली, मांस नहीं)',
+  'diet.eggetarian': 'एगिटेरियन (शाकाहारी और अंडे)',
+  'diet.vegetarian': 'शाकाहारी (मांस, मछली या अंडे नहीं)',
+  'diet.jain': 'जैन',
+  'diet.vegan': 'वीगन',
+  'diet.note.veganB12': 'वीगन आहार में B12 सप्लीमेंट चाहिए, और कैल्शियम व विटामिन D फ़ोर्टिफ़ाइड प्लांट मिल्क या गोलियों से।',
+  'diet.note.veganDha': 'ओमेगा-3 DHA शैवाल से बने सप्लीमेंट से लें, और आयरन दाल, चना और हरी सब्ज़ियों से, विटामिन C के साथ।',
+  'diet.note.vegetarianB12': 'शाकाहारी आहार में डेयरी, अंडे या सप्लीमेंट से भरोसेमंद B12 चाहिए।',
+  'diet.note.vegetarianIron': 'आयरन से भरपूर दाल, राजमा और हरी सब्ज़ियाँ विटामिन C के साथ खाएँ, और शैवाल से बने DHA सप्लीमेंट के बारे में पूछें।',
+
+  'nutrition.title': 'पोषण योजना',
+  'nutrition.forDiet': 'आपके {diet} आहार के लिए',
+  'nutrition.daily': 'रोज़ की पोषण ज़रूरतें',
+  'nutrition.weightGain': 'सुझाया गया वज़न बढ़ना',
+  'nutrition.bmiRange': 'BMI सीमा',
+  'nutrition.totalGain': 'कुल बढ़त',
+  'nutrition.totalGainTwins': 'कुल बढ़त (जुड़वाँ)',
+  'nutrition.noGuideline': 'कोई दिशानिर्देश नहीं',
+  'nutrition.avoid': 'इनसे बचें',
+  'nutrition.unsafeSeafood': 'असुरक्षित समुद्री भोजन (ज़्यादा पारा)',
+  'nutrition.includes': 'इसमें {items} शामिल हैं',
+  'nutrition.morningSickness': 'मॉर्निंग सिकनेस के सुझाव',
+  'nutrition.whatToEat': 'क्या खाएँ:',
+  'nutrition.foodsToAvoid': 'किन चीज़ों से बचें:',
+  'nutrition.eatingTips': 'खाने के सुझाव:',
+
+  'foodDiary.title': 'भोजन डायरी',
+  'foodDiary.form.food': 'भोजन (जैसे, दाल, पनीर, प्रसवपूर्व विटामिन)',
+  'foodDiary.form.meal': 'भोजन का समय',
+  'foodDiary.form.servings': 'सर्विंग',
+  'foodDiary.form.add': 'डायरी में जोड़ें',
+  'foodDiary.meal.breakfast': 'नाश्ता',
+  'foodDiary.meal.lunch': 'दोपहर का खाना',
+  'foodDiary.meal.dinner': 'रात का खाना',
+  'foodDiary.meal.snack': 'हल्का नाश्ता',
+  'foodDiary.notFound': '"{food}" अभी पोषक तत्व डेटाबेस में नहीं है - सूची से कोई भोजन चुनें।',
+  'foodDiary.overLimit': 'सुरक्षित ऊपरी सीमा से ज़्यादा',
+  'foodDiary.overLimitLine': '{nutrient}: {total} (सीमा {limit})',
+  'foodDiary.aboveRange': 'सुझाई गई सीमा से ज़्यादा',
+  'foodDiary.prescribed': 'डॉक्टर के बताए सप्लीमेंट की वजह से रोज़ की सीमा {limit} से ज़्यादा। इसे बताए अनुसार लें, और खुराक को लेकर संदेह हो तो अपने डॉक्टर से पूछें।',
+  'foodDiary.empty': 'इस दिन के लिए अभी कुछ दर्ज नहीं है।',
+  'foodDiary.mayContain': 'इसमें {allergies} हो सकता है',
+
+  'food.title': 'भोजन सुरक्षा जाँच',
+  'food.search': 'किसी भी भाषा में भोजन खोजें (जैसे, सुरमई, पनीर, चाय, सीफ़ूड)',
+  'food.verdict.safe': 'सुरक्षित',
+  'food.verdict.limit': 'सीमित मात्रा',
+  'food.verdict.avoid': 'बचें',
+  'food.limit': 'हर {per} {amount} {unit} तक',
+  'food.per.day': 'दिन',
+  'food.per.week': 'हफ़्ते',
+  'food.category': 'हमारी गाइड में सभी {category}, पहले वे जिनसे बचना है',
+  'food.fuzzy': '"{query}" से पूरा मेल नहीं मिला - सबसे मिलते-जुलते नाम दिखा रहे हैं।',
+  'food.dietHidden.one': 'आपके {diet} आहार के कारण {count} परिणाम छिपाया गया।',
+  'food.dietHidden': 'आपके {diet} आहार के कारण {count} परिणाम छिपाए गए।',
+  'food.dietShown.one': 'इसमें {count} भोजन शामिल है जो आपके {diet} आहार में नहीं आता।',
+  'food.dietShown': 'इसमें {count} भोजन शामिल हैं जो आपके {diet} आहार में नहीं आते।',
+  'food.hideThem': 'उन्हें छिपाएँ',
+  'food.showAnyway': 'फिर भी दिखाएँ',
+  'food.alsoCalled': 'अन्य नाम: {names}',
+  'food.notFound': '"{query}" हमारी भोजन गाइड में नहीं है',
+  'food.notFoundAdvice': 'आम नियम: मांस, मछली और अंडे पूरी तरह पकाएँ, पाश्चराइज़्ड डेयरी चुनें, फल-सब्ज़ियाँ धोएँ, और जिस बारे में संदेह हो, अपने डॉक्टर से पूछें।',
+
+  'weight.chart': 'सुझाई गई सीमा की तुलना में वज़न बढ़ना',
+  'weight.chart.week': 'सप्ताह',
+  'weight.profile.intro': 'सुझाई गई सीमा से अपने वज़न बढ़ने की तुलना के लिए अपनी लंबाई और गर्भावस्था से पहले का वज़न दर्ज करें।',
+  'weight.profile.unit': 'इकाइयाँ',
+  'weight.profile.imperial': 'पाउंड / इंच',
+  'weight.profile.metric': 'किलोग्राम / सेंटीमीटर',
+  'weight.profile.height': 'लंबाई',
+  'weight.profile.weight': 'गर्भावस्था से पहले का वज़न',
+  'weight.profile.edit': 'लंबाई और वज़न बदलें',
+  'weight.bmi': 'गर्भावस्था से पहले का BMI',
+  'weight.totalRange': 'कुल {min} - {max} बढ़ाएँ',
+  'weight.twinRange': '(जुड़वाँ के लिए सीमा)',
+  'weight.status': 'सप्ताह {week} में आपका वज़न {gain} बढ़ा है; अभी के लिए सुझाई गई सीमा {min} - {max} है।',
+  'weight.status.within': 'आप सही राह पर हैं।',
+  'weight.status.above': 'यह सीमा से ज़्यादा है - अगली जाँच में बताएँ।',
+  'weight.status.below': 'यह सीमा से कम है - अगली जाँच में बताएँ।',
+  'weight.noRange': 'आपके BMI पर {babies} के लिए वज़न बढ़ने की कोई मानक सीमा नहीं है - अपने डॉक्टर से निजी लक्ष्य पूछें।',
+  'weight.setDueDate': 'चार्ट पर वज़न दिखाने के लिए अपनी नियत तिथि सेट करें।',
+  'weight.log': 'वज़न दर्ज करें',
+  'weight.delete': 'वज़न हटाएँ',
+
+  'onboarding.title.dating': 'आपकी नियत तिथि',
+  'onboarding.title.pregnancy': 'आपकी गर्भावस्था',
+  'onboarding.title.health': 'आपका स्वास्थ्य',
+  'onboarding.close': 'बंद करें',
+  'onboarding.step': 'चरण {step} / {total} - इससे हर टैब आपके अनुसार बनता है, और यह जानकारी इसी डिवाइस पर रहती है',
+  'onboarding.dating.method': 'गर्भावस्था की तिथि इससे तय करें:',
+  'onboarding.dating.dueDate': 'अपनी नियत तिथि दर्ज करें:',
+  'onboarding.dating.lmp': 'आख़िरी माहवारी का पहला दिन:',
+  'onboarding.dating.cycleLength': 'औसत चक्र की लंबाई (दिन):',
+  'onboarding.dating.transferDate': 'भ्रूण स्थानांतरण की तिथि:',
+  'onboarding.dating.embryoAge': 'स्थानांतरण के समय भ्रूण की उम्र:',
+  'onboarding.dating.day3': 'दिन 3',
+  'onboarding.dating.day5': 'दिन 5 (ब्लास्टोसिस्ट)',
+  'onboarding.dating.scanDate': 'स्कैन की तिथि:',
+  'onboarding.dating.crownRumpLength': 'क्राउन-रंप लंबाई (मि.मी.):',
+  'onboarding.dating.invalid': 'इन जानकारियों से सही नियत तिथि नहीं निकलती। कृपया मान जाँचकर फिर से कोशिश करें।',
+  'onboarding.babies': 'आप कितने शिशुओं की उम्मीद कर रही हैं?',
+  'onboarding.babies.one': 'एक',
+  'onboarding.babies.twins': 'जुड़वाँ',
+  'onboarding.babies.triplets': 'तीन या ज़्यादा',
+  'onboarding.parity': 'आपने पहले कितनी बार जन्म दिया है?',
+  'onboarding.diet': 'आहार:',
+  'onboarding.allergies': 'एलर्जी (भोजन या दवाइयाँ, कॉमा से अलग करें):',
+  'onboarding.allergies.placeholder': 'जैसे, मूंगफली, पेनिसिलिन',
+  'onboarding.conditions': 'गर्भावस्था से पहले की बीमारियाँ:',
+  'onboarding.conditions.other': 'अन्य बीमारियाँ',
+  'onboarding.medications': 'अभी ली जा रही दवाइयाँ या सप्लीमेंट:',
+  'onboarding.medications.placeholder': 'जैसे, थायरोनॉर्म, प्रसवपूर्व विटामिन',
+  'onboarding.medications.existing': 'आपकी सूची में पहले से: {names}',
+  'onboarding.medications.note': 'आपकी प्रोफ़ाइल से जोड़ा गया - रिमाइंडर पाने के लिए खुराक और समय तय करें',
+  'onboarding.save': 'प्रोफ़ाइल सहेजें'
+};
@@ -0,0 +1,581 @@
+import { Messages } from './en';
+
+export const mr: Messages = {
+  'app.title': 'गर्भावस्था काळजी सोबती',
+  'app.tagline': 'गर्भावस्थेचा मागोवा आणि आरोग्यासाठी तुमचे संपूर्ण मार्गदर्शक',
+  'app.install': 'ॲप इंस्टॉल करा',
+  'app.language': 'भाषा',
+  'app.kbDegraded.title': 'गर्भावस्थेची काही माहिती लोड होऊ शकली नाही',
+  'app.kbDegraded.body': 'ॲप मर्यादित मोडमध्ये चालू आहे. माहितीसंग्रह दुरुस्त होईपर्यंत त्रुटी असलेले विभाग लपवलेले राहतील.',
+  'app.kbDegraded.more': '…आणखी {count}',
+
+  'offline.title': 'तुम्ही ऑफलाइन आहात',
+  'offline.ready': 'तुमचा जतन केलेला डेटा, ट्रॅकर आणि आपत्कालीन टॅब अजूनही चालतात. पुन्हा कनेक्ट होईपर्यंत चॅटची उत्तरे जतन केलेल्या माहितीसंग्रहातून येतील.',
+  'offline.notReady': 'या डिव्हाइसवर ऑफलाइन वापरासाठी ॲप अजून पूर्ण जतन झालेले नाही, त्यामुळे पुन्हा कनेक्ट होईपर्यंत काही माहिती दिसणार नाही.',
+
+  'nav.home': 'मुख्यपृष्ठ',
+  'nav.tracker': 'ट्रॅकर',
+  'nav.medications': 'औषधे',
+  'nav.emergency': 'आपत्काल',
+  'nav.chat': 'चॅट',
+
+  'trimester.First': 'पहिली',
+  'trimester.Second': 'दुसरी',
+  'trimester.Third': 'तिसरी',
+
+  'home.welcome': 'तुमच्या गर्भावस्थेच्या प्रवासात स्वागत आहे',
+  'home.tracking': 'सध्याचा आठवडा: {week}',
+  'home.gestationalAge': '{weeks} आठवडे {days} दिवस',
+  'home.dueDate': 'अपेक्षित तारीख: {date}',
+  'home.daysToGo': '{days} दिवस बाकी',
+  'home.daysPastDue': 'अपेक्षित तारखेनंतर {days} दिवस',
+  'home.progress': 'तुमच्या गर्भावस्थेची प्रगती',
+  'home.trimester': '{trimester} तिमाही',
+  'home.editProfile': 'प्रोफाइल बदला',
+  'home.loadingKb': 'गर्भावस्था माहितीसंग्रह लोड होत आहे...',
+  'home.medications': 'तुमची औषधे',
+  'home.dueNow': 'आता घ्यायची: {doses}',
+  'home.becomes': 'आठवडा {week} पासून {level}',
+  'home.mayContainAllergen': 'यात तुम्हाला ॲलर्जी असलेला पदार्थ असू शकतो ({allergies})',
+  'home.comingUp': 'पुढे येणारे',
+  'home.card.tracker': 'आठवडा ट्रॅकर',
+  'home.card.trackerHint': 'तुमची प्रगती पाहा',
+  'home.card.medications': 'औषधे',
+  'home.card.medicationsHint': 'सुरक्षितता तपासा',
+  'home.card.symptoms': 'लक्षणे',
+  'home.card.symptomsHint': 'नोंदवा आणि समजून घ्या',
+  'home.card.nutrition': 'पोषण',
+  'home.card.nutritionHint': 'रोजच्या गरजा',
+  'home.emergency.title': 'आपत्कालीन माहिती एका नजरेत',
+  'home.emergency.seekHelp': 'यांसाठी लगेच मदत घ्या:',
+  'home.emergency.viewAll': 'सर्व आपत्कालीन लक्षणे पाहा →',
+
+  'medications.checkedAgainst': 'आठवडा {week} ({trimester} तिमाही) नुसार तपासले, आणि गर्भावस्था पुढे जाईल तसे पुन्हा तपासले जाईल.',
+  'medications.title': 'औषध सुरक्षितता तपासणी',
+  'medications.search': 'औषध शोधा (उदा., Tylenol, Crocin, Combiflam)',
+  'medications.fuzzy': '"{query}" शी नेमके जुळणारे नाही - सर्वात जवळची नावे दाखवत आहोत. पाकिटावरील स्पेलिंग तपासा.',
+  'medications.notFound': '"{query}" आमच्या डेटाबेसमध्ये नाही',
+  'medications.notFoundAdvice': 'याचा अर्थ ते सुरक्षित किंवा असुरक्षित आहे असा नाही - घेण्यापूर्वी तुमचे डॉक्टर, परिचारिका किंवा फार्मासिस्ट यांना विचारा, आणि पाकीट सोबत न्या म्हणजे ते प्रत्येक सक्रिय घटक तपासू शकतील.',
+  'medications.didYouMean': 'तुम्हाला हे म्हणायचे आहे का',
+  'medications.byCategory': 'प्रकारानुसार सामान्य औषधे',
+  'medications.combination': 'मिश्र औषध - सर्वात धोकादायक घटकानुसार मूल्यांकन',
+  'medications.matched': '"{name}" शी जुळले',
+  'medications.brand': 'ब्रँड: {brand}',
+  'medications.generic': 'जेनेरिक',
+  'medications.aliases': 'या नावांनीही ओळखले जाते: {names}',
+  'medications.for': 'कशासाठी: {condition}',
+  'medications.note': 'टीप: {note}',
+  'medications.trimesterRule': '{trimesters} तिमाही: {rating} - {reason}',
+  'medications.allergyAlert': 'ॲलर्जी इशारा: यात तुमच्या प्रोफाइलमधील {allergies} असू शकते',
+  'medications.notInDatabase': 'आमच्या डेटाबेसमध्ये नाही - घेण्यापूर्वी तुमच्या डॉक्टरांना विचारा',
+  'medications.notInDatabaseShort': 'आमच्या डेटाबेसमध्ये नाही',
+  'medications.unknownIngredients': 'यात {ingredients} आहे, जे आमच्या डेटाबेसमध्ये नाही - तुमच्या डॉक्टरांना विचारा',
+  'medications.becauseContains': 'कारण यात {ingredient} आहे',
+  'medications.becauseContainsReason': 'कारण यात {ingredient} आहे: {reason}',
+  'medicationLog.title': 'माझी औषधे आणि पूरक',
+  'medicationLog.dueNow': 'आता घ्यायची',
+  'medicationLog.markTaken': 'घेतले म्हणून खूण करा',
+  'medicationLog.kind.medication': 'औषध',
+  'medicationLog.kind.supplement': 'पूरक',
+  'medicationLog.noDose': 'डोस ठरवलेला नाही',
+  'medicationLog.daily': 'रोज',
+  'medicationLog.dailyAt': 'रोज {times} वाजता',
+  'medicationLog.asNeeded': 'गरजेनुसार',
+  'medicationLog.reminderAt': '{time} वाजता स्मरणपत्र',
+  'medicationLog.fromWeek': 'आठवडा {week} पासून: {rating} - {reason}',
+  'medicationLog.remove': 'औषध काढा',
+  'medicationLog.form.name': 'नाव (उदा., Tylenol, प्रसूतीपूर्व जीवनसत्त्व)',
+  'medicationLog.form.dose': 'डोस (उदा., 500 mg)',
+  'medicationLog.form.time1': 'पहिल्या डोसची वेळ',
+  'medicationLog.form.time2': 'दुसऱ्या डोसची वेळ (ऐच्छिक)',
+  'medicationLog.form.reminders': 'या वेळी मला आठवण करून द्या',
+  'medicationLog.form.notes': 'नोंदी (ऐच्छिक)',
+  'medicationLog.form.add': 'माझ्या यादीत जोडा',
+
+  'emergency.title': 'आपत्कालीन लक्षणे मार्गदर्शक',
+  'emergency.offlineReady': 'हे मार्गदर्शक या डिव्हाइसवर जतन केले आहे, त्यामुळे इंटरनेटशिवायही चालते.',
+  'emergency.seekAttention': 'यापैकी कोणतेही लक्षण असल्यास लगेच वैद्यकीय मदत घ्या:',
+  'emergency.category': 'प्रकार: {category}',
+  'emergency.action': 'काय करावे: {action}',
+  'emergency.contactProvider': 'डॉक्टरांशी संपर्क: {urgency}',
+  'emergency.dismiss': 'सूचना बंद करा',
+  'emergency.contacts': 'आपत्कालीन संपर्क',
+  'emergency.keepHandy': 'हे क्रमांक जवळ ठेवा:',
+  'emergency.obgyn': 'तुमच्या स्त्रीरोगतज्ज्ञ: _______________',
+  'emergency.hospital': 'रुग्णालयाचा प्रसूती कक्ष: _______________',
+  'emergency.number': 'आपत्काल: 112 • रुग्णवाहिका: 108',
+
+  'chat.title': 'गर्भावस्था सहाय्यक',
+  'chat.poweredBy': '{provider} द्वारे चालवलेले',
+  'chat.welcome': 'नमस्कार! मी तुमचा गर्भावस्था सहाय्यक आहे. लक्षणे, औषधे, पोषण किंवा गर्भावस्थेबद्दल काहीही विचारा!',
+  'chat.newConversation': 'नवीन संभाषण',
+  'chat.history': 'मागील संभाषणे',
+  'chat.searchConversations': 'संभाषणे शोधा',
+  'chat.noConversations': 'कोणतेही संभाषण सापडले नाही',
+  'chat.renameConversation': 'संभाषणाचे नाव बदला',
+  'chat.deleteConversation': 'संभाषण हटवा',
+  'chat.placeholder': 'लक्षणे, औषधे किंवा गर्भावस्थेबद्दल विचारा...',
+  'chat.stop': 'उत्तर थांबवा',
+  'chat.footer': 'AI उत्तरे गरज असेल तेव्हा तुमच्या गर्भावस्था माहितीसंग्रहाचा वापर करतात. नेहमी तुमच्या डॉक्टरांचा सल्ला घ्या.',
+  'chat.footerOffline': 'तुम्ही ऑफलाइन आहात: उत्तरे फक्त जतन केलेल्या माहितीसंग्रहातून येतील, आणि गंभीर लक्षणांची सूचना तरीही मिळेल.',
+  'chat.offlineAnswer': 'तुम्ही ऑफलाइन आहात, त्यामुळे पूर्ण उत्तर लिहिता येत नाही. ही जतन केलेली माहिती तुमच्या प्रश्नाशी जुळते:',
+  'chat.offlineNoMatch': 'तुम्ही ऑफलाइन आहात आणि जतन केलेली कोणतीही माहिती तुमच्या प्रश्नाशी जुळत नाही. कनेक्ट झाल्यावर पुन्हा विचारा, किंवा काळजी वाटत असल्यास आपत्कालीन टॅब पाहा.',
+  'chat.urgent.title': 'यासाठी तातडीच्या उपचारांची गरज असू शकते',
+  'chat.urgent.because': 'कारण तुम्ही "{text}" लिहिले',
+  'chat.urgent.callNow': 'बरे वाटत नसेल किंवा शंका असेल, तर आत्ताच तुमच्या डॉक्टरांना किंवा आपत्कालीन सेवेला (112, रुग्णवाहिका 108) फोन करा.',
+  'chat.urgent.guide': 'आपत्कालीन मार्गदर्शक',
+  'chat.urgent.askAnyway': 'तरीही सहाय्यकाला विचारा',
+  'chat.urgent.summary': 'यासाठी तातडीच्या उपचारांची गरज असू शकते: {signs}.',
+  'chat.urgent.summaryItem': '{sign} - {urgency} तुमच्या डॉक्टरांशी संपर्क साधा ({action})',
+  'chat.kbBased': 'पडताळलेल्या वैद्यकीय माहितीवर आधारित',
+  'chat.general': 'सामान्य सल्ला - तुमच्या डॉक्टरांना विचारा',
+  'chat.uncitedTitle': 'माहितीसंग्रहातून पुष्टी नाही - तुमच्या डॉक्टरांना विचारा',
+  'chat.uncitedHighlighted': 'ठळक केलेली',
+  'chat.uncitedNote': 'वाक्ये माहितीसंग्रहातून घेतलेली नाहीत',
+  'chat.interrupted': 'उत्तर मध्येच थांबले - ते अपूर्ण असू शकते',
+  'chat.stopped': 'उत्तर तयार होण्यापूर्वी थांबवले',
+  'chat.noResponse': 'मला उत्तर तयार करता आले नाही.',
+  'chat.error': 'माफ करा, आत्ता उत्तर देण्यात अडचण येत आहे. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.',
+  'chat.retry': 'पुन्हा प्रयत्न करा',
+  'chat.regenerate': 'नवीन उत्तर',
+
+  'common.save': 'जतन करा',
+  'common.next': 'पुढे',
+  'common.back': 'मागे',
+  'common.cancel': 'रद्द करा',
+  'common.date': 'तारीख',
+  'common.time': 'वेळ',
+  'common.and': ' आणि ',
+  'duration.hoursMinutes': '{hours} ता {minutes} मि',
+  'duration.minutesSeconds': '{minutes} मि {seconds} से',
+  'duration.seconds': '{seconds} से',
+
+  'tracker.title': 'गर्भधारणा आठवडा ट्रॅकर',
+  'tracker.basedOn': 'तुमच्या अपेक्षित प्रसूती तारखेनुसार: {date}',
+  'tracker.notSet': 'ठरवलेली नाही',
+  'tracker.currentWeek': 'तुम्ही सध्या आठवडा {week} मध्ये आहात',
+  'tracker.gestationalAge': 'गर्भावस्थेचे वय: {weeks} आठवडे, {days} दिवस ({trimester} तिमाही)',
+  'tracker.datedBy': 'गणनेचा आधार: {method}',
+  'tracker.deliveryWindow': 'संभाव्य प्रसूती कालावधी: {from} – {to}',
+  'tracker.forYou': 'तुमच्यासाठी',
+  'tracker.viewingWeek': 'आठवडा {week} पाहत आहात',
+  'tracker.backToCurrent': 'चालू आठवड्यावर परत जा',
+  'tracker.babyDevelopment': 'बाळाची वाढ',
+  'tracker.yourBody': 'तुमचे शरीर',
+  'tracker.commonSymptoms': 'सामान्य लक्षणे',
+  'tracker.exercise': 'सुचवलेला व्यायाम: {name}',
+  'tracker.checklist': 'या आठवड्याची यादी',
+  'tracker.comingSoon': 'आठवडा {week} ची सविस्तर माहिती लवकरच येत आहे!',
+  'dating.method.lmp': 'शेवटची मासिक पाळी',
+  'dating.method.dueDate': 'अपेक्षित प्रसूती तारीख',
+  'dating.method.ivf': 'IVF ट्रान्सफरची तारीख',
+  'dating.method.ultrasound': 'अल्ट्रासाऊंड (क्राउन-रंप लांबी)',
+  'profile.babies.one': 'एक बाळ',
+  'profile.babies.twins': 'जुळी',
+  'profile.babies.triplets': 'तिळी किंवा अधिक',
+  'profile.note.multiples': '{babies} अपेक्षित: सहसा वाढीचे जास्त स्कॅन सुचवले जातात, आणि 37 आठवड्यांपूर्वी प्रसूती होणे सामान्य आहे.',
+  'profile.note.pretermSigns': 'मुदतपूर्व प्रसूतीची लक्षणे आताच जाणून घ्या - नियमित आकुंचन, कमरेखाली दुखणे किंवा पाणी गळणे असेल तर डॉक्टरांना फोन करा.',
+  'profile.note.firstBaby': 'पहिले बाळ: प्रसूतीपूर्व वर्ग सहसा आठवडा 28-32 च्या आसपास सुरू होतात, म्हणून लवकर जागा नोंदवा.',
+  'profile.note.previousBirth': 'आधी प्रसूती झाली असल्यास प्रसूती अनेकदा लवकर होते - रुग्णालयात जाण्याचा मार्ग आधीच ठरवा.',
+  'profile.conditionNote.diabetes': 'सल्ल्याप्रमाणे रक्तातील साखर तपासत राहा; गर्भधारणेत कडक लक्ष्ये आणि वाढीचे जास्त स्कॅन सामान्य आहेत.',
+  'profile.conditionNote.highBloodPressure': 'रक्तदाब तपासत राहा आणि डोकेदुखी, दृष्टीतील बदल किंवा अचानक सूज कळवा - ही प्रीएक्लॅम्पसियाची लक्षणे असू शकतात.',
+  'profile.conditionNote.thyroid': 'गर्भधारणेत थायरॉइडच्या औषधाचा डोस अनेकदा वाढवावा लागतो; प्रत्येक तिमाहीत थायरॉइड तपासणी करा.',
+  'profile.conditionNote.asthma': 'प्रतिबंधक इनहेलर वापरत राहा - अनियंत्रित दमा बाळासाठी औषधापेक्षा जास्त धोकादायक आहे.',
+  'profile.conditionNote.pcos': 'PCOS मुळे गर्भावस्थेतील मधुमेहाची शक्यता वाढते, म्हणून लवकर ग्लुकोज तपासणी सुचवली जाऊ शकते.',
+  'profile.conditionNote.epilepsy': 'फिट्सचे औषध स्वतःहून बंद करू नका; अनेकदा फॉलिक ॲसिडचा जास्त डोस सुचवला जातो.',
+  'profile.conditionNote.anaemia': 'लोह सांगितल्याप्रमाणे घ्या आणि लोहयुक्त जेवणासोबत चहाऐवजी व्हिटॅमिन C घ्या.',
+  'profile.conditionNote.heartDisease': 'तुमच्या उपचार टीममध्ये हृदयरोगतज्ज्ञ असावेत; धाप लागणे, छातीत दुखणे किंवा धडधड लगेच कळवा.',
+  'profile.condition.diabetes': 'मधुमेह',
+  'profile.condition.highBloodPressure': 'उच्च रक्तदाब',
+  'profile.condition.thyroid': 'थायरॉईडचा विकार',
+  'profile.condition.asthma': 'दमा',
+  'profile.condition.pcos': 'पीसीओएस',
+  'profile.condition.epilepsy': 'अपस्मार',
+  'profile.condition.anaemia': 'रक्तक्षय (ॲनिमिया)',
+  'profile.condition.heartDisease': 'हृदयविकार',
+
+  'appointments.title': 'अपॉइंटमेंट आणि तपासण्या',
+  'appointments.export': 'कॅलेंडरमध्ये एक्सपोर्ट करा',
+  'appointments.intro': 'नेहमीचे स्कॅन आणि तपासण्या तुमच्या अपेक्षित प्रसूती तारखेवरून ठरतात. प्रत्येक तिच्या कालावधीत नोंदवा आणि नंतर निकाल जोडा.',
+  'appointments.intro.multiples': 'नेहमीचे स्कॅन आणि तपासण्या तुमच्या अपेक्षित प्रसूती तारखेवरून ठरतात, आणि {babies} साठी वाढीचे जास्त स्कॅन असतात. प्रत्येक तिच्या कालावधीत नोंदवा आणि नंतर निकाल जोडा.',
+  'appointments.intro.noDueDate': 'प्रत्येक नेहमीचा स्कॅन आणि तपासणी केव्हा आहे हे पाहण्यासाठी तुमची अपेक्षित प्रसूती तारीख ठरवा.',
+  'appointments.showPast': 'मागील आणि पूर्ण झालेल्या दाखवा ({count})',
+  'appointments.hidePast': 'मागील आणि पूर्ण झालेल्या लपवा ({count})',
+  'appointments.add': 'तुमची स्वतःची अपॉइंटमेंट जोडा',
+  'appointments.form.title': 'शीर्षक (उदा., दातांची तपासणी)',
+  'appointments.form.time': 'वेळ (ऐच्छिक)',
+  'appointments.form.location': 'क्लिनिक किंवा रुग्णालय (ऐच्छिक)',
+  'appointments.form.notes': 'नोंदी - विचारायचे प्रश्न, काय सोबत न्यायचे',
+  'appointments.form.result': 'निकाल (उदा., NT 1.6 mm, कमी धोका)',
+  'appointments.book': 'नोंदवा',
+  'appointments.bookAppointment': 'अपॉइंटमेंट नोंदवा',
+  'appointments.edit': 'अपॉइंटमेंट, नोंदी आणि निकाल बदला',
+  'appointments.removeBooking': 'नोंदणी काढा',
+  'appointments.delete': 'अपॉइंटमेंट हटवा',
+  'appointments.done': 'झाले',
+  'appointments.skip': 'वगळा',
+  'appointments.undo': 'पूर्ववत करा',
+  'appointments.skipped': 'वगळले',
+  'appointments.missed': 'कालावधी संपला - झाले असल्यास पूर्ण म्हणून खूण करा',
+  'appointments.overdue': 'हे झाले का? पूर्ण किंवा वगळले म्हणून खूण करा आणि निकाल जोडा.',
+  'appointments.at': 'ठिकाण: {location}',
+  'appointments.result': 'निकाल: {result}',
+  'appointments.window.week': 'आठवडा {week}',
+  'appointments.window.weeks': 'आठवडे {from}-{to}',
+  'appointments.bookBy': '{date} पर्यंत नोंदवा',
+  'appointments.bookBetween': '{from} ते {to} दरम्यान नोंदवा',
+  'appointments.dateAtTime': '{date}, {time} वाजता',
+  'appointments.today': 'आज',
+  'appointments.tomorrow': 'उद्या',
+  'appointments.inDays': '{days} दिवसांत',
+  'appointments.ics.bookFor': '{window} साठी नोंदवा ({from} ते {to}).',
+  'appointments.ics.notes': 'नोंदी: {notes}',
+  'appointments.ics.book': 'नोंदवा: {title}',
+
+  'reminders.title': 'स्मरणपत्रे',
+  'reminders.permission.granted': 'सूचना सुरू आहेत. ॲप उघडे असतानाच स्मरणपत्रे येतात, टॅब मागे असला तरी; ॲप बंद असताना काहीही येत नाही.',
+  'reminders.permission.denied': 'या साइटसाठी सूचना बंद आहेत - ब्राउझर सेटिंग्जमध्ये त्या सुरू करा. तोपर्यंत ॲप उघडे असताना स्मरणपत्रे इथे दिसतील.',
+  'reminders.permission.unsupported': 'हा ब्राउझर सूचना दाखवू शकत नाही, म्हणून ॲप उघडे असताना स्मरणपत्रे इथे दिसतात.',
+  'reminders.permission.default': 'हा टॅब मागे असतानाही आठवण मिळण्यासाठी सूचना सुरू करा.',
+  'reminders.enable': 'सूचना सुरू करा',
+  'reminders.comingUp': 'पुढे येणारी',
+  'reminders.todayAt': 'आज {time}',
+  'reminders.snoozed': 'पुढे ढकलले',
+  'reminders.delete': 'स्मरणपत्र हटवा',
+  'reminders.open': 'उघडा',
+  'reminders.dismiss': 'स्मरणपत्र बंद करा',
+  'reminders.snooze': '{minutes} मिनिटे पुढे ढकला',
+  'reminders.done': 'झाले',
+  'reminders.minutes': '{minutes} मिनिटे',
+  'reminders.settings.vitamins': 'प्रसूतीपूर्व जीवनसत्त्व (फॉलिक ॲसिड आणि लोह)',
+  'reminders.settings.vitaminsTime': 'जीवनसत्त्व स्मरणपत्राची वेळ',
+  'reminders.settings.kickCount': 'रोजची हालचाल मोजणी (आठवडा {week} पासून)',
+  'reminders.settings.kickCountTime': 'हालचाल मोजणी स्मरणपत्राची वेळ',
+  'reminders.settings.medications': 'स्मरणपत्र सुरू असलेल्या औषधांचे डोस',
+  'reminders.settings.appointments': 'अपॉइंटमेंटच्या आदल्या संध्याकाळी, आणि तपासणी नोंदवण्याची वेळ झाल्यावर',
+  'reminders.settings.weeklyDigest': 'साप्ताहिक "तुम्ही आता आठवडा N मध्ये आहात" अपडेट',
+  'reminders.settings.quietFrom': 'शांत वेळ',
+  'reminders.settings.quietTo': 'ते',
+  'reminders.settings.quietStart': 'शांत वेळ सुरू',
+  'reminders.settings.quietEnd': 'शांत वेळ संपते',
+  'reminders.settings.snoozeFor': 'पुढे ढकलण्याची वेळ',
+  'reminders.settings.quietNote': 'शांत वेळेत येणारी स्मरणपत्रे ती संपेपर्यंत थांबतात.',
+  'reminders.settings.save': 'स्मरणपत्र सेटिंग्ज जतन करा',
+  'reminders.custom.title': 'मला आठवण करून द्या... (उदा., पाणी पिणे)',
+  'reminders.custom.repeat': 'पुनरावृत्ती',
+  'reminders.custom.daily': 'रोज',
+  'reminders.custom.weekly': 'आठवड्यातील काही दिवस',
+  'reminders.custom.once': 'एकदा',
+  'reminders.custom.body': 'तपशील (ऐच्छिक)',
+  'reminders.custom.add': 'स्मरणपत्र जोडा',
+  'reminders.rule.daily': 'रोज {times} वाजता',
+  'reminders.rule.weekly': '{days}, {time} वाजता',
+  'reminders.vitamins.title': 'प्रसूतीपूर्व जीवनसत्त्वाची वेळ',
+  'reminders.vitamins.aimFor': 'रोज {amounts} चे लक्ष्य ठेवा.',
+  'reminders.vitamins.body': 'प्रसूतीपूर्व जीवनसत्त्व जेवणासोबत घ्या.',
+  'reminders.medication.title': '{name} ची वेळ',
+  'reminders.medication.bodyWithDose': '{dose} - ॲपमध्ये घेतले म्हणून खूण करा',
+  'reminders.medication.body': 'ॲपमध्ये घेतले म्हणून खूण करा',
+  'reminders.kickCount.title': 'हालचाली मोजण्याची वेळ',
+  'reminders.kickCount.body': 'कुशीवर झोपा आणि 10 हालचाली जाणवेपर्यंत मोजा.',
+  'reminders.appointment.title': 'उद्या: {title}',
+  'reminders.appointment.at': '{time} वाजता',
+  'reminders.appointment.body': 'वेळ तुमच्या क्लिनिककडून निश्चित करा.',
+  'reminders.booking.title': 'नोंदवण्याची वेळ: {title}',
+  'reminders.booking.body': 'तुमच्या डॉक्टरांकडे नोंदवा.',
+  'reminders.weeklyDigest.title': 'तुम्ही आता आठवडा {week} मध्ये आहात',
+  'reminders.weeklyDigest.thisWeek': 'या आठवड्यात: {item}',
+  'reminders.weeklyDigest.body': 'या आठवड्यात काय नवीन आहे ते ट्रॅकरमध्ये पाहा.',
+
+  'tools.openEmergency': 'आपत्कालीन मार्गदर्शन उघडा →',
+  'tools.week': 'आठवडा {week}',
+  'kicks.title': 'हालचाल मोजणी',
+  'kicks.intro': 'दिवसातून एकदा, बाळ सहसा सक्रिय असताना, {target} हालचाली जाणवायला किती वेळ लागतो ते पाहा - लाथा, कूस बदलणे, सळसळ आणि फडफड सर्व मोजले जाते.',
+  'kicks.startWeek': 'रोजची मोजणी सहसा आठवडा {week} पासून सुरू होते.',
+  'kicks.soFar': 'आतापर्यंत {duration}',
+  'kicks.felt': 'हालचाल जाणवली',
+  'kicks.stop': 'थांबवा',
+  'kicks.start': 'मोजणी सुरू करा',
+  'kicks.baseline': 'तुमचे बाळ सहसा सुमारे {duration} मध्ये {target} पर्यंत पोहोचते.',
+  'kicks.recent': 'अलीकडील मोजण्या',
+  'kicks.reached': '{duration} मध्ये {count}',
+  'kicks.stopped': '{duration} मध्ये {count}, थांबवले',
+  'kicks.delete': 'मोजणी हटवा',
+  'kicks.alert.noTarget.title': '2 तासांत {target} पेक्षा कमी हालचाली',
+  'kicks.alert.noTarget.message': 'तपासणीसाठी आताच तुमच्या प्रसूती विभागाशी संपर्क साधा - उद्यापर्यंत थांबू नका.',
+  'kicks.alert.slower.title': 'तुमचे बाळ नेहमीपेक्षा कमी हालचाल करत आहे',
+  'kicks.alert.slower.message': '{target} हालचालींना सहसा सुमारे {usual} लागतात. हालचाली वाढल्या तरी आजच तपासणीसाठी तुमच्या प्रसूती विभागाशी संपर्क साधा.',
+  'contractions.title': 'आकुंचन टायमर',
+  'contractions.intro': 'आकुंचन सुरू झाल्यावर टॅप करा आणि संपल्यावर पुन्हा.',
+  'contractions.intro.preterm': '37 आठवड्यांपूर्वी, 20 मिनिटांत 4 किंवा अधिक झाल्यास डॉक्टरांना फोन करा.',
+  'contractions.intro.term': '37 आठवड्यांपासून, 5-1-1 झाल्यावर रुग्णालयात जा: दर 5 मिनिटांनी, 1 मिनिट टिकणारे, 1 तासभर.',
+  'contractions.started': 'आकुंचन सुरू झाले',
+  'contractions.ended': 'आकुंचन संपले ({duration})',
+  'contractions.lastHour': 'मागील तास: {count} आकुंचने',
+  'contractions.lastHour.one': 'मागील तास: {count} आकुंचन',
+  'contractions.averageDuration': 'सरासरी {duration} टिकणारे',
+  'contractions.averageInterval': 'दर {duration} नी',
+  'contractions.column.started': 'सुरू',
+  'contractions.column.lasted': 'कालावधी',
+  'contractions.column.since': 'मागील पासून',
+  'contractions.ongoing': 'सुरू आहे',
+  'contractions.delete': 'आकुंचन हटवा',
+  'contractions.alert.preterm.title': '37 आठवड्यांपूर्वी नियमित आकुंचने',
+  'contractions.alert.preterm.message': 'ही मुदतपूर्व प्रसूती असू शकते. आताच प्रसूती विभागाला फोन करा, किंवा रक्तस्राव, पाणी गळणे किंवा तीव्र वेदना असल्यास रुग्णालयात जा.',
+  'contractions.alert.labor.title': 'तुमची आकुंचने 5-1-1 शी जुळतात',
+  'contractions.alert.labor.message': 'तासभर दर 5 मिनिटांनी एक मिनिट टिकणारी आकुंचने म्हणजे सहसा सक्रिय प्रसूती. प्रसूती विभागाला फोन करा आणि रुग्णालयात जा.',
+
+  'triage.yes': 'हो',
+  'triage.no': 'नाही',
+  'triage.none': 'काहीही नाही',
+  'triage.unit.days': 'दिवस',
+  'triage.unit.weeks': 'आठवडे',
+  'triage.unit.fahrenheit': '°F',
+  'triage.unit.celsius': '°C',
+  'triage.accompanying': 'यापैकी काही आणखी आहे का?',
+  'triage.accompanying.heavyBleeding': 'जास्त रक्तस्राव किंवा गुठळ्या',
+  'triage.accompanying.severePain': 'पोटात तीव्र वेदना',
+  'triage.accompanying.vision': 'धूसर दिसणे, ठिपके किंवा चमकणारे प्रकाश',
+  'triage.accompanying.legSwelling': 'एका पायात वेदना आणि सूज',
+  'triage.accompanying.faceSwelling': 'चेहरा किंवा हातांवर अचानक सूज',
+  'triage.bleeding': 'रक्तस्राव किंवा डाग',
+  'triage.bleeding.amount': 'किती रक्तस्राव होत आहे?',
+  'triage.bleeding.amount.spotting': 'डाग - काही थेंब, गुलाबी किंवा तपकिरी',
+  'triage.bleeding.amount.heavy': 'जास्त - तासाभरात पॅड भिजणे किंवा गुठळ्या पडणे',
+  'triage.bleeding.duration': 'डाग किती दिवसांपासून येत आहेत?',
+  'triage.bleeding.guidance': 'प्रमाण आणि रंग नोंदवा आणि तुमच्या डॉक्टरांना सांगा.',
+  'triage.discharge': 'योनीतून स्राव',
+  'triage.discharge.color': 'स्राव कसा दिसतो?',
+  'triage.discharge.color.clear': 'स्वच्छ किंवा दुधाळ पांढरा, सौम्य वास',
+  'triage.discharge.color.colored': 'हिरवा किंवा पिवळा, किंवा उग्र वास',
+  'triage.discharge.color.watery': 'पाण्यासारखा द्रव गळणे किंवा अचानक वाहणे',
+  'triage.discharge.guidance': 'गर्भधारणेत पातळ, दुधाळ स्राव सामान्य आहे. पाण्यासारखा द्रव सतत गळत असेल किंवा अचानक वाहत असेल, तर पाणमोट फुटलेली असू शकते - तुमच्या डॉक्टरांना किंवा प्रसूती विभागाला फोन करा.',
+  'triage.abdominalPain': 'पोटदुखी किंवा पेटके',
+  'triage.abdominalPain.intensity': 'वेदना किती तीव्र आहे?',
+  'triage.abdominalPain.intensity.mild': 'सौम्य - पाळीतील पेटक्यांसारखी, विश्रांतीने कमी होते',
+  'triage.abdominalPain.intensity.severe': 'तीव्र किंवा टोचणारी - चालणे किंवा बोलणे कठीण',
+  'triage.abdominalPain.pattern': 'ती नियमितपणे येते-जाते का, जसे दर 10 मिनिटांनी किंवा त्याहून कमी वेळात आकुंचन?',
+  'triage.abdominalPain.week': 'तुम्ही गर्भधारणेच्या कोणत्या आठवड्यात आहात?',
+  'triage.abdominalPain.guidance': '37 आठवड्यांपासून नियमित आकुंचने म्हणजे प्रसूती असू शकते. ती किमान 1 तास दर 5 मिनिटांनी येऊन प्रत्येकी 1 मिनिट टिकली की तुमच्या डॉक्टरांना किंवा प्रसूती विभागाला फोन करा - किंवा पाणमोट फुटल्यास त्याआधीच.',
+  'triage.headache': 'डोकेदुखी',
+  'triage.headache.intensity': 'डोकेदुखी किती तीव्र आहे?',
+  'triage.headache.intensity.mild': 'सौम्य ते मध्यम, विश्रांती किंवा पाण्याने कमी होते',
+  'triage.headache.intensity.severe': 'तीव्र किंवा आजवरची सर्वात वाईट, कमी होत नाही',
+  'triage.headache.vision': 'धूसर दिसत आहे का, किंवा ठिपके किंवा चमकणारे प्रकाश दिसत आहेत का?',
+  'triage.headache.guidance': 'सौम्य डोकेदुखी सामान्य आहे. विश्रांती घ्या, पाणी प्या आणि गर्भधारणेत सुरक्षित वेदनाशामकासाठी औषधे टॅब पाहा. ती वाढली किंवा थांबली नाही तर डॉक्टरांना फोन करा.',
+  'triage.fever': 'ताप',
+  'triage.fever.temperature': 'तुमचे तापमान किती आहे?',
+  'triage.fever.unit': 'ते °F मध्ये होते की °C मध्ये?',
+  'triage.fever.guidance': 'हे तापमान ताप नाही. विश्रांती घ्या, द्रवपदार्थ प्या आणि बरे वाटत नसल्यास पुन्हा मोजा.',
+  'triage.swelling': 'सूज',
+  'triage.swelling.location': 'सूज कुठे आहे?',
+  'triage.swelling.location.feet': 'पाय आणि घोटे',
+  'triage.swelling.location.faceHands': 'चेहरा किंवा हात',
+  'triage.swelling.location.oneLeg': 'एक पाय दुसऱ्यापेक्षा जास्त',
+  'triage.swelling.onset': 'ती अचानक आली का (काही तासांत किंवा एका दिवसात)?',
+  'triage.swelling.legPain': 'त्या पायात वेदना, उष्णता किंवा लालसरपणा आहे का?',
+  'triage.swelling.guidance': 'गर्भधारणेच्या शेवटच्या टप्प्यात पाय आणि घोट्यांवर हळूहळू सूज येणे सामान्य आहे. पाय उंच ठेवा आणि पाणी पीत राहा, आणि सूज अचानक आली किंवा चेहरा किंवा हातांवर आली तर डॉक्टरांना फोन करा.',
+  'triage.title': 'मार्गदर्शित लक्षण तपासणी',
+  'triage.alsoMentioned': 'तुम्ही हेही सांगितले',
+  'triage.checkAnother': 'दुसरे लक्षण तपासा',
+  'triage.noneOfThese': 'यापैकी काहीही नाही',
+  'triage.recent': 'अलीकडील लक्षण तपासण्या',
+  'triage.also': 'तसेच: {signs}',
+
+  'symptoms.title': 'लक्षण ट्रॅकर',
+  'symptoms.search': 'तुमचे लक्षण सांगा (उदा., रक्तस्राव, वेदना, ताप)',
+  'symptoms.byCategory': 'प्रकारानुसार सर्व लक्षणे',
+  'symptoms.openEmergencyGuide': 'आपत्कालीन मार्गदर्शक उघडा',
+  'symptoms.alertLine': '{sign}: {action} - तुमच्या डॉक्टरांशी संपर्क करा: {urgency}',
+  'journal.title': 'लक्षण डायरी',
+  'journal.form.symptom': 'लक्षण (उदा., मळमळ, सौम्य पेटके)',
+  'journal.form.severity': 'तीव्रता',
+  'journal.form.add': 'डायरीत जोडा',
+  'journal.severity.mild': 'सौम्य',
+  'journal.severity.moderate': 'मध्यम',
+  'journal.severity.severe': 'तीव्र',
+  'journal.last12Weeks': 'मागील 12 आठवडे',
+  'journal.dayEntries.one': '{date}: {count} नोंद',
+  'journal.dayEntries': '{date}: {count} नोंदी',
+  'journal.heatmapLegend': 'गडद दिवसांत जास्त नोंदी आहेत; लाल वर्तुळ तीव्र नोंद दाखवते.',
+  'journal.nothingLogged': 'या दिवशी काहीही नोंदवले नाही',
+  'journal.week': 'आठवडा {week}',
+  'journal.seeEmergency': '{signs} - आपत्कालीन मार्गदर्शन पहा',
+  'journal.delete': 'नोंद हटवा',
+  'journal.trends': 'हा आठवडा विरुद्ध मागील आठवडा',
+  'journal.column.symptom': 'लक्षण',
+  'journal.column.thisWeek': 'मागील 7 दिवस',
+  'journal.column.lastWeek': 'त्याआधीचे 7 दिवस',
+  'journal.column.trend': 'कल',
+  'journal.average': '(सरासरी {severity})',
+
+  'vitals.title': 'रक्तदाब, साखर आणि सूज',
+  'vitals.alertLimits': 'सूचना मर्यादा',
+  'vitals.conditionNote': 'तुमच्या प्रोफाइलमध्ये {conditions} आहे, त्यामुळे डॉक्टर सांगतील तितक्या वेळा रीडिंग नोंदवा आणि ही नोंद तपासणीला सोबत आणा.',
+  'vitals.kind.bloodPressure': 'रक्तदाब',
+  'vitals.kind.glucose': 'साखर',
+  'vitals.kind.weight': 'वजन',
+  'vitals.kind.swelling': 'सूज',
+  'vitals.form.systolic': 'सिस्टोलिक (वरचा)',
+  'vitals.form.diastolic': 'डायस्टोलिक (खालचा)',
+  'vitals.form.glucose': 'साखर ({unit})',
+  'vitals.form.weight': 'वजन ({unit})',
+  'vitals.form.sudden': 'अचानक आली',
+  'vitals.form.log': 'रीडिंग नोंदवा',
+  'vitals.timing.fasting': 'उपाशीपोटी',
+  'vitals.timing.oneHour': 'जेवणानंतर 1 तासाने',
+  'vitals.timing.twoHour': 'जेवणानंतर 2 तासांनी',
+  'vitals.area.feet': 'पाय आणि घोटे',
+  'vitals.area.hands': 'हात',
+  'vitals.area.face': 'चेहरा',
+  'vitals.area.oneLeg': 'एक पाय दुसऱ्यापेक्षा जास्त',
+  'vitals.sudden': '{areas} (अचानक)',
+  'vitals.alert.severeBloodPressure': '{reading} हे {limit} किंवा त्याहून जास्त आहे. आत्ताच उपचार घ्या, विशेषतः डोकेदुखी, दृष्टीत बदल किंवा पोटाच्या वरच्या भागात वेदना असल्यास.',
+  'vitals.alert.highBloodPressure': '{reading} हे {limit} किंवा त्याहून जास्त आहे. 15 मिनिटे विश्रांती घेऊन पुन्हा मोजा; तरीही जास्त असल्यास आजच डॉक्टरांना फोन करा.',
+  'vitals.alert.lowGlucose': '{value} कमी आहे. 15 ग्रॅम लवकर परिणाम करणारी साखर घ्या, जसे अर्धा ग्लास रस, आणि 15 मिनिटांनी पुन्हा तपासा.',
+  'vitals.alert.repeatedHighGlucose': '{value} हे तुमच्या {timing} लक्ष्य {target} पेक्षा जास्त आहे, आणि या आठवड्यात {count} रीडिंग जास्त आल्या. तुमच्या उपचारांबद्दल डॉक्टरांना फोन करा.',
+  'vitals.alert.highGlucose': '{value} हे तुमच्या {timing} लक्ष्य {target} पेक्षा जास्त आहे. तुम्ही काय खाल्ले ते लिहून ठेवा आणि पुढच्या तपासणीत सांगा.',
+  'vitals.alert.faceHandSwelling': 'चेहरा किंवा हातांवर अचानक सूज हे प्रीएक्लॅम्पसियाचे लक्षण असू शकते. तुमचा रक्तदाब तपासा आणि आजच डॉक्टरांना फोन करा.',
+  'vitals.alert.legSwelling': 'एका पायात सूज, विशेषतः ती दुखरी, गरम किंवा लाल असल्यास, रक्ताची गुठळी असू शकते. आजच तपासून घ्या.',
+  'vitals.alert.weightGain': 'एका आठवड्यात तुमचे वजन {gain} वाढले आहे. अचानक वजन वाढणे प्रीएक्लॅम्पसियामध्ये शरीरात पाणी साचल्याने होऊ शकते - तुमचा रक्तदाब तपासा आणि डॉक्टरांना फोन करा.',
+  'vitals.alertAdvice': '{action} • तुमच्या डॉक्टरांशी संपर्क करा: {urgency}',
+  'vitals.limits.intro': 'सूचना या मर्यादा वापरतात. तुमचे डॉक्टर तुम्हाला वेगळी लक्ष्ये देऊ शकतात.',
+  'vitals.limits.systolic': 'जास्त सिस्टोलिक',
+  'vitals.limits.diastolic': 'जास्त डायस्टोलिक',
+  'vitals.limits.severeSystolic': 'तीव्र सिस्टोलिक',
+  'vitals.limits.severeDiastolic': 'तीव्र डायस्टोलिक',
+  'vitals.limits.glucoseUnit': 'साखरेचे एकक',
+  'vitals.limits.fasting': 'उपाशीपोटी लक्ष्य',
+  'vitals.limits.oneHour': '1 तासाचे लक्ष्य',
+  'vitals.limits.twoHour': '2 तासांचे लक्ष्य',
+  'vitals.limits.lowGlucose': 'कमी साखर',
+  'vitals.limits.weeklyGain': 'साप्ताहिक वाढ ({unit})',
+  'vitals.limits.unitNote': 'साखरेच्या मर्यादा वर निवडलेल्या एककात वाचल्या जातात.',
+  'vitals.limits.reset': 'मूळ मर्यादा परत आणा',
+  'vitals.chart.bloodPressure': 'वेळेनुसार रक्तदाब रीडिंग',
+  'vitals.chart.glucose': 'वेळेनुसार साखर रीडिंग',
+  'vitals.chart.fastingLimit': 'उपाशी',
+  'vitals.chart.oneHourLimit': '1 ता',
+  'vitals.legend.fasting': 'उपाशीपोटी',
+  'vitals.legend.oneHour': '1 तासानंतर',
+  'vitals.legend.twoHour': '2 तासांनंतर',
+  'vitals.delete': 'रीडिंग हटवा',
+  'vitals.seeWeightChart': 'पोषण टॅबवर तुमचा वजन चार्ट पहा →',
+
+  'diet.nonVegetarian': 'मांसाहारी',
+  'diet.pescatarian': 'पेस्केटेरियन (मासे, मांस नाही)',
+  'diet.eggetarian': 'अंडाहारी (शाकाहारी आणि अंडी)',
+  'diet.vegetarian': 'शाकाहारी (मांस, मासे किंवा अंडी नाहीत)',
+  'diet.jain': 'जैन',
+  'diet.vegan': 'व्हेगन',
+  'diet.note.veganB12': 'व्हेगन आहारात B12 पूरक हवे, आणि कॅल्शियम व जीवनसत्त्व D फोर्टिफाइड वनस्पती दूध किंवा गोळ्यांमधून.',
+  'diet.note.veganDha': 'ओमेगा-3 DHA शैवालापासून बनवलेल्या पूरकातून घ्या, आणि लोह डाळ, चणे आणि पालेभाज्यांमधून, जीवनसत्त्व C सोबत.',
+  'diet.note.vegetarianB12': 'शाकाहारी आहारात दुग्धजन्य पदार्थ, अंडी किंवा पूरकातून खात्रीशीर B12 हवे.',
+  'diet.note.vegetarianIron': 'लोहयुक्त डाळ, राजमा आणि पालेभाज्या जीवनसत्त्व C सोबत खा, आणि शैवालापासून बनवलेल्या DHA पूरकाबद्दल विचारा.',
+
+  'nutrition.title': 'पोषण नियोजन',
+  'nutrition.forDiet': 'तुमच्या {diet} आहारासाठी',
+  'nutrition.daily': 'दररोजच्या पोषण गरजा',
+  'nutrition.weightGain': 'शिफारस केलेली वजनवाढ',
+  'nutrition.bmiRange': 'BMI श्रेणी',
+  'nutrition.totalGain': 'एकूण वाढ',
+  'nutrition.totalGainTwins': 'एकूण वाढ (जुळी)',
+  'nutrition.noGuideline': 'मार्गदर्शक सूचना नाही',
+  'nutrition.avoid': 'टाळायचे पदार्थ',
+  'nutrition.unsafeSeafood': 'असुरक्षित सागरी अन्न (जास्त पारा)',
+  'nutrition.includes': 'यात {items} येतात',
+  'nutrition.morningSickness': 'मॉर्निंग सिकनेससाठी टिप्स',
+  'nutrition.whatToEat': 'काय खावे:',
+  'nutrition.foodsToAvoid': 'कोणते पदार्थ टाळावे:',
+  'nutrition.eatingTips': 'खाण्याच्या टिप्स:',
+
+  'foodDiary.title': 'आहार डायरी',
+  'foodDiary.form.food': 'पदार्थ (उदा., डाळ, पनीर, गर्भावस्थेतील जीवनसत्त्व)',
+  'foodDiary.form.meal': 'जेवणाची वेळ',
+  'foodDiary.form.servings': 'सर्व्हिंग',
+  'foodDiary.form.add': 'डायरीत जोडा',
+  'foodDiary.meal.breakfast': 'न्याहारी',
+  'foodDiary.meal.lunch': 'दुपारचे जेवण',
+  'foodDiary.meal.dinner': 'रात्रीचे जेवण',
+  'foodDiary.meal.snack': 'अल्पोपहार',
+  'foodDiary.notFound': '"{food}" अजून पोषक घटक डेटाबेसमध्ये नाही - यादीतून पदार्थ निवडा.',
+  'foodDiary.overLimit': 'सुरक्षित वरच्या मर्यादेपेक्षा जास्त',
+  'foodDiary.overLimitLine': '{nutrient}: {total} (मर्यादा {limit})',
+  'foodDiary.aboveRange': 'शिफारस केलेल्या श्रेणीपेक्षा जास्त',
+  'foodDiary.prescribed': 'डॉक्टरांनी दिलेल्या पूरकामुळे दररोजच्या {limit} मर्यादेपेक्षा जास्त. ते सांगितल्याप्रमाणे घ्या, आणि डोसबद्दल शंका असल्यास डॉक्टरांना विचारा.',
+  'foodDiary.empty': 'या दिवसासाठी अजून काहीही नोंदवलेले नाही.',
+  'foodDiary.mayContain': 'यात {allergies} असू शकते',
+
+  'food.title': 'अन्न सुरक्षा तपासणी',
+  'food.search': 'कोणत्याही भाषेत पदार्थ शोधा (उदा., सुरमई, पनीर, चहा, सीफूड)',
+  'food.verdict.safe': 'सुरक्षित',
+  'food.verdict.limit': 'मर्यादित प्रमाण',
+  'food.verdict.avoid': 'टाळा',
+  'food.limit': 'दर {per} {amount} {unit} पर्यंत',
+  'food.per.day': 'दिवशी',
+  'food.per.week': 'आठवड्याला',
+  'food.category': 'आमच्या मार्गदर्शकातील सर्व {category}, आधी टाळायचे पदार्थ',
+  'food.fuzzy': '"{query}" शी नेमके जुळणारे नाही - सर्वात जवळची नावे दाखवत आहोत.',
+  'food.dietHidden.one': 'तुमच्या {diet} आहारामुळे {count} निकाल लपवला.',
+  'food.dietHidden': 'तुमच्या {diet} आहारामुळे {count} निकाल लपवले.',
+  'food.dietShown.one': 'यात तुमच्या {diet} आहारात न येणारा {count} पदार्थ आहे.',
+  'food.dietShown': 'यात तुमच्या {diet} आहारात न येणारे {count} पदार्थ आहेत.',
+  'food.hideThem': 'ते लपवा',
+  'food.showAnyway': 'तरीही दाखवा',
+  'food.alsoCalled': 'इतर नावे: {names}',
+  'food.notFound': '"{query}" आमच्या अन्न मार्गदर्शकात नाही',
+  'food.notFoundAdvice': 'सर्वसाधारण नियम: मांस, मासे आणि अंडी पूर्ण शिजवा, पाश्चराइज्ड दुग्धजन्य पदार्थ निवडा, फळे-भाज्या धुवा, आणि शंका असल्यास डॉक्टरांना विचारा.',
+
+  'weight.chart': 'शिफारस केलेल्या श्रेणीच्या तुलनेत वजनवाढ',
+  'weight.chart.week': 'आठवडा',
+  'weight.profile.intro': 'शिफारस केलेल्या श्रेणीशी तुमच्या वजनवाढीची तुलना करण्यासाठी तुमची उंची आणि गर्भधारणेपूर्वीचे वजन नोंदवा.',
+  'weight.profile.unit': 'एकके',
+  'weight.profile.imperial': 'पाउंड / इंच',
+  'weight.profile.metric': 'किलोग्रॅम / सेंटीमीटर',
+  'weight.profile.height': 'उंची',
+  'weight.profile.weight': 'गर्भधारणेपूर्वीचे वजन',
+  'weight.profile.edit': 'उंची आणि वजन बदला',
+  'weight.bmi': 'गर्भधारणेपूर्वीचा BMI',
+  'weight.totalRange': 'एकूण {min} - {max} वाढवा',
+  'weight.twinRange': '(जुळ्यांसाठी श्रेणी)',
+  'weight.status': 'आठवडा {week} मध्ये तुमचे वजन {gain} वाढले आहे; सध्यासाठी शिफारस केलेली श्रेणी {min} - {max} आहे.',
+  'weight.status.within': 'तुम्ही योग्य मार्गावर आहात.',
+  'weight.status.above': 'हे श्रेणीपेक्षा जास्त आहे - पुढच्या तपासणीत सांगा.',
+  'weight.status.below': 'हे श्रेणीपेक्षा कमी आहे - पुढच्या तपासणीत सांगा.',
+  'weight.noRange': 'तुमच्या BMI वर {babies} साठी वजनवाढीची कोणतीही प्रमाणित श्रेणी नाही - डॉक्टरांकडून वैयक्तिक लक्ष्य विचारा.',
+  'weight.setDueDate': 'चार्टवर वजन दाखवण्यासाठी तुमची अपेक्षित तारीख सेट करा.',
+  'weight.log': 'वजन नोंदवा',
+  'weight.delete': 'वजन नोंद हटवा',
+
+  'onboarding.title.dating': 'तुमची अपेक्षित तारीख',
+  'onboarding.title.pregnancy': 'तुमची गर्भधारणा',
+  'onboarding.title.health': 'तुमचे आरोग्य',
+  'onboarding.close': 'बंद करा',
+  'onboarding.step': 'पायरी {step} / {total} - यामुळे प्रत्येक टॅब तुमच्यानुसार बनतो, आणि ही माहिती याच डिव्हाइसवर राहते',
+  'onboarding.dating.method': 'गर्भधारणेची तारीख यावरून ठरवा:',
+  'onboarding.dating.dueDate': 'तुमची अपेक्षित तारीख नोंदवा:',
+  'onboarding.dating.lmp': 'शेवटच्या मासिक पाळीचा पहिला दिवस:',
+  'onboarding.dating.cycleLength': 'सरासरी चक्राची लांबी (दिवस):',
+  'onboarding.dating.transferDate': 'भ्रूण प्रत्यारोपणाची तारीख:',
+  'onboarding.dating.embryoAge': 'प्रत्यारोपणाच्या वेळी भ्रूणाचे वय:',
+  'onboarding.dating.day3': 'दिवस 3',
+  'onboarding.dating.day5': 'दिवस 5 (ब्लास्टोसिस्ट)',
+  'onboarding.dating.scanDate': 'स्कॅनची तारीख:',
+  'onboarding.dating.crownRumpLength': 'क्राउन-रंप लांबी (मि.मी.):',
+  'onboarding.dating.invalid': 'या माहितीवरून योग्य अपेक्षित तारीख मिळत नाही. कृपया मूल्ये तपासून पुन्हा प्रयत्न करा.',
+  'onboarding.babies': 'तुम्हाला किती बाळे अपेक्षित आहेत?',
+  'onboarding.babies.one': 'एक',
+  'onboarding.babies.twins': 'जुळी',
+  'onboarding.babies.triplets': 'तिळी किंवा अधिक',
+  'onboarding.parity': 'तुम्ही यापूर्वी किती वेळा बाळाला जन्म दिला आहे?',
+  'onboarding.diet': 'आहार:',
+  'onboarding.allergies': 'ॲलर्जी (पदार्थ किंवा औषधे, स्वल्पविरामाने वेगळी करा):',
+  'onboarding.allergies.placeholder': 'उदा., शेंगदाणे, पेनिसिलिन',
+  'onboarding.conditions': 'गर्भधारणेपूर्वीचे आजार:',
+  'onboarding.conditions.other': 'इतर आजार',
+  'onboarding.medications': 'सध्या घेत असलेली औषधे किंवा पूरके:',
+  'onboarding.medications.placeholder': 'उदा., थायरोनॉर्म, गर्भावस्थेतील जीवनसत्त्व',
+  'onboarding.medications.existing': 'तुमच्या यादीत आधीच: {names}',
+  'onboarding.medications.note': 'तुमच्या प्रोफाइलमधून जोडले - रिमाइंडर मिळवण्यासाठी डोस आणि वेळ ठरवा',
+  'onboarding.save': 'प्रोफाइल जतन करा'
+};
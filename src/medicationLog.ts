@@ -0,0 +1,124 @@
+import { Medication, SafetyRating } from './knowledgeBaseSchema';
+import { Trimester, getTrimester, toDateInputValue } from './gestationalAge';
+import { createId } from './conversations';
+import { Locale, localize, translate } from './i18n';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type MedicationKind = 'medication' | 'supplement';
+export type MedicationFrequency = 'daily' | 'asNeeded';
+
+export type MedicationLogEntry = {
+  id: string;
+  name: string;
+  kind: MedicationKind;
+  dose: string;
+  frequency: MedicationFrequency;
+  // Scheduled times (HH:MM) for daily entries
+  times: string[];
+  reminders: boolean;
+  notes: string;
+  // Scheduled doses marked as taken, keyed `${date}T${time}`
+  taken: string[];
+  createdAt: number;
+};
+
+export type MedicationAssessment = {
+  // The knowledge base entry the name matched, or null when it isn't covered
+  medication: Medication | null;
+  safety: SafetyRating | null;
+  safetyLevel: string;
+  reason?: string;
+  // The next rating change within the notice window, e.g. Ibuprofen turning red at week 28
+  upcoming?: { week: number; safety: SafetyRating; safetyLevel: string; reason: string };
+};
+
+export type DueDose = {
+  entry: MedicationLogEntry;
+  time: string;
+  key: string;
+};
+
+// ==================== SAFETY ====================
+// Matches getTrimester: weeks 0-12 first, 13-27 second, 28+ third
+const TRIMESTER_START_WEEKS: Record<Trimester, number> = { First: 0, Second: 13, Third: 28 };
+// How far ahead to warn that a rating is about to change
+const UPCOMING_NOTICE_WEEKS = 2;
+
+const ratingFor = (medication: Medication, trimester: Trimester, locale: Locale) => {
+  const rule = medication.trimesterRules?.find(r => r.trimesters.includes(trimester));
+  if (rule) {
+    const shown = localize(rule, locale);
+    return { safety: rule.safety, safetyLevel: shown.safetyLevel, reason: shown.reason };
+  }
+  const shown = localize(medication, locale);
+  return { safety: medication.safety as SafetyRating, safetyLevel: shown.safetyLevel, reason: shown.note };
+};
+
+export const assessMedication = (medication: Medication | null, week: number, locale: Locale): MedicationAssessment => {
+  if (!medication) {
+    return { medication: null, safety: null, safetyLevel: translate(locale, 'medications.notInDatabase') };
+  }
+
+  const trimester = getTrimester(week);
+  const current = ratingFor(medication, trimester, locale);
+  const nextTrimester = (Object.keys(TRIMESTER_START_WEEKS) as Trimester[])
+    .find(t => TRIMESTER_START_WEEKS[t] > week && TRIMESTER_START_WEEKS[t] - week <= UPCOMING_NOTICE_WEEKS);
+  const next = nextTrimester ? ratingFor(medication, nextTrimester, locale) : null;
+
+  return {
+    medication,
+    ...current,
+    upcoming: nextTrimester && next && next.safety !== current.safety
+      ? { week: TRIMESTER_START_WEEKS[nextTrimester], safety: next.safety, safetyLevel: next.safetyLevel, reason: next.reason || '' }
+      : undefined
+  };
+};
+
+// ==================== SCHEDULE ====================
+export const doseKey = (date: string, time: string) => `${date}T${time}`;
+
+const timeOf = (now: Date) => now.toTimeString().slice(0, 5);
+
+// Today's scheduled doses whose time has passed and that haven't been marked taken
+export const getDueDoses = (entries: MedicationLogEntry[], now: Date): DueDose[] => {
+  const today = toDateInputValue(now);
+  const currentTime = timeOf(now);
+  return entries
+    .filter(entry => entry.frequency === 'daily')
+    .flatMap(entry => entry.times
+      .filter(time => time <= currentTime && !entry.taken.includes(doseKey(today, time)))
+      .map(time => ({ entry, time, key: doseKey(today, time) })))
+    .sort((a, b) => a.time.localeCompare(b.time));
+};
+
+// The next scheduled time after now, today or tomorrow
+export const getNextDoseTime = (entry: MedicationLogEntry, now: Date): string | null => {
+  if (entry.frequency !== 'daily' || entry.times.length === 0) return null;
+  const sorted = [...entry.times].sort();
+  return sorted.find(time => time > timeOf(now)) || sorted[0];
+};
+
+export const markDoseTaken = (entries: MedicationLogEntry[], entryId: string, key: string): MedicationLogEntry[] =>
+  entries.map(entry => (entry.id === entryId && !entry.taken.includes(key) ? { ...entry, taken: [...entry.taken, key] } : entry));
+
+// ==================== PERSISTENCE ====================
+const MEDICATION_LOG_STORAGE_KEY = 'pregnancyMedicationLog';
+// Keep roughly a month of taken doses per entry so storage doesn't grow forever
+const MAX_TAKEN_PER_ENTRY = 120;
+
+const isMedicationLogEntry = (value: unknown): value is MedicationLogEntry =>
+  hasFields(value, { id: 'string', name: 'string', kind: 'string', frequency: 'string', times: 'array', taken: 'array', createdAt: 'number' });
+
+export const loadMedicationLog = (): MedicationLogEntry[] =>
+  loadJson(MEDICATION_LOG_STORAGE_KEY, [], listOf(isMedicationLogEntry));
+
+export const saveMedicationLog = (entries: MedicationLogEntry[]) =>
+  saveJson(MEDICATION_LOG_STORAGE_KEY, entries.map(entry => ({ ...entry, taken: entry.taken.slice(-MAX_TAKEN_PER_ENTRY) })));
+
+export const createMedicationLogEntry = (fields: Omit<MedicationLogEntry, 'id' | 'taken' | 'createdAt'>): MedicationLogEntry => ({
+  ...fields,
+  id: createId(),
+  taken: [],
+  createdAt: Date.now()
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { assessMedication } from './medicationLog';
+import { MedicationMatch, MedicationResolver, assessMatch, normalizeMedicationName } from './medicationLookup';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+const { medications } = loadTestKnowledgeBase();
+const resolver = new MedicationResolver(
+  medications.byCondition.flatMap(condition => condition.medications),
+  medications.combinationProducts
+);
+
+const nameOf = (match: MedicationMatch | null | undefined) =>
+  !match ? null : match.kind === 'single' ? match.medication.drug : match.product.name;
+
+describe('MedicationResolver.resolve', () => {
+  it.each([
+    ['Tylenol', 'Acetaminophen'],
+    ['Dolo 650 tablet', 'Acetaminophen'],
+    ['paracetamol', 'Acetaminophen'],
+    ['Doxylamine', 'Doxylamine'],
+    ['Pan D', 'Pan-D'],
+    ['Combiflam', 'Combiflam'],
+    ['Ecosprin 75', 'Low-dose aspirin'],
+    ['Disprin', 'Aspirin'],
+    ['aspirin', 'Aspirin']
+  ])('resolves "%s" to %s', (name, expected) => {
+    expect(nameOf(resolver.resolve(name))).toBe(expected);
+  });
+
+  it.each(['met', 'doxy', 'crocine'])('does not guess for "%s"', name => {
+    expect(resolver.resolve(name)).toBeNull();
+  });
+});
+
+describe('normalizeMedicationName', () => {
+  it('drops doses and forms but keeps digits that are part of the name', () => {
+    expect(normalizeMedicationName('Dolo 650 tablet')).toBe('dolo');
+    expect(normalizeMedicationName('Calpol 5 ml syrup')).toBe('calpol');
+    expect(normalizeMedicationName('Doxy-1')).toBe('doxy 1');
+    expect(normalizeMedicationName('Omega-3 DHA')).toBe('omega 3 dha');
+  });
+});
+
+describe('MedicationResolver.lookup', () => {
+  it('still offers close names in the checker', () => {
+    const lookup = resolver.lookup('crocine');
+    expect(nameOf(lookup.matches[0])).toBe('Acetaminophen');
+    expect(lookup.matches[0].fuzzy).toBe(true);
+  });
+
+  it('lists both drugs a prefix could mean', () => {
+    const names = resolver.lookup('doxy').matches.map(nameOf);
+    expect(names).toEqual(expect.arrayContaining(['Doxylamine', 'Doxycycline']));
+  });
+
+  it('prefers an exact product over a drug named inside it', () => {
+    expect(resolver.lookup('Pan D').matches.map(nameOf)).toEqual(['Pan-D']);
+  });
+});
+
+describe('assessMatch', () => {
+  it('rates Ibuprofen by trimester, alone and inside Combiflam', () => {
+    const ibuprofen = resolver.resolve('Ibuprofen');
+    expect(ibuprofen?.kind === 'single' && assessMedication(ibuprofen.medication, 20, 'en').safety).toBe('🟡');
+    expect(assessMatch(ibuprofen || undefined, 30, 'en').safety).toBe('🔴');
+    expect(assessMatch(resolver.resolve('Combiflam') || undefined, 30, 'en').safety).toBe('🔴');
+  });
+
+  it('rates prescribed low-dose aspirin apart from pain-relief aspirin', () => {
+    const lowDose = assessMatch(resolver.resolve('Ecosprin') || undefined, 30, 'en');
+    expect(lowDose.safety).toBe('🟡');
+    expect(lowDose.safetyLevel).toBe('Only as Prescribed');
+    expect(lowDose.reason).toContain("Don't stop");
+    expect(assessMatch(resolver.resolve('Disprin') || undefined, 30, 'en').safety).toBe('🔴');
+  });
+
+  it("won't vouch for a combination with an unknown ingredient", () => {
+    const assessment = assessMatch(resolver.resolve('Pan D') || undefined, 20, 'en');
+    expect(assessment.safety).toBeNull();
+    expect(assessment.safetyLevel).toContain('Domperidone');
+  });
+
+  it('treats an unresolved name as not in the database', () => {
+    expect(assessMatch(undefined, 20, 'en').safety).toBeNull();
+  });
+
+  it("words the rating and the trimester rule's reason in the chosen language", () => {
+    const assessment = assessMatch(resolver.resolve('Ibuprofen') || undefined, 30, 'hi');
+    expect(assessment.safetyLevel).toBe('बचें');
+    expect(assessment.reason).toContain('सप्ताह 28');
+  });
+});
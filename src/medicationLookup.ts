@@ -0,0 +1,151 @@
+import { CombinationProduct, Medication, SafetyRating } from './knowledgeBaseSchema';
+import { Locale, translate } from './i18n';
+import { NameEntry, NameResolver } from './nameResolver';
+import { MedicationAssessment, assessMedication } from './medicationLog';
+
+// ==================== TYPES ====================
+export type IngredientMatch = {
+  ingredient: string;
+  // Null when the ingredient isn't in the knowledge base
+  medication: Medication | null;
+};
+
+export type MedicationMatch =
+  | { kind: 'single'; medication: Medication; matchedName: string; fuzzy: boolean }
+  | { kind: 'combination'; product: CombinationProduct; ingredients: IngredientMatch[]; matchedName: string; fuzzy: boolean };
+
+export type MedicationLookup = {
+  query: string;
+  matches: MedicationMatch[];
+  // Close names to offer when nothing matched, e.g. "Did you mean Crocin?"
+  suggestions: string[];
+};
+
+type MedicationTarget = { kind: 'single'; medication: Medication } | { kind: 'combination'; product: CombinationProduct };
+
+// ==================== NORMALIZING ====================
+// Dose and dosage-form words don't identify a drug: "Dolo 650 tablet" is just "dolo"
+const FORM_WORDS = new Set([
+  'mg', 'mcg', 'ml', 'g', 'tab', 'tabs', 'tablet', 'tablets', 'cap', 'caps', 'capsule', 'capsules', 'syrup',
+  'suspension', 'cream', 'gel', 'ointment', 'drops', 'spray', 'injection', 'sr', 'er', 'xr', 'ds', 'forte'
+]);
+
+const UNITS = new Set(['mg', 'mcg', 'ml', 'g']);
+
+// A dose is a number with a unit or of two digits or more; a lone digit is part of the name ("Doxy-1", "Omega-3")
+const isDose = (token: string, next: string | undefined): boolean =>
+  /^\d+(mg|mcg|ml|g)$/.test(token) || /^\d{2,}$/.test(token) || (/^\d$/.test(token) && next !== undefined && UNITS.has(next));
+
+export const normalizeMedicationName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token, i, tokens) => token && !FORM_WORDS.has(token) && !isDose(token, tokens[i + 1]))
+    .join(' ');
+
+// ==================== RESOLVER ====================
+export class MedicationResolver {
+  // Keyed by drug or product, so "Tylenol" and "Paracetamol" don't list Acetaminophen twice
+  private names = new NameResolver<MedicationTarget>(
+    normalizeMedicationName,
+    target => (target.kind === 'single' ? target.medication : target.product)
+  );
+  private byDrug = new Map<string, Medication>();
+
+  constructor(medications: Medication[], combinationProducts: CombinationProduct[] = []) {
+    medications.forEach(medication => {
+      const target: MedicationTarget = { kind: 'single', medication };
+      [medication.drug, medication.brand, ...(medication.aliases || [])].forEach(name => {
+        if (!name) return;
+        this.names.add(name, target);
+        const normalized = normalizeMedicationName(name);
+        if (normalized && !this.byDrug.has(normalized)) this.byDrug.set(normalized, medication);
+      });
+    });
+    combinationProducts.forEach(product => {
+      const target: MedicationTarget = { kind: 'combination', product };
+      [product.name, ...(product.aliases || [])].forEach(name => this.names.add(name, target));
+    });
+  }
+
+  private findIngredient(ingredient: string): Medication | null {
+    return this.byDrug.get(normalizeMedicationName(ingredient)) || null;
+  }
+
+  private toMatch(entry: NameEntry<MedicationTarget>, fuzzy: boolean): MedicationMatch {
+    return entry.target.kind === 'single'
+      ? { kind: 'single', medication: entry.target.medication, matchedName: entry.name, fuzzy }
+      : {
+        kind: 'combination',
+        product: entry.target.product,
+        ingredients: entry.target.product.ingredients.map(ingredient => ({ ingredient, medication: this.findIngredient(ingredient) })),
+        matchedName: entry.name,
+        fuzzy
+      };
+  }
+
+  // Only an exact drug, brand, alias or product name. The medication log rates what someone actually takes,
+  // so it can't rely on a prefix or a misspelling: "doxy" could be doxylamine or doxycycline.
+  resolve(name: string): MedicationMatch | null {
+    const entry = this.names.findExact(name);
+    return entry ? this.toMatch(entry, false) : null;
+  }
+
+  lookup(query: string, limit: number = 5): MedicationLookup {
+    const matches = this.names.find(query, limit).map(({ entry, fuzzy }) => this.toMatch(entry, fuzzy));
+    return { query, matches, suggestions: matches.length > 0 ? [] : this.names.suggest(query) };
+  }
+}
+
+// Every name a match goes by, including a combination's ingredients, for allergy checks
+export const matchNames = (match: MedicationMatch | undefined): string[] => {
+  if (!match) return [];
+  if (match.kind === 'single') {
+    const { drug, brand, aliases } = match.medication;
+    return [drug, ...(brand ? [brand] : []), ...(aliases || [])];
+  }
+  return [match.product.name, ...(match.product.aliases || []), ...match.product.ingredients];
+};
+
+// ==================== SAFETY ====================
+const SAFETY_RANK: Record<SafetyRating, number> = { '🟢': 0, '🟡': 1, '🔴': 2 };
+
+// A combination product is only as safe as its riskiest ingredient, and unknown ingredients can't be vouched for
+export const assessMatch = (match: MedicationMatch | undefined, week: number, locale: Locale): MedicationAssessment => {
+  if (!match) return assessMedication(null, week, locale);
+  if (match.kind === 'single') return assessMedication(match.medication, week, locale);
+
+  const assessed = match.ingredients.map(({ ingredient, medication }) => ({ ingredient, ...assessMedication(medication, week, locale) }));
+  const known = assessed.filter(a => a.safety !== null) as Array<typeof assessed[number] & { safety: SafetyRating }>;
+  const unknown = assessed.filter(a => a.safety === null).map(a => a.ingredient);
+  const worst = known.reduce<typeof known[number] | null>(
+    (current, a) => (!current || SAFETY_RANK[a.safety] > SAFETY_RANK[current.safety] ? a : current),
+    null
+  );
+
+  if (unknown.length > 0 && worst?.safety !== '🔴') {
+    return {
+      medication: null,
+      safety: null,
+      safetyLevel: translate(locale, 'medications.unknownIngredients', { ingredients: unknown.join(', ') })
+    };
+  }
+  if (!worst) return assessMedication(null, week, locale);
+
+  const upcoming = known
+    .map(a => a.upcoming)
+    .find(change => change && SAFETY_RANK[change.safety] > SAFETY_RANK[worst.safety]);
+  return {
+    medication: null,
+    safety: worst.safety,
+    safetyLevel: worst.safetyLevel,
+    reason: worst.safety === '🟢'
+      ? undefined
+      : worst.reason
+        ? translate(locale, 'medications.becauseContainsReason', { ingredient: worst.ingredient, reason: worst.reason })
+        : translate(locale, 'medications.becauseContains', { ingredient: worst.ingredient }),
+    upcoming
+  };
+};
@@ -0,0 +1,99 @@
+import { levenshtein, maxEditsFor } from './retrieval';
+
+// ==================== TYPES ====================
+export type NameEntry<T> = {
+  name: string;
+  normalized: string;
+  target: T;
+};
+
+export type NameMatch<T> = {
+  entry: NameEntry<T>;
+  score: number;
+  // True when the match only comes from a misspelling
+  fuzzy: boolean;
+};
+
+// ==================== CONSTANTS ====================
+const SUGGESTION_MAX_EDITS = 3;
+export const EXACT_SCORE = 100;
+const PREFIX_SCORE = 80;
+
+// ==================== RESOLVER ====================
+// Matches what people type against every name a thing goes by: drug and brand names, regional food names.
+// `keyOf` groups names that belong to the same thing, so one drug with two matching aliases is listed once.
+export class NameResolver<T> {
+  private entries: NameEntry<T>[] = [];
+
+  constructor(
+    private normalize: (name: string) => string,
+    private keyOf: (target: T) => unknown = target => target
+  ) {}
+
+  add(name: string, target: T) {
+    const normalized = this.normalize(name);
+    if (normalized) this.entries.push({ name, normalized, target });
+  }
+
+  // Higher is better: exact name, then prefix, then a name mentioned inside the query, then a misspelling
+  private score(query: string, entry: NameEntry<T>): { score: number; fuzzy: boolean } | null {
+    const name = entry.normalized;
+    if (query === name) return { score: EXACT_SCORE, fuzzy: false };
+    if (query.length >= 3 && (name.startsWith(query) || name.split(' ').some(token => token.startsWith(query)))) {
+      return { score: PREFIX_SCORE, fuzzy: false };
+    }
+    if (name.length >= 3 && ` ${query} `.includes(` ${name} `)) return { score: 70, fuzzy: false };
+
+    const allowed = maxEditsFor(query);
+    const distance = allowed > 0 ? levenshtein(query, name, allowed) : Infinity;
+    if (distance <= allowed) return { score: 60 - distance * 5, fuzzy: true };
+    // "crocine 500 for fever" still finds Crocin through its best single word
+    if (!name.includes(' ')) {
+      const tokenDistance = Math.min(...query.split(' ').map(token => {
+        // Both words must be long enough to allow the edits, or "zzzfoo" would reach "acetaminophen"
+        const tokenAllowed = Math.min(maxEditsFor(token), maxEditsFor(name));
+        const d = tokenAllowed > 0 ? levenshtein(token, name, tokenAllowed) : Infinity;
+        return d <= tokenAllowed ? d : Infinity;
+      }));
+      if (tokenDistance !== Infinity) return { score: 50 - tokenDistance * 5, fuzzy: true };
+    }
+    return null;
+  }
+
+  // Best-scoring name per thing, best first; once something matches exactly, near misses are dropped as noise
+  find(query: string, limit: number): NameMatch<T>[] {
+    const normalized = this.normalize(query);
+    if (!normalized) return [];
+
+    const best = new Map<unknown, NameMatch<T>>();
+    this.entries.forEach(entry => {
+      const result = this.score(normalized, entry);
+      if (!result) return;
+      const key = this.keyOf(entry.target);
+      const current = best.get(key);
+      if (!current || result.score > current.score) best.set(key, { entry, ...result });
+    });
+
+    const ranked = Array.from(best.values()).sort((a, b) => b.score - a.score);
+    const topScore = ranked[0]?.score ?? 0;
+    return ranked.filter(result => topScore < EXACT_SCORE || result.score >= PREFIX_SCORE).slice(0, limit);
+  }
+
+  findExact(query: string): NameEntry<T> | undefined {
+    const normalized = this.normalize(query);
+    return normalized ? this.entries.find(entry => entry.normalized === normalized) : undefined;
+  }
+
+  // Close names to offer when nothing matched, e.g. "Did you mean Crocin?"
+  suggest(query: string): string[] {
+    const normalized = this.normalize(query);
+    if (!normalized) return [];
+    return this.entries
+      .map(entry => ({ name: entry.name, distance: levenshtein(normalized, entry.normalized, SUGGESTION_MAX_EDITS) }))
+      .filter(candidate => candidate.distance <= SUGGESTION_MAX_EDITS && candidate.name.length > SUGGESTION_MAX_EDITS)
+      .sort((a, b) => a.distance - b.distance)
+      .map(candidate => candidate.name)
+      .filter((name, i, all) => all.indexOf(name) === i)
+      .slice(0, 3);
+  }
+}
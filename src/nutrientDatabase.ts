@@ -0,0 +1,106 @@
+import { AnimalSource, Translations } from './knowledgeBaseSchema';
+
+// ==================== TYPES ====================
+// Amounts per serving, keyed by the knowledge base nutrient name and in that nutrient's unit
+// (Protein in gm, Folic Acid in mcg, Vitamin D in IUs), plus "Preformed vitamin A" in mcg for its upper limit
+export type NutrientAmounts = Record<string, number>;
+
+export type NutrientFood = {
+  id: string;
+  name: string;
+  aliases?: string[];
+  animalSource?: AnimalSource;
+  // Given at a prescribed dose, like the 60 mg IFA tablet, so its amount isn't held to the everyday upper limit
+  prescribed?: boolean;
+  serving: string;
+  nutrients: NutrientAmounts;
+  translations?: Translations<Pick<NutrientFood, 'name' | 'serving'>>;
+};
+
+// ==================== FOODS ====================
+// Approximate values from USDA FoodData Central and the Indian Food Composition Tables; brands vary
+export const NUTRIENT_FOODS: NutrientFood[] = [
+  // Dairy and eggs
+  { id: 'milk', name: 'Milk', aliases: ['Doodh'], animalSource: 'dairy', serving: '1 cup (250 ml)', nutrients: { Protein: 8, Calcium: 300, 'Vitamin D': 100, 'Folic Acid': 12 },
+    translations: { hi: { name: 'दूध', serving: '1 कप (250 मि.ली.)' }, mr: { name: 'दूध', serving: '1 कप (250 मि.ली.)' } } },
+  { id: 'curd', name: 'Curd', aliases: ['Dahi', 'Yogurt'], animalSource: 'dairy', serving: '1 cup (245 g)', nutrients: { Protein: 8.5, Calcium: 300, 'Folic Acid': 17 },
+    translations: { hi: { name: 'दही', serving: '1 कप (245 ग्राम)' }, mr: { name: 'दही', serving: '1 कप (245 ग्रॅम)' } } },
+  { id: 'paneer', name: 'Paneer', animalSource: 'dairy', serving: '100 g', nutrients: { Protein: 18, Calcium: 480, Iron: 0.2 },
+    translations: { hi: { name: 'पनीर', serving: '100 ग्राम' }, mr: { name: 'पनीर', serving: '100 ग्रॅम' } } },
+  { id: 'cheddar', name: 'Cheddar cheese', animalSource: 'dairy', serving: '30 g', nutrients: { Protein: 7, Calcium: 200, 'Preformed vitamin A': 75 },
+    translations: { hi: { name: 'चेडर चीज़', serving: '30 ग्राम' }, mr: { name: 'चेडर चीज', serving: '30 ग्रॅम' } } },
+  { id: 'egg', name: 'Egg, boiled', aliases: ['Anda'], animalSource: 'egg', serving: '1 large', nutrients: { Protein: 6.3, Calcium: 25, Iron: 0.9, 'Vitamin D': 44, 'Folic Acid': 22, 'Preformed vitamin A': 75 },
+    translations: { hi: { name: 'अंडा, उबला', serving: '1 बड़ा' }, mr: { name: 'अंडे, उकडलेले', serving: '1 मोठे' } } },
+  { id: 'soy-milk', name: 'Soy milk, fortified', serving: '1 cup (250 ml)', nutrients: { Protein: 7, Calcium: 300, 'Vitamin D': 120, Iron: 1 },
+    translations: { hi: { name: 'सोया दूध, फ़ोर्टिफ़ाइड', serving: '1 कप (250 मि.ली.)' }, mr: { name: 'सोया दूध, फोर्टिफाइड', serving: '1 कप (250 मि.ली.)' } } },
+
+  // Meat and fish
+  { id: 'chicken', name: 'Chicken breast, cooked', animalSource: 'meat', serving: '100 g', nutrients: { Protein: 31, Iron: 1, Calcium: 15, 'Folic Acid': 4 },
+    translations: { hi: { name: 'चिकन ब्रेस्ट, पका हुआ', serving: '100 ग्राम' }, mr: { name: 'चिकन ब्रेस्ट, शिजवलेले', serving: '100 ग्रॅम' } } },
+  { id: 'mutton', name: 'Mutton, cooked', aliases: ['Goat meat'], animalSource: 'meat', serving: '100 g', nutrients: { Protein: 27, Iron: 3.7, Calcium: 17, 'Folic Acid': 5 },
+    translations: { hi: { name: 'मटन, पका हुआ', serving: '100 ग्राम' }, mr: { name: 'मटण, शिजवलेले', serving: '100 ग्रॅम' } } },
+  { id: 'chicken-liver', name: 'Chicken liver, cooked', aliases: ['Kaleji'], animalSource: 'meat', serving: '100 g', nutrients: { Protein: 24, Iron: 11.6, 'Folic Acid': 578, 'Preformed vitamin A': 3980 },
+    translations: { hi: { name: 'चिकन कलेजी, पकी हुई', serving: '100 ग्राम' }, mr: { name: 'चिकन कलेजी, शिजवलेली', serving: '100 ग्रॅम' } } },
+  { id: 'salmon', name: 'Salmon or Rawas, cooked', aliases: ['Indian salmon'], animalSource: 'fish', serving: '100 g', nutrients: { Protein: 22, 'Vitamin D': 570, Calcium: 15, Iron: 0.3, 'Folic Acid': 29 },
+    translations: { hi: { name: 'सैल्मन या रावस, पका हुआ', serving: '100 ग्राम' }, mr: { name: 'सॅल्मन किंवा रावस, शिजवलेला', serving: '100 ग्रॅम' } } },
+  { id: 'sardines', name: 'Sardines', aliases: ['Tarli', 'Mathi'], animalSource: 'fish', serving: '100 g', nutrients: { Protein: 25, Calcium: 380, 'Vitamin D': 190, Iron: 2.9, 'Folic Acid': 10 },
+    translations: { hi: { name: 'सार्डीन (तारली)', serving: '100 ग्राम' }, mr: { name: 'तारली (सार्डीन)', serving: '100 ग्रॅम' } } },
+
+  // Legumes and grains
+  { id: 'dal', name: 'Dal, cooked', aliases: ['Lentils', 'Masoor', 'Toor dal'], serving: '1 cup', nutrients: { Protein: 18, Iron: 6.6, Calcium: 38, 'Folic Acid': 358 },
+    translations: { hi: { name: 'दाल, पकी हुई', serving: '1 कप' }, mr: { name: 'डाळ, शिजवलेली', serving: '1 कप' } } },
+  { id: 'rajma', name: 'Rajma, cooked', aliases: ['Kidney beans'], serving: '1 cup', nutrients: { Protein: 15, Iron: 5.2, Calcium: 60, 'Folic Acid': 230 },
+    translations: { hi: { name: 'राजमा, पका हुआ', serving: '1 कप' }, mr: { name: 'राजमा, शिजवलेला', serving: '1 कप' } } },
+  { id: 'chana', name: 'Chana, cooked', aliases: ['Chickpeas', 'Chole'], serving: '1 cup', nutrients: { Protein: 14.5, Iron: 4.7, Calcium: 80, 'Folic Acid': 282 },
+    translations: { hi: { name: 'चना, पका हुआ', serving: '1 कप' }, mr: { name: 'चणे, शिजवलेले', serving: '1 कप' } } },
+  { id: 'moong-sprouts', name: 'Moong sprouts, cooked', serving: '1 cup', nutrients: { Protein: 2.5, Iron: 0.8, Calcium: 15, 'Folic Acid': 36 },
+    translations: { hi: { name: 'अंकुरित मूंग, पका हुआ', serving: '1 कप' }, mr: { name: 'मोड आलेले मूग, शिजवलेले', serving: '1 कप' } } },
+  { id: 'tofu', name: 'Tofu, calcium-set', serving: '100 g', nutrients: { Protein: 8, Calcium: 350, Iron: 5.4, 'Folic Acid': 15 },
+    translations: { hi: { name: 'टोफ़ू, कैल्शियम से जमाया', serving: '100 ग्राम' }, mr: { name: 'टोफू, कॅल्शियमने घट्ट केलेले', serving: '100 ग्रॅम' } } },
+  { id: 'roti', name: 'Roti, whole wheat', aliases: ['Chapati', 'Phulka'], serving: '1 medium', nutrients: { Protein: 3, Iron: 1, Calcium: 10, 'Folic Acid': 14 },
+    translations: { hi: { name: 'रोटी, गेहूँ की', serving: '1 मध्यम' }, mr: { name: 'पोळी, गव्हाची', serving: '1 मध्यम' } } },
+  { id: 'rice', name: 'Rice, cooked', aliases: ['Chawal', 'Bhaat'], serving: '1 cup', nutrients: { Protein: 4.3, Iron: 0.4, Calcium: 16, 'Folic Acid': 5 },
+    translations: { hi: { name: 'चावल, पका हुआ', serving: '1 कप' }, mr: { name: 'भात, शिजवलेला', serving: '1 कप' } } },
+  { id: 'ragi', name: 'Ragi porridge', aliases: ['Nachni', 'Finger millet'], serving: '50 g ragi', nutrients: { Protein: 3.6, Calcium: 172, Iron: 2 },
+    translations: { hi: { name: 'रागी की दलिया', serving: '50 ग्राम रागी' }, mr: { name: 'नाचणीची लापशी', serving: '50 ग्रॅम नाचणी' } } },
+  { id: 'poha', name: 'Poha', aliases: ['Flattened rice'], serving: '1 plate', nutrients: { Protein: 4, Iron: 2.5, Calcium: 20, 'Folic Acid': 10 },
+    translations: { hi: { name: 'पोहा', serving: '1 प्लेट' }, mr: { name: 'पोहे', serving: '1 प्लेट' } } },
+
+  // Vegetables, fruit and nuts
+  { id: 'spinach', name: 'Spinach, cooked', aliases: ['Palak'], serving: '1 cup', nutrients: { Protein: 5.3, Iron: 6.4, Calcium: 245, 'Folic Acid': 263 },
+    translations: { hi: { name: 'पालक, पका हुआ', serving: '1 कप' }, mr: { name: 'पालक, शिजवलेला', serving: '1 कप' } } },
+  { id: 'broccoli', name: 'Broccoli, cooked', serving: '1 cup', nutrients: { Protein: 3.7, Iron: 1, Calcium: 62, 'Folic Acid': 168 },
+    translations: { hi: { name: 'ब्रोकली, पकी हुई', serving: '1 कप' }, mr: { name: 'ब्रोकोली, शिजवलेली', serving: '1 कप' } } },
+  { id: 'orange', name: 'Orange', aliases: ['Santra'], serving: '1 medium', nutrients: { Protein: 1.2, Calcium: 52, 'Folic Acid': 40 },
+    translations: { hi: { name: 'संतरा', serving: '1 मध्यम' }, mr: { name: 'संत्रे', serving: '1 मध्यम' } } },
+  { id: 'banana', name: 'Banana', aliases: ['Kela'], serving: '1 medium', nutrients: { Protein: 1.3, Iron: 0.3, 'Folic Acid': 24 },
+    translations: { hi: { name: 'केला', serving: '1 मध्यम' }, mr: { name: 'केळे', serving: '1 मध्यम' } } },
+  { id: 'almonds', name: 'Almonds', aliases: ['Badam'], serving: '30 g', nutrients: { Protein: 6, Calcium: 76, Iron: 1.1, 'Folic Acid': 13 },
+    translations: { hi: { name: 'बादाम', serving: '30 ग्राम' }, mr: { name: 'बदाम', serving: '30 ग्रॅम' } } },
+  { id: 'peanut-butter', name: 'Peanut butter', serving: '2 tbsp', nutrients: { Protein: 7, Iron: 0.6, 'Folic Acid': 24 },
+    translations: { hi: { name: 'पीनट बटर', serving: '2 बड़े चम्मच' }, mr: { name: 'पीनट बटर', serving: '2 मोठे चमचे' } } },
+
+  // Supplements
+  { id: 'prenatal', name: 'Prenatal vitamin', serving: '1 tablet', nutrients: { 'Folic Acid': 800, Iron: 27, Calcium: 200, 'Vitamin D': 400 },
+    translations: { hi: { name: 'प्रसवपूर्व विटामिन', serving: '1 गोली' }, mr: { name: 'गर्भावस्थेतील जीवनसत्त्व', serving: '1 गोळी' } } },
+  { id: 'folic-acid', name: 'Folic acid tablet', serving: '400 mcg tablet', nutrients: { 'Folic Acid': 400 },
+    translations: { hi: { name: 'फ़ोलिक एसिड की गोली', serving: '400 mcg की गोली' }, mr: { name: 'फॉलिक ॲसिडची गोळी', serving: '400 mcg ची गोळी' } } },
+  { id: 'ifa', name: 'Iron-folic acid tablet (IFA)', prescribed: true, serving: '1 tablet', nutrients: { Iron: 60, 'Folic Acid': 500 },
+    translations: { hi: { name: 'आयरन-फ़ोलिक एसिड गोली (IFA)', serving: '1 गोली' }, mr: { name: 'लोह-फॉलिक ॲसिड गोळी (IFA)', serving: '1 गोळी' } } },
+  { id: 'calcium-d3', name: 'Calcium + D3 tablet', aliases: ['Shelcal'], serving: '500 mg tablet', nutrients: { Calcium: 500, 'Vitamin D': 250 },
+    translations: { hi: { name: 'कैल्शियम + D3 गोली', serving: '500 mg की गोली' }, mr: { name: 'कॅल्शियम + D3 गोळी', serving: '500 mg ची गोळी' } } },
+  { id: 'cod-liver-oil', name: 'Cod liver oil', animalSource: 'fish', serving: '1 tsp (5 ml)', nutrients: { 'Vitamin D': 450, 'Preformed vitamin A': 1350 },
+    translations: { hi: { name: 'कॉड लिवर ऑयल', serving: '1 छोटा चम्मच (5 मि.ली.)' }, mr: { name: 'कॉड लिव्हर ऑइल', serving: '1 छोटा चमचा (5 मि.ली.)' } } }
+];
+
+export const findNutrientFood = (id: string): NutrientFood | undefined =>
+  NUTRIENT_FOODS.find(food => food.id === id);
+
+// Matches the food's name, an alias or a translated name, as typed into the diary's food picker
+export const findNutrientFoodByName = (name: string): NutrientFood | undefined => {
+  const needle = name.trim().toLowerCase();
+  return NUTRIENT_FOODS.find(food =>
+    [food.name, ...(food.aliases || []), ...Object.values(food.translations || {}).map(translated => translated.name || '')]
+      .some(n => n.toLowerCase() === needle)
+  );
+};
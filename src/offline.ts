@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+
+// ==================== TYPES ====================
+// Chromium's install prompt event, which TypeScript's DOM types don't include
+type BeforeInstallPromptEvent = Event & {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+};
+
+export type InstallPrompt = {
+  canInstall: boolean;
+  install: () => Promise<void>;
+};
+
+// ==================== CONSTANTS ====================
+// Must match what public/sw.js precaches, so the app can tell when it's ready to use offline
+export const KNOWLEDGE_BASE_URL = '/knowledgeBase.json';
+
+// ==================== SERVICE WORKER ====================
+// One worker caches the app for offline use and delivers reminder notifications
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.error('Failed to register service worker:', error);
+    return null;
+  }
+};
+
+// True once the worker is active and the knowledge base is in its cache
+export const isReadyOffline = async (): Promise<boolean> => {
+  if (!('serviceWorker' in navigator) || typeof caches === 'undefined') return false;
+  await navigator.serviceWorker.ready;
+  return (await caches.match(KNOWLEDGE_BASE_URL)) !== undefined;
+};
+
+// ==================== HOOKS ====================
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+// The browser's install prompt, held until the user asks to install
+export const useInstallPrompt = (): InstallPrompt => {
+  const [promptEvent, setPromptEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+  useEffect(() => {
+    const onPrompt = (event: Event) => {
+      event.preventDefault();
+      setPromptEvent(event as BeforeInstallPromptEvent);
+    };
+    const onInstalled = () => setPromptEvent(null);
+    window.addEventListener('beforeinstallprompt', onPrompt);
+    window.addEventListener('appinstalled', onInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', onPrompt);
+      window.removeEventListener('appinstalled', onInstalled);
+    };
+  }, []);
+
+  return {
+    canInstall: promptEvent !== null,
+    install: async () => {
+      if (!promptEvent) return;
+      await promptEvent.prompt();
+      await promptEvent.userChoice;
+      setPromptEvent(null);
+    }
+  };
+};
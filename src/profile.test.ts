@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROFILE, describeProfile, findAllergyMatches } from './profile';
+
+describe('findAllergyMatches', () => {
+  it.each([
+    [['Boiled egg'], ['egg'], ['egg']],
+    [['Eggplant', 'Baingan'], ['egg'], []],
+    [['Peanut chikki'], ['Peanuts'], ['Peanuts']],
+    [['Cashews'], ['tree nuts'], ['tree nuts']],
+    [['Doughnut'], ['nuts'], []],
+    [['Combiflam'], ['NSAID'], ['NSAID']],
+    [['Augmentin', 'Amoxicillin'], ['penicillin', 'latex'], ['penicillin']]
+  ])('%j with allergies %j', (names, allergies, expected) => {
+    expect(findAllergyMatches(names, allergies)).toEqual(expected);
+  });
+
+  it('counts a whole food group by what the food is made from', () => {
+    expect(findAllergyMatches(['Pomfret'], ['fish'], 'fish')).toEqual(['fish']);
+    expect(findAllergyMatches(['Paneer tikka'], ['lactose intolerance'], 'dairy')).toEqual(['lactose intolerance']);
+    expect(findAllergyMatches(['Chicken curry'], ['fish'], 'meat')).toEqual([]);
+  });
+});
+
+describe('describeProfile', () => {
+  it('sums up a first pregnancy with no allergies', () => {
+    expect(describeProfile(DEFAULT_PROFILE)).toBe('Expecting one baby; first pregnancy; Non-vegetarian diet; no known allergies');
+  });
+
+  it('lists twins, previous births, allergies and conditions', () => {
+    const profile = { ...DEFAULT_PROFILE, babies: 2, parity: 1, diet: 'vegetarian' as const, allergies: ['peanuts'], conditions: ['Asthma'] };
+    expect(describeProfile(profile)).toBe(
+      'Expecting twins; 1 previous birth; Vegetarian (no meat, fish or eggs) diet; allergies: peanuts; pre-existing conditions: Asthma'
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { AnimalSource } from './knowledgeBaseSchema';
+import { hasFields, loadJson, saveJson } from './storage';
+import { Locale, MessageKey, translate } from './i18n';
+
+// ==================== TYPES ====================
+export type Diet = 'nonVegetarian' | 'pescatarian' | 'eggetarian' | 'vegetarian' | 'jain' | 'vegan';
+
+export type PregnancyProfile = {
+  // Babies expected: 1, 2 for twins, 3 for triplets or more
+  babies: number;
+  // Previous births, not counting this pregnancy
+  parity: number;
+  diet: Diet;
+  allergies: string[];
+  // Pre-existing conditions, from COMMON_CONDITIONS or typed in
+  conditions: string[];
+  updatedAt: number;
+};
+
+// The onboarding steps, in order; dating is stored separately by gestationalAge
+export type ProfileStep = 'dating' | 'pregnancy' | 'health';
+export const PROFILE_STEPS: ProfileStep[] = ['dating', 'pregnancy', 'health'];
+
+export const DEFAULT_PROFILE: PregnancyProfile = {
+  babies: 1,
+  parity: 0,
+  diet: 'nonVegetarian',
+  allergies: [],
+  conditions: [],
+  updatedAt: 0
+};
+
+// ==================== DIET ====================
+export const DIET_LABELS: Record<Diet, MessageKey> = {
+  nonVegetarian: 'diet.nonVegetarian',
+  pescatarian: 'diet.pescatarian',
+  eggetarian: 'diet.eggetarian',
+  vegetarian: 'diet.vegetarian',
+  jain: 'diet.jain',
+  vegan: 'diet.vegan'
+};
+
+// "vegetarian" for use in sentences
+export const dietName = (diet: Diet, locale: Locale): string =>
+  translate(locale, DIET_LABELS[diet]).split(' (')[0].toLowerCase();
+
+const DIET_EXCLUDES: Record<Diet, AnimalSource[]> = {
+  nonVegetarian: [],
+  pescatarian: ['meat'],
+  eggetarian: ['meat', 'fish'],
+  vegetarian: ['meat', 'fish', 'egg'],
+  jain: ['meat', 'fish', 'egg'],
+  vegan: ['meat', 'fish', 'egg', 'dairy']
+};
+
+export const dietExcludes = (diet: Diet, source: AnimalSource): boolean => DIET_EXCLUDES[diet].includes(source);
+
+// Foods with no animal source are never hidden
+export const isExcludedByDiet = (diet: Diet, source: AnimalSource | undefined): boolean =>
+  source !== undefined && dietExcludes(diet, source);
+
+// ==================== ALLERGIES ====================
+// Words that reveal an allergen in a food or medicine name; the allergy's own words always count too
+const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+  peanut: ['peanut', 'groundnut', 'moongphali'],
+  nut: ['almond', 'badam', 'cashew', 'kaju', 'walnut', 'pistachio', 'peanut'],
+  milk: ['milk', 'doodh', 'curd', 'dahi', 'yogurt', 'paneer', 'cheese', 'cheddar', 'brie', 'camembert'],
+  dairy: ['milk', 'doodh', 'curd', 'dahi', 'yogurt', 'paneer', 'cheese', 'cheddar', 'brie', 'camembert'],
+  lactose: ['milk', 'doodh', 'curd', 'dahi', 'yogurt', 'paneer', 'cheese'],
+  egg: ['egg', 'anda', 'mayonnaise'],
+  shellfish: ['shrimp', 'prawn', 'kolambi', 'jhinga', 'chemmeen', 'crab', 'lobster', 'oyster'],
+  fish: ['fish', 'salmon', 'sardine', 'tuna', 'rawas', 'surmai', 'bangda', 'pomfret'],
+  soy: ['soy', 'tofu'],
+  wheat: ['wheat', 'roti', 'chapati', 'phulka'],
+  gluten: ['wheat', 'roti', 'chapati', 'phulka', 'gluten'],
+  penicillin: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'amoxyclav', 'cloxacillin'],
+  sulfa: ['sulfa', 'sulfamethoxazole', 'septran', 'bactrim', 'cotrimoxazole'],
+  nsaid: ['aspirin', 'ibuprofen', 'naproxen', 'diclofenac', 'mefenamic', 'ecosprin', 'combiflam', 'advil'],
+  aspirin: ['aspirin', 'ecosprin', 'disprin']
+};
+
+// A whole food group counts as the allergen, e.g. every fish for a fish allergy
+const ALLERGEN_SOURCES: Record<string, AnimalSource> = { fish: 'fish', milk: 'dairy', dairy: 'dairy', lactose: 'dairy', egg: 'egg' };
+
+const words = (text: string): string[] => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const keywordsFor = (allergy: string): string[] => {
+  const allergyWords = words(allergy).map(word => word.replace(/s$/, ''));
+  const related = Object.keys(ALLERGEN_KEYWORDS)
+    .filter(key => allergyWords.includes(key))
+    .flatMap(key => ALLERGEN_KEYWORDS[key]);
+  return [...allergyWords.filter(word => word.length >= 3), ...related];
+};
+
+// Whole words only, so an egg allergy doesn't flag eggplant; plurals still count ("peanuts", "cashews")
+const isWordFor = (word: string, keyword: string): boolean =>
+  word === keyword || word === `${keyword}s` || word === `${keyword}es`;
+
+// The allergies a food or medicine may contain, judged by its names and what it's made from
+export const findAllergyMatches = (names: string[], allergies: string[], source?: AnimalSource): string[] => {
+  const nameWords = names.flatMap(words);
+  return allergies.filter(allergy => {
+    const keywords = keywordsFor(allergy);
+    if (source && words(allergy).some(word => ALLERGEN_SOURCES[word.replace(/s$/, '')] === source)) return true;
+    return nameWords.some(word => keywords.some(keyword => isWordFor(word, keyword)));
+  });
+};
+
+// ==================== CONDITIONS ====================
+export const COMMON_CONDITIONS = [
+  'Diabetes',
+  'High blood pressure',
+  'Thyroid disorder',
+  'Asthma',
+  'PCOS',
+  'Epilepsy',
+  'Anaemia',
+  'Heart disease'
+];
+
+const CONDITION_NOTES: Record<string, MessageKey> = {
+  Diabetes: 'profile.conditionNote.diabetes',
+  'High blood pressure': 'profile.conditionNote.highBloodPressure',
+  'Thyroid disorder': 'profile.conditionNote.thyroid',
+  Asthma: 'profile.conditionNote.asthma',
+  PCOS: 'profile.conditionNote.pcos',
+  Epilepsy: 'profile.conditionNote.epilepsy',
+  Anaemia: 'profile.conditionNote.anaemia',
+  'Heart disease': 'profile.conditionNote.heartDisease'
+};
+
+const CONDITION_LABELS: Record<string, MessageKey> = {
+  Diabetes: 'profile.condition.diabetes',
+  'High blood pressure': 'profile.condition.highBloodPressure',
+  'Thyroid disorder': 'profile.condition.thyroid',
+  Asthma: 'profile.condition.asthma',
+  PCOS: 'profile.condition.pcos',
+  Epilepsy: 'profile.condition.epilepsy',
+  Anaemia: 'profile.condition.anaemia',
+  'Heart disease': 'profile.condition.heartDisease'
+};
+
+// Conditions typed in by the user are shown as written
+export const conditionLabel = (condition: string, locale: Locale): string =>
+  CONDITION_LABELS[condition] ? translate(locale, CONDITION_LABELS[condition]) : condition;
+
+// ==================== PERSONALIZED NOTES ====================
+export const babiesLabel = (babies: number, locale: Locale): string =>
+  translate(locale, babies >= 3 ? 'profile.babies.triplets' : babies === 2 ? 'profile.babies.twins' : 'profile.babies.one');
+
+// Tracker notes for this profile at this week
+export const getProfileNotes = (profile: PregnancyProfile, week: number, locale: Locale): string[] => {
+  const notes: string[] = [];
+  if (profile.babies >= 2) {
+    notes.push(translate(locale, 'profile.note.multiples', { babies: babiesLabel(profile.babies, locale) }));
+    if (week >= 20) notes.push(translate(locale, 'profile.note.pretermSigns'));
+  }
+  if (profile.parity === 0 && week >= 20 && week < 34) {
+    notes.push(translate(locale, 'profile.note.firstBaby'));
+  }
+  if (profile.parity > 0 && week >= 34) {
+    notes.push(translate(locale, 'profile.note.previousBirth'));
+  }
+  profile.conditions.forEach(condition => {
+    if (CONDITION_NOTES[condition]) notes.push(translate(locale, CONDITION_NOTES[condition]));
+  });
+  return notes;
+};
+
+// Nutrition notes for the diet; the knowledge base targets assume a mixed diet
+export const getDietNotes = (diet: Diet, locale: Locale): string[] => {
+  if (dietExcludes(diet, 'dairy')) {
+    return [translate(locale, 'diet.note.veganB12'), translate(locale, 'diet.note.veganDha')];
+  }
+  if (dietExcludes(diet, 'meat') && dietExcludes(diet, 'fish')) {
+    return [translate(locale, 'diet.note.vegetarianB12'), translate(locale, 'diet.note.vegetarianIron')];
+  }
+  return [];
+};
+
+// One line for the chat system prompt
+export const describeProfile = (profile: PregnancyProfile): string =>
+  [
+    `Expecting ${babiesLabel(profile.babies, 'en')}`,
+    profile.parity === 0 ? 'first pregnancy' : `${profile.parity} previous ${profile.parity === 1 ? 'birth' : 'births'}`,
+    `${translate('en', DIET_LABELS[profile.diet])} diet`,
+    profile.allergies.length ? `allergies: ${profile.allergies.join(', ')}` : 'no known allergies',
+    profile.conditions.length ? `pre-existing conditions: ${profile.conditions.join(', ')}` : ''
+  ].filter(Boolean).join('; ');
+
+// "peanuts, penicillin\nlatex" -> ['peanuts', 'penicillin', 'latex']
+export const parseList = (text: string): string[] =>
+  text
+    .split(/[,;\n]/)
+    .map(item => item.trim())
+    .filter((item, i, all) => item && all.findIndex(other => other.toLowerCase() === item.toLowerCase()) === i);
+
+// ==================== PERSISTENCE ====================
+const PROFILE_STORAGE_KEY = 'pregnancyProfile';
+
+// Fields added since the profile was saved come from the defaults
+const validateProfile = (value: unknown): PregnancyProfile | null =>
+  hasFields(value, { allergies: 'array', conditions: 'array' }) ? { ...DEFAULT_PROFILE, ...value } as PregnancyProfile : null;
+
+export const loadProfile = (): PregnancyProfile | null => loadJson<PregnancyProfile | null>(PROFILE_STORAGE_KEY, null, validateProfile);
+
+export const saveProfile = (profile: PregnancyProfile) => saveJson(PROFILE_STORAGE_KEY, profile);
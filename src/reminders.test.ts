@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  Reminder,
+  ReminderSettings,
+  buildReminders,
+  deferForQuietHours,
+  getDueReminders,
+  getNextOccurrence,
+  getOccurrences,
+  isQuietTime,
+  snoozeReminder
+} from './reminders';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+// Local times, so the tests hold in any time zone. 1 June 2026 is a Monday.
+const at = (day: number, hours: number, minutes: number = 0) => new Date(2026, 5, day, hours, minutes).getTime();
+const MINUTE = 60 * 1000;
+
+const daily: Reminder = { id: 'vitamins', title: 'Vitamins', body: '', rule: { frequency: 'daily', times: ['09:00', '21:00'] } };
+const settings = (overrides: Partial<ReminderSettings> = {}): ReminderSettings => ({ ...DEFAULT_REMINDER_SETTINGS, ...overrides });
+const QUIET = { start: '22:00', end: '07:00' };
+
+describe('getOccurrences', () => {
+  it('lists daily times after `from` and up to `to`', () => {
+    expect(getOccurrences(daily.rule, at(1, 9), at(2, 9))).toEqual([at(1, 21), at(2, 9)]);
+  });
+
+  it('only uses the chosen weekdays', () => {
+    const rule = { frequency: 'weekly' as const, weekdays: [1, 3], time: '08:30' };
+    expect(getOccurrences(rule, at(1, 0), at(7, 23))).toEqual([at(1, 8, 30), at(3, 8, 30)]);
+  });
+
+  it('fires a one-off once', () => {
+    const rule = { frequency: 'once' as const, at: at(2, 18) };
+    expect(getOccurrences(rule, at(1, 0), at(3, 0))).toEqual([at(2, 18)]);
+    expect(getOccurrences(rule, at(2, 18), at(3, 0))).toEqual([]);
+  });
+});
+
+describe('quiet hours', () => {
+  it('spans midnight when the start is after the end', () => {
+    expect(isQuietTime(at(1, 23), QUIET)).toBe(true);
+    expect(isQuietTime(at(1, 6, 59), QUIET)).toBe(true);
+    expect(isQuietTime(at(1, 7), QUIET)).toBe(false);
+    expect(isQuietTime(at(1, 23), null)).toBe(false);
+  });
+
+  it('holds a reminder until quiet hours end', () => {
+    expect(deferForQuietHours(at(1, 23), QUIET)).toBe(at(2, 7));
+    expect(deferForQuietHours(at(2, 5), QUIET)).toBe(at(2, 7));
+    expect(deferForQuietHours(at(2, 12), QUIET)).toBe(at(2, 12));
+  });
+});
+
+describe('getDueReminders', () => {
+  it('does not replay the past on the first check', () => {
+    const { due } = getDueReminders([daily], { settings: settings(), snoozes: [], lastCheckedAt: null }, at(1, 22));
+    expect(due).toEqual([]);
+  });
+
+  it('returns what came due since the last check, latest missed only', () => {
+    const { due } = getDueReminders([daily], { settings: settings(), snoozes: [], lastCheckedAt: at(1, 8) }, at(1, 21, 5));
+    expect(due.map(item => item.at)).toEqual([at(1, 21)]);
+  });
+
+  it('delivers a reminder held by quiet hours when they end', () => {
+    const late: Reminder = { ...daily, rule: { frequency: 'daily', times: ['23:00'] } };
+    const data = { settings: settings({ quietHours: QUIET }), snoozes: [], lastCheckedAt: at(1, 22) };
+    expect(getDueReminders([late], data, at(1, 23, 30)).due).toEqual([]);
+    expect(getDueReminders([late], { ...data, lastCheckedAt: at(2, 6) }, at(2, 7, 1)).due.map(item => item.at)).toEqual([at(1, 23)]);
+  });
+
+  it('brings a snoozed reminder back once the snooze is over', () => {
+    const snoozes = snoozeReminder([], daily.id, at(1, 9), 15);
+    const waiting = getDueReminders([daily], { settings: settings(), snoozes, lastCheckedAt: at(1, 9) }, at(1, 9, 10));
+    expect(waiting.due).toEqual([]);
+    expect(waiting.snoozes).toEqual(snoozes);
+
+    const back = getDueReminders([daily], { settings: settings(), snoozes, lastCheckedAt: at(1, 9, 10) }, at(1, 9, 16));
+    expect(back.due.map(item => item.key)).toEqual([`vitamins@snooze-${at(1, 9) + 15 * MINUTE}`]);
+    expect(back.snoozes).toEqual([]);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('picks the earlier of the next time and a snooze', () => {
+    expect(getNextOccurrence(daily, { settings: settings(), snoozes: [] }, at(1, 10))).toBe(at(1, 21));
+    const snoozes = snoozeReminder([], daily.id, at(1, 10), 30);
+    expect(getNextOccurrence(daily, { settings: settings(), snoozes }, at(1, 10))).toBe(at(1, 10, 30));
+  });
+});
+
+describe('buildReminders', () => {
+  it('names the vitamins in the chosen language', () => {
+    const sources = {
+      medicationLog: [],
+      schedule: [],
+      dueDate: undefined,
+      dailyMacros: loadTestKnowledgeBase().nutritionalRequirements.dailyMacros,
+      getWeekInfo: () => null
+    };
+    const data = { settings: settings(), custom: [], snoozes: [], lastCheckedAt: null };
+    const vitamins = buildReminders(data, sources, at(1, 9), 'hi').find(reminder => reminder.id === 'vitamins');
+    expect(vitamins?.body).toContain('फ़ोलिक एसिड');
+    expect(vitamins?.body).not.toContain('folic acid');
+  });
+});
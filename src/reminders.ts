@@ -0,0 +1,381 @@
+import { Nutrient, WeekInfo } from './knowledgeBaseSchema';
+import { MedicationLogEntry } from './medicationLog';
+import { ScheduleItem } from './appointments';
+import { KICK_COUNT_START_WEEK } from './kickCounter';
+import { addDays, daysBetween, getPregnancyStart, parseLocalDate } from './gestationalAge';
+import { createId } from './conversations';
+import { Locale, formatDate, formatDateTime, localize, translate } from './i18n';
+import { hasFields, isRecord, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type RecurrenceRule =
+  | { frequency: 'once'; at: number }
+  // Times are local HH:MM
+  | { frequency: 'daily'; times: string[] }
+  // Weekdays as Date.getDay(): 0 is Sunday
+  | { frequency: 'weekly'; weekdays: number[]; time: string };
+
+export type Reminder = {
+  // Stable across rebuilds, e.g. `medication:<entry id>`, so snoozes and delivered keys still match
+  id: string;
+  title: string;
+  body: string;
+  rule: RecurrenceRule;
+  // The tab to open when the notification is tapped
+  tab?: string;
+};
+
+export type CustomReminder = Reminder & { createdAt: number };
+
+// Local HH:MM; a start later than the end spans midnight
+export type QuietHours = { start: string; end: string };
+
+export type ReminderSettings = {
+  vitamins: { enabled: boolean; time: string };
+  kickCount: { enabled: boolean; time: string };
+  medications: boolean;
+  appointments: boolean;
+  weeklyDigest: boolean;
+  quietHours: QuietHours | null;
+  snoozeMinutes: number;
+};
+
+export type Snooze = { reminderId: string; until: number };
+
+export type RemindersData = {
+  settings: ReminderSettings;
+  custom: CustomReminder[];
+  snoozes: Snooze[];
+  // Everything due at or before this has been delivered; null until the first check
+  lastCheckedAt: number | null;
+};
+
+export type DueReminder = {
+  reminder: Reminder;
+  // Unique per occurrence, so a notification is never shown twice
+  key: string;
+  at: number;
+};
+
+// Where reminders are built from; passed in so the scheduler never reads app state itself
+export type ReminderSources = {
+  medicationLog: MedicationLogEntry[];
+  schedule: ScheduleItem[];
+  dueDate: Date | undefined;
+  dailyMacros: Nutrient[];
+  getWeekInfo: (week: number) => WeekInfo | null;
+};
+
+// ==================== CONSTANTS ====================
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  vitamins: { enabled: true, time: '09:00' },
+  kickCount: { enabled: true, time: '19:00' },
+  medications: true,
+  appointments: true,
+  weeklyDigest: true,
+  quietHours: { start: '22:00', end: '07:00' },
+  snoozeMinutes: 15
+};
+
+export const SNOOZE_OPTIONS = [10, 15, 30, 60];
+// As Date.getDay(): 0 is Sunday
+export const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// After a long time closed, only reminders from the last 12 hours are caught up
+const MAX_CATCH_UP_MS = 12 * 60 * MINUTE_MS;
+// Appointment reminders go out the evening before; booking prompts and the digest in the morning
+const APPOINTMENT_REMINDER_TIME = '18:00';
+const MORNING_TIME = '09:00';
+// How far ahead getNextOccurrence looks, enough for any weekly rule
+const LOOKAHEAD_DAYS = 8;
+
+// ==================== TIME HELPERS ====================
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + minutes;
+};
+
+// The timestamp of a local HH:MM on the given day
+export const atTime = (day: Date, time: string): number => {
+  const minutes = timeToMinutes(time);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60).getTime();
+};
+
+// Every occurrence of a rule after `from` and at or before `to`, oldest first
+export const getOccurrences = (rule: RecurrenceRule, from: number, to: number): number[] => {
+  if (rule.frequency === 'once') return rule.at > from && rule.at <= to ? [rule.at] : [];
+
+  const firstDay = new Date(from);
+  const days = daysBetween(firstDay, new Date(to));
+  const occurrences: number[] = [];
+  for (let i = 0; i <= days; i++) {
+    const day = addDays(firstDay, i);
+    const times = rule.frequency === 'daily' ? rule.times : rule.weekdays.includes(day.getDay()) ? [rule.time] : [];
+    times.forEach(time => {
+      const at = atTime(day, time);
+      if (at > from && at <= to) occurrences.push(at);
+    });
+  }
+  return occurrences.sort((a, b) => a - b);
+};
+
+// ==================== QUIET HOURS ====================
+export const isQuietTime = (at: number, quietHours: QuietHours | null): boolean => {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const date = new Date(at);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = timeToMinutes(quietHours.start);
+  const end = timeToMinutes(quietHours.end);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+// A reminder that falls in quiet hours waits until they end instead of being dropped
+export const deferForQuietHours = (at: number, quietHours: QuietHours | null): number => {
+  if (!quietHours || !isQuietTime(at, quietHours)) return at;
+  const date = new Date(at);
+  const endToday = atTime(date, quietHours.end);
+  return endToday > at ? endToday : atTime(addDays(date, 1), quietHours.end);
+};
+
+// ==================== SCHEDULER ====================
+// Everything that came due since the last check, plus the snoozes still waiting.
+// `now` is passed in rather than read from the clock so the schedule can be stepped through with a fake one.
+export const getDueReminders = (
+  reminders: Reminder[],
+  data: Pick<RemindersData, 'settings' | 'snoozes' | 'lastCheckedAt'>,
+  now: number
+): { due: DueReminder[]; snoozes: Snooze[] } => {
+  // The first check only sets the starting point, so opening the app doesn't replay the past
+  if (data.lastCheckedAt === null) return { due: [], snoozes: data.snoozes };
+  const since = Math.max(data.lastCheckedAt, now - MAX_CATCH_UP_MS);
+  const { quietHours } = data.settings;
+  const isDue = (at: number) => {
+    const deliverAt = deferForQuietHours(at, quietHours);
+    return deliverAt > since && deliverAt <= now;
+  };
+
+  // Look back a day for occurrences that quiet hours held over; only the latest missed one per reminder is shown
+  const due = reminders.flatMap(reminder => {
+    const at = getOccurrences(reminder.rule, since - DAY_MS, now).filter(isDue).pop();
+    return at === undefined ? [] : [{ reminder, key: `${reminder.id}@${at}`, at }];
+  });
+
+  const snoozes = data.snoozes.filter(snooze => {
+    const reminder = reminders.find(r => r.id === snooze.reminderId);
+    if (reminder && isDue(snooze.until)) {
+      due.push({ reminder, key: `${reminder.id}@snooze-${snooze.until}`, at: snooze.until });
+      return false;
+    }
+    // Keep snoozes that are still waiting; drop ones whose reminder has since been removed
+    return reminder !== undefined && deferForQuietHours(snooze.until, quietHours) > now;
+  });
+
+  return { due: due.sort((a, b) => a.at - b.at), snoozes };
+};
+
+export const snoozeReminder = (snoozes: Snooze[], reminderId: string, now: number, minutes: number): Snooze[] => [
+  ...snoozes.filter(snooze => snooze.reminderId !== reminderId),
+  { reminderId, until: now + minutes * MINUTE_MS }
+];
+
+// When a reminder will next be shown, allowing for quiet hours and any snooze
+export const getNextOccurrence = (reminder: Reminder, data: Pick<RemindersData, 'settings' | 'snoozes'>, now: number): number | null => {
+  const { quietHours } = data.settings;
+  const snooze = data.snoozes.find(s => s.reminderId === reminder.id);
+  const times = [
+    ...getOccurrences(reminder.rule, now, now + LOOKAHEAD_DAYS * DAY_MS),
+    ...(snooze ? [snooze.until] : [])
+  ].map(at => deferForQuietHours(at, quietHours));
+  return times.length ? Math.min(...times) : null;
+};
+
+// ==================== REMINDER SOURCES ====================
+const findNutrient = (dailyMacros: Nutrient[], name: string) =>
+  dailyMacros.find(nutrient => nutrient.nutrient.toLowerCase() === name.toLowerCase());
+
+// A daily supplement with reminders already covers the prenatal vitamin
+const hasSupplementReminder = (entries: MedicationLogEntry[]) =>
+  entries.some(entry => entry.kind === 'supplement' && entry.frequency === 'daily' && entry.reminders);
+
+const vitaminReminder = (settings: ReminderSettings, sources: ReminderSources, locale: Locale): Reminder[] => {
+  if (!settings.vitamins.enabled || hasSupplementReminder(sources.medicationLog)) return [];
+  const amounts = ['Folic Acid', 'Iron']
+    .map(name => findNutrient(sources.dailyMacros, name))
+    .filter((nutrient): nutrient is Nutrient => nutrient !== undefined)
+    .map(nutrient => `${localize(nutrient, locale).nutrient.toLowerCase()} ${nutrient.amount} ${nutrient.unit}`);
+  return [{
+    id: 'vitamins',
+    title: translate(locale, 'reminders.vitamins.title'),
+    body: amounts.length
+      ? translate(locale, 'reminders.vitamins.aimFor', { amounts: amounts.join(', ') })
+      : translate(locale, 'reminders.vitamins.body'),
+    rule: { frequency: 'daily', times: [settings.vitamins.time] },
+    tab: 'medications'
+  }];
+};
+
+const medicationReminders = (settings: ReminderSettings, entries: MedicationLogEntry[], locale: Locale): Reminder[] =>
+  !settings.medications ? [] : entries
+    .filter(entry => entry.frequency === 'daily' && entry.reminders && entry.times.length > 0)
+    .map(entry => ({
+      id: `medication:${entry.id}`,
+      title: translate(locale, 'reminders.medication.title', { name: entry.name }),
+      body: entry.dose
+        ? translate(locale, 'reminders.medication.bodyWithDose', { dose: entry.dose })
+        : translate(locale, 'reminders.medication.body'),
+      rule: { frequency: 'daily', times: entry.times },
+      tab: 'medications'
+    }));
+
+const kickCountReminder = (settings: ReminderSettings, week: number | null, locale: Locale): Reminder[] =>
+  !settings.kickCount.enabled || week === null || week < KICK_COUNT_START_WEEK ? [] : [{
+    id: 'kickCount',
+    title: translate(locale, 'reminders.kickCount.title'),
+    body: translate(locale, 'reminders.kickCount.body'),
+    rule: { frequency: 'daily', times: [settings.kickCount.time] },
+    tab: 'tracker'
+  }];
+
+// The evening before each booked appointment, and the morning a milestone's booking window opens
+const appointmentReminders = (settings: ReminderSettings, schedule: ScheduleItem[], locale: Locale): Reminder[] => {
+  if (!settings.appointments) return [];
+  return schedule.flatMap((item): Reminder[] => {
+    if (item.status !== 'planned' || item.missed) return [];
+    const day = parseLocalDate(item.date);
+    if (!day) return [];
+    if (item.appointment) {
+      return [{
+        id: `appointment:${item.key}:${item.date}`,
+        title: translate(locale, 'reminders.appointment.title', { title: item.title }),
+        body: [item.time && translate(locale, 'reminders.appointment.at', { time: item.time }), item.appointment.location]
+          .filter(Boolean).join(', ') || translate(locale, 'reminders.appointment.body'),
+        rule: { frequency: 'once', at: atTime(addDays(day, -1), APPOINTMENT_REMINDER_TIME) },
+        tab: 'tracker'
+      }];
+    }
+    const windowStart = item.window && parseLocalDate(item.window.start);
+    return windowStart ? [{
+      id: `booking:${item.key}`,
+      title: translate(locale, 'reminders.booking.title', { title: item.title }),
+      body: item.milestone?.description || translate(locale, 'reminders.booking.body'),
+      rule: { frequency: 'once', at: atTime(windowStart, MORNING_TIME) },
+      tab: 'tracker'
+    }] : [];
+  });
+};
+
+// Completed weeks of pregnancy on a day, or null before dating
+export const getWeekOn = (dueDate: Date | undefined, day: Date): number | null =>
+  dueDate ? Math.floor(daysBetween(getPregnancyStart(dueDate), day) / 7) : null;
+
+// "You're now in week N" on the morning each week begins, using that week's timeline entry
+const weeklyDigestReminder = (settings: ReminderSettings, sources: ReminderSources, now: number, locale: Locale): Reminder[] => {
+  const week = getWeekOn(sources.dueDate, new Date(now));
+  if (!settings.weeklyDigest || !sources.dueDate || week === null || week < 1 || week > 42) return [];
+  const weekStart = addDays(getPregnancyStart(sources.dueDate), week * 7);
+  const info = sources.getWeekInfo(week);
+  return [{
+    id: `weeklyDigest:${week}`,
+    title: translate(locale, 'reminders.weeklyDigest.title', { week }),
+    body: info
+      ? [
+        info.title,
+        info.babyDevelopment[0],
+        info.checklist[0] && translate(locale, 'reminders.weeklyDigest.thisWeek', { item: info.checklist[0] })
+      ].filter(Boolean).join(' • ')
+      : translate(locale, 'reminders.weeklyDigest.body'),
+    rule: { frequency: 'once', at: atTime(weekStart, MORNING_TIME) },
+    tab: 'tracker'
+  }];
+};
+
+// Worded in the chosen language, so notifications match the app
+export const buildReminders = (data: RemindersData, sources: ReminderSources, now: number, locale: Locale): Reminder[] => {
+  const { settings } = data;
+  return [
+    ...vitaminReminder(settings, sources, locale),
+    ...medicationReminders(settings, sources.medicationLog, locale),
+    ...kickCountReminder(settings, getWeekOn(sources.dueDate, new Date(now)), locale),
+    ...appointmentReminders(settings, sources.schedule, locale),
+    ...weeklyDigestReminder(settings, sources, now, locale),
+    ...data.custom
+  ];
+};
+
+export const createCustomReminder = (fields: Omit<Reminder, 'id'>): CustomReminder => ({
+  ...fields,
+  id: `custom:${createId()}`,
+  createdAt: Date.now()
+});
+
+// "Mon", "Tue"... in the chosen language; 4 Jan 1970 was a Sunday
+export const weekdayLabel = (day: number, locale: Locale): string =>
+  formatDate(new Date(1970, 0, 4 + day), locale, { weekday: 'short' });
+
+// "Daily at 08:00, 20:00", "Mon, Thu at 19:00" or a date and time
+export const describeRule = (rule: RecurrenceRule, locale: Locale): string => {
+  switch (rule.frequency) {
+    case 'once':
+      return formatDateTime(new Date(rule.at), locale, { dateStyle: 'medium', timeStyle: 'short' });
+    case 'daily':
+      return translate(locale, 'reminders.rule.daily', { times: rule.times.join(', ') });
+    case 'weekly':
+      return translate(locale, 'reminders.rule.weekly', { days: rule.weekdays.map(day => weekdayLabel(day, locale)).join(', '), time: rule.time });
+  }
+};
+
+// ==================== DELIVERY ====================
+export const NOTIFICATION_ACTIONS = { snooze: 'snooze', done: 'done' };
+
+export const canNotify = (): boolean => typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+// Shown through the service worker so snooze works from the notification itself; plain Notification is the fallback
+export const showReminderNotification = async (due: DueReminder, snoozeMinutes: number, locale: Locale) => {
+  if (!canNotify()) return;
+  const options = {
+    body: due.reminder.body,
+    tag: due.key,
+    data: { reminderId: due.reminder.id, tab: due.reminder.tab },
+    actions: [
+      { action: NOTIFICATION_ACTIONS.snooze, title: translate(locale, 'reminders.snooze', { minutes: snoozeMinutes }) },
+      { action: NOTIFICATION_ACTIONS.done, title: translate(locale, 'reminders.done') }
+    ]
+  };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(due.reminder.title, options);
+    } else {
+      new Notification(due.reminder.title, { body: options.body, tag: options.tag });
+    }
+  } catch (error) {
+    console.error('Failed to show reminder:', error);
+  }
+};
+
+// ==================== PERSISTENCE ====================
+const REMINDERS_STORAGE_KEY = 'pregnancyReminders';
+
+const emptyReminders = (): RemindersData => ({ settings: DEFAULT_REMINDER_SETTINGS, custom: [], snoozes: [], lastCheckedAt: null });
+
+const isCustomReminder = (value: unknown): value is CustomReminder =>
+  hasFields(value, { id: 'string', title: 'string', createdAt: 'number' }) && isRecord(value.rule);
+
+const isSnooze = (value: unknown): value is Snooze => hasFields(value, { reminderId: 'string', until: 'number' });
+
+// Settings added since the data was saved come from the defaults
+const validateReminders = (value: unknown): RemindersData | null => {
+  if (!isRecord(value)) return null;
+  return {
+    settings: { ...DEFAULT_REMINDER_SETTINGS, ...(isRecord(value.settings) ? value.settings : {}) },
+    custom: listOf(isCustomReminder)(value.custom) || [],
+    snoozes: listOf(isSnooze)(value.snoozes) || [],
+    lastCheckedAt: typeof value.lastCheckedAt === 'number' ? value.lastCheckedAt : null
+  };
+};
+
+export const loadReminders = (): RemindersData => loadJson(REMINDERS_STORAGE_KEY, emptyReminders(), validateReminders);
+
+export const saveReminders = (data: RemindersData) => saveJson(REMINDERS_STORAGE_KEY, data);
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, fuseRankings, levenshtein, stem, tokenize } from './retrieval';
+
+const index = new Bm25Index([
+  { id: 'heartburn', content: 'Heartburn is common in the third trimester. Eat smaller meals.' },
+  { id: 'nausea', content: 'Nausea usually eases by week 14. Ginger and small frequent meals help.' },
+  { id: 'allergy', content: 'Allergy relief: loratadine and cetirizine are generally considered safe.' },
+  { id: 'fever', content: 'A fever above 100.4F needs a call to your provider.' },
+  { id: 'cold', content: 'For a cold, saline drops and steam are first-line options.' },
+  { id: 'ibuprofen', content: 'Ibuprofen should be avoided after 20 weeks.' },
+  { id: 'bleeding', content: 'Heavy bleeding needs emergency care. Also described as भारी रक्तस्राव, खूप जास्त रक्तस्राव.' }
+]);
+
+const topId = (query: string) => index.search(query)[0]?.id;
+
+describe('tokenize', () => {
+  it('drops stopwords and stems', () => {
+    expect(tokenize('Is it safe to take cramps medicine?')).toEqual(['cramp', 'medicine']);
+    expect(stem('swelling')).toBe('swell');
+  });
+
+  it('keeps Devanagari words and drops Hindi stopwords', () => {
+    expect(tokenize('भारी रक्तस्राव हो रहा है')).toEqual(['भारी', 'रक्तस्राव']);
+  });
+});
+
+describe('Bm25Index.search', () => {
+  it.each([
+    ['advil', 'ibuprofen'],
+    ['ibuprofin', 'ibuprofen'],
+    ['acid reflux at night', 'heartburn'],
+    ['morning sickness', 'nausea'],
+    ['stuffy nose', 'cold'],
+    ['runny nose remedies', 'cold'],
+    ['hay fever', 'allergy'],
+    ['भारी रक्तस्राव हो रहा है', 'bleeding'],
+    ['मला जास्त रक्तस्राव होत आहे', 'bleeding']
+  ])('finds "%s" in the %s document', (query, expected) => {
+    expect(topId(query)).toBe(expected);
+  });
+
+  it('treats "hay fever" as an allergy, not a fever', () => {
+    expect(index.search('hay fever').map(result => result.id)).not.toContain('fever');
+  });
+
+  it('returns nothing for a query of stopwords', () => {
+    expect(index.search('what should I do')).toEqual([]);
+  });
+});
+
+describe('levenshtein', () => {
+  it('stops early once the distance passes the limit', () => {
+    expect(levenshtein('ibuprofin', 'ibuprofen', 2)).toBe(1);
+    expect(levenshtein('cold', 'heartburn', 2)).toBe(3);
+  });
+});
+
+describe('fuseRankings', () => {
+  it('rewards documents both rankings agree on', () => {
+    const fused = fuseRankings([
+      { results: [{ id: 'a', score: 9 }, { id: 'b', score: 5 }], weight: 1 },
+      { results: [{ id: 'b', score: 0.9 }, { id: 'c', score: 0.8 }], weight: 1 }
+    ]);
+    expect(fused[0].id).toBe('b');
+  });
+});
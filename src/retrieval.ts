@@ -0,0 +1,246 @@
+// ==================== TYPES ====================
+export type RetrievalDocument = {
+  id: string;
+  content: string;
+};
+
+export type ScoredId = {
+  id: string;
+  score: number;
+};
+
+export type RetrievalOptions = {
+  topK: number;
+  // Cosine cutoff for vector hits; local embedding models often need a lower value than OpenAI's
+  minCosineSimilarity: number;
+  // Weight of each ranking when fusing lexical and vector results
+  lexicalWeight: number;
+  vectorWeight: number;
+};
+
+const parseEnvNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+const env = import.meta.env || {};
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  topK: 3,
+  minCosineSimilarity: parseEnvNumber(env.VITE_RETRIEVAL_MIN_SIMILARITY, 0.7),
+  lexicalWeight: 1,
+  vectorWeight: 1
+};
+
+// ==================== TEXT PROCESSING ====================
+const STOPWORDS = new Set([
+  'a', 'about', 'am', 'an', 'and', 'are', 'as', 'at', 'be', 'can', 'could', 'do', 'does', 'during', 'for',
+  'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or',
+  'should', 'so', 'take', 'taking', 'that', 'the', 'there', 'this', 'to', 'was', 'what', 'when', 'which',
+  'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your', 'im', 'ok', 'okay', 'safe', 'pregnant', 'pregnancy',
+  // Hindi and Marathi
+  'है', 'हैं', 'हो', 'रहा', 'रही', 'रहे', 'था', 'थी', 'का', 'की', 'के', 'को', 'में', 'से', 'पर', 'और', 'या', 'क्या', 'कैसे',
+  'मुझे', 'मेरा', 'मेरी', 'मेरे', 'यह', 'ये', 'वह', 'भी', 'तो', 'आहे', 'आहेत', 'मला', 'माझा', 'माझी', 'माझे', 'आणि', 'किंवा',
+  'काय', 'कसे', 'ला', 'ची', 'चा', 'चे', 'हे', 'ते', 'गर्भावस्था', 'गर्भधारणा'
+]);
+
+// Brand, generic and everyday names that should match each other. The first entry is the canonical term.
+export const SYNONYM_GROUPS: string[][] = [
+  ['ibuprofen', 'advil', 'motrin', 'brufen', 'nurofen'],
+  ['acetaminophen', 'tylenol', 'paracetamol', 'crocin', 'dolo', 'calpol'],
+  ['aspirin', 'disprin', 'ecosprin'],
+  ['cetirizine', 'zyrtec', 'okacet'],
+  ['loratadine', 'claritin'],
+  ['pseudoephedrine', 'sudafed', 'decongestant'],
+  ['calcium carbonate', 'tums', 'antacid'],
+  ['famotidine', 'pepcid'],
+  ['headache', 'migraine'],
+  ['heartburn', 'acidity', 'acid reflux', 'indigestion'],
+  ['nausea', 'vomiting', 'morning sickness', 'queasy'],
+  ['bleeding', 'spotting'],
+  ['fever', 'temperature'],
+  ['swelling', 'swollen', 'puffy', 'edema'],
+  ['cold', 'congestion', 'stuffy nose', 'runny nose'],
+  ['allergy', 'allergies', 'hay fever'],
+  ['cramping', 'cramps', 'cramp'],
+  ['tired', 'fatigue', 'exhausted'],
+  ['fish', 'seafood'],
+  ['caffeine', 'coffee', 'tea']
+];
+
+// Light suffix stripping; enough to line up "cramps"/"cramping" and "swelling"/"swells" without a full Porter stemmer
+export const stem = (word: string): string => {
+  if (word.length <= 4) return word;
+  const rules: Array<[RegExp, string]> = [
+    [/ies$/, 'y'],
+    [/(ss)es$/, '$1'],
+    [/([^s])s$/, '$1'],
+    [/ing$/, ''],
+    [/edly$/, ''],
+    [/ed$/, ''],
+    [/ly$/, ''],
+    [/ness$/, ''],
+    [/ment$/, '']
+  ];
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(word)) {
+      const stemmed = word.replace(pattern, replacement);
+      return stemmed.length >= 3 ? stemmed : word;
+    }
+  }
+  return word;
+};
+
+// Lowercase, without accents or the Devanagari nukta, which is often left out when typing ("ज़्यादा" as "ज्यादा")
+export const foldText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f\u093c]/g, '');
+
+// Keeps letters and vowel signs from any script, so Hindi and Marathi questions are searchable too
+export const tokenize = (text: string): string[] =>
+  foldText(text)
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+
+// Maps every stemmed synonym, a single word or a phrase like "acid reflux", to the stemmed tokens of its canonical term
+const buildSynonymMap = (): Map<string, string[]> => {
+  const map = new Map<string, string[]>();
+  SYNONYM_GROUPS.forEach(group => {
+    const canonical = tokenize(group[0]);
+    group.forEach(term => {
+      const tokens = tokenize(term);
+      if (tokens.length > 0) map.set(tokens.join(' '), canonical);
+    });
+  });
+  return map;
+};
+
+const SYNONYMS = buildSynonymMap();
+const LONGEST_SYNONYM = Math.max(...Array.from(SYNONYMS.keys(), key => key.split(' ').length));
+
+// Replaces each word or phrase with its canonical synonym so "advil" and "ibuprofen" index identically.
+// The longest phrase wins, so "hay fever" counts as an allergy rather than a fever.
+const canonicalize = (tokens: string[]): string[] => {
+  const result: string[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    let length = Math.min(LONGEST_SYNONYM, tokens.length - i);
+    while (length > 1 && !SYNONYMS.has(tokens.slice(i, i + length).join(' '))) length--;
+    result.push(...(SYNONYMS.get(tokens.slice(i, i + length).join(' ')) || [tokens[i]]));
+    i += length;
+  }
+  return result;
+};
+
+export const levenshtein = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Edits allowed for a fuzzy match; short words must match exactly to avoid "cold" ~ "mold"
+export const maxEditsFor = (token: string): number => (token.length >= 8 ? 2 : token.length >= 5 ? 1 : 0);
+
+// ==================== BM25 ====================
+const BM25_K1 = 1.5;
+const BM25_B = 0.75;
+
+export class Bm25Index {
+  private documents: Array<{ id: string; termFrequencies: Map<string, number>; length: number }> = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(documents: RetrievalDocument[]) {
+    documents.forEach(doc => {
+      const tokens = canonicalize(tokenize(doc.content));
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+      termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+      this.documents.push({ id: doc.id, termFrequencies, length: tokens.length });
+    });
+    const totalLength = this.documents.reduce((sum, doc) => sum + doc.length, 0);
+    this.averageLength = this.documents.length ? totalLength / this.documents.length : 0;
+  }
+
+  // Resolves misspelled query terms to the closest indexed term, e.g. "ibuprofin" -> "ibuprofen"
+  private resolveTerm(term: string): string | null {
+    if (this.documentFrequencies.has(term)) return term;
+    const maxEdits = maxEditsFor(term);
+    if (maxEdits === 0) return null;
+
+    let best: string | null = null;
+    let bestDistance = maxEdits + 1;
+    this.documentFrequencies.forEach((_, candidate) => {
+      const distance = levenshtein(term, candidate, maxEdits);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  search(query: string, limit: number = Infinity): ScoredId[] {
+    const terms = Array.from(new Set(
+      canonicalize(tokenize(query))
+        .map(term => this.resolveTerm(term))
+        .filter((term): term is string => term !== null)
+    ));
+    if (terms.length === 0) return [];
+
+    const total = this.documents.length;
+    return this.documents
+      .map(doc => {
+        const score = terms.reduce((sum, term) => {
+          const frequency = doc.termFrequencies.get(term);
+          if (!frequency) return sum;
+          const documentFrequency = this.documentFrequencies.get(term) || 0;
+          const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+          const normalization = 1 - BM25_B + BM25_B * (doc.length / (this.averageLength || 1));
+          return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * normalization);
+        }, 0);
+        return { id: doc.id, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+// ==================== VECTOR SEARCH ====================
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
+  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
+  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
+  return dotProduct / (magnitudeA * magnitudeB);
+};
+
+// ==================== SCORE FUSION ====================
+const RRF_K = 60;
+
+// Reciprocal rank fusion: BM25 and cosine scores live on different scales, so combine ranks instead
+export const fuseRankings = (rankings: Array<{ results: ScoredId[]; weight: number }>): ScoredId[] => {
+  const fused = new Map<string, number>();
+  rankings.forEach(({ results, weight }) => {
+    results.forEach((result, rank) => {
+      fused.set(result.id, (fused.get(result.id) || 0) + weight / (RRF_K + rank + 1));
+    });
+  });
+  return Array.from(fused, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+};
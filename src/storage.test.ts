@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+import { loadWeightTracker } from './weightGain';
+import { loadReminders } from './reminders';
+
+const store = new Map<string, string>();
+
+beforeEach(() => {
+  store.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key)
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const isItem = (value: unknown): value is { id: string } => hasFields(value, { id: 'string' });
+
+describe('loadJson', () => {
+  it('returns the fallback when nothing is saved or the JSON is broken', () => {
+    expect(loadJson('missing', 'fallback')).toBe('fallback');
+    store.set('broken', '{not json');
+    expect(loadJson('broken', [])).toEqual([]);
+  });
+
+  it('returns the fallback when the shape is wrong', () => {
+    store.set('items', '{"id":"a"}');
+    expect(loadJson('items', [], listOf(isItem))).toEqual([]);
+  });
+
+  it('keeps the valid items of a list', () => {
+    store.set('items', JSON.stringify([{ id: 'a' }, { id: 2 }, null, { id: 'b' }]));
+    expect(loadJson('items', [], listOf(isItem))).toEqual([{ id: 'a' }, { id: 'b' }]);
+  });
+});
+
+describe('saveJson', () => {
+  it('round-trips and survives a full quota', () => {
+    saveJson('items', [{ id: 'a' }]);
+    expect(loadJson('items', [], listOf(isItem))).toEqual([{ id: 'a' }]);
+
+    vi.stubGlobal('localStorage', { setItem: () => { throw new Error('QuotaExceededError'); } });
+    expect(() => saveJson('items', [])).not.toThrow();
+  });
+});
+
+describe('module loaders', () => {
+  it('drops a damaged weight profile but keeps the weigh-ins', () => {
+    store.set('pregnancyWeightTracker', JSON.stringify({
+      profile: { heightCm: '160' },
+      weighIns: [{ id: 'w1', date: '2026-01-01', weightKg: 60 }, { id: 'w2' }]
+    }));
+    expect(loadWeightTracker()).toEqual({ profile: null, weighIns: [{ id: 'w1', date: '2026-01-01', weightKg: 60 }] });
+  });
+
+  it('fills in reminder settings added since the data was saved', () => {
+    store.set('pregnancyReminders', JSON.stringify({ settings: { medications: false }, custom: 'oops' }));
+    const data = loadReminders();
+    expect(data.settings.medications).toBe(false);
+    expect(data.settings.snoozeMinutes).toBeGreaterThan(0);
+    expect(data.custom).toEqual([]);
+    expect(data.lastCheckedAt).toBeNull();
+  });
+});
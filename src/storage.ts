@@ -0,0 +1,47 @@
+// ==================== TYPES ====================
+// Returns the data to use, or null when the saved value isn't the expected shape
+export type Validate<T> = (value: unknown) => T | null;
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array';
+
+// ==================== SHAPE CHECKS ====================
+// Saved data can be from an older version, another tab mid-write, or edited by hand
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks only the listed fields; optional ones are left to the caller
+export const hasFields = (value: unknown, fields: Record<string, FieldType>): value is Record<string, unknown> =>
+  isRecord(value) &&
+  Object.entries(fields).every(([key, type]) => (type === 'array' ? Array.isArray(value[key]) : typeof value[key] === type));
+
+// Keeps the items that pass, so one damaged entry doesn't cost the whole list
+export const listOf = <T>(isItem: (item: unknown) => item is T): Validate<T[]> => value =>
+  Array.isArray(value) ? value.filter(isItem) : null;
+
+// ==================== LOCAL STORAGE ====================
+export const loadJson = <T>(key: string, fallback: T, validate?: Validate<T>): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    const value = validate ? validate(parsed) : (parsed as T);
+    if (value === null) {
+      console.error(`Ignoring saved ${key}: unexpected shape`);
+      return fallback;
+    }
+    return value;
+  } catch (error) {
+    console.error(`Failed to parse saved ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Most likely the storage quota; keep the app usable and just skip persisting
+    console.error(`Failed to save ${key}:`, error);
+  }
+};
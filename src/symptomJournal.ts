@@ -0,0 +1,123 @@
+import { Symptom } from './knowledgeBaseSchema';
+import { addDays, parseLocalDate, toDateInputValue } from './gestationalAge';
+import { createId } from './conversations';
+import { detectRedFlags } from './triage';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type JournalSeverity = 'mild' | 'moderate' | 'severe';
+
+export type JournalEntry = {
+  id: string;
+  // Local calendar date (YYYY-MM-DD) and time (HH:MM) the symptom happened
+  date: string;
+  time: string;
+  symptom: string;
+  severity: JournalSeverity;
+  notes: string;
+  // Gestational week on that date, when a due date is known
+  week: number | null;
+  createdAt: number;
+};
+
+export type HeatmapDay = {
+  date: string;
+  count: number;
+  // Highest severity logged that day; null when nothing was logged
+  worst: JournalSeverity | null;
+  isFuture: boolean;
+};
+
+export type SymptomTrend = {
+  symptom: string;
+  thisWeek: number;
+  lastWeek: number;
+  // Average severity over the last 7 days on a 1-3 scale, null when not logged this week
+  averageSeverity: number | null;
+};
+
+export const JOURNAL_SEVERITIES: JournalSeverity[] = ['mild', 'moderate', 'severe'];
+const SEVERITY_SCORE: Record<JournalSeverity, number> = { mild: 1, moderate: 2, severe: 3 };
+
+// ==================== PERSISTENCE ====================
+const JOURNAL_STORAGE_KEY = 'pregnancySymptomJournal';
+
+const isJournalEntry = (value: unknown): value is JournalEntry =>
+  hasFields(value, { id: 'string', date: 'string', time: 'string', symptom: 'string', severity: 'string', createdAt: 'number' });
+
+export const loadJournal = (): JournalEntry[] => loadJson(JOURNAL_STORAGE_KEY, [], listOf(isJournalEntry));
+
+export const saveJournal = (entries: JournalEntry[]) => saveJson(JOURNAL_STORAGE_KEY, entries);
+
+export const createJournalEntry = (fields: Omit<JournalEntry, 'id' | 'createdAt'>): JournalEntry => ({
+  ...fields,
+  id: createId(),
+  createdAt: Date.now()
+});
+
+// Newest first, by when the symptom happened rather than when it was written down
+export const sortEntries = (entries: JournalEntry[]): JournalEntry[] =>
+  [...entries].sort((a, b) => `${b.date}T${b.time}`.localeCompare(`${a.date}T${a.time}`));
+
+// ==================== RED FLAGS ====================
+// An entry is urgent when it names a high-severity sign or its notes describe one ("bleeding a lot", "fever 103")
+export const findEntryRedFlags = (entry: JournalEntry, emergencySymptoms: Symptom[]): Symptom[] => {
+  const named = emergencySymptoms.filter(symptom => symptom.sign === entry.symptom);
+  const described = detectRedFlags(`${entry.symptom}. ${entry.notes}`, emergencySymptoms).map(match => match.symptom);
+  return [...named, ...described].filter((symptom, i, all) => all.findIndex(s => s.sign === symptom.sign) === i);
+};
+
+// ==================== HISTORY VIEWS ====================
+const worstOf = (entries: JournalEntry[]): JournalSeverity | null =>
+  entries.reduce<JournalSeverity | null>(
+    (worst, entry) => (!worst || SEVERITY_SCORE[entry.severity] > SEVERITY_SCORE[worst] ? entry.severity : worst),
+    null
+  );
+
+// Columns of Sunday-to-Saturday weeks, oldest first, with the last column holding today
+export const buildHeatmap = (entries: JournalEntry[], today: Date, weeks: number = 12): HeatmapDay[][] => {
+  const byDate = new Map<string, JournalEntry[]>();
+  entries.forEach(entry => byDate.set(entry.date, [...(byDate.get(entry.date) || []), entry]));
+
+  const todayValue = toDateInputValue(today);
+  const start = addDays(today, -today.getDay() - (weeks - 1) * 7);
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => {
+      const date = toDateInputValue(addDays(start, week * 7 + day));
+      const dayEntries = byDate.get(date) || [];
+      return { date, count: dayEntries.length, worst: worstOf(dayEntries), isFuture: date > todayValue };
+    })
+  );
+};
+
+// Compares the last 7 days with the 7 before, per symptom, most frequent first
+export const weekOverWeekTrends = (entries: JournalEntry[], today: Date): SymptomTrend[] => {
+  const thisWeekStart = toDateInputValue(addDays(today, -6));
+  const lastWeekStart = toDateInputValue(addDays(today, -13));
+  const todayValue = toDateInputValue(today);
+
+  const trends = new Map<string, { thisWeek: JournalEntry[]; lastWeek: number }>();
+  entries.forEach(entry => {
+    if (entry.date < lastWeekStart || entry.date > todayValue) return;
+    const trend = trends.get(entry.symptom) || { thisWeek: [], lastWeek: 0 };
+    if (entry.date >= thisWeekStart) {
+      trend.thisWeek.push(entry);
+    } else {
+      trend.lastWeek++;
+    }
+    trends.set(entry.symptom, trend);
+  });
+
+  return Array.from(trends, ([symptom, { thisWeek, lastWeek }]) => ({
+    symptom,
+    thisWeek: thisWeek.length,
+    lastWeek,
+    averageSeverity: thisWeek.length > 0
+      ? thisWeek.reduce((sum, entry) => sum + SEVERITY_SCORE[entry.severity], 0) / thisWeek.length
+      : null
+  })).sort((a, b) => b.thisWeek - a.thisWeek || b.lastWeek - a.lastWeek);
+};
+
+// `locale` is an Intl tag; left unset it follows the browser
+export const formatJournalDate = (value: string, locale?: string): string =>
+  parseLocalDate(value)?.toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' }) || value;
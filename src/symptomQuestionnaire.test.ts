@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { SymptomThreshold } from './knowledgeBaseSchema';
+import { TRIAGE_FLOWS, TriageAnswers, describeAnswers, evaluateTriage, toFahrenheit, visibleQuestions, withinThreshold } from './symptomQuestionnaire';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+const symptoms = loadTestKnowledgeBase().symptomTroubleshooting.categories.flatMap(category => category.symptoms);
+
+const flow = (id: string) => {
+  const found = TRIAGE_FLOWS.find(candidate => candidate.id === id);
+  if (!found) throw new Error(`No flow ${id}`);
+  return found;
+};
+
+const signFor = (id: string, answers: TriageAnswers) => evaluateTriage(flow(id), answers, symptoms).symptom?.sign ?? null;
+
+describe('withinThreshold', () => {
+  it('includes the minimum and excludes the maximum', () => {
+    const lowFever: SymptomThreshold = { measure: 'temperature', min: 100.4, max: 102, unit: '°F' };
+    expect(withinThreshold(lowFever, 100.4)).toBe(true);
+    expect(withinThreshold(lowFever, 102)).toBe(false);
+    expect(withinThreshold({ ...lowFever, max: undefined }, 102)).toBe(true);
+  });
+});
+
+describe('evaluateTriage', () => {
+  it.each([
+    ['bleeding', { amount: 'heavy' }, 'Heavy bleeding'],
+    ['bleeding', { amount: 'spotting', duration: 0 }, 'Slight spotting < 1 day'],
+    ['bleeding', { amount: 'spotting', duration: 2 }, 'Spotting ≥ 1 day'],
+    ['abdominalPain', { intensity: 'mild', pattern: 'yes', week: 32 }, 'Regular contractions before 37 weeks'],
+    ['abdominalPain', { intensity: 'mild', pattern: 'yes', week: 38 }, null],
+    ['abdominalPain', { intensity: 'mild', pattern: 'no' }, 'Mild cramping'],
+    ['headache', { intensity: 'mild', vision: 'yes' }, 'Severe headache with vision changes'],
+    ['headache', { intensity: 'mild', vision: 'no' }, null],
+    ['fever', { temperature: 101, unit: 'F' }, 'Fever < 102°F'],
+    ['fever', { temperature: 39, unit: 'C' }, 'Fever ≥ 102°F'],
+    ['fever', { temperature: 37, unit: 'C' }, null],
+    ['swelling', { location: 'oneLeg', legPain: 'yes' }, 'Leg pain with swelling'],
+    ['swelling', { location: 'faceHands', onset: 'yes' }, 'Sudden face/hand swelling'],
+    ['swelling', { location: 'feet', onset: 'no' }, null]
+  ])('%s %j -> %s', (id, answers, expected) => {
+    expect(signFor(id, answers as TriageAnswers)).toBe(expected);
+  });
+
+  it('flags accompanying red flags, worst first, without repeating the main sign', () => {
+    const result = evaluateTriage(
+      flow('bleeding'),
+      { amount: 'heavy', accompanying: ['heavyBleeding', 'vision'] },
+      symptoms
+    );
+    expect(result.symptom?.sign).toBe('Heavy bleeding');
+    expect(result.alsoFlagged.map(symptom => symptom.sign)).toEqual(['Severe headache with vision changes']);
+  });
+});
+
+describe('visibleQuestions', () => {
+  it('only asks follow-ups that apply', () => {
+    const ids = (answers: TriageAnswers) => visibleQuestions(flow('bleeding'), answers).map(question => question.id);
+    expect(ids({ amount: 'heavy' })).toEqual(['amount', 'accompanying']);
+    expect(ids({ amount: 'spotting' })).toEqual(['amount', 'duration', 'accompanying']);
+  });
+});
+
+describe('describeAnswers', () => {
+  it('uses option labels and units', () => {
+    expect(describeAnswers(flow('bleeding'), { amount: 'spotting', duration: 2, accompanying: [] }, 'en')).toEqual([
+      'How much are you bleeding? Spotting - a few drops, pink or brown',
+      'How long has the spotting lasted? 2 days',
+      'Do you also have any of these? None'
+    ]);
+  });
+});
+
+describe('toFahrenheit', () => {
+  it('converts Celsius only', () => {
+    expect(toFahrenheit(38, 'C')).toBeCloseTo(100.4);
+    expect(toFahrenheit(100.4, 'F')).toBe(100.4);
+  });
+});
@@ -0,0 +1,312 @@
+import { Symptom, SymptomThreshold } from './knowledgeBaseSchema';
+import { createId } from './conversations';
+import { Locale, MessageKey, formatNumber, translate } from './i18n';
+import { hasFields, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type TriageAnswer = string | number | string[];
+export type TriageAnswers = Record<string, TriageAnswer>;
+
+export type TriageQuestion = {
+  id: string;
+  text: MessageKey;
+  type: 'choice' | 'multi' | 'number';
+  options?: Array<{ value: string; label: MessageKey }>;
+  unit?: MessageKey;
+  min?: number;
+  max?: number;
+  // Only asked when this returns true for the answers given so far
+  showIf?: (answers: TriageAnswers) => boolean;
+};
+
+export type TriageFlow = {
+  id: string;
+  label: MessageKey;
+  questions: TriageQuestion[];
+  // Picks the knowledge base sign the answers point to, or null when none of them applies
+  resolve: (answers: TriageAnswers, symptoms: Symptom[]) => Symptom | null;
+  // Shown when resolve finds no sign
+  guidance: MessageKey;
+};
+
+export type TriageResult = {
+  symptom: Symptom | null;
+  // Red-flag signs picked from the accompanying symptoms question
+  alsoFlagged: Symptom[];
+};
+
+export type TriageLogEntry = {
+  id: string;
+  createdAt: number;
+  week: number;
+  flowId: string;
+  answers: TriageAnswers;
+  sign: string | null;
+  severity?: Symptom['severity'];
+  urgency?: string;
+  action?: string;
+  alsoFlagged: string[];
+};
+
+// ==================== THRESHOLDS ====================
+// min is inclusive and max is exclusive, matching signs like "Fever < 102°F" / "Fever ≥ 102°F"
+export const withinThreshold = (threshold: SymptomThreshold, value: number): boolean =>
+  (threshold.min === undefined || value >= threshold.min) && (threshold.max === undefined || value < threshold.max);
+
+const findSign = (symptoms: Symptom[], sign: string): Symptom | null =>
+  symptoms.find(symptom => symptom.sign === sign) || null;
+
+// Lets the knowledge base decide which sign a measurement falls under instead of hard-coding the cut-offs here
+const findByThreshold = (symptoms: Symptom[], measure: SymptomThreshold['measure'], value: number): Symptom | null =>
+  symptoms.find(symptom => symptom.threshold?.measure === measure && withinThreshold(symptom.threshold, value)) || null;
+
+export const toFahrenheit = (value: number, unit: string): number => (unit === 'C' ? value * 9 / 5 + 32 : value);
+
+// ==================== QUESTIONS ====================
+const YES_NO: TriageQuestion['options'] = [{ value: 'yes', label: 'triage.yes' }, { value: 'no', label: 'triage.no' }];
+
+// Asked at the end of every flow; each option maps to a knowledge base red-flag sign
+const ACCOMPANYING_SIGNS: Record<string, string> = {
+  heavyBleeding: 'Heavy bleeding',
+  severePain: 'Severe abdominal pain',
+  vision: 'Severe headache with vision changes',
+  legSwelling: 'Leg pain with swelling',
+  faceSwelling: 'Sudden face/hand swelling'
+};
+
+const ACCOMPANYING_QUESTION: TriageQuestion = {
+  id: 'accompanying',
+  text: 'triage.accompanying',
+  type: 'multi',
+  options: [
+    { value: 'heavyBleeding', label: 'triage.accompanying.heavyBleeding' },
+    { value: 'severePain', label: 'triage.accompanying.severePain' },
+    { value: 'vision', label: 'triage.accompanying.vision' },
+    { value: 'legSwelling', label: 'triage.accompanying.legSwelling' },
+    { value: 'faceSwelling', label: 'triage.accompanying.faceSwelling' }
+  ]
+};
+
+const FLOWS: TriageFlow[] = [
+  {
+    id: 'bleeding',
+    label: 'triage.bleeding',
+    questions: [
+      {
+        id: 'amount',
+        text: 'triage.bleeding.amount',
+        type: 'choice',
+        options: [
+          { value: 'spotting', label: 'triage.bleeding.amount.spotting' },
+          { value: 'heavy', label: 'triage.bleeding.amount.heavy' }
+        ]
+      },
+      {
+        id: 'duration',
+        text: 'triage.bleeding.duration',
+        type: 'number',
+        unit: 'triage.unit.days',
+        min: 0,
+        max: 60,
+        showIf: answers => answers.amount === 'spotting'
+      }
+    ],
+    resolve: (answers, symptoms) => answers.amount === 'heavy'
+      ? findSign(symptoms, 'Heavy bleeding')
+      : findByThreshold(symptoms, 'duration', Number(answers.duration)),
+    guidance: 'triage.bleeding.guidance'
+  },
+  {
+    id: 'discharge',
+    label: 'triage.discharge',
+    questions: [
+      {
+        id: 'color',
+        text: 'triage.discharge.color',
+        type: 'choice',
+        options: [
+          { value: 'clear', label: 'triage.discharge.color.clear' },
+          { value: 'colored', label: 'triage.discharge.color.colored' },
+          { value: 'watery', label: 'triage.discharge.color.watery' }
+        ]
+      }
+    ],
+    resolve: (answers, symptoms) => (answers.color === 'colored' ? findSign(symptoms, 'Green/yellow discharge') : null),
+    guidance: 'triage.discharge.guidance'
+  },
+  {
+    id: 'abdominalPain',
+    label: 'triage.abdominalPain',
+    questions: [
+      {
+        id: 'intensity',
+        text: 'triage.abdominalPain.intensity',
+        type: 'choice',
+        options: [
+          { value: 'mild', label: 'triage.abdominalPain.intensity.mild' },
+          { value: 'severe', label: 'triage.abdominalPain.intensity.severe' }
+        ]
+      },
+      {
+        id: 'pattern',
+        text: 'triage.abdominalPain.pattern',
+        type: 'choice',
+        options: YES_NO,
+        showIf: answers => answers.intensity === 'mild'
+      },
+      {
+        id: 'week',
+        text: 'triage.abdominalPain.week',
+        type: 'number',
+        unit: 'triage.unit.weeks',
+        min: 1,
+        max: 42,
+        showIf: answers => answers.pattern === 'yes'
+      }
+    ],
+    resolve: (answers, symptoms) => {
+      if (answers.intensity === 'severe') return findSign(symptoms, 'Severe abdominal pain');
+      if (answers.pattern === 'yes') return findByThreshold(symptoms, 'gestationalWeek', Number(answers.week));
+      return findSign(symptoms, 'Mild cramping');
+    },
+    guidance: 'triage.abdominalPain.guidance'
+  },
+  {
+    id: 'headache',
+    label: 'triage.headache',
+    questions: [
+      {
+        id: 'intensity',
+        text: 'triage.headache.intensity',
+        type: 'choice',
+        options: [
+          { value: 'mild', label: 'triage.headache.intensity.mild' },
+          { value: 'severe', label: 'triage.headache.intensity.severe' }
+        ]
+      },
+      { id: 'vision', text: 'triage.headache.vision', type: 'choice', options: YES_NO }
+    ],
+    resolve: (answers, symptoms) => (answers.intensity === 'severe' || answers.vision === 'yes'
+      ? findSign(symptoms, 'Severe headache with vision changes')
+      : null),
+    guidance: 'triage.headache.guidance'
+  },
+  {
+    id: 'fever',
+    label: 'triage.fever',
+    questions: [
+      { id: 'temperature', text: 'triage.fever.temperature', type: 'number', min: 30, max: 110 },
+      {
+        id: 'unit',
+        text: 'triage.fever.unit',
+        type: 'choice',
+        options: [{ value: 'F', label: 'triage.unit.fahrenheit' }, { value: 'C', label: 'triage.unit.celsius' }]
+      }
+    ],
+    resolve: (answers, symptoms) =>
+      findByThreshold(symptoms, 'temperature', toFahrenheit(Number(answers.temperature), String(answers.unit))),
+    guidance: 'triage.fever.guidance'
+  },
+  {
+    id: 'swelling',
+    label: 'triage.swelling',
+    questions: [
+      {
+        id: 'location',
+        text: 'triage.swelling.location',
+        type: 'choice',
+        options: [
+          { value: 'feet', label: 'triage.swelling.location.feet' },
+          { value: 'faceHands', label: 'triage.swelling.location.faceHands' },
+          { value: 'oneLeg', label: 'triage.swelling.location.oneLeg' }
+        ]
+      },
+      {
+        id: 'onset',
+        text: 'triage.swelling.onset',
+        type: 'choice',
+        options: YES_NO,
+        showIf: answers => answers.location !== 'oneLeg'
+      },
+      {
+        id: 'legPain',
+        text: 'triage.swelling.legPain',
+        type: 'choice',
+        options: YES_NO,
+        showIf: answers => answers.location === 'oneLeg'
+      }
+    ],
+    resolve: (answers, symptoms) => {
+      if (answers.location === 'oneLeg' && answers.legPain === 'yes') return findSign(symptoms, 'Leg pain with swelling');
+      if (answers.location !== 'oneLeg' && answers.onset === 'yes') return findSign(symptoms, 'Sudden face/hand swelling');
+      return null;
+    },
+    guidance: 'triage.swelling.guidance'
+  }
+];
+
+export const TRIAGE_FLOWS: TriageFlow[] = FLOWS.map(flow => ({ ...flow, questions: [...flow.questions, ACCOMPANYING_QUESTION] }));
+
+// ==================== EVALUATION ====================
+// The questions still relevant given the answers so far, in order
+export const visibleQuestions = (flow: TriageFlow, answers: TriageAnswers): TriageQuestion[] =>
+  flow.questions.filter(question => !question.showIf || question.showIf(answers));
+
+const SEVERITY_ORDER: Record<Symptom['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+export const evaluateTriage = (flow: TriageFlow, answers: TriageAnswers, symptoms: Symptom[]): TriageResult => {
+  const symptom = flow.resolve(answers, symptoms);
+  const accompanying = Array.isArray(answers.accompanying) ? answers.accompanying : [];
+  const alsoFlagged = accompanying
+    .map(value => findSign(symptoms, ACCOMPANYING_SIGNS[value]))
+    .filter((flagged): flagged is Symptom => flagged !== null && flagged.sign !== symptom?.sign)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  return { symptom, alsoFlagged };
+};
+
+// Human-readable "question: answer" lines for the log
+export const describeAnswers = (flow: TriageFlow, answers: TriageAnswers, locale: Locale): string[] =>
+  visibleQuestions(flow, answers)
+    .filter(question => answers[question.id] !== undefined)
+    .map(question => {
+      const answer = answers[question.id];
+      const labelFor = (value: string) => {
+        const option = question.options?.find(o => o.value === value);
+        return option ? translate(locale, option.label) : value;
+      };
+      const unit = question.unit ? ` ${translate(locale, question.unit)}` : '';
+      const text = Array.isArray(answer)
+        ? (answer.length > 0 ? answer.map(labelFor).join(', ') : translate(locale, 'triage.none'))
+        : question.type === 'number' ? `${formatNumber(Number(answer), locale)}${unit}` : labelFor(String(answer));
+      return `${translate(locale, question.text)} ${text}`;
+    });
+
+// ==================== LOG ====================
+const TRIAGE_LOG_STORAGE_KEY = 'pregnancySymptomTriageLog';
+const MAX_LOG_ENTRIES = 200;
+
+const isTriageLogEntry = (value: unknown): value is TriageLogEntry =>
+  hasFields(value, { id: 'string', createdAt: 'number', week: 'number', flowId: 'string', alsoFlagged: 'array' });
+
+export const loadTriageLog = (): TriageLogEntry[] => loadJson(TRIAGE_LOG_STORAGE_KEY, [], listOf(isTriageLogEntry));
+
+export const saveTriageLog = (entries: TriageLogEntry[]) => saveJson(TRIAGE_LOG_STORAGE_KEY, entries.slice(-MAX_LOG_ENTRIES));
+
+export const createTriageLogEntry = (
+  flow: TriageFlow,
+  answers: TriageAnswers,
+  result: TriageResult,
+  week: number
+): TriageLogEntry => ({
+  id: createId(),
+  createdAt: Date.now(),
+  // Prefer the week the user confirmed in the questionnaire over the tracker's estimate
+  week: Number(answers.week) || week,
+  flowId: flow.id,
+  answers,
+  sign: result.symptom?.sign ?? null,
+  severity: result.symptom?.severity,
+  urgency: result.symptom?.urgency,
+  action: result.symptom?.action,
+  alsoFlagged: result.alsoFlagged.map(symptom => symptom.sign)
+});
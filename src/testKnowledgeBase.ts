@@ -0,0 +1,11 @@
+import { readFileSync } from 'fs';
+import { validateKnowledgeBase } from './knowledgeBaseSchema';
+
+// The shipped knowledge base, validated the same way the app loads it, for tests that depend on its data
+export const loadTestKnowledgeBase = () => {
+  const { knowledgeGraph, issues } = validateKnowledgeBase(
+    JSON.parse(readFileSync(new URL('../public/knowledgeBase.json', import.meta.url), 'utf8'))
+  );
+  if (issues.length > 0) throw new Error(`Invalid knowledge base: ${issues.map(issue => issue.path).join(', ')}`);
+  return knowledgeGraph;
+};
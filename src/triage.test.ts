@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+import { detectRedFlags, extractTemperaturesF } from './triage';
+
+const emergencySymptoms = loadTestKnowledgeBase().symptomTroubleshooting.categories
+  .flatMap(category => category.symptoms)
+  .filter(symptom => symptom.severity === 'high');
+
+const signsIn = (text: string) => detectRedFlags(text, emergencySymptoms).map(match => match.symptom.sign);
+
+describe('detectRedFlags', () => {
+  it.each([
+    ['I think I have heavy bleeding', 'Heavy bleeding'],
+    ["I'm not sure if it's heavy bleeding", 'Heavy bleeding'],
+    ["I don't know if this counts as heavy bleeding", 'Heavy bleeding'],
+    ['not certain, but I am soaking a pad every hour', 'Heavy bleeding'],
+    ['my leg hurts and is swollen', 'Leg pain with swelling'],
+    ['swelling in one leg since yesterday', 'Leg pain with swelling'],
+    ['my calf is swollen', 'Leg pain with swelling'],
+    ['I have a severe headache and blurry vision', 'Severe headache with vision changes'],
+    ['the baby is not moving as much today', 'Baby moving less than usual'],
+    ['no bleeding but my face is swollen', 'Sudden face/hand swelling'],
+    ['fever of 39.5C since this morning', 'Fever ≥ 102°F'],
+    ['भारी रक्तस्राव हो रहा है', 'Heavy bleeding'],
+    ['पता नहीं भारी रक्तस्राव है या नहीं', 'Heavy bleeding'],
+    ['मला खूप जास्त रक्तस्राव होत आहे', 'Heavy bleeding'],
+    ['bahut khoon aa raha hai', 'Heavy bleeding'],
+    ['पेट में बहुत तेज़ दर्द है।', 'Severe abdominal pain'],
+    ['बच्चा हिल नहीं रहा है', 'Baby moving less than usual'],
+    ['बाळाची हालचाल कमी झाली आहे', 'Baby moving less than usual'],
+    ['बुखार 103 है', 'Fever ≥ 102°F']
+  ])('flags "%s"', (text, sign) => {
+    expect(signsIn(text)).toContain(sign);
+  });
+
+  it.each([
+    'no bleeding',
+    'I am not bleeding',
+    "I haven't had any bleeding",
+    'no heavy bleeding, just some spotting',
+    'no swelling in my legs',
+    'my leg is a bit sore after the walk',
+    'fever of 100.4',
+    'what foods are good for iron?',
+    'भारी रक्तस्राव नहीं हो रहा',
+    'जास्त रक्तस्राव होत नाही',
+    'bahut khoon nahi aaya',
+    'पेट में हल्का दर्द है'
+  ])('does not flag "%s"', text => {
+    expect(signsIn(text)).toEqual([]);
+  });
+});
+
+describe('extractTemperaturesF', () => {
+  it('reads Fahrenheit and Celsius readings', () => {
+    expect(extractTemperaturesF('temp 39.5C, earlier 101.2 °F')).toEqual([103.1, 101.2]);
+  });
+});
@@ -0,0 +1,153 @@
+import { foldText, stem } from './retrieval';
+import { Symptom } from './knowledgeBaseSchema';
+
+// ==================== TYPES ====================
+export type RedFlagMatch = {
+  symptom: Symptom;
+  // The words in the user's message that triggered the match
+  matchedText: string;
+};
+
+type Token = {
+  raw: string;
+  stemmed: string;
+  // Index of the clause the token belongs to; negation never crosses a clause break
+  clause: number;
+};
+
+// ==================== TOKENIZING ====================
+const NEGATIONS = new Set([
+  'no', 'not', 'without', 'never', 'none', 'denies', 'deny', 'dont', 'doesnt', 'didnt', 'isnt', 'havent', 'hasnt', 'arent', 'wasnt', 'free',
+  'बिना', 'बगैर', 'विना'
+]);
+const CLAUSE_BREAKS = new Set(['but', 'however', 'although', 'though', 'except']);
+// Words that may sit between a negation and the sign it denies: "haven't had any bleeding", "no real swelling".
+// Anything else breaks the link, so hedges like "not sure if it's heavy bleeding" still raise the flag.
+const NEGATION_FILLERS = new Set([
+  'a', 'an', 'any', 'the', 'some', 'much', 'real', 'really', 'more', 'sign', 'signs', 'of',
+  'have', 'has', 'had', 'having', 'been', 'am', 'is', 'are', 'was', 'be',
+  'experiencing', 'feel', 'feeling', 'felt', 'notice', 'noticed', 'see', 'seen', 'getting', 'got'
+]);
+// Hindi and Marathi put the negation after the sign: "खून नहीं आ रहा", "रक्तस्राव होत नाही", "bleeding nahi ho rahi".
+// Before the sign it's usually a hedge ("पता नहीं भारी रक्तस्राव है"), so these only count when they follow it.
+const TRAILING_NEGATIONS = new Set(['नहीं', 'नही', 'नाही', 'नाहीये', 'नाहीत', 'nahi', 'nahin', 'nahee', 'nai', 'nahiye']);
+const TRAILING_FILLERS = new Set([
+  'हो', 'रहा', 'रही', 'रहे', 'है', 'हैं', 'था', 'थी', 'आ', 'आता', 'आती', 'हुआ', 'हुई', 'कोई', 'ज्यादा', 'बिल्कुल',
+  'होत', 'होता', 'होती', 'आहे', 'येत', 'झाला', 'झाली', 'काही', 'अजिबात',
+  'ho', 'raha', 'rahi', 'rahe', 'hai', 'tha', 'thi', 'aa', 'hua', 'hui', 'koi', 'bilkul', 'hot', 'aahe'
+]);
+// How many words around a match a negation word still applies to
+const NEGATION_WINDOW = 4;
+// How many unrelated words may sit between trigger words: "leg pain and some swelling"
+const MAX_GAP = 2;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let clause = 0;
+  foldText(text)
+    .replace(/[’']/g, '')
+    .split(/([.,;!?\n।॥]+|\s+)/)
+    .forEach(part => {
+      if (/^[.,;!?\n।॥]+$/.test(part)) {
+        clause++;
+        return;
+      }
+      // Letters and vowel signs from any script, so Devanagari signs aren't stripped away
+      const word = part.replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+      if (!word) return;
+      if (CLAUSE_BREAKS.has(word)) {
+        clause++;
+        return;
+      }
+      tokens.push({ raw: word, stemmed: stem(word), clause });
+    });
+  return tokens;
+};
+
+// Only a negation that directly governs the match counts: "no bleeding", "not bleeding", "hasn't had any bleeding"
+const isNegated = (tokens: Token[], start: number, end: number): boolean => {
+  for (let i = start - 1; i >= Math.max(0, start - NEGATION_WINDOW); i--) {
+    if (tokens[i].clause !== tokens[start].clause) break;
+    if (NEGATIONS.has(tokens[i].raw)) return true;
+    if (!NEGATION_FILLERS.has(tokens[i].raw)) break;
+  }
+  for (let i = end + 1; i < Math.min(tokens.length, end + 1 + NEGATION_WINDOW); i++) {
+    if (tokens[i].clause !== tokens[end].clause) return false;
+    if (TRAILING_NEGATIONS.has(tokens[i].raw)) return true;
+    if (!TRAILING_FILLERS.has(tokens[i].raw)) return false;
+  }
+  return false;
+};
+
+// Finds the trigger's words in order, allowing small gaps, and returns the span of the first un-negated hit
+const findTrigger = (tokens: Token[], trigger: string): [number, number] | null => {
+  const words = foldText(trigger).split(/\s+/).map(stem);
+  for (let start = 0; start < tokens.length; start++) {
+    if (tokens[start].stemmed !== words[0]) continue;
+    let position = start;
+    let matched = 1;
+    while (matched < words.length) {
+      const next = tokens.findIndex((token, i) =>
+        i > position && i <= position + MAX_GAP + 1 && token.clause === tokens[start].clause && token.stemmed === words[matched]
+      );
+      if (next === -1) break;
+      position = next;
+      matched++;
+    }
+    if (matched === words.length && !isNegated(tokens, start, position)) return [start, position];
+  }
+  return null;
+};
+
+// ==================== THRESHOLDS ====================
+// Reads temperatures like "fever of 103", "temp 39.5C", "बुखार 103" or "102.4 °F" and returns them in °F
+const TEMPERATURE_PATTERN = /(?:fever|temp(?:erature)?|बुखार|ताप|bukhar)\D{0,15}?(\d{2,3}(?:\.\d+)?)\s*°?\s*([cf])?\b|(\d{2,3}(?:\.\d+)?)\s*°?\s*([cf])\b/gi;
+
+export const extractTemperaturesF = (text: string): number[] => {
+  const readings: number[] = [];
+  for (const match of text.matchAll(TEMPERATURE_PATTERN)) {
+    const value = parseFloat(match[1] ?? match[3]);
+    const unit = (match[2] ?? match[4] ?? '').toLowerCase();
+    // Without a unit, anything under 45 can only be Celsius
+    const isCelsius = unit === 'c' || (!unit && value < 45);
+    const fahrenheit = isCelsius ? value * 9 / 5 + 32 : value;
+    if (fahrenheit >= 90 && fahrenheit <= 115) readings.push(Math.round(fahrenheit * 10) / 10);
+  }
+  return readings;
+};
+
+const meetsThreshold = (symptom: Symptom, text: string): string | null => {
+  const threshold = symptom.threshold;
+  if (!threshold || threshold.measure !== 'temperature' || threshold.min === undefined) return null;
+  const reading = extractTemperaturesF(text).find(value => value >= threshold.min!);
+  return reading !== undefined ? `${reading}°F` : null;
+};
+
+// ==================== DETECTION ====================
+// Deterministic and offline: runs before any network call so urgent signs get an instant answer
+export const detectRedFlags = (text: string, emergencySymptoms: Symptom[]): RedFlagMatch[] => {
+  const tokens = tokenize(text);
+  const matches: RedFlagMatch[] = [];
+
+  emergencySymptoms.forEach(symptom => {
+    // A sign with a numeric bound ("Fever ≥ 102°F") is matched by its threshold, not by its words.
+    // Translated signs count too, so "खूप जास्त रक्तस्राव" is caught like "heavy bleeding".
+    const signs = symptom.threshold
+      ? []
+      : [symptom.sign, ...Object.values(symptom.translations || {}).map(translation => translation.sign || '')];
+    const signPhrases = signs.map(sign => sign.replace(/[^\p{L}\p{M}\s]/gu, ' ').replace(/\s+/g, ' ').trim());
+    const triggers = [...signPhrases, ...(symptom.triggers || [])];
+    for (const trigger of triggers) {
+      if (!trigger) continue;
+      const span = findTrigger(tokens, trigger);
+      if (span) {
+        matches.push({ symptom, matchedText: tokens.slice(span[0], span[1] + 1).map(t => t.raw).join(' ') });
+        return;
+      }
+    }
+    const reading = meetsThreshold(symptom, text);
+    if (reading) matches.push({ symptom, matchedText: reading });
+  });
+
+  return matches;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VITAL_THRESHOLDS, VITAL_SIGNS, VitalEntry, VitalReading, assessVital, describeVital, findRapidWeightGain, formatGlucose, toMgdl } from './vitals';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+const thresholds = DEFAULT_VITAL_THRESHOLDS;
+
+const vital = (reading: VitalReading, date: string = '2026-04-10', id: string = date): VitalEntry =>
+  ({ id, date, time: '08:00', notes: '', createdAt: 0, ...reading });
+
+const signsFor = (entry: VitalEntry, entries: VitalEntry[] = [entry]) =>
+  assessVital(entry, entries, thresholds, 'en').map(alert => alert.sign);
+
+describe('blood pressure', () => {
+  it.each([
+    [120, 80, []],
+    [139, 89, []],
+    [140, 85, [VITAL_SIGNS.highBloodPressure]],
+    [130, 90, [VITAL_SIGNS.highBloodPressure]],
+    [160, 95, [VITAL_SIGNS.severeBloodPressure]],
+    [150, 110, [VITAL_SIGNS.severeBloodPressure]]
+  ])('%s/%s', (systolic, diastolic, expected) => {
+    expect(signsFor(vital({ kind: 'bloodPressure', systolic, diastolic }))).toEqual(expected);
+  });
+});
+
+describe('glucose', () => {
+  it.each([
+    ['fasting', 94, []],
+    ['fasting', 95, [VITAL_SIGNS.highGlucose]],
+    ['oneHour', 139, []],
+    ['oneHour', 140, [VITAL_SIGNS.highGlucose]],
+    ['twoHour', 120, [VITAL_SIGNS.highGlucose]],
+    ['fasting', 65, [VITAL_SIGNS.lowGlucose]]
+  ] as const)('%s %s mg/dL', (timing, mgdl, expected) => {
+    expect(signsFor(vital({ kind: 'glucose', mgdl, timing }))).toEqual(expected);
+  });
+
+  it('escalates the second high reading within 7 days', () => {
+    const first = vital({ kind: 'glucose', mgdl: 100, timing: 'fasting' }, '2026-04-04');
+    const second = vital({ kind: 'glucose', mgdl: 150, timing: 'oneHour' }, '2026-04-10');
+    expect(signsFor(second, [first, second])).toEqual([VITAL_SIGNS.repeatedHighGlucose]);
+
+    const older = vital({ kind: 'glucose', mgdl: 100, timing: 'fasting' }, '2026-04-03');
+    expect(signsFor(second, [older, second])).toEqual([VITAL_SIGNS.highGlucose]);
+  });
+
+  it('converts mmol/L', () => {
+    expect(toMgdl(5.3, 'mmol')).toBeCloseTo(95.4);
+    expect(formatGlucose(95.4, 'mmol', 'en')).toBe('5.3 mmol/L');
+  });
+
+  it('formats readings with Marathi digits', () => {
+    expect(formatGlucose(95.4, 'mmol', 'mr')).toBe('५.३ mmol/L');
+    expect(describeVital(vital({ kind: 'bloodPressure', systolic: 128, diastolic: 84 }), 'mgdl', 'mr')).toBe('१२८/८४ mmHg');
+  });
+});
+
+describe('swelling', () => {
+  it('flags sudden face or hand swelling and any one-sided leg swelling', () => {
+    expect(signsFor(vital({ kind: 'swelling', areas: ['feet'], sudden: true }))).toEqual([]);
+    expect(signsFor(vital({ kind: 'swelling', areas: ['hands'], sudden: false }))).toEqual([]);
+    expect(signsFor(vital({ kind: 'swelling', areas: ['face', 'oneLeg'], sudden: true })))
+      .toEqual([VITAL_SIGNS.faceHandSwelling, VITAL_SIGNS.legSwelling]);
+  });
+});
+
+describe('findRapidWeightGain', () => {
+  const weighIn = (date: string, weightKg: number) => ({ id: date, date, weightKg });
+
+  it('flags 2 kg or more within 7 days', () => {
+    expect(findRapidWeightGain([weighIn('2026-04-03', 60), weighIn('2026-04-10', 62)], thresholds, 'kg', 'en')?.sign)
+      .toBe(VITAL_SIGNS.weightGain);
+    expect(findRapidWeightGain([weighIn('2026-04-03', 60), weighIn('2026-04-10', 61.9)], thresholds, 'kg', 'en')).toBeNull();
+    expect(findRapidWeightGain([weighIn('2026-04-02', 60), weighIn('2026-04-10', 62)], thresholds, 'kg', 'en')).toBeNull();
+  });
+});
+
+describe('knowledge base', () => {
+  it('has a sign for every vital alert', () => {
+    const signs = loadTestKnowledgeBase().symptomTroubleshooting.categories
+      .flatMap(category => category.symptoms)
+      .map(symptom => symptom.sign);
+    expect(signs).toEqual(expect.arrayContaining(Object.values(VITAL_SIGNS)));
+  });
+});
@@ -0,0 +1,255 @@
+import { WeighIn, WeightUnit, formatWeight } from './weightGain';
+import { addDays, parseLocalDate, toDateInputValue } from './gestationalAge';
+import { createId } from './conversations';
+import { Locale, MessageKey, formatNumber, translate } from './i18n';
+import { hasFields, isRecord, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type VitalKind = 'bloodPressure' | 'glucose' | 'swelling';
+export type GlucoseTiming = 'fasting' | 'oneHour' | 'twoHour';
+export type GlucoseUnit = 'mgdl' | 'mmol';
+export type SwellingArea = 'feet' | 'hands' | 'face' | 'oneLeg';
+
+type VitalBase = {
+  id: string;
+  // Local calendar date (YYYY-MM-DD) and time (HH:MM)
+  date: string;
+  time: string;
+  notes: string;
+  createdAt: number;
+};
+
+export type VitalReading =
+  | { kind: 'bloodPressure'; systolic: number; diastolic: number }
+  // Always stored in mg/dL; GlucoseUnit only changes what's shown
+  | { kind: 'glucose'; mgdl: number; timing: GlucoseTiming }
+  | { kind: 'swelling'; areas: SwellingArea[]; sudden: boolean };
+
+export type VitalEntry = VitalBase & VitalReading;
+
+// Readings at or above these count as high; glucose values are in mg/dL
+export type VitalThresholds = {
+  systolic: number;
+  diastolic: number;
+  severeSystolic: number;
+  severeDiastolic: number;
+  fastingGlucose: number;
+  oneHourGlucose: number;
+  twoHourGlucose: number;
+  // Below this counts as low
+  lowGlucose: number;
+  // Gain within any 7 days
+  weeklyWeightGainKg: number;
+  glucoseUnit: GlucoseUnit;
+};
+
+export type VitalsData = {
+  entries: VitalEntry[];
+  thresholds: VitalThresholds;
+};
+
+export type VitalAlert = {
+  // The symptomTroubleshooting sign this reading points to
+  sign: string;
+  message: string;
+};
+
+// ==================== CONSTANTS ====================
+// ACOG: 140/90 is gestational hypertension, 160/110 severe; glucose targets from ACOG/ADA for gestational diabetes
+export const DEFAULT_VITAL_THRESHOLDS: VitalThresholds = {
+  systolic: 140,
+  diastolic: 90,
+  severeSystolic: 160,
+  severeDiastolic: 110,
+  fastingGlucose: 95,
+  oneHourGlucose: 140,
+  twoHourGlucose: 120,
+  lowGlucose: 70,
+  weeklyWeightGainKg: 2,
+  glucoseUnit: 'mgdl'
+};
+
+// Each alert ties back to one of these knowledge base signs
+export const VITAL_SIGNS = {
+  highBloodPressure: 'High blood pressure reading',
+  severeBloodPressure: 'Severely high blood pressure',
+  highGlucose: 'Blood sugar above target',
+  repeatedHighGlucose: 'Blood sugar often above target',
+  lowGlucose: 'Low blood sugar',
+  weightGain: 'Sudden weight gain',
+  faceHandSwelling: 'Sudden face/hand swelling',
+  legSwelling: 'Leg pain with swelling'
+};
+
+export const GLUCOSE_TIMING_LABELS: Record<GlucoseTiming, MessageKey> = {
+  fasting: 'vitals.timing.fasting',
+  oneHour: 'vitals.timing.oneHour',
+  twoHour: 'vitals.timing.twoHour'
+};
+
+export const SWELLING_AREA_LABELS: Record<SwellingArea, MessageKey> = {
+  feet: 'vitals.area.feet',
+  hands: 'vitals.area.hands',
+  face: 'vitals.area.face',
+  oneLeg: 'vitals.area.oneLeg'
+};
+
+// Two high readings in a week is the usual prompt to review gestational diabetes treatment
+const REPEATED_HIGH_GLUCOSE_COUNT = 2;
+const REPEATED_HIGH_GLUCOSE_DAYS = 7;
+
+// ==================== UNITS ====================
+const MGDL_PER_MMOL = 18;
+
+export const toMgdl = (value: number, unit: GlucoseUnit): number => (unit === 'mmol' ? value * MGDL_PER_MMOL : value);
+export const fromMgdl = (mgdl: number, unit: GlucoseUnit): number => (unit === 'mmol' ? mgdl / MGDL_PER_MMOL : mgdl);
+
+export const formatGlucose = (mgdl: number, unit: GlucoseUnit, locale: Locale): string =>
+  unit === 'mmol'
+    ? `${formatNumber(fromMgdl(mgdl, unit), locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} mmol/L`
+    : `${formatNumber(Math.round(mgdl), locale)} mg/dL`;
+
+// "128/84"
+const formatBloodPressure = (systolic: number, diastolic: number, locale: Locale): string =>
+  `${formatNumber(systolic, locale)}/${formatNumber(diastolic, locale)}`;
+
+export const glucoseTarget = (timing: GlucoseTiming, thresholds: VitalThresholds): number =>
+  timing === 'fasting' ? thresholds.fastingGlucose : timing === 'oneHour' ? thresholds.oneHourGlucose : thresholds.twoHourGlucose;
+
+// ==================== ALERTS ====================
+const isHighGlucose = (entry: VitalEntry, thresholds: VitalThresholds): boolean =>
+  entry.kind === 'glucose' && entry.mgdl >= glucoseTarget(entry.timing, thresholds);
+
+// Alerts for one entry; `entries` lets a high glucose reading count the week's other highs
+export const assessVital = (entry: VitalEntry, entries: VitalEntry[], thresholds: VitalThresholds, locale: Locale): VitalAlert[] => {
+  switch (entry.kind) {
+    case 'bloodPressure': {
+      const reading = formatBloodPressure(entry.systolic, entry.diastolic, locale);
+      if (entry.systolic >= thresholds.severeSystolic || entry.diastolic >= thresholds.severeDiastolic) {
+        return [{
+          sign: VITAL_SIGNS.severeBloodPressure,
+          message: translate(locale, 'vitals.alert.severeBloodPressure', {
+            reading,
+            limit: formatBloodPressure(thresholds.severeSystolic, thresholds.severeDiastolic, locale)
+          })
+        }];
+      }
+      if (entry.systolic >= thresholds.systolic || entry.diastolic >= thresholds.diastolic) {
+        return [{
+          sign: VITAL_SIGNS.highBloodPressure,
+          message: translate(locale, 'vitals.alert.highBloodPressure', { reading, limit: formatBloodPressure(thresholds.systolic, thresholds.diastolic, locale) })
+        }];
+      }
+      return [];
+    }
+    case 'glucose': {
+      const value = formatGlucose(entry.mgdl, thresholds.glucoseUnit, locale);
+      if (entry.mgdl < thresholds.lowGlucose) {
+        return [{
+          sign: VITAL_SIGNS.lowGlucose,
+          message: translate(locale, 'vitals.alert.lowGlucose', { value })
+        }];
+      }
+      if (!isHighGlucose(entry, thresholds)) return [];
+      const target = formatGlucose(glucoseTarget(entry.timing, thresholds), thresholds.glucoseUnit, locale);
+      const timing = translate(locale, GLUCOSE_TIMING_LABELS[entry.timing]).toLowerCase();
+      const day = parseLocalDate(entry.date);
+      const weekStart = day ? toDateInputValue(addDays(day, 1 - REPEATED_HIGH_GLUCOSE_DAYS)) : entry.date;
+      const highsThisWeek = entries.filter(other =>
+        other.date >= weekStart && other.date <= entry.date && isHighGlucose(other, thresholds)
+      ).length;
+      return highsThisWeek >= REPEATED_HIGH_GLUCOSE_COUNT
+        ? [{
+          sign: VITAL_SIGNS.repeatedHighGlucose,
+          message: translate(locale, 'vitals.alert.repeatedHighGlucose', { value, timing, target, count: highsThisWeek })
+        }]
+        : [{
+          sign: VITAL_SIGNS.highGlucose,
+          message: translate(locale, 'vitals.alert.highGlucose', { value, timing, target })
+        }];
+    }
+    case 'swelling': {
+      const alerts: VitalAlert[] = [];
+      if (entry.sudden && (entry.areas.includes('face') || entry.areas.includes('hands'))) {
+        alerts.push({
+          sign: VITAL_SIGNS.faceHandSwelling,
+          message: translate(locale, 'vitals.alert.faceHandSwelling')
+        });
+      }
+      if (entry.areas.includes('oneLeg')) {
+        alerts.push({
+          sign: VITAL_SIGNS.legSwelling,
+          message: translate(locale, 'vitals.alert.legSwelling')
+        });
+      }
+      return alerts;
+    }
+  }
+};
+
+// The largest gain up to the latest weigh-in from any weigh-in in the 7 days before it
+export const findRapidWeightGain = (
+  weighIns: WeighIn[],
+  thresholds: VitalThresholds,
+  unit: WeightUnit,
+  locale: Locale
+): VitalAlert | null => {
+  const sorted = [...weighIns].sort((a, b) => a.date.localeCompare(b.date));
+  const latest = sorted[sorted.length - 1];
+  const latestDay = latest && parseLocalDate(latest.date);
+  if (!latest || !latestDay) return null;
+  const weekStart = toDateInputValue(addDays(latestDay, -7));
+  const gainKg = Math.max(0, ...sorted
+    .filter(weighIn => weighIn.date >= weekStart && weighIn.date < latest.date)
+    .map(weighIn => latest.weightKg - weighIn.weightKg));
+  if (gainKg < thresholds.weeklyWeightGainKg) return null;
+  return {
+    sign: VITAL_SIGNS.weightGain,
+    message: translate(locale, 'vitals.alert.weightGain', { gain: formatWeight(gainKg, unit, locale) })
+  };
+};
+
+// ==================== HISTORY ====================
+export const sortVitals = (entries: VitalEntry[]): VitalEntry[] =>
+  [...entries].sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+
+// "128/84", "102 mg/dL fasting" or "Face, Hands (sudden)"
+export const describeVital = (entry: VitalEntry, unit: GlucoseUnit, locale: Locale): string => {
+  switch (entry.kind) {
+    case 'bloodPressure':
+      return `${formatBloodPressure(entry.systolic, entry.diastolic, locale)} mmHg`;
+    case 'glucose':
+      return `${formatGlucose(entry.mgdl, unit, locale)} ${translate(locale, GLUCOSE_TIMING_LABELS[entry.timing]).toLowerCase()}`;
+    case 'swelling': {
+      const areas = entry.areas.map(area => translate(locale, SWELLING_AREA_LABELS[area])).join(', ');
+      return entry.sudden ? translate(locale, 'vitals.sudden', { areas }) : areas;
+    }
+  }
+};
+
+// ==================== PERSISTENCE ====================
+const VITALS_STORAGE_KEY = 'pregnancyVitals';
+
+const isVitalEntry = (value: unknown): value is VitalEntry =>
+  hasFields(value, { id: 'string', kind: 'string', date: 'string', time: 'string', createdAt: 'number' });
+
+// Thresholds added since the data was saved come from the defaults
+const validateVitals = (value: unknown): VitalsData | null =>
+  isRecord(value)
+    ? {
+      entries: listOf(isVitalEntry)(value.entries) || [],
+      thresholds: { ...DEFAULT_VITAL_THRESHOLDS, ...(isRecord(value.thresholds) ? value.thresholds : {}) }
+    }
+    : null;
+
+export const loadVitals = (): VitalsData =>
+  loadJson(VITALS_STORAGE_KEY, { entries: [], thresholds: DEFAULT_VITAL_THRESHOLDS }, validateVitals);
+
+export const saveVitals = (data: VitalsData) => saveJson(VITALS_STORAGE_KEY, data);
+
+export const createVitalEntry = (fields: Omit<VitalBase, 'id' | 'createdAt'>, reading: VitalReading): VitalEntry => ({
+  ...fields,
+  ...reading,
+  id: createId(),
+  createdAt: Date.now()
+});
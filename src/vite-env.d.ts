@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: 'proxy' | 'local';
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_CHAT_MODEL?: string;
+  readonly VITE_LLM_EMBEDDING_MODEL?: string;
+  readonly VITE_LLM_TEMPERATURE?: string;
+  readonly VITE_LLM_MAX_TOKENS?: string;
+  readonly VITE_RETRIEVAL_MIN_SIMILARITY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
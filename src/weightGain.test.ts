@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { addWeighIn, calculateBmi, expectedGainAt, findGainBand, formatWeight, getWeightStatus, toKg } from './weightGain';
+import { loadTestKnowledgeBase } from './testKnowledgeBase';
+
+const recommendations = loadTestKnowledgeBase().nutritionalRequirements.weightGainRecommendations;
+
+const bandName = (bmi: number, babies?: number) => findGainBand(recommendations, bmi, babies)?.recommendation.prePregnancyBMI ?? null;
+
+describe('calculateBmi', () => {
+  it('uses kg and metres', () => {
+    expect(calculateBmi({ heightCm: 160, prePregnancyWeightKg: 64, unit: 'kg' })).toBeCloseTo(25);
+  });
+});
+
+describe('formatWeight', () => {
+  it('keeps one decimal in the chosen locale', () => {
+    expect(formatWeight(12.34, 'kg', 'en')).toBe('12.3 kg');
+    expect(formatWeight(12, 'kg', 'mr')).toBe('१२.० kg');
+  });
+});
+
+describe('findGainBand', () => {
+  it.each([
+    [17, 'Underweight'],
+    [18.5, 'Healthy weight'],
+    [24.95, 'Healthy weight'],
+    [25, 'Overweight'],
+    [29.95, 'Overweight'],
+    [30, 'Obese'],
+    [42, 'Obese']
+  ])('puts BMI %s in %s', (bmi, expected) => {
+    expect(bandName(bmi)).toBe(expected);
+  });
+
+  it('converts the pound ranges to kg', () => {
+    const band = findGainBand(recommendations, 22);
+    expect(band?.minKg).toBeCloseTo(toKg(25, 'lb'));
+    expect(band?.maxKg).toBeCloseTo(toKg(35, 'lb'));
+  });
+
+  it('uses the twin range, and has no guideline for underweight twins or triplets', () => {
+    expect(findGainBand(recommendations, 22, 2)?.maxKg).toBeCloseTo(toKg(54, 'lb'));
+    expect(bandName(17, 2)).toBeNull();
+    expect(bandName(22, 3)).toBeNull();
+  });
+});
+
+describe('expectedGainAt', () => {
+  const band = findGainBand(recommendations, 22)!;
+
+  it('allows 0.5-2 kg by the end of the first trimester and the full range at 40 weeks', () => {
+    expect(expectedGainAt(band, 13)).toEqual({ minKg: 0.5, maxKg: 2 });
+    expect(expectedGainAt(band, 40).minKg).toBeCloseTo(band.minKg);
+    expect(expectedGainAt(band, 45).maxKg).toBeCloseTo(band.maxKg);
+  });
+
+  it('rates a gain against the curve for that week', () => {
+    expect(getWeightStatus(band, 20, 1)).toBe('below');
+    expect(getWeightStatus(band, 20, 4)).toBe('within');
+    expect(getWeightStatus(band, 20, 9)).toBe('above');
+  });
+});
+
+describe('addWeighIn', () => {
+  it('keeps one weigh-in per day, in date order', () => {
+    const first = addWeighIn([], '2026-02-02', 60);
+    const both = addWeighIn(first, '2026-02-01', 59.5);
+    const replaced = addWeighIn(both, '2026-02-02', 60.4);
+    expect(replaced.map(weighIn => [weighIn.date, weighIn.weightKg])).toEqual([['2026-02-01', 59.5], ['2026-02-02', 60.4]]);
+  });
+});
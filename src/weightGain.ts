@@ -0,0 +1,129 @@
+import { WeightGainRecommendation } from './knowledgeBaseSchema';
+import { createId } from './conversations';
+import { Locale, formatNumber } from './i18n';
+import { hasFields, isRecord, listOf, loadJson, saveJson } from './storage';
+
+// ==================== TYPES ====================
+export type WeightUnit = 'kg' | 'lb';
+
+export type WeightProfile = {
+  heightCm: number;
+  prePregnancyWeightKg: number;
+  unit: WeightUnit;
+};
+
+export type WeighIn = {
+  id: string;
+  // Local calendar date (YYYY-MM-DD)
+  date: string;
+  weightKg: number;
+};
+
+export type WeightTrackerData = {
+  profile: WeightProfile | null;
+  weighIns: WeighIn[];
+};
+
+export type GainBand = {
+  recommendation: WeightGainRecommendation;
+  // Total gain over the pregnancy, in kg
+  minKg: number;
+  maxKg: number;
+};
+
+export type WeightStatus = 'below' | 'within' | 'above';
+
+// ==================== UNITS ====================
+const KG_PER_LB = 0.45359237;
+
+export const toKg = (value: number, unit: WeightUnit): number => (unit === 'lb' ? value * KG_PER_LB : value);
+export const fromKg = (kg: number, unit: WeightUnit): number => (unit === 'lb' ? kg / KG_PER_LB : kg);
+export const formatWeight = (kg: number, unit: WeightUnit, locale: Locale): string =>
+  `${formatNumber(fromKg(kg, unit), locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} ${unit}`;
+
+export const calculateBmi = (profile: WeightProfile): number =>
+  profile.prePregnancyWeightKg / Math.pow(profile.heightCm / 100, 2);
+
+// ==================== RECOMMENDATION BANDS ====================
+// Reads the knowledge base's "<18.5", "18.5-24.9" and "≥30" style ranges; only the lower bound matters for lookup
+const parseLowerBound = (range: string): number => {
+  if (/^\s*</.test(range)) return -Infinity;
+  const match = range.match(/(\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : NaN;
+};
+
+// "28-40" -> [28, 40]; a single number is both ends
+const parseRange = (value: string): [number, number] | null => {
+  const numbers = value.match(/\d+(?:\.\d+)?/g)?.map(parseFloat);
+  if (!numbers || numbers.length === 0) return null;
+  return [numbers[0], numbers[numbers.length - 1]];
+};
+
+const unitFromLabel = (label: string): WeightUnit => (/^(kg|kilo)/i.test(label.trim()) ? 'kg' : 'lb');
+
+// The band is the highest one whose lower bound the BMI reaches, so 24.95 falls in "18.5-24.9" rather than nowhere.
+// Twins use the band's twin range; there's no guideline for triplets or for twins in some bands.
+export const findGainBand = (recommendations: WeightGainRecommendation[], bmi: number, babies: number = 1): GainBand | null => {
+  const candidates = recommendations
+    .map(recommendation => ({ recommendation, lowerBound: parseLowerBound(recommendation.bmiRange) }))
+    .filter(candidate => !isNaN(candidate.lowerBound) && bmi >= candidate.lowerBound)
+    .sort((a, b) => b.lowerBound - a.lowerBound);
+  if (candidates.length === 0) return null;
+
+  const { recommendation } = candidates[0];
+  const range = babies === 2 ? recommendation.twinGain : recommendation.recommendedGain;
+  if (babies > 2 || !range) return null;
+  const gain = parseRange(range);
+  if (!gain) return null;
+  const unit = unitFromLabel(recommendation.unit);
+  return { recommendation, minKg: toKg(gain[0], unit), maxKg: toKg(gain[1], unit) };
+};
+
+// ==================== EXPECTED GAIN BY WEEK ====================
+// Roughly 0.5-2 kg in the first trimester for every band, then a steady weekly rate up to the total at 40 weeks
+const FIRST_TRIMESTER_END_WEEK = 13;
+const FULL_TERM_WEEK = 40;
+const FIRST_TRIMESTER_GAIN_KG: [number, number] = [0.5, 2];
+
+export const expectedGainAt = (band: GainBand, week: number): { minKg: number; maxKg: number } => {
+  const clamped = Math.max(0, Math.min(FULL_TERM_WEEK, week));
+  const interpolate = (firstTrimester: number, total: number) => {
+    if (clamped <= FIRST_TRIMESTER_END_WEEK) return firstTrimester * (clamped / FIRST_TRIMESTER_END_WEEK);
+    const progress = (clamped - FIRST_TRIMESTER_END_WEEK) / (FULL_TERM_WEEK - FIRST_TRIMESTER_END_WEEK);
+    return firstTrimester + (total - firstTrimester) * progress;
+  };
+  return {
+    minKg: interpolate(FIRST_TRIMESTER_GAIN_KG[0], band.minKg),
+    maxKg: interpolate(FIRST_TRIMESTER_GAIN_KG[1], band.maxKg)
+  };
+};
+
+export const getWeightStatus = (band: GainBand, week: number, gainKg: number): WeightStatus => {
+  const expected = expectedGainAt(band, week);
+  if (gainKg < expected.minKg) return 'below';
+  if (gainKg > expected.maxKg) return 'above';
+  return 'within';
+};
+
+// ==================== PERSISTENCE ====================
+const WEIGHT_STORAGE_KEY = 'pregnancyWeightTracker';
+
+const isWeighIn = (value: unknown): value is WeighIn => hasFields(value, { id: 'string', date: 'string', weightKg: 'number' });
+
+const isWeightProfile = (value: unknown): value is WeightProfile =>
+  hasFields(value, { heightCm: 'number', prePregnancyWeightKg: 'number', unit: 'string' });
+
+const validateWeightTracker = (value: unknown): WeightTrackerData | null =>
+  isRecord(value)
+    ? { profile: isWeightProfile(value.profile) ? value.profile : null, weighIns: listOf(isWeighIn)(value.weighIns) || [] }
+    : null;
+
+export const loadWeightTracker = (): WeightTrackerData =>
+  loadJson(WEIGHT_STORAGE_KEY, { profile: null, weighIns: [] }, validateWeightTracker);
+
+export const saveWeightTracker = (data: WeightTrackerData) => saveJson(WEIGHT_STORAGE_KEY, data);
+
+// One weigh-in per day; logging again the same day replaces the earlier value
+export const addWeighIn = (weighIns: WeighIn[], date: string, weightKg: number): WeighIn[] =>
+  [...weighIns.filter(weighIn => weighIn.date !== date), { id: createId(), date, weightKg }]
+    .sort((a, b) => a.date.localeCompare(b.date));
@@ -1,10 +1,53 @@
 // vite.config.js
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
 
-export default defineConfig({
-  plugins: [react()],
-  build: {
-    outDir: 'dist'  // or 'build' if you're using that
+// Serves the api/ handlers during `vite dev` the same way Vercel does in production
+const apiRoutes = () => ({
+  name: 'api-routes',
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      const match = req.url && req.url.match(/^\/api\/(chat|embeddings|health)(?:\?.*)?$/)
+      if (!match) return next()
+      try {
+        const route = await server.ssrLoadModule(`/api/${match[1]}.ts`)
+        await route.default(req, res)
+      } catch (error) {
+        next(error)
+      }
+    })
+  }
+})
+
+// Lists the built files for the service worker to precache, so the app opens offline (see public/sw.js).
+// The worker gets a build id from the hashed file names: a changed worker is what makes browsers install the new build.
+const precacheManifest = () => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(fileName => !fileName.endsWith('.map'))
+    const manifest = JSON.stringify(files.map(fileName => `/${fileName}`))
+    const buildId = createHash('sha256').update(manifest).digest('hex').slice(0, 12)
+    this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: manifest })
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: readFileSync(new URL('./public/sw.js', import.meta.url), 'utf8').replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`)
+    })
+  }
+})
+
+export default defineConfig(({ mode }) => {
+  // Give the api/ handlers their server-side variables (OPENAI_API_KEY etc.) from .env files.
+  // Only VITE_-prefixed variables ever reach the browser bundle.
+  process.env = { ...loadEnv(mode, process.cwd(), ''), ...process.env }
+
+  return {
+    plugins: [react(), apiRoutes(), precacheManifest()],
+    build: {
+      outDir: 'dist'  // or 'build' if you're using that
+    }
   }
 })